@@ -5,18 +5,25 @@ import App from './App';
 // Mock the sport detection utility
 vi.mock('./utils/sportDetection', () => ({
   detectSportType: vi.fn().mockResolvedValue('cycling'),
+  detectVideoProfile: vi.fn().mockResolvedValue({ sport: 'cycling', view: 'side' }),
 }));
 
 // Mock the components
 vi.mock('./components/BikeFitAnalysis', () => ({
-  default: ({ videoFile }: { videoFile: File }) => (
-    <div data-testid="bike-fit-analysis">Bike Fit Analysis: {videoFile.name}</div>
+  default: ({ videoFile, ruleProfile }: { videoFile: File | null; ruleProfile?: { id: string } }) => (
+    <div data-testid="bike-fit-analysis">Bike Fit Analysis: {videoFile?.name} ({ruleProfile?.id})</div>
   ),
 }));
 
 vi.mock('./components/RunningFormAnalysis', () => ({
-  default: ({ videoFile }: { videoFile: File }) => (
-    <div data-testid="running-form-analysis">Running Form Analysis: {videoFile.name}</div>
+  default: ({ videoFile }: { videoFile: File | null }) => (
+    <div data-testid="running-form-analysis">Running Form Analysis: {videoFile?.name}</div>
+  ),
+}));
+
+vi.mock('./components/FrontalAnalysis', () => ({
+  default: ({ videoFile, sport }: { videoFile: File | null; sport: string }) => (
+    <div data-testid="frontal-analysis">Frontal Analysis ({sport}): {videoFile?.name}</div>
   ),
 }));
 
@@ -32,7 +39,7 @@ describe('App', () => {
 
   it('should render the subtitle with file constraints', () => {
     render(<App />);
-    expect(screen.getByText(/max 30 seconds, 20MB/i)).toBeInTheDocument();
+    expect(screen.getByText(/max 200MB; longer than 30 seconds, pick the segments to analyze/i)).toBeInTheDocument();
   });
 
   it('should render file input', () => {
@@ -55,19 +62,18 @@ describe('App', () => {
     });
   });
 
-  it('should show error for file larger than 20MB', async () => {
+  it('should show error for file larger than 200MB', async () => {
     render(<App />);
     const fileInput = screen.getByLabelText(/choose video file/i) as HTMLInputElement;
 
-    // Create a mock video file larger than 20MB
-    const largeFile = new File(['x'.repeat(21 * 1024 * 1024)], 'large-video.mp4', {
-      type: 'video/mp4',
-    });
+    // Mock video file reporting more than 200MB, without allocating it
+    const largeFile = new File(['x'], 'large-video.mp4', { type: 'video/mp4' });
+    Object.defineProperty(largeFile, 'size', { value: 201 * 1024 * 1024 });
 
     fireEvent.change(fileInput, { target: { files: [largeFile] } });
 
     await waitFor(() => {
-      expect(screen.getByText(/video size must be less than 20MB/i)).toBeInTheDocument();
+      expect(screen.getByText(/video size must be less than 200MB/i)).toBeInTheDocument();
     });
   });
 
@@ -168,4 +174,180 @@ describe('App', () => {
 
     createElementSpy.mockRestore();
   });
+
+  it('should require segments before analyzing a long recording', async () => {
+    const originalCreateElement = document.createElement.bind(document);
+
+    // Mock a 90 second video element
+    const mockVideo = originalCreateElement('video');
+    Object.defineProperty(mockVideo, 'duration', { value: 90, writable: true });
+
+    const createElementSpy = vi.spyOn(document, 'createElement').mockImplementation((tagName) => {
+      if (tagName === 'video') {
+        setTimeout(() => {
+          mockVideo.dispatchEvent(new Event('loadedmetadata'));
+        }, 0);
+        return mockVideo;
+      }
+      return originalCreateElement(tagName);
+    });
+
+    render(<App />);
+    const fileInput = screen.getByLabelText(/choose video file/i) as HTMLInputElement;
+
+    const file = new File(['video content'], 'long-session.mp4', { type: 'video/mp4' });
+    fireEvent.change(fileInput, { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(screen.getByText(/segments to analyze/i)).toBeInTheDocument();
+    }, { timeout: 3000 });
+
+    fireEvent.click(screen.getByText(/analyze bike fit/i));
+
+    await waitFor(() => {
+      expect(screen.getByText(/select the parts of the video to analyze/i)).toBeInTheDocument();
+    });
+    expect(screen.queryByTestId('bike-fit-analysis')).not.toBeInTheDocument();
+
+    createElementSpy.mockRestore();
+  });
+
+  it('should show FrontalAnalysis when the front camera view is selected', async () => {
+    const originalCreateElement = document.createElement.bind(document);
+
+    // Mock video element
+    const mockVideo = originalCreateElement('video');
+    Object.defineProperty(mockVideo, 'duration', { value: 25, writable: true });
+
+    const createElementSpy = vi.spyOn(document, 'createElement').mockImplementation((tagName) => {
+      if (tagName === 'video') {
+        setTimeout(() => {
+          mockVideo.dispatchEvent(new Event('loadedmetadata'));
+        }, 0);
+        return mockVideo;
+      }
+      return originalCreateElement(tagName);
+    });
+
+    render(<App />);
+    const fileInput = screen.getByLabelText(/choose video file/i) as HTMLInputElement;
+
+    const file = new File(['video content'], 'test-video.mp4', { type: 'video/mp4' });
+    fireEvent.change(fileInput, { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(screen.getByLabelText(/camera view/i)).toBeInTheDocument();
+    }, { timeout: 3000 });
+
+    fireEvent.change(screen.getByLabelText(/camera view/i), { target: { value: 'front' } });
+    fireEvent.click(screen.getByText(/analyze bike fit/i));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('frontal-analysis')).toHaveTextContent('cycling');
+    });
+    expect(screen.queryByTestId('bike-fit-analysis')).not.toBeInTheDocument();
+
+    createElementSpy.mockRestore();
+  });
+
+  it('should analyze with the selected cycling discipline', async () => {
+    const originalCreateElement = document.createElement.bind(document);
+
+    // Mock video element
+    const mockVideo = originalCreateElement('video');
+    Object.defineProperty(mockVideo, 'duration', { value: 25, writable: true });
+
+    const createElementSpy = vi.spyOn(document, 'createElement').mockImplementation((tagName) => {
+      if (tagName === 'video') {
+        setTimeout(() => {
+          mockVideo.dispatchEvent(new Event('loadedmetadata'));
+        }, 0);
+        return mockVideo;
+      }
+      return originalCreateElement(tagName);
+    });
+
+    render(<App />);
+    const fileInput = screen.getByLabelText(/choose video file/i) as HTMLInputElement;
+
+    const file = new File(['video content'], 'test-video.mp4', { type: 'video/mp4' });
+    fireEvent.change(fileInput, { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(screen.getByLabelText(/cycling discipline/i)).toBeInTheDocument();
+    }, { timeout: 3000 });
+    expect(screen.queryByLabelText(/running discipline/i)).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/cycling discipline/i), { target: { value: 'time-trial' } });
+    fireEvent.click(screen.getByText(/analyze bike fit/i));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('bike-fit-analysis')).toHaveTextContent('(time-trial)');
+    });
+
+    createElementSpy.mockRestore();
+  });
+
+  it('should restore an imported session without a video', async () => {
+    render(<App />);
+    const sessionInput = screen.getByLabelText(/import saved session/i) as HTMLInputElement;
+
+    const session = {
+      format: 'sports-analysis-session',
+      version: 1,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      analysisType: 'running',
+      view: 'side',
+      video: { name: 'run.mp4', size: 100, type: 'video/mp4', duration: 10, width: 640, height: 480 },
+      frames: [{ timestamp: 0, pose: { keypoints: [] }, analysis: { angles: {} } }],
+      analysis: { angles: {}, recommendations: [], overall: 'good' },
+    };
+    const file = new File([JSON.stringify(session)], 'session.json', { type: 'application/json' });
+    // jsdom does not implement Blob.text()
+    Object.defineProperty(file, 'text', { value: () => Promise.resolve(JSON.stringify(session)) });
+    fireEvent.change(sessionInput, { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('running-form-analysis')).toBeInTheDocument();
+    });
+  });
+
+  it('should show error for an invalid session file', async () => {
+    render(<App />);
+    const sessionInput = screen.getByLabelText(/import saved session/i) as HTMLInputElement;
+
+    const file = new File(['{"format":"other"}'], 'session.json', { type: 'application/json' });
+    Object.defineProperty(file, 'text', { value: () => Promise.resolve('{"format":"other"}') });
+    fireEvent.change(sessionInput, { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(screen.getByText(/file is not an analysis session/i)).toBeInTheDocument();
+    });
+  });
+
+  it('should show and remove a loaded ghost reference', async () => {
+    render(<App />);
+    const ghostInput = screen.getByLabelText(/load ghost reference/i) as HTMLInputElement;
+
+    const session = {
+      format: 'sports-analysis-session',
+      version: 1,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      analysisType: 'bike',
+      view: 'side',
+      video: { name: 'reference-rider.mp4', size: 100, type: 'video/mp4', duration: 10, width: 640, height: 480 },
+      frames: [{ timestamp: 0, pose: { keypoints: [] }, analysis: { angles: {} } }],
+      analysis: { angles: {}, recommendations: [], overall: 'good' },
+    };
+    const file = new File([JSON.stringify(session)], 'ghost.json', { type: 'application/json' });
+    Object.defineProperty(file, 'text', { value: () => Promise.resolve(JSON.stringify(session)) });
+    fireEvent.change(ghostInput, { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(screen.getByText(/reference-rider\.mp4/)).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: /remove/i }));
+    expect(screen.queryByText(/reference-rider\.mp4/)).not.toBeInTheDocument();
+  });
 });
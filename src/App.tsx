@@ -1,12 +1,55 @@
-import { useState, ChangeEvent } from 'react';
+import { useRef, useState, ChangeEvent } from 'react';
 import './App.css';
 import BikeFitAnalysis from './components/BikeFitAnalysis';
 import RunningFormAnalysis from './components/RunningFormAnalysis';
-import { detectSportType } from './utils/sportDetection';
-import type { SportType } from './types';
+import FrontalAnalysis from './components/FrontalAnalysis';
+import AthleteProfiles from './components/AthleteProfiles';
+import AthleteHistory from './components/AthleteHistory';
+import TrendDashboard from './components/TrendDashboard';
+import VideoComparison from './components/VideoComparison';
+import RulesEditor from './components/RulesEditor';
+import LiveAnalysis from './components/LiveAnalysis';
+import VideoTrimmer from './components/VideoTrimmer';
+import { useAthleteProfiles } from './hooks/useAthleteProfiles';
+import { useRuleProfiles } from './hooks/useRuleProfiles';
+import { detectVideoProfile } from './utils/sportDetection';
+import { POSE_MODELS, DEFAULT_POSE_MODEL } from './utils/poseDetection';
+import { SMOOTHING_PRESETS } from './utils/poseSmoothing';
+import { parseSession } from './utils/sessionExport';
+import { GHOST_SEGMENT_TOLERANCE } from './utils/ghostOverlay';
+import { validateSegments, MAX_ANALYZED_SECONDS, MAX_TRIMMABLE_SECONDS } from './utils/videoSegments';
+import {
+  BIKE_RULE_PROFILES,
+  RUNNING_RULE_PROFILES,
+  DEFAULT_BIKE_PROFILE,
+  DEFAULT_RUNNING_PROFILE,
+  getRuleProfile,
+} from './utils/ruleProfiles';
+import type {
+  SportType,
+  PoseModelId,
+  SmoothingPreset,
+  CameraView,
+  CameraViewSetting,
+  AnalysisSession,
+  BikeDiscipline,
+  BikeRuleProfile,
+  RunningDiscipline,
+  RunningRuleProfile,
+  VideoSegment,
+} from './types';
 
 type AnalysisType = 'bike' | 'running' | null;
 
+// Longer recordings are larger; only the trimmed segments are analyzed
+const MAX_VIDEO_SIZE_MB = 200;
+
+const CAMERA_VIEW_LABELS: Record<CameraViewSetting, string> = {
+  auto: 'Auto-detect',
+  side: 'Side view',
+  front: 'Front view (knee tracking)',
+};
+
 function App(): JSX.Element {
   const [video, setVideo] = useState<File | null>(null);
   const [error, setError] = useState<string>('');
@@ -14,6 +57,45 @@ function App(): JSX.Element {
   const [analysisType, setAnalysisType] = useState<AnalysisType>(null);
   const [detectedSport, setDetectedSport] = useState<SportType | 'unknown' | null>(null);
   const [isDetectingSport, setIsDetectingSport] = useState<boolean>(false);
+  const [poseModel, setPoseModel] = useState<PoseModelId>(DEFAULT_POSE_MODEL);
+  const [smoothingPreset, setSmoothingPreset] = useState<SmoothingPreset>('standard');
+  const [cameraView, setCameraView] = useState<CameraViewSetting>('auto');
+  const [detectedView, setDetectedView] = useState<CameraView>('side');
+  const [session, setSession] = useState<AnalysisSession | null>(null);
+  const [compareVideo, setCompareVideo] = useState<File | null>(null);
+  const [ghostSession, setGhostSession] = useState<AnalysisSession | null>(null);
+  const [bikeDiscipline, setBikeDiscipline] = useState<BikeRuleProfile['id']>(DEFAULT_BIKE_PROFILE.id);
+  const [runningDiscipline, setRunningDiscipline] = useState<RunningRuleProfile['id']>(DEFAULT_RUNNING_PROFILE.id);
+  const [liveSport, setLiveSport] = useState<AnalysisType>(null);
+  const [videoDuration, setVideoDuration] = useState<number>(0);
+  const [segments, setSegments] = useState<VideoSegment[]>([]);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const athleteProfiles = useAthleteProfiles();
+  const ruleProfiles = useRuleProfiles();
+
+  const effectiveView: CameraView = session
+    ? session.view
+    : cameraView === 'auto' ? detectedView : cameraView;
+
+  // Optimal ranges follow the discipline chosen for the sport being analyzed
+  const bikeProfile = getRuleProfile(bikeDiscipline, 'bike', ruleProfiles.customProfiles);
+  const runningProfile = getRuleProfile(runningDiscipline, 'running', ruleProfiles.customProfiles);
+  const ruleProfile = analysisType === 'running' ? runningProfile : bikeProfile;
+  const customBikeProfiles = ruleProfiles.customProfiles.filter(profile => profile.sport === 'bike');
+  const customRunningProfiles = ruleProfiles.customProfiles.filter(profile => profile.sport === 'running');
+
+  // Whole video unless parts of it were picked in the trimmer
+  const analyzedSegments = segments.length > 0 ? segments : undefined;
+
+  // Side-by-side comparison replaces the single-video analysis
+  const isComparing = !!(compareVideo && video && !session);
+
+  // Ghost references only apply to analyses of the same sport and camera view
+  const activeGhost = ghostSession
+    && ghostSession.analysisType === analysisType
+    && ghostSession.view === effectiveView
+    ? ghostSession
+    : null;
 
   const validateVideo = (file: File): string | null => {
     // Check if file is a video
@@ -21,26 +103,29 @@ function App(): JSX.Element {
       return 'Please select a valid video file';
     }
 
-    // Check file size (20MB = 20 * 1024 * 1024 bytes)
-    const maxSize = 20 * 1024 * 1024;
+    // Check file size
+    const maxSize = MAX_VIDEO_SIZE_MB * 1024 * 1024;
     if (file.size > maxSize) {
-      return 'Video size must be less than 20MB';
+      return `Video size must be less than ${MAX_VIDEO_SIZE_MB}MB`;
     }
 
     return null;
   };
 
-  const checkVideoDuration = (file: File): Promise<void> => {
+  // Resolves the duration; recordings past the analysis limit are trimmed before analysis
+  const checkVideoDuration = (file: File, maxDuration: number = MAX_TRIMMABLE_SECONDS): Promise<number> => {
     return new Promise((resolve, reject) => {
       const video = document.createElement('video');
       video.preload = 'metadata';
 
       video.onloadedmetadata = () => {
         window.URL.revokeObjectURL(video.src);
-        if (video.duration > 30) {
-          reject('Video duration must be less than 30 seconds');
+        if (video.duration > maxDuration) {
+          reject(maxDuration >= 60
+            ? `Video duration must be less than ${maxDuration / 60} minutes`
+            : `Video duration must be less than ${maxDuration} seconds`);
         } else {
-          resolve();
+          resolve(video.duration);
         }
       };
 
@@ -58,6 +143,11 @@ function App(): JSX.Element {
     setPreview('');
     setAnalysisType(null);
     setDetectedSport(null);
+    setDetectedView('side');
+    setSession(null);
+    setCompareVideo(null);
+    setLiveSport(null);
+    setSegments([]);
 
     if (!file) {
       setVideo(null);
@@ -75,14 +165,15 @@ function App(): JSX.Element {
 
     // Check video duration
     try {
-      await checkVideoDuration(file);
+      setVideoDuration(await checkVideoDuration(file));
       setVideo(file);
       setPreview(URL.createObjectURL(file));
 
-      // Detect sport type
+      // Detect sport type and camera view
       setIsDetectingSport(true);
-      const sport = await detectSportType(file);
+      const { sport, view } = await detectVideoProfile(file);
       setDetectedSport(sport);
+      setDetectedView(view);
       setIsDetectingSport(false);
     } catch (err) {
       setError(err as string);
@@ -92,29 +183,227 @@ function App(): JSX.Element {
     }
   };
 
-  const handleBikeAnalysis = (): void => {
-    if (!video) {
-      setError('Please select a video file');
+  // Second video for side-by-side comparison with the main one
+  const handleCompareFileChange = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    setError('');
+
+    if (!file) {
+      setCompareVideo(null);
+      return;
+    }
+
+    const validationError = validateVideo(file);
+    if (validationError) {
+      setError(validationError);
+      setCompareVideo(null);
+      e.target.value = '';
       return;
     }
-    setAnalysisType('bike');
+
+    try {
+      await checkVideoDuration(file, MAX_ANALYZED_SECONDS);
+      setCompareVideo(file);
+    } catch (err) {
+      setError(err as string);
+      setCompareVideo(null);
+      e.target.value = '';
+    }
+  };
+
+  // Show saved results instead of analyzing the selected video
+  const openSession = (saved: AnalysisSession): void => {
+    // Keep the selected video only if it is the one the session was recorded from
+    if (!video || video.name !== saved.video.name || video.size !== saved.video.size) {
+      setVideo(null);
+      setPreview('');
+    }
+    setSegments([]);
+    setError('');
+    setDetectedSport(null);
+    setCompareVideo(null);
+    setLiveSport(null);
+    setSession(saved);
+    setAnalysisType(saved.analysisType);
+
+    // Judge the saved results by the discipline they were recorded for
+    if (saved.analysisType === 'bike') {
+      setBikeDiscipline(getRuleProfile(saved.ruleProfile, 'bike', ruleProfiles.customProfiles).id);
+    } else {
+      setRunningDiscipline(getRuleProfile(saved.ruleProfile, 'running', ruleProfiles.customProfiles).id);
+    }
+  };
+
+  const handleSessionImport = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      openSession(parseSession(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import session file');
+    }
+  };
+
+  // Previous session or model athlete drawn as a ghost over the video
+  const handleGhostImport = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      setGhostSession(parseSession(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import ghost reference');
+    }
+  };
+
+  // Live camera replaces any selected video or session
+  const startLiveMode = (sport: 'bike' | 'running'): void => {
+    setVideo(null);
+    setPreview('');
+    setSegments([]);
+    setError('');
+    setSession(null);
+    setAnalysisType(null);
+    setDetectedSport(null);
+    setCompareVideo(null);
+    setLiveSport(sport);
   };
 
-  const handleRunningAnalysis = (): void => {
+  const startAnalysis = (type: 'bike' | 'running'): void => {
     if (!video) {
       setError('Please select a video file');
       return;
     }
-    setAnalysisType('running');
+    const segmentError = validateSegments(segments, videoDuration);
+    if (segmentError) {
+      setError(segmentError);
+      return;
+    }
+    setError('');
+    setAnalysisType(type);
   };
 
+  // Leaving the analysis aborts its run and brings back the settings
+  const handleChangeSettings = (): void => setAnalysisType(null);
+
+  const handleBikeAnalysis = (): void => startAnalysis('bike');
+
+  const handleRunningAnalysis = (): void => startAnalysis('running');
+
+  // Model and discipline pickers shared by video and live analysis
+  const detectionSelects = (
+    <>
+      <div className="model-select">
+        <label htmlFor="pose-model">Pose model</label>
+        <select
+          id="pose-model"
+          value={poseModel}
+          onChange={(e) => setPoseModel(e.target.value as PoseModelId)}
+        >
+          {(Object.keys(POSE_MODELS) as PoseModelId[]).map(id => (
+            <option key={id} value={id}>{POSE_MODELS[id].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="model-select">
+        <label htmlFor="pose-smoothing">Smoothing</label>
+        <select
+          id="pose-smoothing"
+          value={smoothingPreset}
+          onChange={(e) => setSmoothingPreset(e.target.value as SmoothingPreset)}
+        >
+          {(Object.keys(SMOOTHING_PRESETS) as SmoothingPreset[]).map(id => (
+            <option key={id} value={id}>{SMOOTHING_PRESETS[id].label}</option>
+          ))}
+        </select>
+      </div>
+    </>
+  );
+
+  const bikeDisciplineSelect = (
+    <div className="model-select">
+      <label htmlFor="bike-discipline">Cycling discipline</label>
+      <select
+        id="bike-discipline"
+        value={bikeProfile.id}
+        onChange={(e) => setBikeDiscipline(e.target.value as BikeRuleProfile['id'])}
+      >
+        {(Object.keys(BIKE_RULE_PROFILES) as BikeDiscipline[]).map(id => (
+          <option key={id} value={id}>{BIKE_RULE_PROFILES[id].label}</option>
+        ))}
+        {customBikeProfiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const runningDisciplineSelect = (
+    <div className="model-select">
+      <label htmlFor="running-discipline">Running discipline</label>
+      <select
+        id="running-discipline"
+        value={runningProfile.id}
+        onChange={(e) => setRunningDiscipline(e.target.value as RunningRuleProfile['id'])}
+      >
+        {(Object.keys(RUNNING_RULE_PROFILES) as RunningDiscipline[]).map(id => (
+          <option key={id} value={id}>{RUNNING_RULE_PROFILES[id].label}</option>
+        ))}
+        {customRunningProfiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+
   return (
     <div className="app">
       <div className="container">
         <h1>Sports Performance Analysis</h1>
-        <p className="subtitle">Upload a training video (max 30 seconds, 20MB)</p>
+        <p className="subtitle">
+          Upload a training video (max {MAX_VIDEO_SIZE_MB}MB; longer than {MAX_ANALYZED_SECONDS} seconds, pick the segments to analyze)
+        </p>
 
         <div className="upload-form">
+          {athleteProfiles.available && (
+            <AthleteProfiles
+              athletes={athleteProfiles.athletes}
+              selectedAthlete={athleteProfiles.selectedAthlete}
+              error={athleteProfiles.error}
+              onSelect={athleteProfiles.selectAthlete}
+              onAdd={athleteProfiles.addAthlete}
+              onDelete={athleteProfiles.removeAthlete}
+            />
+          )}
+
+          {athleteProfiles.selectedAthlete && (
+            <AthleteHistory
+              athleteName={athleteProfiles.selectedAthlete.name}
+              sessions={athleteProfiles.sessions}
+              onOpen={openSession}
+              onDelete={athleteProfiles.removeSession}
+              onGhost={setGhostSession}
+            />
+          )}
+
+          {athleteProfiles.selectedAthlete && athleteProfiles.sessions.length > 1 && (
+            <TrendDashboard sessions={athleteProfiles.sessions} customProfiles={ruleProfiles.customProfiles} />
+          )}
+
+          <RulesEditor
+            customProfiles={ruleProfiles.customProfiles}
+            error={ruleProfiles.error}
+            onSave={ruleProfiles.saveProfile}
+            onDelete={ruleProfiles.removeProfile}
+            onImport={ruleProfiles.importProfiles}
+          />
+
           <div className="file-input-wrapper">
             <label htmlFor="video-input" className="file-label">
               Choose Video File
@@ -128,6 +417,84 @@ function App(): JSX.Element {
             />
           </div>
 
+          <div className="file-input-wrapper">
+            <label htmlFor="session-input" className="file-label">
+              Import Saved Session
+            </label>
+            <input
+              id="session-input"
+              type="file"
+              accept="application/json,.json"
+              onChange={handleSessionImport}
+              className="file-input"
+            />
+          </div>
+
+          <div className="file-input-wrapper">
+            <label htmlFor="ghost-input" className="file-label">
+              Load Ghost Reference
+            </label>
+            <input
+              id="ghost-input"
+              type="file"
+              accept="application/json,.json"
+              onChange={handleGhostImport}
+              className="file-input"
+            />
+          </div>
+
+          {ghostSession && (
+            <div className="ghost-info">
+              <p>
+                <strong>Ghost:</strong> {ghostSession.video.name} ({new Date(ghostSession.createdAt).toLocaleDateString()})
+                {analysisType && !activeGhost && ' - not shown, recorded for a different sport or camera view'}
+              </p>
+              {activeGhost && (
+                <p className="ghost-legend">
+                  Drawn in white behind the skeleton. Limbs more than {GHOST_SEGMENT_TOLERANCE}° off the reference are highlighted in red.
+                </p>
+              )}
+              <button type="button" className="ghost-clear-btn" onClick={() => setGhostSession(null)}>
+                Remove
+              </button>
+            </div>
+          )}
+
+          {!video && !session && !liveSport && (
+            <div className="analysis-buttons">
+              <button type="button" onClick={() => startLiveMode('bike')} className="analyze-btn bike-btn">
+                Live Camera: Bike Fit
+              </button>
+              <button type="button" onClick={() => startLiveMode('running')} className="analyze-btn running-btn">
+                Live Camera: Running
+              </button>
+            </div>
+          )}
+
+          {liveSport && (
+            <>
+              {detectionSelects}
+              {liveSport === 'bike' ? bikeDisciplineSelect : runningDisciplineSelect}
+              {liveSport === 'bike' ? (
+                <LiveAnalysis
+                  sport="bike"
+                  ruleProfile={bikeProfile}
+                  poseModel={poseModel}
+                  smoothing={SMOOTHING_PRESETS[smoothingPreset].options}
+                  onClose={() => setLiveSport(null)}
+                />
+              ) : (
+                <LiveAnalysis
+                  sport="running"
+                  ruleProfile={runningProfile}
+                  poseModel={poseModel}
+                  smoothing={SMOOTHING_PRESETS[smoothingPreset].options}
+                  onClose={() => setLiveSport(null)}
+                />
+              )}
+            </>
+          )}
+
           {video && (
             <div className="file-info">
               <p><strong>File:</strong> {video.name}</p>
@@ -137,7 +504,7 @@ function App(): JSX.Element {
 
           {preview && (
             <div className="preview">
-              <video controls width="100%" src={preview}></video>
+              <video ref={previewRef} controls width="100%" src={preview}></video>
             </div>
           )}
 
@@ -156,10 +523,51 @@ function App(): JSX.Element {
                 <div className="sport-detected">
                   <p>
                     Detected: <strong>{detectedSport === 'cycling' ? 'Cycling' : 'Running'}</strong>
+                    {' '}({detectedView === 'front' ? 'front' : 'side'} view)
                   </p>
                 </div>
               )}
 
+              <VideoTrimmer
+                videoFile={video}
+                duration={videoDuration}
+                segments={segments}
+                previewRef={previewRef}
+                onChange={setSegments}
+              />
+
+              {detectionSelects}
+
+              <div className="model-select">
+                <label htmlFor="camera-view">Camera view</label>
+                <select
+                  id="camera-view"
+                  value={cameraView}
+                  onChange={(e) => setCameraView(e.target.value as CameraViewSetting)}
+                >
+                  {(Object.keys(CAMERA_VIEW_LABELS) as CameraViewSetting[]).map(id => (
+                    <option key={id} value={id}>{CAMERA_VIEW_LABELS[id]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {(detectedSport === 'cycling' || detectedSport === 'unknown') && bikeDisciplineSelect}
+
+              {(detectedSport === 'running' || detectedSport === 'unknown') && runningDisciplineSelect}
+
+              <div className="file-input-wrapper">
+                <label htmlFor="compare-video" className="file-label">
+                  {compareVideo ? `Compare with: ${compareVideo.name}` : 'Compare with Another Video (optional)'}
+                </label>
+                <input
+                  id="compare-video"
+                  type="file"
+                  accept="video/*"
+                  onChange={handleCompareFileChange}
+                  className="file-input"
+                />
+              </div>
+
               <div className="analysis-buttons">
                 {(detectedSport === 'cycling' || detectedSport === 'unknown') && (
                   <button type="button" onClick={handleBikeAnalysis} className="analyze-btn bike-btn">
@@ -175,9 +583,63 @@ function App(): JSX.Element {
             </>
           )}
 
-          {analysisType === 'bike' && video && <BikeFitAnalysis videoFile={video} />}
+          {analysisType && isComparing && video && compareVideo && (
+            <VideoComparison
+              videoA={video}
+              videoB={compareVideo}
+              analysisType={analysisType}
+              segments={analyzedSegments}
+              poseModel={poseModel}
+              smoothing={SMOOTHING_PRESETS[smoothingPreset].options}
+              ruleProfile={ruleProfile}
+              onChangeSettings={handleChangeSettings}
+            />
+          )}
+
+          {analysisType && (video || session) && effectiveView === 'front' && !isComparing && (
+            <FrontalAnalysis
+              videoFile={video}
+              session={session}
+              segments={analyzedSegments}
+              sport={analysisType === 'bike' ? 'cycling' : 'running'}
+              poseModel={poseModel}
+              smoothing={SMOOTHING_PRESETS[smoothingPreset].options}
+              onSessionComplete={athleteProfiles.storeSession}
+              ghostSession={activeGhost}
+              ruleProfile={ruleProfile}
+              onChangeSettings={handleChangeSettings}
+            />
+          )}
+
+          {analysisType === 'bike' && (video || session) && effectiveView === 'side' && !isComparing && (
+            <BikeFitAnalysis
+              videoFile={video}
+              session={session}
+              segments={analyzedSegments}
+              poseModel={poseModel}
+              smoothing={SMOOTHING_PRESETS[smoothingPreset].options}
+              onSessionComplete={athleteProfiles.storeSession}
+              ghostSession={activeGhost}
+              ruleProfile={bikeProfile}
+              athleteHeight={athleteProfiles.selectedAthlete?.height}
+              onChangeSettings={handleChangeSettings}
+            />
+          )}
 
-          {analysisType === 'running' && video && <RunningFormAnalysis videoFile={video} />}
+          {analysisType === 'running' && (video || session) && effectiveView === 'side' && !isComparing && (
+            <RunningFormAnalysis
+              videoFile={video}
+              session={session}
+              segments={analyzedSegments}
+              poseModel={poseModel}
+              smoothing={SMOOTHING_PRESETS[smoothingPreset].options}
+              onSessionComplete={athleteProfiles.storeSession}
+              ghostSession={activeGhost}
+              ruleProfile={runningProfile}
+              athleteHeight={athleteProfiles.selectedAthlete?.height}
+              onChangeSettings={handleChangeSettings}
+            />
+          )}
         </div>
       </div>
     </div>
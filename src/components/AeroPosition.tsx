@@ -0,0 +1,102 @@
+import './AeroPosition.css';
+import { AERO_SPEED_KMH } from '../utils/aeroEstimate';
+import type { AeroEstimate } from '../types';
+
+interface AeroPositionProps {
+  aero: AeroEstimate | null;
+}
+
+const formatChange = (value: number, unit: string) => `${value > 0 ? '+' : ''}${value}${unit}`;
+
+/**
+ * Estimated frontal area and drag of the riding position, with torso-angle what-ifs
+ */
+function AeroPosition({ aero }: AeroPositionProps) {
+  if (!aero) return null;
+
+  return (
+    <div className="aero-position">
+      <h4>Aerodynamic Position</h4>
+      <p className="aero-summary">
+        CdA index relative to a typical road position on the hoods (45° back angle = 100); lower is faster
+      </p>
+
+      <div className="aero-grid">
+        <div className="aero-card">
+          <span className="aero-label">Back Angle</span>
+          <span className="aero-value">{aero.backAngle}°</span>
+        </div>
+        <div className="aero-card">
+          <span className="aero-label">CdA Index</span>
+          <span className="aero-value">{aero.cdaIndex}</span>
+        </div>
+        {aero.frontalArea !== undefined && (
+          <div className="aero-card">
+            <span className="aero-label">Frontal Area</span>
+            <span className="aero-value">{aero.frontalArea} m²</span>
+            <span className="aero-card-hint">CdA {aero.cda} m², shoulders ~{aero.shoulderWidth} cm</span>
+          </div>
+        )}
+        {aero.aeroPower !== undefined && (
+          <div className="aero-card">
+            <span className="aero-label">Power at {AERO_SPEED_KMH} km/h</span>
+            <span className="aero-value">{aero.aeroPower} W</span>
+            <span className="aero-card-hint">Against air resistance only</span>
+          </div>
+        )}
+      </div>
+
+      {aero.frontalArea === undefined && (
+        <p className="aero-hint">
+          Set the athlete's height to estimate frontal area, CdA and power in watts.
+        </p>
+      )}
+
+      {aero.scenarios.length > 0 && (
+        <div className="metrics-table-container">
+          <table className="metrics-table">
+            <thead>
+              <tr>
+                <th>Torso</th>
+                <th>Back Angle</th>
+                <th>CdA Index</th>
+                {aero.aeroPower !== undefined && <th>Power</th>}
+                <th>Hip Angle</th>
+              </tr>
+            </thead>
+            <tbody>
+              {aero.scenarios.map(scenario => (
+                <tr key={scenario.torsoChange}>
+                  <td className="angle-name">
+                    {formatChange(scenario.torsoChange, '°')} {scenario.torsoChange < 0 ? 'lower' : 'higher'}
+                  </td>
+                  <td>{scenario.backAngle}°</td>
+                  <td className="avg-value">
+                    {scenario.cdaIndex} ({formatChange(scenario.cdaIndex - aero.cdaIndex, '')})
+                  </td>
+                  {aero.aeroPower !== undefined && (
+                    <td>{scenario.powerChange !== undefined ? formatChange(scenario.powerChange, ' W') : '—'}</td>
+                  )}
+                  <td className={scenario.hipClosed ? 'aero-hip-closed' : undefined}>
+                    {scenario.hipAngle !== undefined ? `${scenario.hipAngle}°` : '—'}
+                    {scenario.hipClosed && ' ⚠️ too closed'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {aero.scenarios.some(scenario => scenario.hipClosed) && (
+        <p className="aero-hint">
+          Lowering the torso closes the hip by the same angle. Past the optimal range it costs power
+          and strains the lower back, so check it against the aero gain or open the hip with a
+          shorter crank or a higher, more forward saddle.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default AeroPosition;
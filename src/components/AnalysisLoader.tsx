@@ -1,20 +1,76 @@
+import { formatTimeLeft } from '../utils/analysisProgress';
+import './AnalysisLoader.css';
+import type { AnalysisControls } from '../types';
+
 interface AnalysisLoaderProps {
   progress: number;
   message: string;
+  controls?: AnalysisControls;
+  onChangeSettings?: () => void;
 }
 
 /**
  * Generic loading component for video analysis
+ * With `controls`, shows frames processed and time left, and lets the run be paused,
+ * cancelled, restarted or abandoned for different settings
  */
-function AnalysisLoader({ progress, message }: AnalysisLoaderProps) {
+function AnalysisLoader({ progress, message, controls, onChangeSettings }: AnalysisLoaderProps) {
+  if (controls?.isCancelled) {
+    return (
+      <div className="analyzing">
+        <p>Analysis cancelled.</p>
+        <div className="analysis-loader-controls">
+          <button type="button" className="analysis-loader-btn primary" onClick={controls.rerun}>
+            Restart Analysis
+          </button>
+          {onChangeSettings && (
+            <button type="button" className="analysis-loader-btn" onClick={onChangeSettings}>
+              Change Settings
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const frameProgress = controls?.frameProgress;
+
   return (
     <div className="analyzing">
-      <div className="loader"></div>
-      <p>{message}</p>
+      <div className={`loader ${controls?.isPaused ? 'paused' : ''}`}></div>
+      <p>{controls?.isPaused ? 'Paused' : message}</p>
       <div className="progress-bar">
         <div className="progress-fill" style={{ width: `${progress}%` }}></div>
       </div>
       <p className="progress-text">{Math.round(progress)}%</p>
+      {frameProgress && (
+        <p className="analysis-loader-frames">
+          Frame {frameProgress.framesProcessed} of {frameProgress.totalFrames}
+          {!controls.isPaused && ` · ${formatTimeLeft(frameProgress.remainingSeconds)}`}
+        </p>
+      )}
+      {controls && (
+        <div className="analysis-loader-controls">
+          <button
+            type="button"
+            className="analysis-loader-btn"
+            onClick={controls.isPaused ? controls.resume : controls.pause}
+          >
+            {controls.isPaused ? 'Resume' : 'Pause'}
+          </button>
+          <button type="button" className="analysis-loader-btn" onClick={controls.rerun}>
+            Restart
+          </button>
+          {onChangeSettings && (
+            <button type="button" className="analysis-loader-btn" onClick={onChangeSettings}>
+              Change Settings
+            </button>
+          )}
+          <button type="button" className="analysis-loader-btn analysis-loader-cancel-btn" onClick={controls.cancel}>
+            Cancel
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,16 @@
 import { RefObject } from 'react';
 import InteractiveVideo from './InteractiveVideo';
 import DetailedMetrics from './DetailedMetrics';
+import GaitPhaseAngles from './GaitPhaseAngles';
+import PedalStrokePositions from './PedalStrokePositions';
+import AeroPosition from './AeroPosition';
+import KneeTracking from './KneeTracking';
+import InjuryRisk from './InjuryRisk';
+import Calibration from './Calibration';
+import ReportExport from './ReportExport';
+import SessionExport from './SessionExport';
 import { getSeverityDisplay } from '../utils/enhancedRecommendations';
+import { formatSegmentTime } from '../utils/videoSegments';
 import type {
   AngleGauge,
   DetailedMetrics as DetailedMetricsType,
@@ -10,7 +19,24 @@ import type {
   Recommendation,
   IssueMarker,
   AngleData,
-  AnalysisSummary
+  AnalysisSummary,
+  GaitAnalysis,
+  CadenceEstimate,
+  SmoothingReport,
+  TrackingReport,
+  VideoSegment,
+  PedalStrokeAnalysis,
+  FrontalAnalysis,
+  InjuryRiskAssessment,
+  AnalysisReport,
+  ReportKeyFrame,
+  ReportMetadata,
+  AnalysisSession,
+  RuleProfile,
+  Calibration as CalibrationType,
+  CalibrationSettings,
+  DistanceMeasurement,
+  AeroEstimate
 } from '../types';
 
 interface AnalysisResultsProps {
@@ -23,13 +49,30 @@ interface AnalysisResultsProps {
   asymmetry: Asymmetry | null;
   frameData: FrameData[];
   summary: AnalysisSummary;
+  gaitAnalysis?: GaitAnalysis | null;
+  cadence?: CadenceEstimate | null;
+  smoothingReport?: SmoothingReport | null;
+  trackingReport?: TrackingReport | null;
+  segments?: VideoSegment[];
+  pedalStroke?: PedalStrokeAnalysis | null;
+  aero?: AeroEstimate | null;
+  frontal?: FrontalAnalysis | null;
+  injuryRisk?: InjuryRiskAssessment | null;
+  ruleProfile: RuleProfile;
+  calibrationSettings?: CalibrationSettings | null;
+  calibration?: CalibrationType | null;
+  distances?: DistanceMeasurement[];
+  onCalibrationChange?: (settings: CalibrationSettings | null) => void;
 
   // Video & rendering
-  videoFile: File;
+  videoFile: File | null;
+  videoName: string;
   issueMarkers: IssueMarker[];
   canvasRef: RefObject<HTMLCanvasElement>;
   videoRef: RefObject<HTMLVideoElement>;
   onFrameChange: (currentTime: number, showSkeleton: boolean, showAngles: boolean) => Promise<void>;
+  onCaptureKeyFrames?: () => Promise<ReportKeyFrame[]>;
+  onCreateSession?: () => AnalysisSession;
 
   // Display config
   title: string;
@@ -37,6 +80,14 @@ interface AnalysisResultsProps {
   angleLabels: Array<{ key: keyof AngleData; label: string }>;
 }
 
+// Longest list of lost-frame times spelled out in the tracking note
+const MAX_LISTED_LOST_FRAMES = 8;
+
+function formatLostFrames(times: number[]): string {
+  const listed = times.slice(0, MAX_LISTED_LOST_FRAMES).map(time => `${time.toFixed(1)} s`).join(', ');
+  return times.length > MAX_LISTED_LOST_FRAMES ? `at ${listed}, ...` : `at ${listed}`;
+}
+
 /**
  * Generic component for displaying sports analysis results
  * Handles visualization, metrics, and recommendations
@@ -50,15 +101,49 @@ function AnalysisResults({
   asymmetry,
   frameData,
   summary,
+  gaitAnalysis = null,
+  cadence = null,
+  smoothingReport = null,
+  trackingReport = null,
+  segments = [],
+  pedalStroke = null,
+  aero = null,
+  frontal = null,
+  injuryRisk = null,
+  ruleProfile,
+  calibrationSettings = null,
+  calibration = null,
+  distances = [],
+  onCalibrationChange,
   videoFile,
+  videoName,
   issueMarkers,
   canvasRef,
   videoRef,
   onFrameChange,
+  onCaptureKeyFrames,
+  onCreateSession,
   title,
   noteText,
   angleLabels,
 }: AnalysisResultsProps) {
+  const createReport = async (metadata: ReportMetadata): Promise<AnalysisReport> => ({
+    title,
+    videoName,
+    metadata,
+    overallMessage: overallMessage.text,
+    summary,
+    recommendations,
+    angleGauges,
+    measuredAngles: angleLabels
+      .filter(({ key }) => angles[key] !== undefined)
+      .map(({ key, label }) => ({ label, value: angles[key]! })),
+    detailedMetrics,
+    asymmetry,
+    keyFrames: onCaptureKeyFrames ? await onCaptureKeyFrames() : [],
+    noteText,
+  });
+
   return (
     <div className="analysis-results">
       <h3>{title}</h3>
@@ -102,15 +187,21 @@ function AnalysisResults({
       </div>
 
       {/* Interactive Video Player */}
-      <InteractiveVideo
-        videoFile={videoFile}
-        onFrameChange={onFrameChange}
-        issueMarkers={issueMarkers}
-        showSkeleton={true}
-        showAngles={true}
-        canvasRef={canvasRef}
-        videoRef={videoRef}
-      />
+      {videoFile ? (
+        <InteractiveVideo
+          videoFile={videoFile}
+          onFrameChange={onFrameChange}
+          issueMarkers={issueMarkers}
+          showSkeleton={true}
+          showAngles={true}
+          canvasRef={canvasRef}
+          videoRef={videoRef}
+        />
+      ) : (
+        <div className="analysis-note">
+          <p>Restored from a saved session for <strong>{videoName}</strong> - select the same video to scrub through frames.</p>
+        </div>
+      )}
 
       {canvasRef.current && (
         <div className="skeleton-visualization">
@@ -127,7 +218,7 @@ function AnalysisResults({
 
       {angleGauges.length > 0 && (
         <div className="angle-gauges-section">
-          <h4>Angle Ranges</h4>
+          <h4>Angle Ranges ({ruleProfile.label})</h4>
           <div className="gauges-grid">
             {angleGauges.map((gauge, index) => (
               <div key={index} className="gauge-card">
@@ -162,6 +253,32 @@ function AnalysisResults({
         </div>
       </div>
 
+      {cadence && (
+        <div className="angles-section cadence-section">
+          <h4>Cadence</h4>
+          <div className="angles-grid">
+            <div className="angle-card">
+              <span className="angle-label">
+                {cadence.unit === 'spm' ? 'Steps per Minute' : 'Pedal RPM'}
+              </span>
+              <span className="angle-value">{cadence.value}</span>
+              <span className="angle-label">{Math.round(cadence.confidence * 100)}% confidence</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {onCalibrationChange && (
+        <Calibration
+          settings={calibrationSettings}
+          calibration={calibration}
+          measurements={distances}
+          videoRef={videoRef}
+          canMark={!!videoFile}
+          onChange={onCalibrationChange}
+        />
+      )}
+
       {recommendations && recommendations.length > 0 && (
         <div className="recommendations-section">
           <h4>Recommendations</h4>
@@ -181,6 +298,9 @@ function AnalysisResults({
                     <div className="rec-header-left">
                       <span className="rec-area">{rec.area}</span>
                       {rec.angle && <span className="rec-angle">{rec.angle}°</span>}
+                      {rec.value !== undefined && (
+                        <span className="rec-angle">{rec.value} {rec.unit}</span>
+                      )}
                     </div>
                     <span
                       className="severity-badge"
@@ -215,12 +335,59 @@ function AnalysisResults({
         </div>
       )}
 
+      <InjuryRisk risk={injuryRisk} />
+
+      <GaitPhaseAngles gaitAnalysis={gaitAnalysis} />
+
+      {ruleProfile.sport === 'bike' && (
+        <PedalStrokePositions pedalStroke={pedalStroke} ranges={ruleProfile.ranges} />
+      )}
+
+      <AeroPosition aero={aero} />
+
+      <KneeTracking frontal={frontal} ranges={ruleProfile.ranges} />
+
       <DetailedMetrics
         metrics={detailedMetrics}
         asymmetry={asymmetry}
         frameData={frameData}
       />
 
+      {smoothingReport && smoothingReport.correctedKeypoints > 0 && (
+        <div className="smoothing-report">
+          <p>
+            <strong>Pose cleanup:</strong> corrected {smoothingReport.correctedKeypoints} keypoints
+            across {smoothingReport.frames} frames ({smoothingReport.swappedKeypoints} left/right swaps,{' '}
+            {smoothingReport.rejectedOutliers} outliers rejected, {smoothingReport.filledKeypoints} gaps filled)
+          </p>
+        </div>
+      )}
+
+      {segments.length > 0 && (
+        <div className="smoothing-report">
+          <p>
+            <strong>Analyzed segments:</strong>{' '}
+            {segments.map(({ start, end }, i) => `${i + 1}) ${formatSegmentTime(start)} - ${formatSegmentTime(end)}`).join(', ')}
+          </p>
+        </div>
+      )}
+
+      {trackingReport && trackingReport.maxPeople > 1 && (
+        <div className="smoothing-report">
+          <p>
+            <strong>Athlete tracking:</strong> followed the selected athlete across {trackingReport.frames} frames
+            with up to {trackingReport.maxPeople} people in view.{' '}
+            {trackingReport.lostFrames.length > 0
+              ? `Lost in ${trackingReport.lostFrames.length} frames (${formatLostFrames(trackingReport.lostFrames)}), which were left out of the analysis.`
+              : 'The athlete was never lost.'}
+          </p>
+        </div>
+      )}
+
+      <ReportExport createReport={createReport} />
+
+      {onCreateSession && <SessionExport createSession={onCreateSession} />}
+
       <div className="analysis-note">
         <p><strong>Note:</strong> {noteText}</p>
       </div>
@@ -0,0 +1,81 @@
+import './AthleteProfiles.css';
+import './AthleteHistory.css';
+import type { AthleteSessionRecord, AnalysisSession } from '../types';
+
+interface AthleteHistoryProps {
+  athleteName: string;
+  sessions: AthleteSessionRecord[];
+  onOpen: (session: AnalysisSession) => void;
+  onDelete: (recordId: string) => void;
+  onGhost?: (session: AnalysisSession) => void;
+}
+
+const OVERALL_LABELS: Record<string, string> = {
+  excellent: 'Excellent',
+  good: 'Good',
+  'needs-adjustment': 'Needs adjustment',
+  'needs-improvement': 'Needs improvement',
+};
+
+function describeSession(session: AnalysisSession): string {
+  const sport = session.analysisType === 'bike' ? 'Bike fit' : 'Running form';
+  return session.view === 'front' ? `${sport} (front view)` : sport;
+}
+
+/**
+ * Past analyses for the selected athlete
+ * Opening a session restores its results without reprocessing the video
+ * A session can also be drawn as a ghost reference over the current video
+ */
+function AthleteHistory({ athleteName, sessions, onOpen, onDelete, onGhost }: AthleteHistoryProps) {
+  return (
+    <div className="athlete-history">
+      <h4>{athleteName}'s sessions</h4>
+      {sessions.length === 0 ? (
+        <p className="athlete-history-empty">
+          No saved sessions yet. Completed analyses are saved here automatically.
+        </p>
+      ) : (
+        <ul className="athlete-history-list">
+          {sessions.map(({ id, date, session }) => (
+            <li key={id} className="athlete-history-item">
+              <div className="athlete-history-info">
+                <strong>{new Date(date).toLocaleString()}</strong>
+                <span>
+                  {describeSession(session)} · {session.video.name}
+                  {' · '}{OVERALL_LABELS[session.analysis.overall] ?? session.analysis.overall}
+                  {' · '}{session.recommendations.length} recommendation{session.recommendations.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              <div className="athlete-history-actions">
+                <button type="button" className="athlete-btn" onClick={() => onOpen(session)}>
+                  Open
+                </button>
+                {onGhost && (
+                  <button
+                    type="button"
+                    className="athlete-btn"
+                    onClick={() => onGhost(session)}
+                    aria-label={`Use session from ${new Date(date).toLocaleString()} as ghost reference`}
+                  >
+                    Ghost
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="athlete-btn athlete-delete-btn"
+                  onClick={() => onDelete(id)}
+                  aria-label={`Delete session from ${new Date(date).toLocaleString()}`}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default AthleteHistory;
@@ -0,0 +1,176 @@
+import { useState, FormEvent } from 'react';
+import './AthleteProfiles.css';
+import type { AthleteProfile, BikeSetup } from '../types';
+import type { AthleteProfileInput } from '../utils/athleteStore';
+
+interface AthleteProfilesProps {
+  athletes: AthleteProfile[];
+  selectedAthlete: AthleteProfile | null;
+  error: string;
+  onSelect: (athleteId: string | null) => void;
+  onAdd: (input: AthleteProfileInput) => Promise<boolean>;
+  onDelete: (athleteId: string) => void;
+}
+
+const SPORT_LABELS: Record<AthleteProfile['sport'], string> = {
+  cycling: 'Cycling',
+  running: 'Running',
+  both: 'Cycling & running',
+};
+
+const BIKE_SETUP_FIELDS: Array<{ key: Exclude<keyof BikeSetup, 'bikeName'>; label: string }> = [
+  { key: 'saddleHeight', label: 'Saddle height (mm)' },
+  { key: 'saddleSetback', label: 'Saddle setback (mm)' },
+  { key: 'handlebarReach', label: 'Handlebar reach (mm)' },
+  { key: 'handlebarDrop', label: 'Handlebar drop (mm)' },
+  { key: 'crankLength', label: 'Crank length (mm)' },
+];
+
+const toNumber = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+/**
+ * Athlete picker and new profile form
+ * Analyses completed while an athlete is selected are saved to their history
+ */
+function AthleteProfiles({ athletes, selectedAthlete, error, onSelect, onAdd, onDelete }: AthleteProfilesProps) {
+  const [isAdding, setIsAdding] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [sport, setSport] = useState<AthleteProfile['sport']>('cycling');
+  const [height, setHeight] = useState<string>('');
+  const [bikeName, setBikeName] = useState<string>('');
+  const [bikeSetup, setBikeSetup] = useState<Record<string, string>>({});
+
+  const resetForm = (): void => {
+    setName('');
+    setSport('cycling');
+    setHeight('');
+    setBikeName('');
+    setBikeSetup({});
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    const saved = await onAdd({
+      name,
+      sport,
+      height: toNumber(height),
+      bikeSetup: {
+        bikeName,
+        ...Object.fromEntries(BIKE_SETUP_FIELDS.map(({ key }) => [key, toNumber(bikeSetup[key] ?? '')])),
+      },
+    });
+    if (saved) {
+      resetForm();
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = (): void => {
+    if (selectedAthlete && window.confirm(`Delete ${selectedAthlete.name} and all their saved sessions?`)) {
+      onDelete(selectedAthlete.id);
+    }
+  };
+
+  const setup = selectedAthlete?.bikeSetup;
+
+  return (
+    <div className="athlete-profiles">
+      <div className="athlete-select-row">
+        <label htmlFor="athlete-select">Athlete</label>
+        <select
+          id="athlete-select"
+          value={selectedAthlete?.id ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+        >
+          <option value="">No athlete (don't save)</option>
+          {athletes.map(athlete => (
+            <option key={athlete.id} value={athlete.id}>{athlete.name}</option>
+          ))}
+        </select>
+        <button type="button" className="athlete-btn" onClick={() => setIsAdding(!isAdding)}>
+          {isAdding ? 'Cancel' : 'New athlete'}
+        </button>
+        {selectedAthlete && (
+          <button type="button" className="athlete-btn athlete-delete-btn" onClick={handleDelete}>
+            Delete
+          </button>
+        )}
+      </div>
+
+      {selectedAthlete && !isAdding && (
+        <p className="athlete-details">
+          {SPORT_LABELS[selectedAthlete.sport]}
+          {selectedAthlete.height && ` · ${selectedAthlete.height} cm`}
+          {setup?.bikeName && ` · ${setup.bikeName}`}
+          {setup?.saddleHeight && ` · saddle ${setup.saddleHeight} mm`}
+        </p>
+      )}
+
+      {isAdding && (
+        <form className="athlete-form" onSubmit={handleSubmit}>
+          <div className="athlete-fields">
+            <label htmlFor="athlete-name">
+              Name
+              <input id="athlete-name" type="text" value={name} onChange={(e) => setName(e.target.value)} />
+            </label>
+            <label htmlFor="athlete-sport">
+              Sport
+              <select
+                id="athlete-sport"
+                value={sport}
+                onChange={(e) => setSport(e.target.value as AthleteProfile['sport'])}
+              >
+                {(Object.keys(SPORT_LABELS) as AthleteProfile['sport'][]).map(id => (
+                  <option key={id} value={id}>{SPORT_LABELS[id]}</option>
+                ))}
+              </select>
+            </label>
+            <label htmlFor="athlete-height">
+              Height (cm)
+              <input
+                id="athlete-height"
+                type="number"
+                min="0"
+                value={height}
+                onChange={(e) => setHeight(e.target.value)}
+              />
+            </label>
+          </div>
+
+          {sport !== 'running' && (
+            <fieldset className="athlete-fields">
+              <legend>Bike setup</legend>
+              <label htmlFor="athlete-bike-name">
+                Bike
+                <input
+                  id="athlete-bike-name"
+                  type="text"
+                  value={bikeName}
+                  onChange={(e) => setBikeName(e.target.value)}
+                />
+              </label>
+              {BIKE_SETUP_FIELDS.map(({ key, label }) => (
+                <label key={key} htmlFor={`athlete-${key}`}>
+                  {label}
+                  <input
+                    id={`athlete-${key}`}
+                    type="number"
+                    min="0"
+                    value={bikeSetup[key] ?? ''}
+                    onChange={(e) => setBikeSetup({ ...bikeSetup, [key]: e.target.value })}
+                  />
+                </label>
+              ))}
+            </fieldset>
+          )}
+
+          <button type="submit" className="athlete-save-btn">Save athlete</button>
+        </form>
+      )}
+
+      {error && <div className="analysis-error">{error}</div>}
+    </div>
+  );
+}
+
+export default AthleteProfiles;
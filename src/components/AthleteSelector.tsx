@@ -0,0 +1,79 @@
+import { useEffect, useRef, MouseEvent, RefObject } from 'react';
+import { drawSkeleton } from '../utils/skeletonDrawing';
+import { getBoundingBox, selectPoseAt } from '../utils/athleteTracking';
+import './AthleteSelector.css';
+import type { AthleteChoice } from '../types';
+
+interface AthleteSelectorProps {
+  choice: AthleteChoice;
+  videoRef: RefObject<HTMLVideoElement>;
+  onSelect: (index: number) => void;
+}
+
+// Padding (px) around each person's outline
+const BOX_PADDING = 15;
+
+/**
+ * First-frame picker for multi-person videos: everyone detected is outlined and numbered,
+ * and the person clicked is the athlete analyzed in every frame
+ */
+function AthleteSelector({ choice, videoRef, onSelect }: AthleteSelectorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Analysis is paused on the chosen frame, so the video still shows it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    choice.poses.forEach((pose, index) => {
+      drawSkeleton(ctx, pose, canvas.width, canvas.height);
+
+      const box = getBoundingBox(pose);
+      if (!box) return;
+      ctx.strokeStyle = '#ffeb3b';
+      ctx.lineWidth = 3;
+      ctx.strokeRect(box.x - BOX_PADDING, box.y - BOX_PADDING, box.width + 2 * BOX_PADDING, box.height + 2 * BOX_PADDING);
+      ctx.fillStyle = '#ffeb3b';
+      ctx.font = 'bold 28px sans-serif';
+      ctx.fillText(String(index + 1), box.x - BOX_PADDING, box.y - BOX_PADDING - 8);
+    });
+  }, [choice, videoRef]);
+
+  // Clicks are scaled from the displayed canvas to video pixels
+  const handleCanvasClick = (e: MouseEvent<HTMLCanvasElement>): void => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const index = selectPoseAt(choice.poses, {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    });
+    if (index >= 0) onSelect(index);
+  };
+
+  return (
+    <div className="athlete-selector">
+      <h4>Who is the athlete?</h4>
+      <p className="athlete-selector-hint">
+        {choice.poses.length} people were detected at {choice.timestamp.toFixed(1)} s. Click the athlete to
+        analyze; they are followed through the rest of the video.
+      </p>
+      <canvas ref={canvasRef} className="athlete-selector-canvas" onClick={handleCanvasClick} />
+      <div className="athlete-selector-buttons">
+        {choice.poses.map((_, index) => (
+          <button key={index} type="button" className="athlete-selector-btn" onClick={() => onSelect(index)}>
+            Person {index + 1}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default AthleteSelector;
@@ -1,19 +1,29 @@
-import { useRef, useState } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import { analyzeBikeFit } from '../utils/poseDetection';
 import { drawSkeleton, drawBikeFitAngles, createAngleGauge } from '../utils/skeletonDrawing';
 import { calculateDetailedMetrics, calculateAsymmetry, createFrameData } from '../utils/detailedMetrics';
-import { enhanceBikeFitRecommendations } from '../utils/enhancedRecommendations';
+import { enhanceBikeFitRecommendations, prioritizeRecommendations } from '../utils/enhancedRecommendations';
+import { assessInjuryRisk, createInjuryRiskRecommendations } from '../utils/injuryRisk';
 import {
-  combineAnalyses,
   createIssueMarkers,
   getBikeFitOverallMessage,
-  drawPoseOnCanvas
+  drawPoseOnCanvas,
+  captureKeyFrames
 } from '../utils/analysisHelpers';
 import { generateDetailedSummary } from '../utils/analysisSummary';
+import { estimateCadence } from '../utils/cadence';
+import { analyzePedalStroke, combineBikeFitAnalyses } from '../utils/pedalStroke';
+import { DEFAULT_BIKE_PROFILE } from '../utils/ruleProfiles';
+import { resolveCalibration, measureSaddleSetback } from '../utils/calibration';
+import { estimateAero } from '../utils/aeroEstimate';
+import { createSession, getVideoMetadata } from '../utils/sessionExport';
+import { DENSE_SAMPLING } from '../utils/videoSampling';
+import { createGhostReference } from '../utils/ghostOverlay';
 import { useVideoAnalysis } from '../hooks/useVideoAnalysis';
 import { useFrameRenderer } from '../hooks/useFrameRenderer';
 import AnalysisResults from './AnalysisResults';
 import AnalysisLoader from './AnalysisLoader';
+import AthleteSelector from './AthleteSelector';
 import './BikeFitAnalysis.css';
 import type {
   BikeFitAnalysis as BikeFitAnalysisType,
@@ -24,13 +34,46 @@ import type {
   Recommendation,
   IssueMarker,
   AnalysisSummary,
+  CadenceEstimate,
+  PedalStrokeAnalysis,
+  PoseModelId,
+  SmoothingOptions,
+  SmoothingReport,
+  FrameAnalysis,
+  AnalysisSession,
+  VideoSegment,
+  Pose,
+  BikeRuleProfile,
+  InjuryRiskAssessment,
+  CalibrationSettings,
+  DistanceMeasurement,
 } from '../types';
 
 interface BikeFitAnalysisProps {
-  videoFile: File;
+  videoFile: File | null;
+  session?: AnalysisSession | null;
+  segments?: VideoSegment[]; // Trimmed parts of the video to analyze
+  poseModel?: PoseModelId;
+  smoothing?: SmoothingOptions | false;
+  onSessionComplete?: (session: AnalysisSession) => void;
+  onChangeSettings?: () => void; // Abandons the run to pick other settings
+  ghostSession?: AnalysisSession | null;
+  ruleProfile?: BikeRuleProfile;
+  athleteHeight?: number; // cm, default calibration for distances
 }
 
-function BikeFitAnalysis({ videoFile }: BikeFitAnalysisProps) {
+function BikeFitAnalysis({
+  videoFile,
+  session,
+  segments,
+  poseModel,
+  smoothing,
+  onSessionComplete,
+  onChangeSettings,
+  ghostSession,
+  ruleProfile: profile = DEFAULT_BIKE_PROFILE,
+  athleteHeight,
+}: BikeFitAnalysisProps) {
   const [angleGauges, setAngleGauges] = useState<AngleGauge[]>([]);
   const [detailedMetrics, setDetailedMetrics] = useState<DetailedMetricsType | null>(null);
   const [asymmetry, setAsymmetry] = useState<Asymmetry | null>(null);
@@ -38,10 +81,51 @@ function BikeFitAnalysis({ videoFile }: BikeFitAnalysisProps) {
   const [enhancedRecs, setEnhancedRecs] = useState<Recommendation[]>([]);
   const [issueMarkers, setIssueMarkers] = useState<IssueMarker[]>([]);
   const [summary, setSummary] = useState<AnalysisSummary | null>(null);
+  const [cadence, setCadence] = useState<CadenceEstimate | null>(null);
+  const [pedalStroke, setPedalStroke] = useState<PedalStrokeAnalysis | null>(null);
+  const [injuryRisk, setInjuryRisk] = useState<InjuryRiskAssessment | null>(null);
+  const [calibrationSettings, setCalibrationSettings] = useState<CalibrationSettings | null>(
+    session?.calibration ?? (athleteHeight ? { method: 'height', heightCm: athleteHeight } : null)
+  );
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const interactiveCanvasRef = useRef<HTMLCanvasElement>(null);
 
+  // Angles are judged against the selected discipline; changing it re-judges the detected poses
+  const analyzeFunction = useCallback((pose: Pose) => analyzeBikeFit(pose, profile), [profile]);
+  const combineFunction = useCallback(
+    (analyses: BikeFitAnalysisType[], frames: FrameAnalysis[]) => combineBikeFitAnalyses(analyses, frames, profile),
+    [profile]
+  );
+
+  // Restored sessions keep the segments they were analyzed from
+  const analyzedSegments = segments ?? session?.segments;
+
+  // Versioned session for export, athlete history and later re-import
+  const buildSession = (
+    result: BikeFitAnalysisType,
+    frames: FrameAnalysis[],
+    metrics: DetailedMetricsType | null,
+    asymmetryData: Asymmetry | null,
+    recommendations: Recommendation[],
+    report: SmoothingReport | null
+  ) =>
+    createSession({
+      analysisType: 'bike',
+      view: 'side',
+      poseModel,
+      ruleProfile: profile.id,
+      calibration: calibrationSettings ?? undefined,
+      video: videoFile ? getVideoMetadata(videoFile, videoRef.current) : session!.video,
+      frames,
+      analysis: result,
+      detailedMetrics: metrics,
+      asymmetry: asymmetryData,
+      recommendations,
+      smoothingReport: report,
+      segments: analyzedSegments,
+    });
+
   // Use generic video analysis hook
   const {
     analysis,
@@ -49,23 +133,41 @@ function BikeFitAnalysis({ videoFile }: BikeFitAnalysisProps) {
     progress,
     error,
     allFramePoses,
+    smoothingReport,
+    trackingReport,
+    athleteChoice,
+    selectAthlete,
+    controls,
     videoRef,
   } = useVideoAnalysis<BikeFitAnalysisType>({
     videoFile,
-    framesToAnalyze: 24,
-    analyzeFunction: analyzeBikeFit,
-    combineFunction: combineAnalyses,
-    onComplete: (avgAnalysis, allAnalyses) => {
+    session,
+    sampling: DENSE_SAMPLING,
+    segments,
+    poseModel,
+    smoothing,
+    analyzeFunction,
+    combineFunction,
+    onComplete: (avgAnalysis, allAnalyses, report, reanalyzed) => {
       // Create angle gauges
       const gauges: AngleGauge[] = [];
-      if (avgAnalysis.angles.knee) {
-        gauges.push(createAngleGauge(avgAnalysis.angles.knee, 140, 160, 'Knee Angle'));
+      const { knee, kneeAtBDC, kneeAtTDC, hipAtTDC, hip, elbow } = profile.ranges;
+      if (avgAnalysis.angles.kneeAtBDC) {
+        gauges.push(createAngleGauge(avgAnalysis.angles.kneeAtBDC, kneeAtBDC.min, kneeAtBDC.max, 'Knee at BDC'));
+      } else if (avgAnalysis.angles.knee) {
+        gauges.push(createAngleGauge(avgAnalysis.angles.knee, knee.min, knee.max, 'Knee Angle'));
+      }
+      if (avgAnalysis.angles.kneeAtTDC) {
+        gauges.push(createAngleGauge(avgAnalysis.angles.kneeAtTDC, kneeAtTDC.min, kneeAtTDC.max, 'Knee at TDC'));
+      }
+      if (avgAnalysis.angles.hipAtTDC) {
+        gauges.push(createAngleGauge(avgAnalysis.angles.hipAtTDC, hipAtTDC.min, hipAtTDC.max, 'Hip at TDC'));
       }
       if (avgAnalysis.angles.hip) {
-        gauges.push(createAngleGauge(avgAnalysis.angles.hip, 40, 70, 'Hip Angle'));
+        gauges.push(createAngleGauge(avgAnalysis.angles.hip, hip.min, hip.max, 'Hip Angle'));
       }
       if (avgAnalysis.angles.elbow) {
-        gauges.push(createAngleGauge(avgAnalysis.angles.elbow, 140, 170, 'Elbow Angle'));
+        gauges.push(createAngleGauge(avgAnalysis.angles.elbow, elbow.min, elbow.max, 'Elbow Angle'));
       }
       setAngleGauges(gauges);
 
@@ -77,8 +179,26 @@ function BikeFitAnalysis({ videoFile }: BikeFitAnalysisProps) {
       setAsymmetry(asymmetryData);
       setFrameData(createFrameData(analyses));
 
+      // Estimate pedal RPM from ankle motion
+      setCadence(estimateCadence(allAnalyses, 'cycling'));
+
+      // Crank-position measurements (already merged into the combined analysis)
+      setPedalStroke(analyzePedalStroke(allAnalyses));
+
+      // Score injury risk; high and moderate risks join the recommendations
+      const risk = assessInjuryRisk({
+        angles: avgAnalysis.angles,
+        profile,
+        detailedMetrics: metrics,
+        asymmetry: asymmetryData,
+      });
+      setInjuryRisk(risk);
+
       // Enhance recommendations
-      const enhanced = enhanceBikeFitRecommendations(avgAnalysis);
+      const enhanced = prioritizeRecommendations([
+        ...enhanceBikeFitRecommendations(avgAnalysis, profile),
+        ...createInjuryRiskRecommendations(risk),
+      ]);
       setEnhancedRecs(enhanced);
 
       // Generate detailed summary
@@ -88,7 +208,8 @@ function BikeFitAnalysis({ videoFile }: BikeFitAnalysisProps) {
         metrics,
         asymmetryData,
         avgAnalysis.overall,
-        'bike'
+        'bike',
+        profile
       );
       setSummary(summaryData);
 
@@ -108,26 +229,77 @@ function BikeFitAnalysis({ videoFile }: BikeFitAnalysisProps) {
           lastFrame.analysis
         );
       }
+
+      // Save new results to the athlete's history (restored and re-judged sessions are already saved)
+      if (!session && !reanalyzed && onSessionComplete) {
+        onSessionComplete(buildSession(avgAnalysis, allAnalyses, metrics, asymmetryData, enhanced, report));
+      }
     },
   });
 
+  // Reference session drawn as a ghost, aligned to this video's pedal strokes
+  const ghost = useMemo(
+    () => (ghostSession && allFramePoses.length > 0
+      ? createGhostReference(allFramePoses, ghostSession.frames, 'bike')
+      : null),
+    [ghostSession, allFramePoses]
+  );
+
+  // Centimetre distances once a scale is known
+  const calibration = useMemo(
+    () => resolveCalibration(calibrationSettings, allFramePoses),
+    [calibrationSettings, allFramePoses]
+  );
+  const distances = useMemo((): DistanceMeasurement[] => [{
+    label: 'Saddle Setback',
+    value: (calibration && pedalStroke && measureSaddleSetback(allFramePoses, pedalStroke, calibration)) ?? undefined,
+    hint: 'Hip behind the bottom bracket',
+  }], [calibration, pedalStroke, allFramePoses]);
+
+  // Frontal area needs the rider's height; a height calibration is the athlete's own height
+  const riderHeight = calibrationSettings?.method === 'height' ? calibrationSettings.heightCm : athleteHeight;
+  const aero = useMemo(
+    () => (analysis ? estimateAero(analysis.angles, profile, riderHeight) : null),
+    [analysis, profile, riderHeight]
+  );
+
   // Use generic frame renderer hook
   const { handleFrameChange } = useFrameRenderer<BikeFitAnalysisType>({
     videoRef,
     canvasRef: interactiveCanvasRef,
     allFramePoses,
-    analyzeFunction: analyzeBikeFit,
+    poseModel,
+    analyzeFunction,
     drawSkeletonFunction: drawSkeleton,
     drawAnglesFunction: drawBikeFitAngles,
+    ghost,
   });
 
+  // Annotated frames for the PDF report
+  const handleCaptureKeyFrames = () =>
+    videoFile && videoRef.current
+      ? captureKeyFrames(videoRef.current, allFramePoses, drawSkeleton, drawBikeFitAngles)
+      : Promise.resolve([]);
+
+  const handleCreateSession = () =>
+    buildSession(analysis!, allFramePoses, detailedMetrics, asymmetry, enhancedRecs, smoothingReport);
+
   return (
     <div className="bike-fit-analysis">
       <video ref={videoRef} style={{ display: 'none' }} />
       <canvas ref={canvasRef} style={{ display: 'none' }} className="skeleton-canvas" />
 
-      {isAnalyzing && (
-        <AnalysisLoader progress={progress} message="Analyzing bike fit..." />
+      {(isAnalyzing || controls.isCancelled) && (
+        <AnalysisLoader
+          progress={progress}
+          message="Analyzing bike fit..."
+          controls={controls}
+          onChangeSettings={onChangeSettings}
+        />
+      )}
+
+      {athleteChoice && (
+        <AthleteSelector choice={athleteChoice} videoRef={videoRef} onSelect={selectAthlete} />
       )}
 
       {error && <div className="analysis-error">{error}</div>}
@@ -139,21 +311,40 @@ function BikeFitAnalysis({ videoFile }: BikeFitAnalysisProps) {
           angleGauges={angleGauges}
           recommendations={enhancedRecs}
           detailedMetrics={detailedMetrics}
+          smoothingReport={smoothingReport}
+          trackingReport={trackingReport}
+          segments={analyzedSegments}
           asymmetry={asymmetry}
           frameData={frameData}
           summary={summary}
+          cadence={cadence}
+          pedalStroke={pedalStroke}
+          aero={aero}
+          injuryRisk={injuryRisk}
+          ruleProfile={profile}
+          calibrationSettings={calibrationSettings}
+          calibration={calibration}
+          distances={distances}
+          onCalibrationChange={setCalibrationSettings}
           videoFile={videoFile}
+          videoName={videoFile?.name ?? session?.video.name ?? ''}
           issueMarkers={issueMarkers}
           canvasRef={interactiveCanvasRef}
           videoRef={videoRef}
           onFrameChange={handleFrameChange}
+          onCaptureKeyFrames={handleCaptureKeyFrames}
+          onCreateSession={handleCreateSession}
           title="Bike Fit Analysis Results"
           noteText="This is an automated analysis. For professional bike fitting, consult a certified bike fitter."
           angleLabels={[
             { key: 'knee', label: 'Knee Angle' },
+            { key: 'kneeAtBDC', label: 'Knee at BDC' },
+            { key: 'kneeAtTDC', label: 'Knee at TDC' },
+            { key: 'hipAtTDC', label: 'Hip at TDC' },
             { key: 'hip', label: 'Hip Angle' },
             { key: 'back', label: 'Back Angle' },
             { key: 'elbow', label: 'Elbow Angle' },
+            { key: 'ankle', label: 'Ankle Angle' },
           ]}
         />
       )}
@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState, FormEvent, MouseEvent, RefObject } from 'react';
+import { MIN_HEIGHT_CM, MAX_HEIGHT_CM } from '../utils/calibration';
+import './Calibration.css';
+import type { Calibration as CalibrationType, CalibrationSettings, DistanceMeasurement, PixelPoint } from '../types';
+
+interface CalibrationProps {
+  settings: CalibrationSettings | null;
+  calibration: CalibrationType | null;
+  measurements: DistanceMeasurement[];
+  videoRef: RefObject<HTMLVideoElement>;
+  canMark: boolean;
+  onChange: (settings: CalibrationSettings | null) => void;
+}
+
+const METHOD_LABELS: Record<CalibrationSettings['method'], string> = {
+  height: 'athlete height',
+  reference: 'marked reference',
+};
+
+/**
+ * Pixel-to-centimetre scale from the athlete's height or a marked reference of known length,
+ * with the distances it makes measurable
+ */
+function Calibration({ settings, calibration, measurements, videoRef, canMark, onChange }: CalibrationProps) {
+  const [method, setMethod] = useState<CalibrationSettings['method']>(settings?.method ?? 'height');
+  const [heightCm, setHeightCm] = useState<string>(settings?.method === 'height' ? String(settings.heightCm) : '');
+  const [lengthCm, setLengthCm] = useState<string>(settings?.method === 'reference' ? String(settings.lengthCm) : '');
+  const [points, setPoints] = useState<PixelPoint[]>(settings?.method === 'reference' ? settings.points : []);
+  const [isMarking, setIsMarking] = useState<boolean>(false);
+
+  const markCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Current video frame with the marked points and the line between them
+  useEffect(() => {
+    const canvas = markCanvasRef.current;
+    const video = videoRef.current;
+    if (!isMarking || !canvas || !video) return;
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    ctx.strokeStyle = '#ffeb3b';
+    ctx.fillStyle = '#ffeb3b';
+    ctx.lineWidth = 3;
+    if (points.length === 2) {
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      ctx.lineTo(points[1].x, points[1].y);
+      ctx.stroke();
+    }
+    points.forEach(point => {
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, 6, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+  }, [isMarking, points, videoRef]);
+
+  const startMarking = (): void => {
+    setPoints([]);
+    setIsMarking(true);
+  };
+
+  // Clicks are scaled from the displayed canvas to video pixels
+  const handleCanvasClick = (e: MouseEvent<HTMLCanvasElement>): void => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const point = {
+      x: Math.round(((e.clientX - rect.left) / rect.width) * canvas.width),
+      y: Math.round(((e.clientY - rect.top) / rect.height) * canvas.height),
+    };
+    setPoints(points.length >= 2 ? [point] : [...points, point]);
+  };
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>): void => {
+    e.preventDefault();
+    if (method === 'height') {
+      onChange({ method: 'height', heightCm: Number(heightCm) });
+    } else if (points.length === 2) {
+      onChange({ method: 'reference', lengthCm: Number(lengthCm), points: [points[0], points[1]] });
+      setIsMarking(false);
+    }
+  };
+
+  const canApply = method === 'height' ? heightCm !== '' : points.length === 2 && Number(lengthCm) > 0;
+
+  return (
+    <div className="calibration">
+      <h4>Distances</h4>
+      <p className="calibration-summary">
+        Enter the athlete's height or mark an object of known length, such as the wheel diameter,
+        to convert pixels to centimetres.
+      </p>
+
+      <form className="calibration-form" onSubmit={handleSubmit}>
+        <label htmlFor="calibration-method">
+          Scale from
+          <select
+            id="calibration-method"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as CalibrationSettings['method'])}
+          >
+            <option value="height">Athlete height</option>
+            <option value="reference">Reference length</option>
+          </select>
+        </label>
+
+        {method === 'height' ? (
+          <label htmlFor="calibration-height">
+            Height (cm)
+            <input
+              id="calibration-height"
+              type="number"
+              min={MIN_HEIGHT_CM}
+              max={MAX_HEIGHT_CM}
+              value={heightCm}
+              onChange={(e) => setHeightCm(e.target.value)}
+            />
+          </label>
+        ) : (
+          <>
+            <label htmlFor="calibration-length">
+              Length (cm)
+              <input
+                id="calibration-length"
+                type="number"
+                min="0"
+                step="any"
+                value={lengthCm}
+                onChange={(e) => setLengthCm(e.target.value)}
+              />
+            </label>
+            <button type="button" className="calibration-btn" onClick={startMarking} disabled={!canMark}>
+              {points.length === 2 ? 'Mark again' : 'Mark on current frame'}
+            </button>
+          </>
+        )}
+
+        <button type="submit" className="calibration-btn" disabled={!canApply}>
+          Apply
+        </button>
+        {settings && (
+          <button type="button" className="calibration-btn" onClick={() => onChange(null)}>
+            Clear
+          </button>
+        )}
+      </form>
+
+      {method === 'reference' && !canMark && (
+        <p className="calibration-hint">Select the video to mark a reference on one of its frames.</p>
+      )}
+
+      {method === 'reference' && isMarking && (
+        <div className="calibration-marking">
+          <p className="calibration-hint">
+            Click both ends of the reference ({points.length}/2 marked).
+          </p>
+          <canvas ref={markCanvasRef} className="calibration-canvas" onClick={handleCanvasClick} />
+        </div>
+      )}
+
+      {settings && (
+        <p className="calibration-scale">
+          {calibration
+            ? `1 px = ${calibration.cmPerPixel.toFixed(2)} cm (from ${METHOD_LABELS[calibration.method]})`
+            : settings.method === 'height'
+              ? `Could not calibrate - enter a height between ${MIN_HEIGHT_CM} and ${MAX_HEIGHT_CM} cm with the legs and arms in view.`
+              : 'Could not calibrate - mark a longer reference with a positive length.'}
+        </p>
+      )}
+
+      {calibration && measurements.length > 0 && (
+        <div className="calibration-grid">
+          {measurements.map(({ label, value, hint }) => (
+            <div key={label} className="calibration-card">
+              <span className="calibration-label">{label}</span>
+              <span className="calibration-value">{value !== undefined ? `${value} cm` : '—'}</span>
+              <span className="calibration-card-hint">{hint}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Calibration;
@@ -0,0 +1,113 @@
+import './CoachingCues.css';
+import { CUE_HOLD_SECONDS, CUE_VERBOSITY_LABELS, DEFAULT_CUE_VOCABULARY } from '../utils/coachingCues';
+import { RULE_RANGE_LABELS } from '../utils/ruleProfiles';
+import type { RuleRangeKey } from '../utils/ruleProfiles';
+import type { CueDirection, CueSettings, CueVerbosity, SpokenCue } from '../types';
+
+interface CoachingCuesProps {
+  sport: 'bike' | 'running';
+  available: boolean;
+  settings: CueSettings;
+  lastCue: SpokenCue | null;
+  onChange: (changes: Partial<CueSettings>) => void;
+}
+
+const DIRECTION_LABELS: Record<CueDirection, string> = {
+  low: 'Below range',
+  high: 'Above range',
+};
+
+/**
+ * Mute, verbosity and phrase controls for the spoken live cues
+ */
+function CoachingCues({ sport, available, settings, lastCue, onChange }: CoachingCuesProps) {
+  if (!available) {
+    return (
+      <div className="coaching-cues">
+        <h4>Spoken Cues</h4>
+        <p className="coaching-cues-hint">This browser cannot speak cues.</p>
+      </div>
+    );
+  }
+
+  const vocabulary = settings.vocabulary[sport];
+
+  const setPhrase = (key: string, direction: CueDirection, text: string) =>
+    onChange({
+      vocabulary: {
+        ...settings.vocabulary,
+        [sport]: { ...vocabulary, [key]: { ...vocabulary[key], [direction]: text } },
+      },
+    });
+
+  return (
+    <div className="coaching-cues">
+      <h4>Spoken Cues</h4>
+      <p className="coaching-cues-hint">
+        An issue is spoken once it has lasted {CUE_HOLD_SECONDS} seconds, and repeated only while it persists.
+      </p>
+
+      <div className="coaching-cues-controls">
+        <button type="button" className="coaching-cues-btn" onClick={() => onChange({ muted: !settings.muted })}>
+          {settings.muted ? 'Unmute Cues' : 'Mute Cues'}
+        </button>
+        <label>
+          Speak
+          <select
+            value={settings.verbosity}
+            onChange={(e) => onChange({ verbosity: e.target.value as CueVerbosity })}
+          >
+            {(Object.keys(CUE_VERBOSITY_LABELS) as CueVerbosity[]).map(level => (
+              <option key={level} value={level}>{CUE_VERBOSITY_LABELS[level]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {lastCue && !settings.muted && (
+        <p className="coaching-cues-last">Last cue: &ldquo;{lastCue.text}&rdquo;</p>
+      )}
+
+      <details className="coaching-cues-phrases">
+        <summary>Cue phrases</summary>
+        <p className="coaching-cues-hint">Leave a phrase empty to never speak it.</p>
+        <table className="metrics-table">
+          <thead>
+            <tr>
+              <th>Area</th>
+              {(Object.keys(DIRECTION_LABELS) as CueDirection[]).map(direction => (
+                <th key={direction}>{DIRECTION_LABELS[direction]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Object.keys(DEFAULT_CUE_VOCABULARY[sport]).map(key => (
+              <tr key={key}>
+                <td className="angle-name">{RULE_RANGE_LABELS[key as RuleRangeKey]?.label ?? key}</td>
+                {(Object.keys(DIRECTION_LABELS) as CueDirection[]).map(direction => (
+                  <td key={direction}>
+                    <input
+                      type="text"
+                      value={vocabulary[key]?.[direction] ?? ''}
+                      aria-label={`${key} ${DIRECTION_LABELS[direction]}`}
+                      onChange={(e) => setPhrase(key, direction, e.target.value)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          type="button"
+          className="coaching-cues-btn"
+          onClick={() => onChange({ vocabulary: { ...settings.vocabulary, [sport]: DEFAULT_CUE_VOCABULARY[sport] } })}
+        >
+          Reset Phrases
+        </button>
+      </details>
+    </div>
+  );
+}
+
+export default CoachingCues;
@@ -1,5 +1,5 @@
 import './DetailedMetrics.css';
-import { getConsistencyRating, getAsymmetryStatus } from '../utils/detailedMetrics';
+import { getConsistencyRating, getAsymmetryStatus, formatMetricName, formatMetricValue } from '../utils/detailedMetrics';
 import type { DetailedMetrics as DetailedMetricsType, Asymmetry, FrameData } from '../types';
 
 interface DetailedMetricsProps {
@@ -11,16 +11,19 @@ interface DetailedMetricsProps {
 function DetailedMetrics({ metrics, asymmetry, frameData }: DetailedMetricsProps) {
   if (!metrics) return null;
 
+  // Stride-level metrics such as ground contact time have no per-frame values to chart
+  const chartKeys = Object.keys(metrics).filter(key => frameData.some(frame => frame[key] !== undefined));
+
   return (
     <div className="detailed-metrics">
       <h4>Detailed Metrics</h4>
 
-      {/* Angle Statistics Table */}
+      {/* Metric Statistics Table */}
       <div className="metrics-table-container">
         <table className="metrics-table">
           <thead>
             <tr>
-              <th>Angle</th>
+              <th>Measurement</th>
               <th>Min</th>
               <th>Avg</th>
               <th>Max</th>
@@ -33,11 +36,11 @@ function DetailedMetrics({ metrics, asymmetry, frameData }: DetailedMetricsProps
               const rating = getConsistencyRating(data.consistency);
               return (
                 <tr key={key}>
-                  <td className="angle-name">{formatAngleName(key)}</td>
-                  <td>{data.min}°</td>
-                  <td className="avg-value">{data.avg}°</td>
-                  <td>{data.max}°</td>
-                  <td>{data.range}°</td>
+                  <td className="angle-name">{formatMetricName(key)}</td>
+                  <td>{formatMetricValue(data.min, data.unit)}</td>
+                  <td className="avg-value">{formatMetricValue(data.avg, data.unit)}</td>
+                  <td>{formatMetricValue(data.max, data.unit)}</td>
+                  <td>{formatMetricValue(data.range, data.unit)}</td>
                   <td>
                     <span
                       className="consistency-badge"
@@ -54,13 +57,13 @@ function DetailedMetrics({ metrics, asymmetry, frameData }: DetailedMetricsProps
       </div>
 
       {/* Frame-by-Frame Mini Chart */}
-      {frameData && frameData.length > 0 && (
+      {chartKeys.length > 0 && (
         <div className="frame-chart-section">
           <h5>Frame-by-Frame Variation</h5>
           <div className="mini-charts">
-            {Object.keys(metrics).map(angleKey => (
+            {chartKeys.map(angleKey => (
               <div key={angleKey} className="mini-chart">
-                <div className="chart-label">{formatAngleName(angleKey)}</div>
+                <div className="chart-label">{formatMetricName(angleKey)}</div>
                 <div className="chart-bars">
                   {frameData.map((frame, index) => {
                     const value = frame[angleKey];
@@ -99,7 +102,7 @@ function DetailedMetrics({ metrics, asymmetry, frameData }: DetailedMetricsProps
               return (
                 <div key={key} className="asymmetry-card">
                   <div className="asymmetry-header">
-                    <span className="asymmetry-name">{formatAngleName(key)}</span>
+                    <span className="asymmetry-name">{formatMetricName(key)}</span>
                     <span
                       className="asymmetry-status"
                       style={{ color: status.color }}
@@ -110,15 +113,15 @@ function DetailedMetrics({ metrics, asymmetry, frameData }: DetailedMetricsProps
                   <div className="asymmetry-values">
                     <div className="side-value">
                       <span className="side-label">Left</span>
-                      <span className="side-angle">{data.left}°</span>
+                      <span className="side-angle">{formatMetricValue(data.left, data.unit)}</span>
                     </div>
                     <div className="diff-indicator">
-                      <span className="diff-value">{data.difference}°</span>
+                      <span className="diff-value">{formatMetricValue(data.difference, data.unit)}</span>
                       <span className="diff-percent">({data.percentDiff}%)</span>
                     </div>
                     <div className="side-value">
                       <span className="side-label">Right</span>
-                      <span className="side-angle">{data.right}°</span>
+                      <span className="side-angle">{formatMetricValue(data.right, data.unit)}</span>
                     </div>
                   </div>
                   <div className="balance-bar">
@@ -145,21 +148,4 @@ function DetailedMetrics({ metrics, asymmetry, frameData }: DetailedMetricsProps
   );
 }
 
-function formatAngleName(key: string): string {
-  const nameMap: { [key: string]: string } = {
-    knee: 'Knee',
-    hip: 'Hip',
-    elbow: 'Elbow',
-    back: 'Back',
-    bodyLean: 'Body Lean',
-    kneeLift: 'Knee Lift',
-    hipExtension: 'Hip Extension',
-    armSwing: 'Arm Swing',
-    kneeAngle: 'Knee',
-    hipAngle: 'Hip',
-    armAngle: 'Arm',
-  };
-  return nameMap[key] || key;
-}
-
 export default DetailedMetrics;
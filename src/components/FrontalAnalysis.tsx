@@ -0,0 +1,290 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { drawSkeleton, drawFrontalAngles, createAngleGauge } from '../utils/skeletonDrawing';
+import { enhanceFrontalRecommendations, prioritizeRecommendations } from '../utils/enhancedRecommendations';
+import { assessInjuryRisk, createInjuryRiskRecommendations } from '../utils/injuryRisk';
+import {
+  createIssueMarkers,
+  getFrontalOverallMessage,
+  drawPoseOnCanvas,
+  captureKeyFrames
+} from '../utils/analysisHelpers';
+import { generateDetailedSummary } from '../utils/analysisSummary';
+import { estimateCadence } from '../utils/cadence';
+import { analyzeFrontalPose, combineFrontalAnalyses } from '../utils/frontalAnalysis';
+import { getRuleProfile } from '../utils/ruleProfiles';
+import { createSession, getVideoMetadata } from '../utils/sessionExport';
+import { DENSE_SAMPLING } from '../utils/videoSampling';
+import { createGhostReference } from '../utils/ghostOverlay';
+import { useVideoAnalysis } from '../hooks/useVideoAnalysis';
+import { useFrameRenderer } from '../hooks/useFrameRenderer';
+import AnalysisResults from './AnalysisResults';
+import AnalysisLoader from './AnalysisLoader';
+import AthleteSelector from './AthleteSelector';
+import './BikeFitAnalysis.css';
+import './FrontalAnalysis.css';
+import type {
+  FrontalAnalysis as FrontalAnalysisType,
+  AngleGauge,
+  Recommendation,
+  IssueMarker,
+  AnalysisSummary,
+  CadenceEstimate,
+  PoseModelId,
+  SmoothingOptions,
+  SmoothingReport,
+  FrameAnalysis,
+  AnalysisSession,
+  VideoSegment,
+  RuleProfile,
+  InjuryRiskAssessment,
+} from '../types';
+
+interface FrontalAnalysisProps {
+  videoFile: File | null;
+  session?: AnalysisSession | null;
+  segments?: VideoSegment[]; // Trimmed parts of the video to analyze
+  sport: 'cycling' | 'running';
+  poseModel?: PoseModelId;
+  smoothing?: SmoothingOptions | false;
+  onSessionComplete?: (session: AnalysisSession) => void;
+  onChangeSettings?: () => void; // Abandons the run to pick other settings
+  ghostSession?: AnalysisSession | null;
+  ruleProfile?: RuleProfile;
+}
+
+function FrontalAnalysis({
+  videoFile,
+  session,
+  segments,
+  sport,
+  poseModel,
+  smoothing,
+  onSessionComplete,
+  onChangeSettings,
+  ghostSession,
+  ruleProfile,
+}: FrontalAnalysisProps) {
+  const [angleGauges, setAngleGauges] = useState<AngleGauge[]>([]);
+  const [enhancedRecs, setEnhancedRecs] = useState<Recommendation[]>([]);
+  const [issueMarkers, setIssueMarkers] = useState<IssueMarker[]>([]);
+  const [summary, setSummary] = useState<AnalysisSummary | null>(null);
+  const [cadence, setCadence] = useState<CadenceEstimate | null>(null);
+  const [injuryRisk, setInjuryRisk] = useState<InjuryRiskAssessment | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const interactiveCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const pelvisLabel = sport === 'cycling' ? 'Hip Rocking' : 'Pelvic Drop';
+
+  // Measurements are judged against the selected discipline; changing it re-judges the detected poses
+  const profile = ruleProfile ?? getRuleProfile(undefined, sport === 'cycling' ? 'bike' : 'running');
+  const combineFunction = useCallback(
+    (analyses: FrontalAnalysisType[], frames: FrameAnalysis[]) => combineFrontalAnalyses(analyses, frames, sport, profile),
+    [sport, profile]
+  );
+
+  // Restored sessions keep the segments they were analyzed from
+  const analyzedSegments = segments ?? session?.segments;
+
+  // Versioned session for export, athlete history and later re-import
+  const buildSession = (
+    result: FrontalAnalysisType,
+    frames: FrameAnalysis[],
+    recommendations: Recommendation[],
+    report: SmoothingReport | null
+  ) =>
+    createSession({
+      analysisType: sport === 'cycling' ? 'bike' : 'running',
+      view: 'front',
+      poseModel,
+      ruleProfile: profile.id,
+      video: videoFile ? getVideoMetadata(videoFile, videoRef.current) : session!.video,
+      frames,
+      analysis: result,
+      detailedMetrics: null,
+      asymmetry: null,
+      recommendations,
+      smoothingReport: report,
+      segments: analyzedSegments,
+    });
+
+  // Use generic video analysis hook
+  const {
+    analysis,
+    isAnalyzing,
+    progress,
+    error,
+    allFramePoses,
+    smoothingReport,
+    trackingReport,
+    athleteChoice,
+    selectAthlete,
+    controls,
+    videoRef,
+  } = useVideoAnalysis<FrontalAnalysisType>({
+    videoFile,
+    session,
+    sampling: DENSE_SAMPLING,
+    segments,
+    poseModel,
+    smoothing,
+    analyzeFunction: analyzeFrontalPose,
+    combineFunction,
+    onComplete: (combined, allAnalyses, report, reanalyzed) => {
+      // Create angle gauges
+      const gauges: AngleGauge[] = [];
+      const { kneeValgus, pelvicDrop, hipRocking, shoulderTilt } = profile.ranges;
+      if (combined.angles.kneeValgusLeft !== undefined) {
+        gauges.push(createAngleGauge(combined.angles.kneeValgusLeft, kneeValgus.min, kneeValgus.max, 'Left Knee Tracking'));
+      }
+      if (combined.angles.kneeValgusRight !== undefined) {
+        gauges.push(createAngleGauge(combined.angles.kneeValgusRight, kneeValgus.min, kneeValgus.max, 'Right Knee Tracking'));
+      }
+      if (combined.angles.pelvicDrop !== undefined) {
+        const range = sport === 'cycling' ? hipRocking : pelvicDrop;
+        gauges.push(createAngleGauge(combined.angles.pelvicDrop, range.min, range.max, pelvisLabel));
+      }
+      if (combined.angles.shoulderTilt !== undefined) {
+        gauges.push(createAngleGauge(combined.angles.shoulderTilt, shoulderTilt.min, shoulderTilt.max, 'Shoulder Tilt'));
+      }
+      setAngleGauges(gauges);
+
+      // Pedal RPM or steps per minute from ankle motion
+      setCadence(estimateCadence(allAnalyses, sport, profile.sport === 'running' ? profile.ranges.cadence : undefined));
+
+      // Score injury risk; high and moderate risks join the recommendations
+      const risk = assessInjuryRisk({ angles: combined.angles, profile });
+      setInjuryRisk(risk);
+
+      // Enhance recommendations
+      const enhanced = prioritizeRecommendations([
+        ...enhanceFrontalRecommendations(combined, sport, profile),
+        ...createInjuryRiskRecommendations(risk),
+      ]);
+      setEnhancedRecs(enhanced);
+
+      // Generate detailed summary
+      const summaryData = generateDetailedSummary(
+        enhanced,
+        combined.angles,
+        null,
+        null,
+        combined.overall,
+        sport === 'cycling' ? 'bike' : 'running',
+        profile
+      );
+      setSummary(summaryData);
+
+      // Create issue markers
+      const duration = videoRef.current?.duration || 0;
+      setIssueMarkers(createIssueMarkers(enhanced, duration, 24));
+
+      // Draw skeleton on static canvas
+      const lastFrame = allAnalyses[allAnalyses.length - 1];
+      if (canvasRef.current && videoRef.current && lastFrame) {
+        drawPoseOnCanvas(
+          canvasRef.current,
+          videoRef.current,
+          lastFrame.pose,
+          drawSkeleton,
+          drawFrontalAngles,
+          lastFrame.analysis
+        );
+      }
+
+      // Save new results to the athlete's history (restored and re-judged sessions are already saved)
+      if (!session && !reanalyzed && onSessionComplete) {
+        onSessionComplete(buildSession(combined, allAnalyses, enhanced, report));
+      }
+    },
+  });
+
+  // Reference session drawn as a ghost, aligned to this video's pedal strokes or strides
+  const ghost = useMemo(
+    () => (ghostSession && allFramePoses.length > 0
+      ? createGhostReference(allFramePoses, ghostSession.frames, sport === 'cycling' ? 'bike' : 'running')
+      : null),
+    [ghostSession, allFramePoses, sport]
+  );
+
+  // Use generic frame renderer hook
+  const { handleFrameChange } = useFrameRenderer<FrontalAnalysisType>({
+    videoRef,
+    canvasRef: interactiveCanvasRef,
+    allFramePoses,
+    poseModel,
+    analyzeFunction: analyzeFrontalPose,
+    drawSkeletonFunction: drawSkeleton,
+    drawAnglesFunction: drawFrontalAngles,
+    ghost,
+  });
+
+  // Annotated frames for the PDF report
+  const handleCaptureKeyFrames = () =>
+    videoFile && videoRef.current
+      ? captureKeyFrames(videoRef.current, allFramePoses, drawSkeleton, drawFrontalAngles)
+      : Promise.resolve([]);
+
+  const handleCreateSession = () =>
+    buildSession(analysis!, allFramePoses, enhancedRecs, smoothingReport);
+
+  return (
+    <div className="frontal-analysis">
+      <video ref={videoRef} style={{ display: 'none' }} />
+      <canvas ref={canvasRef} style={{ display: 'none' }} />
+
+      {(isAnalyzing || controls.isCancelled) && (
+        <AnalysisLoader
+          progress={progress}
+          message="Analyzing knee tracking..."
+          controls={controls}
+          onChangeSettings={onChangeSettings}
+        />
+      )}
+
+      {athleteChoice && (
+        <AthleteSelector choice={athleteChoice} videoRef={videoRef} onSelect={selectAthlete} />
+      )}
+
+      {error && <div className="analysis-error">{error}</div>}
+
+      {analysis && !isAnalyzing && summary && (
+        <AnalysisResults
+          overallMessage={getFrontalOverallMessage(analysis.overall)}
+          angles={analysis.angles}
+          angleGauges={angleGauges}
+          recommendations={enhancedRecs}
+          detailedMetrics={null}
+          smoothingReport={smoothingReport}
+          trackingReport={trackingReport}
+          segments={analyzedSegments}
+          asymmetry={null}
+          frameData={[]}
+          summary={summary}
+          cadence={cadence}
+          frontal={analysis}
+          injuryRisk={injuryRisk}
+          ruleProfile={profile}
+          videoFile={videoFile}
+          videoName={videoFile?.name ?? session?.video.name ?? ''}
+          issueMarkers={issueMarkers}
+          canvasRef={interactiveCanvasRef}
+          videoRef={videoRef}
+          onFrameChange={handleFrameChange}
+          onCaptureKeyFrames={handleCaptureKeyFrames}
+          onCreateSession={handleCreateSession}
+          title="Knee Tracking Analysis Results"
+          noteText="This is an automated front-view analysis. Film square-on to the athlete at hip height for the most reliable knee tracking measurements."
+          angleLabels={[
+            { key: 'kneeValgusLeft', label: 'Left Knee Tracking' },
+            { key: 'kneeValgusRight', label: 'Right Knee Tracking' },
+            { key: 'pelvicDrop', label: pelvisLabel },
+            { key: 'shoulderTilt', label: 'Shoulder Tilt' },
+          ]}
+        />
+      )}
+    </div>
+  );
+}
+
+export default FrontalAnalysis;
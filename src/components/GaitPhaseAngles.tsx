@@ -0,0 +1,56 @@
+import './GaitPhaseAngles.css';
+import type { GaitAnalysis, GaitPhaseAngles as GaitPhaseAnglesType } from '../types';
+
+interface GaitPhaseAnglesProps {
+  gaitAnalysis: GaitAnalysis | null;
+}
+
+const PHASE_ROWS: Array<{ key: keyof GaitPhaseAnglesType; label: string; phase: string }> = [
+  { key: 'kneeFlexionAtContact', label: 'Knee Flexion', phase: 'Initial Contact' },
+  { key: 'kneeFlexionAtMidStance', label: 'Knee Flexion', phase: 'Mid-Stance' },
+  { key: 'hipExtensionAtToeOff', label: 'Hip Extension', phase: 'Toe-Off' },
+  { key: 'peakSwingKneeFlexion', label: 'Peak Knee Flexion', phase: 'Swing' },
+];
+
+/**
+ * Per-phase joint angles for each leg, measured at detected gait events
+ */
+function GaitPhaseAngles({ gaitAnalysis }: GaitPhaseAnglesProps) {
+  if (!gaitAnalysis || gaitAnalysis.cycles.length === 0) return null;
+
+  const { phaseAngles, cycles } = gaitAnalysis;
+  const formatValue = (value?: number) => (value !== undefined ? `${value}°` : '—');
+
+  return (
+    <div className="gait-phase-angles">
+      <h4>Gait Phase Angles</h4>
+      <p className="gait-cycle-count">
+        {cycles.length} stride cycle{cycles.length > 1 ? 's' : ''} detected
+      </p>
+      <div className="metrics-table-container">
+        <table className="metrics-table">
+          <thead>
+            <tr>
+              <th>Measurement</th>
+              <th>Gait Phase</th>
+              <th>Left</th>
+              <th>Right</th>
+            </tr>
+          </thead>
+          <tbody>
+            {PHASE_ROWS.map(({ key, label, phase }) => (
+              <tr key={key}>
+                <td className="angle-name">{label}</td>
+                <td>{phase}</td>
+                <td>{formatValue(phaseAngles.left[key])}</td>
+                <td>{formatValue(phaseAngles.right[key])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default GaitPhaseAngles;
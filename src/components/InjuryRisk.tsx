@@ -0,0 +1,68 @@
+import './InjuryRisk.css';
+import type { InjuryRiskAssessment, RiskLevel } from '../types';
+
+interface InjuryRiskProps {
+  risk: InjuryRiskAssessment | null;
+}
+
+const LEVEL_DISPLAY: Record<RiskLevel, { label: string; color: string }> = {
+  high: { label: 'High risk', color: '#f44336' },
+  moderate: { label: 'Moderate risk', color: '#ff9800' },
+  low: { label: 'Low risk', color: '#4caf50' },
+};
+
+/**
+ * Per-region injury risk scores with the factors behind each one
+ */
+function InjuryRisk({ risk }: InjuryRiskProps) {
+  if (!risk) return null;
+
+  return (
+    <div className="injury-risk">
+      <h4>Injury Risk</h4>
+      <p className="injury-risk-summary">
+        Screening scores from this video only - not a diagnosis. See a professional about any pain.
+      </p>
+      <div className="injury-risk-grid">
+        {risk.regions.map(region => {
+          const display = LEVEL_DISPLAY[region.level];
+          return (
+            <div key={region.region} className="injury-risk-card" style={{ borderTopColor: display.color }}>
+              <div className="injury-risk-header">
+                <span className="injury-risk-region">{region.label}</span>
+                <span className="injury-risk-level" style={{ color: display.color }}>{display.label}</span>
+              </div>
+              <div
+                className="injury-risk-bar"
+                role="meter"
+                aria-label={`${region.label} injury risk`}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={region.score}
+              >
+                <div
+                  className="injury-risk-fill"
+                  style={{ width: `${region.score}%`, backgroundColor: display.color }}
+                ></div>
+              </div>
+              <div className="injury-risk-score">{region.score} / 100</div>
+              {region.factors.length > 0 ? (
+                <ul className="injury-risk-factors">
+                  {region.factors.map(factor => (
+                    <li key={factor.id}>
+                      <strong>{factor.label} (+{factor.points}):</strong> {factor.explanation}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="injury-risk-none">No risk factors found</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default InjuryRisk;
@@ -8,8 +8,9 @@ interface InteractiveVideoProps {
   issueMarkers?: IssueMarker[];
   showSkeleton?: boolean;
   showAngles?: boolean;
-  canvasRef?: RefObject<HTMLCanvasElement>;
-  videoRef?: RefObject<HTMLVideoElement>;
+  canvasRef?: RefObject<HTMLCanvasElement | null>;
+  videoRef?: RefObject<HTMLVideoElement | null>;
+  showControls?: boolean;
 }
 
 /**
@@ -17,6 +18,7 @@ interface InteractiveVideoProps {
  * - Video scrubbing with live angle updates
  * - Toggle overlay layers (skeleton, angles, gauges)
  * - Issue markers on timeline
+ * - Playback controls can be hidden when another player drives this one
  */
 function InteractiveVideo({
   videoFile,
@@ -26,6 +28,7 @@ function InteractiveVideo({
   showAngles = true,
   canvasRef,
   videoRef: externalVideoRef,
+  showControls = true,
 }: InteractiveVideoProps) {
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [currentTime, setCurrentTime] = useState<number>(0);
@@ -226,62 +229,64 @@ function InteractiveVideo({
       </div>
 
       {/* Video Controls */}
-      <div className="video-controls">
-        <div className="control-buttons">
-          <button onClick={skipBackward} className="control-btn" title="Back 2s">
-            Back
-          </button>
-          <button onClick={togglePlayPause} className="control-btn play-btn">
-            {isPlaying ? 'Pause' : 'Play'}
-          </button>
-          <button onClick={skipForward} className="control-btn" title="Forward 2s">
-            Forward
-          </button>
-          <span className="time-display">
-            {formatTime(currentTime)} / {formatTime(duration)}
-          </span>
-        </div>
+      {showControls && (
+        <div className="video-controls">
+          <div className="control-buttons">
+            <button onClick={skipBackward} className="control-btn" title="Back 2s">
+              Back
+            </button>
+            <button onClick={togglePlayPause} className="control-btn play-btn">
+              {isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <button onClick={skipForward} className="control-btn" title="Forward 2s">
+              Forward
+            </button>
+            <span className="time-display">
+              {formatTime(currentTime)} / {formatTime(duration)}
+            </span>
+          </div>
 
-        {/* Timeline with Issue Markers */}
-        <div className="timeline-container">
-          <div
-            ref={timelineRef}
-            className="timeline"
-            onClick={handleSeek}
-          >
+          {/* Timeline with Issue Markers */}
+          <div className="timeline-container">
             <div
-              className="timeline-progress"
-              style={{ width: `${(currentTime / duration) * 100}%` }}
-            />
-            <div
-              className="timeline-scrubber"
-              style={{ left: `${(currentTime / duration) * 100}%` }}
-            />
-
-            {/* Issue Markers */}
-            {issueMarkers.map((marker, index) => (
+              ref={timelineRef}
+              className="timeline"
+              onClick={handleSeek}
+            >
               <div
-                key={index}
-                className={`issue-marker ${marker.severity}`}
-                style={{ left: `${(marker.time / duration) * 100}%` }}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  jumpToIssue(marker.time);
-                }}
-                title={`${marker.area}: ${marker.message}`}
-              >
-                <div className="marker-tooltip">
-                  <strong>{marker.area}</strong>
-                  <p>{marker.message}</p>
+                className="timeline-progress"
+                style={{ width: `${(currentTime / duration) * 100}%` }}
+              />
+              <div
+                className="timeline-scrubber"
+                style={{ left: `${(currentTime / duration) * 100}%` }}
+              />
+
+              {/* Issue Markers */}
+              {issueMarkers.map((marker, index) => (
+                <div
+                  key={index}
+                  className={`issue-marker ${marker.severity}`}
+                  style={{ left: `${(marker.time / duration) * 100}%` }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    jumpToIssue(marker.time);
+                  }}
+                  title={`${marker.area}: ${marker.message}`}
+                >
+                  <div className="marker-tooltip">
+                    <strong>{marker.area}</strong>
+                    <p>{marker.message}</p>
+                  </div>
                 </div>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Issue List */}
-      {issueMarkers.length > 0 && (
+      {showControls && issueMarkers.length > 0 && (
         <div className="issue-list">
           <h5>Issues Timeline</h5>
           <div className="issue-items">
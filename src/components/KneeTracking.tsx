@@ -0,0 +1,57 @@
+import './KneeTracking.css';
+import type { FrontalAnalysis, FrontalRanges } from '../types';
+
+interface KneeTrackingProps {
+  frontal: FrontalAnalysis | null;
+  ranges: FrontalRanges;
+}
+
+/**
+ * Per-leg knee tracking measurements from a front-facing video
+ */
+function KneeTracking({ frontal, ranges }: KneeTrackingProps) {
+  if (!frontal || !frontal.legs) return null;
+
+  const { kneeValgus, kneeTravel } = ranges;
+  const { left, right } = frontal.legs;
+
+  const formatValue = (value: number | undefined, unit: string) =>
+    value !== undefined ? `${value}${unit}` : '—';
+
+  return (
+    <div className="knee-tracking">
+      <h4>Knee Tracking</h4>
+      <p className="knee-tracking-summary">
+        Knee position relative to the hip-ankle line - positive values mean the knee moves inward
+      </p>
+      <div className="metrics-table-container">
+        <table className="metrics-table">
+          <thead>
+            <tr>
+              <th>Measurement</th>
+              <th>Left</th>
+              <th>Right</th>
+              <th>Optimal</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td className="angle-name">Peak Knee Deviation</td>
+              <td className="avg-value">{formatValue(left.peakValgus, '°')}</td>
+              <td className="avg-value">{formatValue(right.peakValgus, '°')}</td>
+              <td>{kneeValgus.min}° to {kneeValgus.max}°</td>
+            </tr>
+            <tr>
+              <td className="angle-name">Lateral Travel</td>
+              <td className="avg-value">{formatValue(left.lateralTravel, '% of leg')}</td>
+              <td className="avg-value">{formatValue(right.lateralTravel, '% of leg')}</td>
+              <td>under {kneeTravel.max}% of leg</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default KneeTracking;
@@ -0,0 +1,197 @@
+import { useCallback, useMemo, useState } from 'react';
+import './LiveAnalysis.css';
+import { analyzeBikeFit } from '../utils/poseDetection';
+import { analyzeRunningForm } from '../utils/runningAnalysis';
+import { drawSkeleton, drawBikeFitAngles, drawRunningAngles } from '../utils/skeletonDrawing';
+import { summarizeLiveWindow, LIVE_WINDOW_SECONDS } from '../utils/liveAnalysis';
+import { formatMetricName } from '../utils/detailedMetrics';
+import { getAngleRange, classifyRange } from '../utils/ruleProfiles';
+import { useLiveCamera } from '../hooks/useLiveCamera';
+import { useCoachingCues } from '../hooks/useCoachingCues';
+import CoachingCues from './CoachingCues';
+import type {
+  AngleData,
+  BikeFitAnalysis,
+  BikeRuleProfile,
+  FrameAnalysis,
+  Pose,
+  PoseModelId,
+  RunningFormAnalysis,
+  RunningRuleProfile,
+  SmoothingOptions,
+} from '../types';
+
+type LiveAnalysisProps = {
+  poseModel?: PoseModelId;
+  smoothing?: SmoothingOptions | false;
+  onClose: () => void;
+} & (
+  | { sport: 'bike'; ruleProfile: BikeRuleProfile }
+  | { sport: 'running'; ruleProfile: RunningRuleProfile }
+);
+
+interface LiveRow {
+  key: string;
+  now?: number;
+  avg?: number;
+  min?: number;
+  max?: number;
+}
+
+// Positions only measurable over whole crank revolutions
+const PEDAL_STROKE_KEYS = ['kneeAtBDC', 'kneeAtTDC', 'hipAtTDC'] as const;
+
+/**
+ * Live camera mode for trainer and treadmill sessions
+ * Draws the skeleton and angles on the camera image and keeps rolling metrics
+ * over the last few seconds, so position changes show up without re-recording
+ * Persistent issues are spoken as short cues for athletes who can't watch the screen
+ */
+function LiveAnalysis({ sport, ruleProfile, poseModel, smoothing, onClose }: LiveAnalysisProps) {
+  const [showSkeleton, setShowSkeleton] = useState<boolean>(true);
+  const [showAngles, setShowAngles] = useState<boolean>(true);
+
+  const analyzeFunction = useCallback(
+    (pose: Pose): FrameAnalysis['analysis'] | null =>
+      ruleProfile.sport === 'bike' ? analyzeBikeFit(pose, ruleProfile) : analyzeRunningForm(pose, ruleProfile),
+    [ruleProfile]
+  );
+  const drawAnglesFunction = useCallback(
+    (ctx: CanvasRenderingContext2D, pose: Pose, analysis: FrameAnalysis['analysis']) =>
+      sport === 'bike'
+        ? drawBikeFitAngles(ctx, pose, analysis as BikeFitAnalysis)
+        : drawRunningAngles(ctx, pose, analysis as RunningFormAnalysis),
+    [sport]
+  );
+
+  const { isLive, isStarting, error, frames, start, stop, videoRef, canvasRef } = useLiveCamera({
+    poseModel,
+    smoothing,
+    showSkeleton,
+    showAngles,
+    analyzeFunction,
+    drawSkeletonFunction: drawSkeleton,
+    drawAnglesFunction,
+  });
+
+  const summary = useMemo(() => summarizeLiveWindow(frames, sport), [frames, sport]);
+  const cues = useCoachingCues({ frames, ruleProfile, active: isLive });
+
+  const rows = useMemo((): LiveRow[] => {
+    const angleRows = Object.entries(summary.metrics ?? {}).map(([key, data]) => ({
+      key,
+      now: summary.latest[key as keyof AngleData],
+      avg: data.avg,
+      min: data.min,
+      max: data.max,
+    }));
+    const strokeRows = sport === 'bike'
+      ? PEDAL_STROKE_KEYS.map(key => ({ key, avg: summary.pedalStroke?.[key] }))
+      : [];
+    return [...angleRows, ...strokeRows];
+  }, [summary, sport]);
+
+  const handleClose = () => {
+    stop();
+    onClose();
+  };
+
+  return (
+    <div className="live-analysis">
+      <h3>Live {sport === 'bike' ? 'Bike Fit' : 'Running Form'}</h3>
+      <p className="live-hint">
+        Place the camera side-on at hip height with the whole body in frame. Metrics cover the
+        last {LIVE_WINDOW_SECONDS} seconds{sport === 'bike' ? '; positions at the top and bottom of the stroke appear once the crank has turned a few times' : ''}.
+      </p>
+
+      <div className="live-buttons">
+        {isLive ? (
+          <button type="button" className="live-btn" onClick={stop}>Stop Camera</button>
+        ) : (
+          <button type="button" className="live-btn primary" onClick={start} disabled={isStarting}>
+            {isStarting ? 'Starting camera...' : 'Start Camera'}
+          </button>
+        )}
+        <button type="button" className="live-btn" onClick={handleClose}>Close Live Mode</button>
+      </div>
+
+      {error && <div className="analysis-error">{error}</div>}
+
+      <video ref={videoRef} className="live-source" muted playsInline />
+
+      <div className={`live-video ${isLive ? '' : 'hidden'}`}>
+        <canvas ref={canvasRef} className="live-canvas" />
+        <div className="live-toggles">
+          <button
+            type="button"
+            className={`live-toggle ${showSkeleton ? 'active' : ''}`}
+            onClick={() => setShowSkeleton(!showSkeleton)}
+          >
+            Skeleton
+          </button>
+          <button
+            type="button"
+            className={`live-toggle ${showAngles ? 'active' : ''}`}
+            onClick={() => setShowAngles(!showAngles)}
+          >
+            Angles
+          </button>
+        </div>
+      </div>
+
+      {isLive && (
+        <div className="live-metrics">
+          <h4>Rolling Metrics</h4>
+          <p className="live-hint">
+            {summary.frames > 0
+              ? `${summary.frames} frames over ${summary.duration.toFixed(1)} s (${summary.sampleRate.toFixed(1)} fps)`
+              : 'Waiting for a clear view of the athlete...'}
+          </p>
+
+          {rows.length > 0 && (
+            <div className="metrics-table-container">
+              <table className="metrics-table">
+                <thead>
+                  <tr>
+                    <th>Measurement</th>
+                    <th>Now</th>
+                    <th>Avg</th>
+                    <th>Min - Max</th>
+                    <th>Optimal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ key, now, avg, min, max }) => {
+                    const range = getAngleRange(key, ruleProfile);
+                    const status = range && avg !== undefined ? classifyRange(avg, range) : null;
+                    return (
+                      <tr key={key}>
+                        <td className="angle-name">{formatMetricName(key)}</td>
+                        <td>{now !== undefined ? `${now}°` : '—'}</td>
+                        <td className={`avg-value ${status ? `live-${status}` : ''}`}>
+                          {avg !== undefined ? `${avg}°` : '—'}
+                        </td>
+                        <td>{min !== undefined && max !== undefined ? `${min}° - ${max}°` : '—'}</td>
+                        <td>{range ? `${range.min}° - ${range.max}°` : '—'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <CoachingCues
+        sport={sport}
+        available={cues.available}
+        settings={cues.settings}
+        lastCue={cues.lastCue}
+        onChange={cues.updateSettings}
+      />
+    </div>
+  );
+}
+
+export default LiveAnalysis;
@@ -0,0 +1,66 @@
+import './PedalStrokePositions.css';
+import type { BikeFitRanges, PedalStrokeAnalysis } from '../types';
+
+interface PedalStrokePositionsProps {
+  pedalStroke: PedalStrokeAnalysis | null;
+  ranges: BikeFitRanges;
+}
+
+const POSITION_ROWS: Array<{
+  key: 'kneeAtBDC' | 'kneeAtTDC' | 'hipAtTDC' | 'kneeOverPedal';
+  label: string;
+  position: string;
+  unit: string;
+}> = [
+  { key: 'kneeAtBDC', label: 'Knee Extension', position: 'Bottom (BDC)', unit: '°' },
+  { key: 'kneeAtTDC', label: 'Knee Flexion', position: 'Top (TDC)', unit: '°' },
+  { key: 'hipAtTDC', label: 'Hip Closure', position: 'Top (TDC)', unit: '°' },
+  { key: 'kneeOverPedal', label: 'Knee Over Pedal', position: "3 o'clock", unit: '% of shin' },
+];
+
+/**
+ * Bike fit measurements taken at specific crank positions
+ */
+function PedalStrokePositions({ pedalStroke, ranges }: PedalStrokePositionsProps) {
+  if (!pedalStroke) return null;
+
+  const formatValue = (value: number | undefined, unit: string) =>
+    value !== undefined ? `${value}${unit === '°' ? '°' : ` ${unit}`}` : '—';
+
+  return (
+    <div className="pedal-stroke-positions">
+      <h4>Pedal Stroke Positions</h4>
+      <p className="pedal-stroke-summary">
+        Measured on the {pedalStroke.side} leg over {pedalStroke.revolutions} crank revolution
+        {pedalStroke.revolutions === 1 ? '' : 's'}
+      </p>
+      <div className="metrics-table-container">
+        <table className="metrics-table">
+          <thead>
+            <tr>
+              <th>Measurement</th>
+              <th>Crank Position</th>
+              <th>Value</th>
+              <th>Optimal</th>
+            </tr>
+          </thead>
+          <tbody>
+            {POSITION_ROWS.map(({ key, label, position, unit }) => {
+              const range = ranges[key];
+              return (
+                <tr key={key}>
+                  <td className="angle-name">{label}</td>
+                  <td>{position}</td>
+                  <td className="avg-value">{formatValue(pedalStroke[key], unit)}</td>
+                  <td>{range.min} to {formatValue(range.max, unit)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default PedalStrokePositions;
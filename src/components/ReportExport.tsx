@@ -0,0 +1,103 @@
+import { useState, FormEvent } from 'react';
+import './ReportExport.css';
+import type { AnalysisReport, ReportMetadata } from '../types';
+
+interface ReportExportProps {
+  createReport: (metadata: ReportMetadata) => Promise<AnalysisReport>;
+}
+
+// Today's date as YYYY-MM-DD in local time
+function getToday(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Athlete details form and PDF report download
+ * The PDF library is loaded on demand
+ */
+function ReportExport({ createReport }: ReportExportProps) {
+  const [athleteName, setAthleteName] = useState<string>('');
+  const [fitterName, setFitterName] = useState<string>('');
+  const [sessionDate, setSessionDate] = useState<string>(getToday);
+  const [notes, setNotes] = useState<string>('');
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    setIsGenerating(true);
+    setError('');
+
+    try {
+      const report = await createReport({
+        athleteName: athleteName.trim(),
+        fitterName: fitterName.trim() || undefined,
+        sessionDate,
+        notes: notes.trim() || undefined,
+      });
+      const { downloadAnalysisReport } = await import('../utils/pdfReport');
+      downloadAnalysisReport(report);
+    } catch (err) {
+      console.error('Report generation error:', err);
+      setError('Could not generate the PDF report. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <form className="report-export" onSubmit={handleSubmit}>
+      <h4>Client Report</h4>
+      <div className="report-fields">
+        <label htmlFor="report-athlete">
+          Athlete
+          <input
+            id="report-athlete"
+            type="text"
+            value={athleteName}
+            onChange={(e) => setAthleteName(e.target.value)}
+            placeholder="Athlete name"
+          />
+        </label>
+        <label htmlFor="report-fitter">
+          Fitter / coach
+          <input
+            id="report-fitter"
+            type="text"
+            value={fitterName}
+            onChange={(e) => setFitterName(e.target.value)}
+            placeholder="Optional"
+          />
+        </label>
+        <label htmlFor="report-date">
+          Session date
+          <input
+            id="report-date"
+            type="date"
+            value={sessionDate}
+            onChange={(e) => setSessionDate(e.target.value)}
+          />
+        </label>
+      </div>
+      <label htmlFor="report-notes" className="report-notes">
+        Notes
+        <textarea
+          id="report-notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Adjustments made during the session, follow-up plan..."
+          rows={3}
+        />
+      </label>
+      {error && <div className="analysis-error">{error}</div>}
+      <button type="submit" className="report-btn" disabled={isGenerating}>
+        {isGenerating ? 'Generating report...' : 'Download PDF report'}
+      </button>
+    </form>
+  );
+}
+
+export default ReportExport;
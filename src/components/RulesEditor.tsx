@@ -0,0 +1,248 @@
+import { useState, ChangeEvent, FormEvent } from 'react';
+import {
+  BIKE_RULE_PROFILES,
+  RUNNING_RULE_PROFILES,
+  RULE_RANGE_LABELS,
+  DEFAULT_BIKE_PROFILE,
+  createCustomProfile,
+  isCustomProfileId,
+  validateRuleProfile,
+  type RuleRangeKey,
+} from '../utils/ruleProfiles';
+import { serializeRuleSet } from '../utils/ruleStore';
+import { downloadFile } from '../utils/sessionExport';
+import './RulesEditor.css';
+import type { OptimalRange, RuleProfile, RuleProfileId, SeverityThresholds } from '../types';
+
+interface RulesEditorProps {
+  customProfiles: RuleProfile[];
+  error: string;
+  onSave: (profile: RuleProfile) => boolean;
+  onDelete: (profileId: RuleProfile['id']) => void;
+  onImport: (text: string) => boolean;
+}
+
+const PRESET_GROUPS: Array<{ sport: RuleProfile['sport']; label: string; profiles: RuleProfile[] }> = [
+  { sport: 'bike', label: 'Cycling', profiles: Object.values(BIKE_RULE_PROFILES) },
+  { sport: 'running', label: 'Running', profiles: Object.values(RUNNING_RULE_PROFILES) },
+];
+
+const findProfile = (id: RuleProfileId, customProfiles: RuleProfile[]): RuleProfile =>
+  [...customProfiles, ...PRESET_GROUPS.flatMap(group => group.profiles)].find(profile => profile.id === id) ??
+  DEFAULT_BIKE_PROFILE;
+
+const formatNumber = (value: number): number | string => (Number.isFinite(value) ? value : '');
+
+/**
+ * Editor for the optimal ranges and severity thresholds behind every recommendation
+ * Presets are read-only; duplicating one gives a custom profile that can be tuned, shared and reused
+ */
+function RulesEditor({ customProfiles, error, onSave, onDelete, onImport }: RulesEditorProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [selectedId, setSelectedId] = useState<RuleProfileId>('road');
+  const [draft, setDraft] = useState<RuleProfile | null>(null);
+
+  const selected = findProfile(selectedId, customProfiles);
+  const isCustom = isCustomProfileId(selected.id);
+  const profile = draft && draft.id === selected.id ? draft : selected;
+  const problems = isCustom ? validateRuleProfile(profile) : [];
+  const isDirty = draft !== null && draft.id === selected.id;
+
+  const selectProfile = (id: RuleProfileId): void => {
+    setSelectedId(id);
+    setDraft(null);
+  };
+
+  const handleDuplicate = (): void => {
+    const copy = createCustomProfile(selected, `${selected.label} (custom)`);
+    if (onSave(copy)) selectProfile(copy.id);
+  };
+
+  const handleDelete = (): void => {
+    if (window.confirm(`Delete the ${selected.label} rules?`)) {
+      onDelete(selected.id);
+      selectProfile('road');
+    }
+  };
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>): void => {
+    e.preventDefault();
+    if (onSave(profile)) setDraft(null);
+  };
+
+  const updateRange = (key: RuleRangeKey, field: keyof OptimalRange, value: string): void => {
+    const ranges: Partial<Record<RuleRangeKey, OptimalRange>> = profile.ranges;
+    setDraft({
+      ...profile,
+      ranges: { ...profile.ranges, [key]: { ...ranges[key]!, [field]: value === '' ? NaN : Number(value) } },
+    } as RuleProfile);
+  };
+
+  const updateSeverity = (key: RuleRangeKey, field: keyof SeverityThresholds, value: string): void => {
+    const severity: Partial<Record<RuleRangeKey, SeverityThresholds>> = profile.severity;
+    setDraft({
+      ...profile,
+      severity: { ...profile.severity, [key]: { ...severity[key]!, [field]: value === '' ? NaN : Number(value) } },
+    } as RuleProfile);
+  };
+
+  const handleExport = (): void => {
+    downloadFile(serializeRuleSet(customProfiles), 'analysis-rules.json', 'application/json');
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(await file.text());
+  };
+
+  const rangeKeys = Object.keys(profile.ranges) as RuleRangeKey[];
+  const ranges: Partial<Record<RuleRangeKey, OptimalRange>> = profile.ranges;
+  const severity: Partial<Record<RuleRangeKey, SeverityThresholds>> = profile.severity;
+
+  return (
+    <div className="rules-editor">
+      <div className="rules-header">
+        <span className="rules-title">Analysis rules</span>
+        <button type="button" className="rules-btn" onClick={() => setIsOpen(!isOpen)}>
+          {isOpen ? 'Close' : 'Edit rules'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          <div className="rules-select-row">
+            <label htmlFor="rules-profile">Profile</label>
+            <select
+              id="rules-profile"
+              value={selected.id}
+              onChange={(e) => selectProfile(e.target.value as RuleProfileId)}
+            >
+              {PRESET_GROUPS.map(group => (
+                <optgroup key={group.sport} label={group.label}>
+                  {group.profiles.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                  ))}
+                  {customProfiles.filter(custom => custom.sport === group.sport).map(custom => (
+                    <option key={custom.id} value={custom.id}>{custom.label}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <button type="button" className="rules-btn" onClick={handleDuplicate}>
+              Duplicate
+            </button>
+            {isCustom && (
+              <button type="button" className="rules-btn rules-delete-btn" onClick={handleDelete}>
+                Delete
+              </button>
+            )}
+          </div>
+
+          <form className="rules-form" onSubmit={handleSubmit}>
+            {isCustom ? (
+              <label htmlFor="rules-name" className="rules-name">
+                Name
+                <input
+                  id="rules-name"
+                  type="text"
+                  value={profile.label}
+                  onChange={(e) => setDraft({ ...profile, label: e.target.value })}
+                />
+              </label>
+            ) : (
+              <p className="rules-hint">Presets are read-only - duplicate one to tune it for a client.</p>
+            )}
+
+            <div className="metrics-table-container">
+              <table className="metrics-table rules-table">
+                <thead>
+                  <tr>
+                    <th>Measurement</th>
+                    <th>Optimal min</th>
+                    <th>Optimal max</th>
+                    <th>Moderate (%)</th>
+                    <th>Critical (%)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rangeKeys.map(key => {
+                    const { label, unit } = RULE_RANGE_LABELS[key];
+                    return (
+                      <tr key={key}>
+                        <td className="angle-name">{label} <span className="rules-unit">({unit})</span></td>
+                        {(['min', 'max'] as const).map(field => (
+                          <td key={field}>
+                            <input
+                              type="number"
+                              step="any"
+                              aria-label={`${label} ${field}`}
+                              value={formatNumber(ranges[key]![field])}
+                              disabled={!isCustom}
+                              onChange={(e) => updateRange(key, field, e.target.value)}
+                            />
+                          </td>
+                        ))}
+                        {(['moderate', 'critical'] as const).map(field => (
+                          <td key={field}>
+                            <input
+                              type="number"
+                              step="any"
+                              min="0"
+                              aria-label={`${label} ${field} threshold`}
+                              value={formatNumber(severity[key]![field])}
+                              disabled={!isCustom}
+                              onChange={(e) => updateSeverity(key, field, e.target.value)}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="rules-hint">
+              Severity thresholds are how far outside the range, in % of its width, an issue becomes moderate or critical.
+            </p>
+
+            {problems.length > 0 && (
+              <ul className="rules-problems">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            )}
+
+            {isCustom && (
+              <button type="submit" className="rules-save-btn" disabled={!isDirty || problems.length > 0}>
+                Save rules
+              </button>
+            )}
+          </form>
+
+          <div className="rules-file-row">
+            <button
+              type="button"
+              className="rules-btn"
+              onClick={handleExport}
+              disabled={customProfiles.length === 0}
+            >
+              Export custom rules (JSON)
+            </button>
+            <label htmlFor="rules-import" className="rules-btn">Import rules</label>
+            <input
+              id="rules-import"
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="file-input"
+            />
+          </div>
+        </>
+      )}
+
+      {error && <div className="analysis-error">{error}</div>}
+    </div>
+  );
+}
+
+export default RulesEditor;
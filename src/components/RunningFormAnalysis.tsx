@@ -1,19 +1,30 @@
-import { useRef, useState } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import { analyzeRunningForm } from '../utils/runningAnalysis';
 import { drawSkeleton, drawRunningAngles, createAngleGauge } from '../utils/skeletonDrawing';
 import { calculateDetailedMetrics, calculateAsymmetry, createFrameData } from '../utils/detailedMetrics';
-import { enhanceRunningRecommendations } from '../utils/enhancedRecommendations';
+import { enhanceRunningRecommendations, prioritizeRecommendations } from '../utils/enhancedRecommendations';
+import { assessInjuryRisk, createInjuryRiskRecommendations, measureOverstriding } from '../utils/injuryRisk';
 import {
   combineAnalyses,
   createIssueMarkers,
   getRunningFormOverallMessage,
-  drawPoseOnCanvas
+  drawPoseOnCanvas,
+  captureKeyFrames
 } from '../utils/analysisHelpers';
 import { generateDetailedSummary } from '../utils/analysisSummary';
+import { segmentGaitCycles } from '../utils/gaitCycle';
+import { calculateRunningEconomy } from '../utils/runningEconomy';
+import { estimateCadence } from '../utils/cadence';
+import { createSession, getVideoMetadata } from '../utils/sessionExport';
+import { DENSE_SAMPLING } from '../utils/videoSampling';
+import { createGhostReference } from '../utils/ghostOverlay';
+import { DEFAULT_RUNNING_PROFILE } from '../utils/ruleProfiles';
+import { resolveCalibration, measureRunningDistances } from '../utils/calibration';
 import { useVideoAnalysis } from '../hooks/useVideoAnalysis';
 import { useFrameRenderer } from '../hooks/useFrameRenderer';
 import AnalysisResults from './AnalysisResults';
 import AnalysisLoader from './AnalysisLoader';
+import AthleteSelector from './AthleteSelector';
 import './RunningFormAnalysis.css';
 import type {
   RunningFormAnalysis as RunningFormAnalysisType,
@@ -24,13 +35,47 @@ import type {
   Recommendation,
   IssueMarker,
   AnalysisSummary,
+  GaitAnalysis,
+  CadenceEstimate,
+  PoseModelId,
+  SmoothingOptions,
+  SmoothingReport,
+  FrameAnalysis,
+  AnalysisSession,
+  VideoSegment,
+  Pose,
+  RunningRuleProfile,
+  InjuryRiskAssessment,
+  CalibrationSettings,
+  DistanceMeasurement,
+  RunningDistances,
 } from '../types';
 
 interface RunningFormAnalysisProps {
-  videoFile: File;
+  videoFile: File | null;
+  session?: AnalysisSession | null;
+  segments?: VideoSegment[]; // Trimmed parts of the video to analyze
+  poseModel?: PoseModelId;
+  smoothing?: SmoothingOptions | false;
+  onSessionComplete?: (session: AnalysisSession) => void;
+  onChangeSettings?: () => void; // Abandons the run to pick other settings
+  ghostSession?: AnalysisSession | null;
+  ruleProfile?: RunningRuleProfile;
+  athleteHeight?: number; // cm, default calibration for distances
 }
 
-function RunningFormAnalysis({ videoFile }: RunningFormAnalysisProps) {
+function RunningFormAnalysis({
+  videoFile,
+  session,
+  segments,
+  poseModel,
+  smoothing,
+  onSessionComplete,
+  onChangeSettings,
+  ghostSession,
+  ruleProfile: profile = DEFAULT_RUNNING_PROFILE,
+  athleteHeight,
+}: RunningFormAnalysisProps) {
   const [angleGauges, setAngleGauges] = useState<AngleGauge[]>([]);
   const [detailedMetrics, setDetailedMetrics] = useState<DetailedMetricsType | null>(null);
   const [asymmetry, setAsymmetry] = useState<Asymmetry | null>(null);
@@ -38,10 +83,47 @@ function RunningFormAnalysis({ videoFile }: RunningFormAnalysisProps) {
   const [enhancedRecs, setEnhancedRecs] = useState<Recommendation[]>([]);
   const [issueMarkers, setIssueMarkers] = useState<IssueMarker[]>([]);
   const [summary, setSummary] = useState<AnalysisSummary | null>(null);
+  const [gaitAnalysis, setGaitAnalysis] = useState<GaitAnalysis | null>(null);
+  const [cadence, setCadence] = useState<CadenceEstimate | null>(null);
+  const [injuryRisk, setInjuryRisk] = useState<InjuryRiskAssessment | null>(null);
+  const [calibrationSettings, setCalibrationSettings] = useState<CalibrationSettings | null>(
+    session?.calibration ?? (athleteHeight ? { method: 'height', heightCm: athleteHeight } : null)
+  );
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const interactiveCanvasRef = useRef<HTMLCanvasElement>(null);
 
+  // Angles are judged against the selected discipline; changing it re-judges the detected poses
+  const analyzeFunction = useCallback((pose: Pose) => analyzeRunningForm(pose, profile), [profile]);
+
+  // Restored sessions keep the segments they were analyzed from
+  const analyzedSegments = segments ?? session?.segments;
+
+  // Versioned session for export, athlete history and later re-import
+  const buildSession = (
+    result: RunningFormAnalysisType,
+    frames: FrameAnalysis[],
+    metrics: DetailedMetricsType | null,
+    asymmetryData: Asymmetry | null,
+    recommendations: Recommendation[],
+    report: SmoothingReport | null
+  ) =>
+    createSession({
+      analysisType: 'running',
+      view: 'side',
+      poseModel,
+      ruleProfile: profile.id,
+      calibration: calibrationSettings ?? undefined,
+      video: videoFile ? getVideoMetadata(videoFile, videoRef.current) : session!.video,
+      frames,
+      analysis: result,
+      detailedMetrics: metrics,
+      asymmetry: asymmetryData,
+      recommendations,
+      smoothingReport: report,
+      segments: analyzedSegments,
+    });
+
   // Use generic video analysis hook
   const {
     analysis,
@@ -49,39 +131,72 @@ function RunningFormAnalysis({ videoFile }: RunningFormAnalysisProps) {
     progress,
     error,
     allFramePoses,
+    smoothingReport,
+    trackingReport,
+    athleteChoice,
+    selectAthlete,
+    controls,
     videoRef,
   } = useVideoAnalysis<RunningFormAnalysisType>({
     videoFile,
-    framesToAnalyze: 24,
-    analyzeFunction: analyzeRunningForm,
+    session,
+    sampling: DENSE_SAMPLING,
+    segments,
+    poseModel,
+    smoothing,
+    analyzeFunction,
     combineFunction: combineAnalyses,
-    onComplete: (avgAnalysis, allAnalyses) => {
+    onComplete: (avgAnalysis, allAnalyses, report, reanalyzed) => {
       // Create angle gauges
       const gauges: AngleGauge[] = [];
+      const { bodyLean, kneeLift, hipExtension, armSwing } = profile.ranges;
       if (avgAnalysis.angles.bodyLean !== undefined) {
-        gauges.push(createAngleGauge(avgAnalysis.angles.bodyLean, 5, 12, 'Body Lean'));
+        gauges.push(createAngleGauge(avgAnalysis.angles.bodyLean, bodyLean.min, bodyLean.max, 'Body Lean'));
       }
       if (avgAnalysis.angles.kneeLift !== undefined) {
-        gauges.push(createAngleGauge(avgAnalysis.angles.kneeLift, 100, 140, 'Knee Lift'));
+        gauges.push(createAngleGauge(avgAnalysis.angles.kneeLift, kneeLift.min, kneeLift.max, 'Knee Lift'));
       }
       if (avgAnalysis.angles.hipExtension !== undefined) {
-        gauges.push(createAngleGauge(avgAnalysis.angles.hipExtension, 160, 180, 'Hip Extension'));
+        gauges.push(createAngleGauge(avgAnalysis.angles.hipExtension, hipExtension.min, hipExtension.max, 'Hip Extension'));
       }
       if (avgAnalysis.angles.armSwing !== undefined) {
-        gauges.push(createAngleGauge(avgAnalysis.angles.armSwing, 80, 110, 'Arm Swing'));
+        gauges.push(createAngleGauge(avgAnalysis.angles.armSwing, armSwing.min, armSwing.max, 'Arm Swing'));
       }
       setAngleGauges(gauges);
 
-      // Calculate metrics
+      // Segment the pose sequence into gait cycles
+      const gait = segmentGaitCycles(allAnalyses);
+      setGaitAnalysis(gait);
+
+      // Calculate metrics, with contact, flight and bounce per stride alongside the angles
       const analyses = allAnalyses.map(a => a.analysis as RunningFormAnalysisType);
-      const metrics = calculateDetailedMetrics(analyses);
-      const asymmetryData = calculateAsymmetry(analyses);
+      const economy = calculateRunningEconomy(allAnalyses, gait);
+      const metrics = { ...calculateDetailedMetrics(analyses), ...economy.metrics };
+      const sideAsymmetry = { ...calculateAsymmetry(analyses), ...economy.asymmetry };
+      const asymmetryData = Object.keys(sideAsymmetry).length > 0 ? sideAsymmetry : null;
       setDetailedMetrics(metrics);
       setAsymmetry(asymmetryData);
       setFrameData(createFrameData(analyses));
 
+      // Estimate steps per minute from ankle motion
+      const cadenceEstimate = estimateCadence(allAnalyses, 'running', profile.ranges.cadence);
+      setCadence(cadenceEstimate);
+
+      // Score injury risk; high and moderate risks join the recommendations
+      const risk = assessInjuryRisk({
+        angles: avgAnalysis.angles,
+        profile,
+        detailedMetrics: metrics,
+        asymmetry: asymmetryData,
+        overstrideRate: measureOverstriding(allAnalyses, gait),
+      });
+      setInjuryRisk(risk);
+
       // Enhance recommendations
-      const enhanced = enhanceRunningRecommendations(avgAnalysis);
+      const enhanced = prioritizeRecommendations([
+        ...enhanceRunningRecommendations(avgAnalysis, cadenceEstimate, profile, metrics),
+        ...createInjuryRiskRecommendations(risk),
+      ]);
       setEnhancedRecs(enhanced);
 
       // Generate detailed summary
@@ -91,7 +206,8 @@ function RunningFormAnalysis({ videoFile }: RunningFormAnalysisProps) {
         metrics,
         asymmetryData,
         avgAnalysis.overall,
-        'running'
+        'running',
+        profile
       );
       setSummary(summaryData);
 
@@ -111,26 +227,80 @@ function RunningFormAnalysis({ videoFile }: RunningFormAnalysisProps) {
           lastFrame.analysis
         );
       }
+
+      // Save new results to the athlete's history (restored and re-judged sessions are already saved)
+      if (!session && !reanalyzed && onSessionComplete) {
+        onSessionComplete(buildSession(avgAnalysis, allAnalyses, metrics, asymmetryData, enhanced, report));
+      }
     },
   });
 
+  // Reference session drawn as a ghost, aligned to this video's strides
+  const ghost = useMemo(
+    () => (ghostSession && allFramePoses.length > 0
+      ? createGhostReference(allFramePoses, ghostSession.frames, 'running')
+      : null),
+    [ghostSession, allFramePoses]
+  );
+
+  // Centimetre distances once a scale is known
+  const calibration = useMemo(
+    () => resolveCalibration(calibrationSettings, allFramePoses),
+    [calibrationSettings, allFramePoses]
+  );
+  const distances = useMemo((): DistanceMeasurement[] => {
+    const measured: RunningDistances =
+      calibration && gaitAnalysis ? measureRunningDistances(allFramePoses, gaitAnalysis, calibration) : {};
+    return [
+      { label: 'Stride Length', value: measured.strideLength, hint: 'Ground covered per stride (two steps)' },
+      { label: 'Overstride', value: measured.overstride, hint: 'Landing foot ahead of the hips' },
+    ];
+  }, [calibration, gaitAnalysis, allFramePoses]);
+
+  // Once calibrated, vertical oscillation is shown in cm; rules still judge it in % of leg length
+  const shownMetrics = useMemo((): DetailedMetricsType | null => {
+    if (!calibration || !gaitAnalysis || !detailedMetrics) return detailedMetrics;
+    const { verticalOscillation } = calculateRunningEconomy(allFramePoses, gaitAnalysis, calibration).metrics;
+    return verticalOscillation ? { ...detailedMetrics, verticalOscillation } : detailedMetrics;
+  }, [calibration, gaitAnalysis, detailedMetrics, allFramePoses]);
+
   // Use generic frame renderer hook
   const { handleFrameChange } = useFrameRenderer<RunningFormAnalysisType>({
     videoRef,
     canvasRef: interactiveCanvasRef,
     allFramePoses,
-    analyzeFunction: analyzeRunningForm,
+    poseModel,
+    analyzeFunction,
     drawSkeletonFunction: drawSkeleton,
     drawAnglesFunction: drawRunningAngles,
+    ghost,
   });
 
+  // Annotated frames for the PDF report
+  const handleCaptureKeyFrames = () =>
+    videoFile && videoRef.current
+      ? captureKeyFrames(videoRef.current, allFramePoses, drawSkeleton, drawRunningAngles)
+      : Promise.resolve([]);
+
+  const handleCreateSession = () =>
+    buildSession(analysis!, allFramePoses, detailedMetrics, asymmetry, enhancedRecs, smoothingReport);
+
   return (
     <div className="running-form-analysis">
       <video ref={videoRef} style={{ display: 'none' }} />
       <canvas ref={canvasRef} style={{ display: 'none' }} />
 
-      {isAnalyzing && (
-        <AnalysisLoader progress={progress} message="Analyzing running form..." />
+      {(isAnalyzing || controls.isCancelled) && (
+        <AnalysisLoader
+          progress={progress}
+          message="Analyzing running form..."
+          controls={controls}
+          onChangeSettings={onChangeSettings}
+        />
+      )}
+
+      {athleteChoice && (
+        <AthleteSelector choice={athleteChoice} videoRef={videoRef} onSelect={selectAthlete} />
       )}
 
       {error && <div className="analysis-error">{error}</div>}
@@ -141,15 +311,29 @@ function RunningFormAnalysis({ videoFile }: RunningFormAnalysisProps) {
           angles={analysis.angles}
           angleGauges={angleGauges}
           recommendations={enhancedRecs}
-          detailedMetrics={detailedMetrics}
+          detailedMetrics={shownMetrics}
+          smoothingReport={smoothingReport}
+          trackingReport={trackingReport}
+          segments={analyzedSegments}
           asymmetry={asymmetry}
           frameData={frameData}
           summary={summary}
+          gaitAnalysis={gaitAnalysis}
+          injuryRisk={injuryRisk}
+          ruleProfile={profile}
+          calibrationSettings={calibrationSettings}
+          calibration={calibration}
+          distances={distances}
+          onCalibrationChange={setCalibrationSettings}
+          cadence={cadence}
           videoFile={videoFile}
+          videoName={videoFile?.name ?? session?.video.name ?? ''}
           issueMarkers={issueMarkers}
           canvasRef={interactiveCanvasRef}
           videoRef={videoRef}
           onFrameChange={handleFrameChange}
+          onCaptureKeyFrames={handleCaptureKeyFrames}
+          onCreateSession={handleCreateSession}
           title="Running Form Analysis Results"
           noteText="This is an automated analysis based on video snapshots. For comprehensive gait analysis, consult a running coach or sports medicine professional."
           angleLabels={[
@@ -0,0 +1,46 @@
+import {
+  serializeSession,
+  createSessionCsv,
+  getSessionFileName,
+  downloadFile
+} from '../utils/sessionExport';
+import './SessionExport.css';
+import type { AnalysisSession } from '../types';
+
+interface SessionExportProps {
+  createSession: () => AnalysisSession;
+}
+
+/**
+ * Save the analysis as a re-importable JSON session or a per-frame CSV
+ */
+function SessionExport({ createSession }: SessionExportProps) {
+  const handleExportJson = (): void => {
+    const session = createSession();
+    downloadFile(serializeSession(session), `${getSessionFileName(session)}.json`, 'application/json');
+  };
+
+  const handleExportCsv = (): void => {
+    const session = createSession();
+    downloadFile(createSessionCsv(session.frames), `${getSessionFileName(session)}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="session-export">
+      <h4>Save Session</h4>
+      <p className="session-export-hint">
+        Sessions can be imported later to reopen these results without re-analyzing the video.
+      </p>
+      <div className="session-export-buttons">
+        <button type="button" className="session-export-btn" onClick={handleExportJson}>
+          Export session (JSON)
+        </button>
+        <button type="button" className="session-export-btn" onClick={handleExportCsv}>
+          Export frames (CSV)
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default SessionExport;
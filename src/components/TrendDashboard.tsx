@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react';
+import { buildMetricTrends, getTrendGroups, TREND_GROUP_LABELS, type TrendGroup } from '../utils/trends';
+import './TrendDashboard.css';
+import type { AthleteSessionRecord, MetricTrend, RuleProfile, TrendDirection } from '../types';
+
+interface TrendDashboardProps {
+  sessions: AthleteSessionRecord[];
+  customProfiles?: RuleProfile[];
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 110;
+const CHART_PADDING = 12;
+
+const DIRECTION_DISPLAY: Record<TrendDirection, { label: string; color: string }> = {
+  toward: { label: 'Moving toward optimal', color: '#4caf50' },
+  away: { label: 'Moving away from optimal', color: '#f44336' },
+  unchanged: { label: 'No change', color: '#757575' },
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+function getDirectionDisplay(trend: MetricTrend): { label: string; color: string } {
+  if (trend.direction) return DIRECTION_DISPLAY[trend.direction];
+  if (!trend.range) return { label: 'No optimal range', color: '#757575' };
+  return { label: 'Needs another session', color: '#757575' };
+}
+
+/**
+ * Line chart of one metric across sessions with its optimal band
+ */
+function TrendChart({ trend }: { trend: MetricTrend }) {
+  const values = trend.points.map(point => point.value);
+  const bounds = trend.range ? [...values, trend.range.min, trend.range.max] : values;
+  const spread = Math.max(...bounds) - Math.min(...bounds) || 1;
+  const yMin = Math.min(...bounds) - spread * 0.1;
+  const yMax = Math.max(...bounds) + spread * 0.1;
+
+  const x = (index: number) =>
+    trend.points.length === 1
+      ? CHART_WIDTH / 2
+      : CHART_PADDING + (index / (trend.points.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (value: number) =>
+    CHART_PADDING + ((yMax - value) / (yMax - yMin)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <svg
+      className="trend-chart"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label={`${trend.label} across ${trend.points.length} sessions`}
+    >
+      {trend.range && (
+        <rect
+          className="trend-band"
+          x={0}
+          y={y(trend.range.max)}
+          width={CHART_WIDTH}
+          height={y(trend.range.min) - y(trend.range.max)}
+        />
+      )}
+      <polyline
+        className="trend-line"
+        points={trend.points.map((point, i) => `${x(i)},${y(point.value)}`).join(' ')}
+      />
+      {trend.points.map((point, i) => (
+        <circle key={point.date} className="trend-point" cx={x(i)} cy={y(point.value)} r={4}>
+          <title>{`${formatDate(point.date)}: ${point.value}${trend.unit}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Progress over time for the selected athlete
+ * Shows whether each metric moved toward or away from its optimal range
+ */
+function TrendDashboard({ sessions, customProfiles }: TrendDashboardProps) {
+  const groups = useMemo(() => getTrendGroups(sessions), [sessions]);
+  const [selectedGroup, setSelectedGroup] = useState<TrendGroup | null>(null);
+  const group = selectedGroup && groups.includes(selectedGroup) ? selectedGroup : groups[0];
+
+  const trends = useMemo(
+    () => (group ? buildMetricTrends(sessions, group, customProfiles) : []),
+    [sessions, group, customProfiles]
+  );
+
+  if (!group) return null;
+
+  return (
+    <div className="trend-dashboard">
+      <div className="trend-header">
+        <h4>Progress Over Time</h4>
+        {groups.length > 1 && (
+          <select
+            aria-label="Trend analysis type"
+            value={group}
+            onChange={(e) => setSelectedGroup(e.target.value as TrendGroup)}
+          >
+            {groups.map(id => (
+              <option key={id} value={id}>{TREND_GROUP_LABELS[id]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <p className="trend-hint">Shaded bands show the optimal range. Hover a point for its session date.</p>
+
+      <div className="trend-grid">
+        {trends.map(trend => {
+          const latest = trend.points[trend.points.length - 1];
+          const direction = getDirectionDisplay(trend);
+          return (
+            <div key={trend.key} className="trend-card">
+              <div className="trend-card-header">
+                <span className="trend-label">{trend.label}</span>
+                <span className="trend-latest">{latest.value}{trend.unit}</span>
+              </div>
+              <TrendChart trend={trend} />
+              <div className="trend-card-footer">
+                <span>
+                  {trend.range
+                    ? `Optimal ${trend.range.min}${trend.unit} - ${trend.range.max}${trend.unit}`
+                    : `${trend.points.length} session${trend.points.length === 1 ? '' : 's'}`}
+                </span>
+                <span className="trend-direction" style={{ color: direction.color }}>{direction.label}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default TrendDashboard;
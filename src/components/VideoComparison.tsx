@@ -0,0 +1,363 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { analyzeBikeFit } from '../utils/poseDetection';
+import { analyzeRunningForm } from '../utils/runningAnalysis';
+import { combineBikeFitAnalyses } from '../utils/pedalStroke';
+import { combineAnalyses } from '../utils/analysisHelpers';
+import { calculateDetailedMetrics } from '../utils/detailedMetrics';
+import {
+  drawSkeleton,
+  drawBikeFitAngles,
+  drawRunningAngles,
+  drawSkeletonOutline,
+  interpolatePose,
+} from '../utils/skeletonDrawing';
+import {
+  findCycleStartTimes,
+  createPhaseAlignment,
+  mapComparisonTime,
+  getComparisonPlaybackRate,
+  normalizePoseForOverlay,
+  compareDetailedMetrics,
+} from '../utils/videoComparison';
+import { getTrendDirection } from '../utils/trends';
+import { getAngleRange, getRuleProfile } from '../utils/ruleProfiles';
+import { DENSE_SAMPLING, findFramesAtTime } from '../utils/videoSampling';
+import { useVideoAnalysis } from '../hooks/useVideoAnalysis';
+import { useFrameRenderer } from '../hooks/useFrameRenderer';
+import InteractiveVideo from './InteractiveVideo';
+import AnalysisLoader from './AnalysisLoader';
+import AthleteSelector from './AthleteSelector';
+import './DetailedMetrics.css';
+import './VideoComparison.css';
+import type {
+  BikeFitAnalysis,
+  RunningFormAnalysis,
+  DetailedMetrics,
+  FrameAnalysis,
+  Pose,
+  PoseModelId,
+  RuleProfile,
+  SmoothingOptions,
+  VideoSegment,
+} from '../types';
+
+type ComparedAnalysis = BikeFitAnalysis | RunningFormAnalysis;
+
+interface ComparisonConfig {
+  analyze: (pose: Pose) => ComparedAnalysis | null;
+  combine: (analyses: ComparedAnalysis[], frames: FrameAnalysis[]) => ComparedAnalysis;
+  drawAngles: (ctx: CanvasRenderingContext2D, pose: Pose, analysis: ComparedAnalysis) => void;
+  measure: (frames: FrameAnalysis[]) => DetailedMetrics | null;
+  title: string;
+  cycleName: string;
+}
+
+// Module constants keep the analysis functions stable for useVideoAnalysis
+const COMPARISON_CONFIG: Record<'bike' | 'running', ComparisonConfig> = {
+  bike: {
+    analyze: analyzeBikeFit,
+    combine: combineBikeFitAnalyses as ComparisonConfig['combine'],
+    drawAngles: drawBikeFitAngles as ComparisonConfig['drawAngles'],
+    measure: frames => calculateDetailedMetrics(frames.map(frame => frame.analysis)),
+    title: 'Bike Fit Comparison',
+    cycleName: 'pedal stroke',
+  },
+  running: {
+    analyze: analyzeRunningForm,
+    combine: combineAnalyses,
+    drawAngles: drawRunningAngles as ComparisonConfig['drawAngles'],
+    measure: frames => calculateDetailedMetrics(frames.map(frame => frame.analysis)),
+    title: 'Running Form Comparison',
+    cycleName: 'stride',
+  },
+};
+
+const COLOR_A = '#667eea';
+const COLOR_B = '#ff9800';
+const OVERLAY_WIDTH = 480;
+const OVERLAY_HEIGHT = 360;
+
+// Video B is re-seeked when it drifts further than this from the aligned time (seconds)
+const SYNC_TOLERANCE = 0.1;
+
+interface VideoComparisonProps {
+  videoA: File;
+  videoB: File;
+  analysisType: 'bike' | 'running';
+  segments?: VideoSegment[]; // Trimmed parts of video A to analyze
+  poseModel?: PoseModelId;
+  smoothing?: SmoothingOptions | false;
+  ruleProfile?: RuleProfile;
+  onChangeSettings?: () => void; // Abandons the run to pick other settings
+}
+
+/**
+ * Side-by-side comparison of two videos (before/after, or athlete vs reference)
+ * Video B follows video A aligned on pedal-stroke or gait-cycle phase
+ */
+function VideoComparison({
+  videoA,
+  videoB,
+  analysisType,
+  segments,
+  poseModel,
+  smoothing,
+  ruleProfile,
+  onChangeSettings,
+}: VideoComparisonProps) {
+  const config = COMPARISON_CONFIG[analysisType];
+  const [metricsA, setMetricsA] = useState<DetailedMetrics | null>(null);
+  const [metricsB, setMetricsB] = useState<DetailedMetrics | null>(null);
+
+  const canvasRefA = useRef<HTMLCanvasElement>(null);
+  const canvasRefB = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const sideA = useVideoAnalysis<ComparedAnalysis>({
+    videoFile: videoA,
+    sampling: DENSE_SAMPLING,
+    segments,
+    poseModel,
+    smoothing,
+    analyzeFunction: config.analyze,
+    combineFunction: config.combine,
+    onComplete: (_, frames) => setMetricsA(config.measure(frames)),
+  });
+
+  // Analyze one video at a time - the second starts once the first is done
+  const sideB = useVideoAnalysis<ComparedAnalysis>({
+    videoFile: sideA.analysis ? videoB : null,
+    sampling: DENSE_SAMPLING,
+    poseModel,
+    smoothing,
+    analyzeFunction: config.analyze,
+    combineFunction: config.combine,
+    onComplete: (_, frames) => setMetricsB(config.measure(frames)),
+  });
+
+  const { handleFrameChange: handleFrameChangeA } = useFrameRenderer<ComparedAnalysis>({
+    videoRef: sideA.videoRef,
+    canvasRef: canvasRefA,
+    allFramePoses: sideA.allFramePoses,
+    poseModel,
+    analyzeFunction: config.analyze,
+    drawSkeletonFunction: drawSkeleton,
+    drawAnglesFunction: config.drawAngles,
+  });
+
+  const { handleFrameChange: handleFrameChangeB } = useFrameRenderer<ComparedAnalysis>({
+    videoRef: sideB.videoRef,
+    canvasRef: canvasRefB,
+    allFramePoses: sideB.allFramePoses,
+    poseModel,
+    analyzeFunction: config.analyze,
+    drawSkeletonFunction: drawSkeleton,
+    drawAnglesFunction: config.drawAngles,
+  });
+
+  const framesA = sideA.allFramePoses;
+  const framesB = sideB.allFramePoses;
+  const isReady = !!sideA.analysis && !!sideB.analysis && !sideA.isAnalyzing && !sideB.isAnalyzing;
+
+  const alignment = useMemo(
+    () => (isReady
+      ? createPhaseAlignment(findCycleStartTimes(framesA, analysisType), findCycleStartTimes(framesB, analysisType))
+      : null),
+    [isReady, framesA, framesB, analysisType]
+  );
+
+  const comparisons = useMemo(() => compareDetailedMetrics(metricsA, metricsB), [metricsA, metricsB]);
+
+  // Both skeletons, scaled to the same torso length and superimposed
+  const drawOverlay = useCallback((timeA: number, timeB: number) => {
+    const canvas = overlayCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = OVERLAY_WIDTH;
+    canvas.height = OVERLAY_HEIGHT;
+    ctx.fillStyle = '#111';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ([[framesA, timeA, COLOR_A], [framesB, timeB, COLOR_B]] as const).forEach(([frames, time, color]) => {
+      const position = findFramesAtTime(frames, time);
+      if (!position) return;
+      const pose = interpolatePose(frames[position.index].pose, frames[position.nextIndex].pose, position.factor);
+      const normalized = normalizePoseForOverlay(pose, canvas.width, canvas.height);
+      if (normalized) drawSkeletonOutline(ctx, normalized, color);
+    });
+  }, [framesA, framesB]);
+
+  // Drive video B from video A
+  useEffect(() => {
+    const leader = sideA.videoRef.current;
+    const follower = sideB.videoRef.current;
+    if (!alignment || !leader || !follower) return;
+
+    let animationFrameId = 0;
+
+    const sync = () => {
+      const target = mapComparisonTime(alignment, leader.currentTime);
+      follower.playbackRate = getComparisonPlaybackRate(alignment, leader.currentTime);
+      if (Math.abs(follower.currentTime - target) > SYNC_TOLERANCE) {
+        follower.currentTime = follower.duration ? Math.min(target, follower.duration) : target;
+      }
+      drawOverlay(leader.currentTime, target);
+    };
+
+    const renderLoop = () => {
+      sync();
+      animationFrameId = requestAnimationFrame(renderLoop);
+    };
+
+    const handlePlay = () => {
+      sync();
+      follower.play().catch(error => console.error('Error playing comparison video:', error));
+      animationFrameId = requestAnimationFrame(renderLoop);
+    };
+
+    const handlePause = () => {
+      cancelAnimationFrame(animationFrameId);
+      follower.pause();
+      sync();
+    };
+
+    const handleSeeked = () => {
+      if (leader.paused) sync();
+    };
+
+    leader.addEventListener('play', handlePlay);
+    leader.addEventListener('pause', handlePause);
+    leader.addEventListener('seeked', handleSeeked);
+    sync();
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+      leader.removeEventListener('play', handlePlay);
+      leader.removeEventListener('pause', handlePause);
+      leader.removeEventListener('seeked', handleSeeked);
+    };
+  }, [alignment, drawOverlay, sideA.videoRef, sideB.videoRef]);
+
+  const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+  const getDeltaStatus = (key: string, a: number, b: number) => {
+    const direction = getTrendDirection(
+      [{ date: 'a', value: a }, { date: 'b', value: b }],
+      getAngleRange(key, ruleProfile ?? getRuleProfile(undefined, analysisType))
+    );
+    if (direction === 'toward') return { label: 'Closer to optimal', className: 'toward' };
+    if (direction === 'away') return { label: 'Further from optimal', className: 'away' };
+    if (direction === 'unchanged') return { label: 'No change', className: 'unchanged' };
+    return { label: '-', className: 'unchanged' };
+  };
+
+  return (
+    <div className="video-comparison">
+      <video ref={sideA.videoRef} style={{ display: 'none' }} />
+      <video ref={sideB.videoRef} style={{ display: 'none' }} />
+
+      {(sideA.isAnalyzing || sideA.controls.isCancelled) && (
+        <AnalysisLoader
+          progress={sideA.progress}
+          message={`Analyzing video A (${videoA.name})...`}
+          controls={sideA.controls}
+          onChangeSettings={onChangeSettings}
+        />
+      )}
+      {(sideB.isAnalyzing || sideB.controls.isCancelled) && (
+        <AnalysisLoader
+          progress={sideB.progress}
+          message={`Analyzing video B (${videoB.name})...`}
+          controls={sideB.controls}
+          onChangeSettings={onChangeSettings}
+        />
+      )}
+      {sideA.athleteChoice && (
+        <AthleteSelector choice={sideA.athleteChoice} videoRef={sideA.videoRef} onSelect={sideA.selectAthlete} />
+      )}
+      {sideB.athleteChoice && (
+        <AthleteSelector choice={sideB.athleteChoice} videoRef={sideB.videoRef} onSelect={sideB.selectAthlete} />
+      )}
+
+      {sideA.error && <div className="analysis-error">Video A: {sideA.error}</div>}
+      {sideB.error && <div className="analysis-error">Video B: {sideB.error}</div>}
+
+      {isReady && alignment && (
+        <div className="comparison-results">
+          <h3>{config.title}</h3>
+          <p className="comparison-alignment">
+            {alignment.mode === 'phase'
+              ? `Aligned on ${config.cycleName} phase (${alignment.anchors.length} matched ${config.cycleName}s). Video B follows video A.`
+              : `No ${config.cycleName}s detected - aligned on wall time. Video B follows video A.`}
+          </p>
+
+          <div className="comparison-videos">
+            <div className="comparison-side">
+              <h4 style={{ color: COLOR_A }}>A: {videoA.name}</h4>
+              <InteractiveVideo
+                videoFile={videoA}
+                onFrameChange={handleFrameChangeA}
+                canvasRef={canvasRefA}
+                videoRef={sideA.videoRef}
+              />
+            </div>
+            <div className="comparison-side">
+              <h4 style={{ color: COLOR_B }}>B: {videoB.name}</h4>
+              <InteractiveVideo
+                videoFile={videoB}
+                onFrameChange={handleFrameChangeB}
+                canvasRef={canvasRefB}
+                videoRef={sideB.videoRef}
+                showControls={false}
+              />
+            </div>
+          </div>
+
+          <div className="comparison-overlay">
+            <h4>Skeleton Overlay</h4>
+            <canvas ref={overlayCanvasRef} className="comparison-overlay-canvas" />
+            <div className="comparison-legend">
+              <span style={{ color: COLOR_A }}>■ Video A</span>
+              <span style={{ color: COLOR_B }}>■ Video B</span>
+            </div>
+          </div>
+
+          {comparisons.length > 0 && (
+            <div className="metrics-table-container">
+              <table className="metrics-table">
+                <thead>
+                  <tr>
+                    <th>Angle</th>
+                    <th>A (avg)</th>
+                    <th>B (avg)</th>
+                    <th>Change</th>
+                    <th>Consistency A → B</th>
+                    <th>vs Optimal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparisons.map(({ key, label, a, b, delta, consistencyA, consistencyB }) => {
+                    const status = getDeltaStatus(key, a, b);
+                    return (
+                      <tr key={key}>
+                        <td className="metric-name">{label}</td>
+                        <td>{a}°</td>
+                        <td>{b}°</td>
+                        <td>{formatDelta(delta)}°</td>
+                        <td>{consistencyA}% → {consistencyB}%</td>
+                        <td className={`comparison-status ${status.className}`}>{status.label}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VideoComparison;
@@ -0,0 +1,174 @@
+import { useEffect, useState, MouseEvent, RefObject } from 'react';
+import { seekToTime } from '../utils/videoSampling';
+import {
+  normalizeSegments,
+  getSegmentsDuration,
+  getThumbnailTimes,
+  formatSegmentTime,
+  MAX_ANALYZED_SECONDS,
+} from '../utils/videoSegments';
+import './VideoTrimmer.css';
+import type { VideoSegment } from '../types';
+
+interface VideoTrimmerProps {
+  videoFile: File;
+  duration: number;
+  segments: VideoSegment[];
+  previewRef: RefObject<HTMLVideoElement>;
+  onChange: (segments: VideoSegment[]) => void;
+}
+
+// Thumbnails along the timeline, and their width in pixels
+const THUMBNAIL_COUNT = 10;
+const THUMBNAIL_WIDTH = 160;
+
+/**
+ * Timeline with thumbnails for picking the in/out ranges of a longer recording to analyze
+ * In and out points are taken from the preview player; clicking the timeline seeks it
+ */
+function VideoTrimmer({ videoFile, duration, segments, previewRef, onChange }: VideoTrimmerProps) {
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [inPoint, setInPoint] = useState<number | null>(null);
+  const [outPoint, setOutPoint] = useState<number | null>(null);
+
+  // Thumbnails come from a separate element so the preview keeps its position
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    const url = URL.createObjectURL(videoFile);
+
+    const capture = async (): Promise<void> => {
+      await new Promise<void>((resolve, reject) => {
+        video.onloadeddata = () => resolve();
+        video.onerror = () => reject(new Error('Failed to load video'));
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+        video.src = url;
+      });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = THUMBNAIL_WIDTH;
+      canvas.height = Math.round((THUMBNAIL_WIDTH * video.videoHeight) / Math.max(1, video.videoWidth));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      const images: string[] = [];
+      for (const time of getThumbnailTimes(duration, THUMBNAIL_COUNT)) {
+        await seekToTime(video, time, signal);
+        signal.throwIfAborted();
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        images.push(canvas.toDataURL('image/jpeg', 0.6));
+        setThumbnails([...images]);
+      }
+    };
+
+    capture().catch(err => {
+      if (!signal.aborted) console.warn('Timeline thumbnails failed:', err);
+    });
+
+    // Aborting first settles pending waits, so removing the source doesn't report an error
+    return () => {
+      controller.abort();
+      video.onerror = null;
+      video.removeAttribute('src');
+      URL.revokeObjectURL(url);
+    };
+  }, [videoFile, duration]);
+
+  const getPreviewTime = (): number => previewRef.current?.currentTime ?? 0;
+
+  const handleTimelineClick = (e: MouseEvent<HTMLDivElement>): void => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = ((e.clientX - rect.left) / rect.width) * duration;
+    if (previewRef.current) previewRef.current.currentTime = time;
+  };
+
+  const addSegment = (): void => {
+    if (inPoint === null || outPoint === null) return;
+    onChange(normalizeSegments([...segments, { start: inPoint, end: outPoint }], duration));
+    setInPoint(null);
+    setOutPoint(null);
+  };
+
+  const removeSegment = (index: number): void => onChange(segments.filter((_, i) => i !== index));
+
+  const percent = (time: number): string => `${(time / duration) * 100}%`;
+  const total = getSegmentsDuration(segments);
+  const pending = inPoint !== null && outPoint !== null
+    ? { start: Math.min(inPoint, outPoint), end: Math.max(inPoint, outPoint) }
+    : null;
+
+  return (
+    <div className="video-trimmer">
+      <h4>Segments to Analyze</h4>
+      <p className="video-trimmer-hint">
+        {duration > MAX_ANALYZED_SECONDS
+          ? `This recording is ${formatSegmentTime(duration)} long. Pick up to ${MAX_ANALYZED_SECONDS} seconds to analyze: play or click the timeline, then set the in and out points.`
+          : 'Optionally analyze only parts of the video: play or click the timeline, then set the in and out points.'}
+      </p>
+
+      <div className="video-trimmer-timeline" onClick={handleTimelineClick}>
+        <div className="video-trimmer-thumbnails">
+          {thumbnails.map((image, i) => (
+            <img key={i} src={image} alt="" />
+          ))}
+        </div>
+        {segments.map((segment, i) => (
+          <div
+            key={`${segment.start}-${segment.end}`}
+            className="video-trimmer-range"
+            style={{ left: percent(segment.start), width: percent(segment.end - segment.start) }}
+          >
+            {i + 1}
+          </div>
+        ))}
+        {pending && (
+          <div
+            className="video-trimmer-range pending"
+            style={{ left: percent(pending.start), width: percent(pending.end - pending.start) }}
+          />
+        )}
+      </div>
+
+      <div className="video-trimmer-controls">
+        <button type="button" className="video-trimmer-btn" onClick={() => setInPoint(getPreviewTime())}>
+          Set In{inPoint !== null ? ` (${formatSegmentTime(inPoint)})` : ''}
+        </button>
+        <button type="button" className="video-trimmer-btn" onClick={() => setOutPoint(getPreviewTime())}>
+          Set Out{outPoint !== null ? ` (${formatSegmentTime(outPoint)})` : ''}
+        </button>
+        <button type="button" className="video-trimmer-btn primary" onClick={addSegment} disabled={!pending}>
+          Add Segment
+        </button>
+      </div>
+
+      {segments.length > 0 && (
+        <ul className="video-trimmer-list">
+          {segments.map((segment, i) => (
+            <li key={`${segment.start}-${segment.end}`}>
+              <span>
+                <strong>Segment {i + 1}:</strong> {formatSegmentTime(segment.start)} - {formatSegmentTime(segment.end)}
+                {' '}({(segment.end - segment.start).toFixed(1)} s)
+              </span>
+              <button
+                type="button"
+                className="video-trimmer-btn video-trimmer-delete-btn"
+                onClick={() => removeSegment(i)}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className={`video-trimmer-total ${total > MAX_ANALYZED_SECONDS ? 'over' : ''}`}>
+        Selected {total.toFixed(1)} of {MAX_ANALYZED_SECONDS} seconds
+      </p>
+    </div>
+  );
+}
+
+export default VideoTrimmer;
@@ -0,0 +1,143 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  isAthleteStorageAvailable,
+  createAthleteProfile,
+  createSessionRecord,
+  listAthletes,
+  saveAthlete,
+  deleteAthlete,
+  listAthleteSessions,
+  saveSessionRecord,
+  deleteSessionRecord,
+  type AthleteProfileInput,
+} from '../utils/athleteStore';
+import type { AthleteProfile, AthleteSessionRecord, AnalysisSession } from '../types';
+
+interface UseAthleteProfilesReturn {
+  available: boolean;
+  athletes: AthleteProfile[];
+  selectedAthlete: AthleteProfile | null;
+  sessions: AthleteSessionRecord[];
+  error: string;
+  selectAthlete: (athleteId: string | null) => void;
+  addAthlete: (input: AthleteProfileInput) => Promise<boolean>;
+  removeAthlete: (athleteId: string) => Promise<void>;
+  storeSession: (session: AnalysisSession) => Promise<void>;
+  removeSession: (recordId: string) => Promise<void>;
+}
+
+/**
+ * Athlete profiles and their analysis history, persisted in IndexedDB
+ * Completed sessions are stored against the selected athlete
+ */
+export function useAthleteProfiles(): UseAthleteProfilesReturn {
+  const [available] = useState<boolean>(isAthleteStorageAvailable);
+  const [athletes, setAthletes] = useState<AthleteProfile[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<AthleteSessionRecord[]>([]);
+  const [error, setError] = useState<string>('');
+  const selectedIdRef = useRef<string | null>(selectedId);
+
+  const selectedAthlete = athletes.find(athlete => athlete.id === selectedId) ?? null;
+
+  const handleStorageError = useCallback((err: unknown) => {
+    console.error('Athlete storage error:', err);
+    setError('Could not access saved athletes. Please try again.');
+  }, []);
+
+  // Load profiles once
+  useEffect(() => {
+    if (!available) return;
+    listAthletes().then(setAthletes).catch(handleStorageError);
+  }, [available, handleStorageError]);
+
+  // Load history for the selected athlete, ignoring results for an athlete no longer selected
+  useEffect(() => {
+    selectedIdRef.current = selectedId;
+    if (!selectedId) {
+      setSessions([]);
+      return;
+    }
+    let ignore = false;
+    listAthleteSessions(selectedId)
+      .then(records => {
+        if (!ignore) setSessions(records);
+      })
+      .catch(handleStorageError);
+    return () => {
+      ignore = true;
+    };
+  }, [selectedId, handleStorageError]);
+
+  const selectAthlete = useCallback((athleteId: string | null) => {
+    setError('');
+    setSelectedId(athleteId);
+  }, []);
+
+  const addAthlete = useCallback(async (input: AthleteProfileInput): Promise<boolean> => {
+    setError('');
+    let profile: AthleteProfile;
+    try {
+      profile = createAthleteProfile(input);
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+
+    try {
+      await saveAthlete(profile);
+      setAthletes(await listAthletes());
+      setSelectedId(profile.id);
+      return true;
+    } catch (err) {
+      handleStorageError(err);
+      return false;
+    }
+  }, [handleStorageError]);
+
+  const removeAthlete = useCallback(async (athleteId: string): Promise<void> => {
+    try {
+      await deleteAthlete(athleteId);
+      setAthletes(current => current.filter(athlete => athlete.id !== athleteId));
+      setSelectedId(current => (current === athleteId ? null : current));
+    } catch (err) {
+      handleStorageError(err);
+    }
+  }, [handleStorageError]);
+
+  const storeSession = useCallback(async (session: AnalysisSession): Promise<void> => {
+    if (!selectedId) return;
+    try {
+      const record = createSessionRecord(selectedId, session);
+      await saveSessionRecord(record);
+      // The selection may have changed while saving; the record then belongs to another history
+      if (selectedIdRef.current === record.athleteId) {
+        setSessions(current => [record, ...current]);
+      }
+    } catch (err) {
+      handleStorageError(err);
+    }
+  }, [selectedId, handleStorageError]);
+
+  const removeSession = useCallback(async (recordId: string): Promise<void> => {
+    try {
+      await deleteSessionRecord(recordId);
+      setSessions(current => current.filter(record => record.id !== recordId));
+    } catch (err) {
+      handleStorageError(err);
+    }
+  }, [handleStorageError]);
+
+  return {
+    available,
+    athletes,
+    selectedAthlete,
+    sessions,
+    error,
+    selectAthlete,
+    addAthlete,
+    removeAthlete,
+    storeSession,
+    removeSession,
+  };
+}
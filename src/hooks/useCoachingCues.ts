@@ -0,0 +1,81 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  createCueTracker,
+  getCueIssues,
+  getWindowRecommendations,
+  loadCueSettings,
+  saveCueSettings,
+  updateCueTracker,
+  DEFAULT_CUE_SETTINGS,
+} from '../utils/coachingCues';
+import type { CueSettings, FrameAnalysis, RuleProfile, SpokenCue } from '../types';
+
+interface UseCoachingCuesOptions {
+  frames: FrameAnalysis[];
+  ruleProfile: RuleProfile;
+  active: boolean;
+}
+
+interface UseCoachingCuesReturn {
+  available: boolean;
+  settings: CueSettings;
+  lastCue: SpokenCue | null;
+  updateSettings: (changes: Partial<CueSettings>) => void;
+}
+
+// Slightly brisk so cues fit between breaths
+const SPEECH_RATE = 1.1;
+
+function isSpeechAvailable(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Spoken coaching cues from the live window, via the Web Speech synthesis API
+ * Cue settings are persisted in local storage; tracking restarts whenever cues are muted
+ */
+export function useCoachingCues({ frames, ruleProfile, active }: UseCoachingCuesOptions): UseCoachingCuesReturn {
+  const [available] = useState<boolean>(isSpeechAvailable);
+  const [settings, setSettings] = useState<CueSettings>(() => (available ? loadCueSettings() : DEFAULT_CUE_SETTINGS));
+  const [lastCue, setLastCue] = useState<SpokenCue | null>(null);
+  const trackerRef = useRef(createCueTracker());
+
+  const updateSettings = useCallback((changes: Partial<CueSettings>): void => {
+    setSettings(current => {
+      const next = { ...current, ...changes };
+      try {
+        saveCueSettings(next);
+      } catch (err) {
+        console.error('Cue settings could not be saved:', err);
+      }
+      return next;
+    });
+    if (changes.muted) window.speechSynthesis?.cancel();
+  }, []);
+
+  useEffect(() => {
+    if (!available || !active || settings.muted || frames.length === 0) {
+      trackerRef.current = createCueTracker();
+      return;
+    }
+
+    const issues = getCueIssues(getWindowRecommendations(frames, ruleProfile), ruleProfile, settings.verbosity);
+    const now = frames[frames.length - 1].timestamp;
+    const { tracker, cue } = updateCueTracker(trackerRef.current, issues, now, settings.vocabulary[ruleProfile.sport]);
+    trackerRef.current = tracker;
+
+    if (cue) {
+      const utterance = new SpeechSynthesisUtterance(cue.text);
+      utterance.rate = SPEECH_RATE;
+      window.speechSynthesis.speak(utterance);
+      setLastCue(cue);
+    }
+  }, [available, active, settings, frames, ruleProfile]);
+
+  // Stop talking when leaving live mode
+  useEffect(() => () => {
+    if (isSpeechAvailable()) window.speechSynthesis.cancel();
+  }, []);
+
+  return { available, settings, lastCue, updateSettings };
+}
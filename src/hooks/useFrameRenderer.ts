@@ -1,29 +1,57 @@
-import { useCallback } from 'react';
-import { detectPose } from '../utils/poseDetection';
+import { useCallback, useRef } from 'react';
+import { estimatePose, estimatePoses, isAbortError } from '../utils/poseWorkerClient';
+import { detectsMultiplePeople } from '../utils/poseDetection';
+import { findAthlete } from '../utils/athleteTracking';
 import { interpolatePose } from '../utils/skeletonDrawing';
-import type { Pose, FrameAnalysis } from '../types';
+import { alignLimbIdentity } from '../utils/poseSmoothing';
+import { findFramesAtTime } from '../utils/videoSampling';
+import { mapComparisonTime } from '../utils/videoComparison';
+import type { Pose, FrameAnalysis, PoseModelId, GhostReference } from '../types';
 
 interface UseFrameRendererOptions<T> {
-  videoRef: React.RefObject<HTMLVideoElement>;
-  canvasRef: React.RefObject<HTMLCanvasElement>;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
   allFramePoses: FrameAnalysis[];
+  poseModel?: PoseModelId;
   analyzeFunction: (pose: Pose) => T | null;
-  drawSkeletonFunction: (ctx: CanvasRenderingContext2D, pose: Pose, width: number, height: number) => void;
+  drawSkeletonFunction: (
+    ctx: CanvasRenderingContext2D,
+    pose: Pose,
+    width: number,
+    height: number,
+    ghostPose?: Pose | null
+  ) => void;
   drawAnglesFunction: (ctx: CanvasRenderingContext2D, pose: Pose, analysis: T) => void;
+  ghost?: GhostReference | null;
+}
+
+// Interpolated reference pose at the same cycle phase as a time in the athlete's video
+function getGhostPose(ghost: GhostReference, currentTime: number): Pose | null {
+  const position = findFramesAtTime(ghost.frames, mapComparisonTime(ghost.alignment, currentTime));
+  if (!position) return null;
+  return interpolatePose(ghost.frames[position.index].pose, ghost.frames[position.nextIndex].pose, position.factor);
 }
 
 /**
  * Generic hook for rendering video frames with pose overlays
  * Handles real-time detection with fallback to interpolated cached poses
+ * A new frame cancels the previous frame's pending detection
+ * Live poses take their left/right limb identity from the smoothed cached poses
+ * Multi-person models draw only the person matching the cached athlete, never a bystander
+ * An optional ghost reference is drawn with the skeleton, phase-aligned to the video
  */
 export function useFrameRenderer<T>({
   videoRef,
   canvasRef,
   allFramePoses,
+  poseModel,
   analyzeFunction,
   drawSkeletonFunction,
   drawAnglesFunction,
+  ghost,
 }: UseFrameRendererOptions<T>) {
+  const detectionRef = useRef<AbortController | null>(null);
+
   const handleFrameChange = useCallback(
     async (currentTime: number, showSkeleton: boolean, showAngles: boolean): Promise<void> => {
       const video = videoRef.current;
@@ -49,43 +77,54 @@ export function useFrameRenderer<T>({
       }
 
       // Enhanced skeleton overlay with interpolation and real-time detection
-      if (allFramePoses.length > 0) {
-        const progress = currentTime / video.duration;
-        const framePosition = progress * allFramePoses.length;
-        const frameIndex = Math.floor(framePosition);
-        const nextFrameIndex = Math.min(frameIndex + 1, allFramePoses.length - 1);
-        const interpolationFactor = framePosition - frameIndex;
+      const framePosition = findFramesAtTime(allFramePoses, currentTime);
+      if (framePosition) {
+        const { index: frameIndex, nextIndex: nextFrameIndex, factor: interpolationFactor } = framePosition;
+
+        // Poses interpolated between the nearest analyzed (smoothed) timestamps
+        const cachedPose = interpolatePose(
+          allFramePoses[frameIndex].pose,
+          allFramePoses[nextFrameIndex].pose,
+          interpolationFactor
+        );
 
         let currentPose: Pose | null = null;
         let currentAnalysis: T | null = null;
 
-        // Try real-time pose detection
+        // Try real-time pose detection, dropping any request still pending for an earlier frame
+        detectionRef.current?.abort();
+        const controller = new AbortController();
+        detectionRef.current = controller;
+
         try {
+          const detection = detectsMultiplePeople(poseModel)
+            ? estimatePoses(video, poseModel, controller.signal).then(people => findAthlete(cachedPose, people))
+            : estimatePose(video, poseModel, controller.signal);
           const detectedPose = await Promise.race([
-            detectPose(video),
+            detection,
             new Promise<null>((resolve) => setTimeout(() => resolve(null), 50))
           ]);
 
           if (detectedPose && detectedPose.score > 0.3) {
-            currentPose = detectedPose;
-            currentAnalysis = analyzeFunction(detectedPose);
+            currentPose = alignLimbIdentity(detectedPose, cachedPose);
+            currentAnalysis = analyzeFunction(currentPose);
           }
         } catch (error) {
+          if (isAbortError(error)) return;
           console.debug('Real-time detection skipped, using cached poses');
         }
 
-        // Fallback to interpolated poses
-        if (!currentPose && allFramePoses[frameIndex] && allFramePoses[nextFrameIndex]) {
-          const pose1 = allFramePoses[frameIndex].pose;
-          const pose2 = allFramePoses[nextFrameIndex].pose;
-          currentPose = interpolatePose(pose1, pose2, interpolationFactor);
+        // Fallback to the cached poses (also when the athlete was not found among the people detected)
+        if (!currentPose) {
+          currentPose = cachedPose;
           currentAnalysis = allFramePoses[frameIndex].analysis as T;
         }
 
         // Draw overlays
         if (currentPose) {
           if (showSkeleton) {
-            drawSkeletonFunction(ctx, currentPose, canvas.width, canvas.height);
+            const ghostPose = ghost ? getGhostPose(ghost, currentTime) : null;
+            drawSkeletonFunction(ctx, currentPose, canvas.width, canvas.height, ghostPose);
           }
           if (showAngles && currentAnalysis) {
             drawAnglesFunction(ctx, currentPose, currentAnalysis);
@@ -93,7 +132,7 @@ export function useFrameRenderer<T>({
         }
       }
     },
-    [videoRef, canvasRef, allFramePoses, analyzeFunction, drawSkeletonFunction, drawAnglesFunction]
+    [videoRef, canvasRef, allFramePoses, poseModel, analyzeFunction, drawSkeletonFunction, drawAnglesFunction, ghost]
   );
 
   return { handleFrameChange };
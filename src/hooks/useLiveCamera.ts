@@ -0,0 +1,200 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { initializePoseEstimator, estimatePose, estimatePoses } from '../utils/poseWorkerClient';
+import { detectsMultiplePeople } from '../utils/poseDetection';
+import { findAthlete } from '../utils/athleteTracking';
+import { appendLiveFrame, smoothLivePose } from '../utils/liveAnalysis';
+import { DEFAULT_SMOOTHING_OPTIONS } from '../utils/poseSmoothing';
+import type { Pose, FrameAnalysis, LiveFrame, PoseModelId, SmoothingOptions } from '../types';
+
+interface UseLiveCameraOptions<T extends FrameAnalysis['analysis']> {
+  poseModel?: PoseModelId;
+  smoothing?: SmoothingOptions | false;
+  showSkeleton: boolean;
+  showAngles: boolean;
+  analyzeFunction: (pose: Pose) => T | null;
+  drawSkeletonFunction: (ctx: CanvasRenderingContext2D, pose: Pose, width: number, height: number) => void;
+  drawAnglesFunction: (ctx: CanvasRenderingContext2D, pose: Pose, analysis: T) => void;
+}
+
+interface UseLiveCameraReturn {
+  isLive: boolean;
+  isStarting: boolean;
+  error: string;
+  frames: LiveFrame[];
+  start: () => Promise<void>;
+  stop: () => void;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+}
+
+// Trainer and treadmill setups film from the side at a modest resolution, which keeps detection fast
+const CAMERA_CONSTRAINTS: MediaStreamConstraints = {
+  video: { width: { ideal: 1280 }, height: { ideal: 720 } },
+  audio: false,
+};
+
+// Detections below this confidence are drawn without a skeleton and left out of the metrics
+const MIN_POSE_SCORE = 0.3;
+
+// Rolling metrics are published to React at most this often (seconds), not on every frame
+const PUBLISH_INTERVAL = 0.5;
+
+// Consecutive failed frames before live mode gives up (a lost WebGL context or model never recovers)
+const MAX_FAILED_FRAMES = 30;
+
+/**
+ * Generic hook for live pose analysis from the camera
+ * Detects the pose of the latest camera frame as soon as the previous detection finishes
+ * and draws the frame with skeleton and angle overlays onto the canvas
+ * Keeps a rolling window of analyzed frames for metrics; the stream stops on unmount
+ * or when detection keeps failing
+ * Multi-person models follow the athlete first seen; frames where they are lost are skipped
+ */
+export function useLiveCamera<T extends FrameAnalysis['analysis']>(
+  options: UseLiveCameraOptions<T>
+): UseLiveCameraReturn {
+  const [isLive, setIsLive] = useState<boolean>(false);
+  const [isStarting, setIsStarting] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [frames, setFrames] = useState<LiveFrame[]>([]);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const runningRef = useRef<boolean>(false);
+  const windowRef = useRef<LiveFrame[]>([]);
+  const lastPublishRef = useRef<number>(0);
+  const failedFramesRef = useRef<number>(0);
+  const athleteRef = useRef<Pose | null>(null);
+  const optionsRef = useRef(options);
+
+  // Keep the latest options for the running loop
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const stop = useCallback((): void => {
+    runningRef.current = false;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setIsLive(false);
+  }, []);
+
+  const processFrame = useCallback(async (): Promise<void> => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!runningRef.current || !video || !canvas || !ctx) return;
+
+    const {
+      poseModel,
+      smoothing = DEFAULT_SMOOTHING_OPTIONS,
+      showSkeleton,
+      showAngles,
+      analyzeFunction,
+      drawSkeletonFunction,
+      drawAnglesFunction,
+    } = optionsRef.current;
+
+    try {
+      const detectedPose = detectsMultiplePeople(poseModel)
+        ? findAthlete(
+            athleteRef.current,
+            (await estimatePoses(video, poseModel)).filter(person => person.score > MIN_POSE_SCORE)
+          )
+        : await estimatePose(video, poseModel);
+      if (!runningRef.current) return;
+      const timestamp = performance.now() / 1000;
+
+      // Set canvas dimensions to match the camera
+      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+      }
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      if (detectedPose && detectedPose.score > MIN_POSE_SCORE) {
+        athleteRef.current = detectedPose;
+        const pose = smoothLivePose(windowRef.current, detectedPose, timestamp, smoothing);
+        const analysis = analyzeFunction(pose);
+
+        if (showSkeleton) drawSkeletonFunction(ctx, pose, canvas.width, canvas.height);
+        if (analysis) {
+          if (showAngles) drawAnglesFunction(ctx, pose, analysis);
+          windowRef.current = appendLiveFrame(windowRef.current, { analysis, pose, rawPose: detectedPose, timestamp });
+        }
+      }
+
+      if (timestamp - lastPublishRef.current >= PUBLISH_INTERVAL) {
+        lastPublishRef.current = timestamp;
+        setFrames(windowRef.current);
+      }
+      failedFramesRef.current = 0;
+    } catch (err) {
+      // Report only the first failure of a streak; the last one is logged if live mode stops
+      if (failedFramesRef.current === 0) console.debug('Live frame skipped:', err);
+      failedFramesRef.current += 1;
+
+      if (failedFramesRef.current >= MAX_FAILED_FRAMES) {
+        console.error('Live pose detection failed:', err);
+        stop();
+        setError('Pose detection stopped working. Please start live mode again.');
+        return;
+      }
+    }
+
+    if (runningRef.current) requestAnimationFrame(() => void processFrame());
+  }, [stop]);
+
+  const start = useCallback(async (): Promise<void> => {
+    if (runningRef.current || streamRef.current) return;
+    setError('');
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('This browser cannot access a camera');
+      return;
+    }
+
+    setIsStarting(true);
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia(CAMERA_CONSTRAINTS);
+      streamRef.current = stream;
+
+      const video = videoRef.current;
+      if (!video) throw new Error('Video element not available');
+      video.srcObject = stream;
+      await video.play();
+      // Stop (or unmount) while starting releases the stream; don't start the loop after it
+      if (streamRef.current !== stream) return;
+      await initializePoseEstimator(optionsRef.current.poseModel);
+      if (streamRef.current !== stream) return;
+
+      windowRef.current = [];
+      lastPublishRef.current = 0;
+      failedFramesRef.current = 0;
+      athleteRef.current = null;
+      setFrames([]);
+      runningRef.current = true;
+      setIsLive(true);
+      void processFrame();
+    } catch (err) {
+      // play() rejects once stop() clears the stream; that is not a camera failure
+      if (stream && streamRef.current !== stream) return;
+      console.error('Camera error:', err);
+      stop();
+      setError(
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in the browser to use live mode.'
+          : 'Could not start the camera. Please check that one is connected and not in use.'
+      );
+    } finally {
+      setIsStarting(false);
+    }
+  }, [processFrame, stop]);
+
+  // Release the camera when leaving live mode
+  useEffect(() => stop, [stop]);
+
+  return { isLive, isStarting, error, frames, start, stop, videoRef, canvasRef };
+}
@@ -0,0 +1,79 @@
+import { useState, useCallback } from 'react';
+import { validateRuleProfile } from '../utils/ruleProfiles';
+import {
+  isRuleStorageAvailable,
+  loadCustomProfiles,
+  saveCustomProfiles,
+  parseRuleSet,
+  mergeRuleProfiles,
+} from '../utils/ruleStore';
+import type { RuleProfile } from '../types';
+
+interface UseRuleProfilesReturn {
+  available: boolean;
+  customProfiles: RuleProfile[];
+  error: string;
+  saveProfile: (profile: RuleProfile) => boolean;
+  removeProfile: (profileId: RuleProfile['id']) => void;
+  importProfiles: (text: string) => boolean;
+}
+
+/**
+ * Custom rule profiles, persisted in local storage
+ * Profiles are validated before they are saved or imported
+ */
+export function useRuleProfiles(): UseRuleProfilesReturn {
+  const [available] = useState<boolean>(isRuleStorageAvailable);
+  const [customProfiles, setCustomProfiles] = useState<RuleProfile[]>(() =>
+    (available ? loadCustomProfiles() : [])
+  );
+  const [error, setError] = useState<string>('');
+
+  const store = useCallback((profiles: RuleProfile[]): boolean => {
+    try {
+      if (available) saveCustomProfiles(profiles);
+      setCustomProfiles(profiles);
+      return true;
+    } catch (err) {
+      console.error('Rule storage error:', err);
+      setError('Could not save rules. Please try again.');
+      return false;
+    }
+  }, [available]);
+
+  const saveProfile = useCallback((profile: RuleProfile): boolean => {
+    const errors = validateRuleProfile(profile);
+    if (errors.length > 0) {
+      setError(errors[0]);
+      return false;
+    }
+    setError('');
+    return store(mergeRuleProfiles(customProfiles, [profile]));
+  }, [customProfiles, store]);
+
+  const removeProfile = useCallback((profileId: RuleProfile['id']): void => {
+    setError('');
+    store(customProfiles.filter(profile => profile.id !== profileId));
+  }, [customProfiles, store]);
+
+  const importProfiles = useCallback((text: string): boolean => {
+    let imported: RuleProfile[];
+    try {
+      imported = parseRuleSet(text);
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+    setError('');
+    return store(mergeRuleProfiles(customProfiles, imported));
+  }, [customProfiles, store]);
+
+  return {
+    available,
+    customProfiles,
+    error,
+    saveProfile,
+    removeProfile,
+    importProfiles,
+  };
+}
@@ -1,31 +1,86 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
-import { initializePoseDetector, detectPose } from '../utils/poseDetection';
-import type { Pose, FrameAnalysis } from '../types';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { initializePoseEstimator, estimatePose, estimatePoses, isAbortError } from '../utils/poseWorkerClient';
+import { detectsMultiplePeople } from '../utils/poseDetection';
+import { createAthleteTracker, matchAthlete, resumeAthleteTracker, updateAthleteTracker } from '../utils/athleteTracking';
+import { getSampleTimes, seekToTime, estimateFrameRate, yieldToMainThread } from '../utils/videoSampling';
+import { smoothPoseSequence, smoothPoseSegments, DEFAULT_SMOOTHING_OPTIONS } from '../utils/poseSmoothing';
+import { getSegmentSampleTimes } from '../utils/videoSegments';
+import { createAnalysisProgress } from '../utils/analysisProgress';
+import type {
+  AnalysisControls,
+  AnalysisProgress,
+  Pose,
+  FrameAnalysis,
+  SamplingOptions,
+  PoseModelId,
+  SmoothingOptions,
+  SmoothingReport,
+  AnalysisSession,
+  AthleteChoice,
+  AthleteTracker,
+  TrackingReport,
+  VideoSegment,
+} from '../types';
 
 interface UseVideoAnalysisOptions<T> {
-  videoFile: File;
+  videoFile: File | null;
+  session?: AnalysisSession | null;
   framesToAnalyze?: number;
+  sampling?: SamplingOptions;
+  segments?: VideoSegment[];
+  poseModel?: PoseModelId;
+  smoothing?: SmoothingOptions | false;
   analyzeFunction: (pose: Pose) => T | null;
-  combineFunction: (analyses: T[]) => T;
-  onComplete?: (analysis: T, allFramePoses: FrameAnalysis[]) => void;
+  combineFunction: (analyses: T[], frames: FrameAnalysis[]) => T;
+  onComplete?: (
+    analysis: T,
+    allFramePoses: FrameAnalysis[],
+    smoothingReport: SmoothingReport | null,
+    reanalyzed: boolean // Existing poses re-judged after the analysis functions changed
+  ) => void;
 }
 
+// A detected pose before analysis, kept so new rules can be applied without detecting again
+type PoseFrame = Omit<FrameAnalysis, 'analysis'>;
+
 interface UseVideoAnalysisReturn<T> {
   analysis: T | null;
   isAnalyzing: boolean;
   progress: number;
   error: string;
   allFramePoses: FrameAnalysis[];
+  smoothingReport: SmoothingReport | null;
+  trackingReport: TrackingReport | null;
+  athleteChoice: AthleteChoice | null;
+  selectAthlete: (index: number) => void;
+  controls: AnalysisControls;
   videoRef: React.RefObject<HTMLVideoElement>;
 }
 
 /**
  * Generic hook for video pose analysis
  * Handles video loading, frame sampling, pose detection, and analysis
+ * Pose detection runs in a worker when the browser supports it
+ * Samples `framesToAnalyze` evenly spaced frames unless a `sampling` mode is given
+ * (pass a stable object, e.g. a module constant, so analysis isn't re-triggered)
+ * Given trimmed `segments`, only those parts are sampled and each frame records its segment
+ * Detected poses are smoothed as a series before analysis unless `smoothing` is false
+ * With a multi-person model, analysis pauses on the first frame with several people until
+ * `selectAthlete` is called; that athlete is then tracked and frames where they are lost skipped
+ * A saved `session` is restored as-is without pose detection; the video is optional then
+ * When `analyzeFunction` or `combineFunction` change (e.g. another rule profile), the detected
+ * or restored poses are analyzed again without re-running pose detection
+ * A run can be paused, cancelled or restarted through `controls`; a new file, new settings
+ * or unmounting aborts the current run so it never writes stale results
  */
 export function useVideoAnalysis<T>({
   videoFile,
+  session = null,
   framesToAnalyze = 24,
+  sampling,
+  segments,
+  poseModel,
+  smoothing = DEFAULT_SMOOTHING_OPTIONS,
   analyzeFunction,
   combineFunction,
   onComplete,
@@ -35,23 +90,159 @@ export function useVideoAnalysis<T>({
   const [progress, setProgress] = useState<number>(0);
   const [error, setError] = useState<string>('');
   const [allFramePoses, setAllFramePoses] = useState<FrameAnalysis[]>([]);
+  const [smoothingReport, setSmoothingReport] = useState<SmoothingReport | null>(null);
+  const [trackingReport, setTrackingReport] = useState<TrackingReport | null>(null);
+  const [athleteChoice, setAthleteChoice] = useState<AthleteChoice | null>(null);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [isCancelled, setIsCancelled] = useState<boolean>(false);
+  const [frameProgress, setFrameProgress] = useState<AnalysisProgress | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const onCompleteRef = useRef(onComplete);
+  const analyzeFunctionRef = useRef(analyzeFunction);
+  const combineFunctionRef = useRef(combineFunction);
+  const poseFramesRef = useRef<PoseFrame[]>([]);
+  const reportRef = useRef<SmoothingReport | null>(null);
+  const athleteResolverRef = useRef<((index: number) => void) | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const pausedRef = useRef<boolean>(false);
+  const resumeRef = useRef<(() => void) | null>(null);
 
   // Keep onComplete ref up to date
   useEffect(() => {
     onCompleteRef.current = onComplete;
   }, [onComplete]);
 
-  const analyzeVideo = useCallback(async (): Promise<void> => {
+  /**
+   * Analyze each pose and combine the results with the current analysis functions
+   * @returns Whether any frame could be analyzed
+   */
+  const analyzePoses = useCallback((
+    poseFrames: PoseFrame[],
+    report: SmoothingReport | null,
+    reanalyzed: boolean
+  ): boolean => {
+    const allAnalyses: FrameAnalysis[] = [];
+    poseFrames.forEach(frame => {
+      try {
+        const frameAnalysis = analyzeFunctionRef.current(frame.pose);
+        if (frameAnalysis) {
+          allAnalyses.push({ ...frame, analysis: frameAnalysis });
+        }
+      } catch (frameError) {
+        console.warn('Frame analysis failed:', frameError);
+      }
+    });
+    if (allAnalyses.length === 0) return false;
+
+    const analyses = allAnalyses.map(a => a.analysis as T);
+    const combinedAnalysis = combineFunctionRef.current(analyses, allAnalyses);
+    setAnalysis(combinedAnalysis);
+    setAllFramePoses(allAnalyses);
+
+    if (onCompleteRef.current) {
+      onCompleteRef.current(combinedAnalysis, allAnalyses, report, reanalyzed);
+    }
+    return true;
+  }, []);
+
+  // Re-judge the kept poses when the analysis functions change, unless a run will pick them up
+  useEffect(() => {
+    const changed = analyzeFunctionRef.current !== analyzeFunction || combineFunctionRef.current !== combineFunction;
+    analyzeFunctionRef.current = analyzeFunction;
+    combineFunctionRef.current = combineFunction;
+
+    const running = abortControllerRef.current?.signal.aborted === false;
+    if (changed && !running && poseFramesRef.current.length > 0) {
+      analyzePoses(poseFramesRef.current, reportRef.current, true);
+    }
+  }, [analyzeFunction, combineFunction, analyzePoses]);
+
+  // Resume analysis with the person picked on the first frame
+  const selectAthlete = useCallback((index: number): void => {
+    athleteResolverRef.current?.(index);
+    athleteResolverRef.current = null;
+    setAthleteChoice(null);
+  }, []);
+
+  const pause = useCallback((): void => {
+    pausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+
+  const resume = useCallback((): void => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    resumeRef.current?.();
+    resumeRef.current = null;
+  }, []);
+
+  // Stop the current run; it leaves state as it was at this point
+  const cancel = useCallback((): void => {
+    abortControllerRef.current?.abort();
+    pausedRef.current = false;
+    setIsPaused(false);
+    setAthleteChoice(null);
+    setIsAnalyzing(false);
+    setIsCancelled(true);
+  }, []);
+
+  const restoreSession = useCallback(async (saved: AnalysisSession): Promise<void> => {
+    setError('');
+    setProgress(100);
+
+    try {
+      // Load the video (if provided) for frame scrubbing and key frames
+      const video = videoRef.current;
+      if (videoFile && video) {
+        await new Promise<void>((resolve, reject) => {
+          video.onloadedmetadata = () => resolve();
+          video.onerror = () => reject(new Error('Failed to load video'));
+          video.src = URL.createObjectURL(videoFile);
+        });
+      }
+
+      const restoredAnalysis = saved.analysis as T;
+      poseFramesRef.current = saved.frames.map(({ analysis: _analysis, ...frame }) => frame);
+      reportRef.current = saved.smoothingReport;
+      setSmoothingReport(saved.smoothingReport);
+      setTrackingReport(null);
+      setAnalysis(restoredAnalysis);
+      setAllFramePoses(saved.frames);
+
+      if (onCompleteRef.current) {
+        onCompleteRef.current(restoredAnalysis, saved.frames, saved.smoothingReport, false);
+      }
+    } catch (err) {
+      console.error('Session restore error:', err);
+      setError('Failed to restore the saved session.');
+    }
+  }, [videoFile]);
+
+  const analyzeVideo = useCallback(async (file: File): Promise<void> => {
+    // A new run replaces any run still in progress
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
+    pausedRef.current = false;
+    setIsPaused(false);
+    setIsCancelled(false);
     setIsAnalyzing(true);
     setError('');
     setProgress(0);
+    setFrameProgress(null);
+    setAnalysis(null);
+    setAllFramePoses([]);
+    poseFramesRef.current = [];
+
+    let videoUrl = '';
 
     try {
       // Initialize pose detector
       setProgress(10);
-      await initializePoseDetector();
+      await initializePoseEstimator(poseModel);
+      signal.throwIfAborted();
       setProgress(20);
 
       const video = videoRef.current;
@@ -59,12 +250,13 @@ export function useVideoAnalysis<T>({
         throw new Error('Video element not available');
       }
 
-      const videoUrl = URL.createObjectURL(videoFile);
+      videoUrl = URL.createObjectURL(file);
 
       // Load video and wait for metadata
       await new Promise<void>((resolve, reject) => {
         video.onloadedmetadata = () => resolve();
         video.onerror = () => reject(new Error('Failed to load video'));
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
         video.src = videoUrl;
       });
 
@@ -73,75 +265,163 @@ export function useVideoAnalysis<T>({
         throw new Error('Video dimensions not available');
       }
 
-      // Seek to middle of video and wait
-      video.currentTime = video.duration / 2;
-      await new Promise<void>((resolve) => {
-        video.onseeked = () => resolve();
-      });
+      // Resolve which media timestamps to analyze
+      const samplingOptions: SamplingOptions = sampling ?? { mode: 'even', frames: framesToAnalyze };
+      const frameRate = samplingOptions.mode === 'every-frame' ? await estimateFrameRate(video, signal) : undefined;
+      const trimmed = !!segments?.length;
+      const samples = segments?.length
+        ? getSegmentSampleTimes(segments, samplingOptions, frameRate)
+            .flatMap((times, segment) => times.map(time => ({ time, segment })))
+        : getSampleTimes(video.duration, samplingOptions, frameRate).map(time => ({ time, segment: 0 }));
 
       setProgress(30);
 
-      // Analyze multiple frames
-      const interval = video.duration / (framesToAnalyze + 1);
-      const allAnalyses: FrameAnalysis[] = [];
+      // Multi-person models: the user picks the athlete, who is then followed frame to frame
+      // and picked up again at the start of each trimmed segment
+      let tracker: AthleteTracker | null = null;
+      let trackedSegment = -1;
+      const chooseAthlete = (choice: AthleteChoice) => new Promise<number>((resolve, reject) => {
+        athleteResolverRef.current = resolve;
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+        setAthleteChoice(choice);
+      });
+
+      // Holds the loop between frames while paused; cancelling releases it
+      const waitWhilePaused = () => new Promise<void>(resolve => {
+        if (!pausedRef.current) {
+          resolve();
+          return;
+        }
+        resumeRef.current = resolve;
+        signal.addEventListener('abort', () => resolve(), { once: true });
+      });
+      const multiPerson = detectsMultiplePeople(poseModel);
 
-      for (let i = 1; i <= framesToAnalyze; i++) {
-        const targetTime = i * interval;
+      // Detect a pose in each sampled frame
+      const detectedPoses: Pose[] = [];
+      const timestamps: number[] = [];
+      const frameSegments: number[] = [];
 
-        // Seek and wait for the frame to be ready
-        await new Promise<void>((resolve) => {
-          video.onseeked = () => resolve();
-          video.currentTime = targetTime;
-        });
+      // Time spent on frames, for the estimate of time left
+      let activeMs = 0;
+
+      for (let i = 0; i < samples.length; i++) {
+        await waitWhilePaused();
+        signal.throwIfAborted();
+        let frameStart = performance.now();
 
-        // Small delay to ensure frame is rendered
-        await new Promise(resolve => setTimeout(resolve, 100));
+        // Seek and wait for the frame to be presented
+        const timestamp = await seekToTime(video, samples[i].time, signal);
 
         try {
-          const pose = await detectPose(video);
-          if (pose && pose.score > 0.3) {
-            const frameAnalysis = analyzeFunction(pose);
-            if (frameAnalysis) {
-              allAnalyses.push({ analysis: frameAnalysis, pose });
+          let pose: Pose | null = null;
+          if (multiPerson) {
+            const people = (await estimatePoses(video, poseModel, signal)).filter(person => person.score > 0.3);
+            if (tracker && (samples[i].segment === trackedSegment || people.length === 0)) {
+              ({ tracker, pose } = updateAthleteTracker(tracker, people, timestamp));
+            } else if (people.length > 0) {
+              // After a cut the athlete is kept only if still close to where they were last seen
+              let index: number = tracker ? matchAthlete(tracker.reference, people) : -1;
+              if (index < 0) {
+                // Time spent choosing doesn't count toward the estimate
+                const choiceStart = performance.now();
+                index = people.length > 1 ? await chooseAthlete({ poses: people, timestamp }) : 0;
+                frameStart += performance.now() - choiceStart;
+              }
+              tracker = tracker
+                ? resumeAthleteTracker(tracker, people[index], people.length)
+                : createAthleteTracker(people[index], people.length);
+              trackedSegment = samples[i].segment;
+              pose = people[index];
             }
+          } else {
+            pose = await estimatePose(video, poseModel, signal);
+          }
+          if (pose && pose.score > 0.3) {
+            detectedPoses.push(pose);
+            timestamps.push(timestamp);
+            frameSegments.push(samples[i].segment);
           }
         } catch (frameError) {
-          console.warn('Frame analysis failed:', frameError);
+          if (isAbortError(frameError)) throw frameError;
+          console.warn('Pose detection failed:', frameError);
         }
 
-        setProgress(30 + (i / framesToAnalyze) * 60);
+        activeMs += performance.now() - frameStart;
+        setProgress(30 + ((i + 1) / samples.length) * 60);
+        setFrameProgress(createAnalysisProgress(i + 1, samples.length, activeMs));
+
+        // Keep the page responsive during long runs
+        await yieldToMainThread();
+        signal.throwIfAborted();
       }
 
-      // Combine analyses
-      if (allAnalyses.length > 0) {
-        const analyses = allAnalyses.map(a => a.analysis as T);
-        const combinedAnalysis = combineFunction(analyses);
-        setAnalysis(combinedAnalysis);
-        setAllFramePoses(allAnalyses);
+      // Smooth the pose series (limb swaps, outliers, gaps, jitter), each segment on its own
+      let poses = detectedPoses;
+      let report: SmoothingReport | null = null;
+      if (smoothing) {
+        const smoothed = trimmed
+          ? smoothPoseSegments(detectedPoses, timestamps, frameSegments, smoothing)
+          : smoothPoseSequence(detectedPoses, timestamps, smoothing);
+        poses = smoothed.poses;
+        report = smoothed.report;
+      }
+      setSmoothingReport(report);
+      setTrackingReport(tracker?.report ?? null);
 
-        if (onCompleteRef.current) {
-          onCompleteRef.current(combinedAnalysis, allAnalyses);
-        }
-      } else {
+      // Analyze each frame and combine, keeping the poses for later re-analysis
+      const poseFrames: PoseFrame[] = poses.map((pose, i) => ({
+        pose,
+        timestamp: timestamps[i],
+        ...(trimmed ? { segment: frameSegments[i] } : {}),
+      }));
+      poseFramesRef.current = poseFrames;
+      reportRef.current = report;
+
+      if (!analyzePoses(poseFrames, report, false)) {
         setError('Could not detect person in video. Please ensure the full body is visible from the side.');
       }
 
       setProgress(100);
-      URL.revokeObjectURL(videoUrl);
     } catch (err) {
+      // Cancelled or replaced runs leave state to whatever stopped them
+      if (signal.aborted) return;
       console.error('Analysis error:', err);
       setError('Failed to analyze video. Please try again.');
     } finally {
-      setIsAnalyzing(false);
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+      if (!signal.aborted) {
+        setIsAnalyzing(false);
+        abortControllerRef.current = null;
+      }
     }
-  }, [videoFile, framesToAnalyze, analyzeFunction, combineFunction]);
+  }, [framesToAnalyze, sampling, segments, poseModel, smoothing, analyzePoses]);
+
+  // Run the same analysis again, e.g. after cancelling
+  const rerun = useCallback((): void => {
+    if (videoFile) analyzeVideo(videoFile);
+  }, [videoFile, analyzeVideo]);
 
-  // Auto-trigger analysis when video file changes
+  // Auto-trigger analysis (or restore) when the video file or session changes
+  // The previous run is aborted when they change or the component unmounts
   useEffect(() => {
-    if (videoFile) {
-      analyzeVideo();
+    if (session) {
+      restoreSession(session);
+    } else if (videoFile) {
+      analyzeVideo(videoFile);
     }
-  }, [videoFile, analyzeVideo]);
+    return () => abortControllerRef.current?.abort();
+  }, [videoFile, session, analyzeVideo, restoreSession]);
+
+  const controls = useMemo((): AnalysisControls => ({
+    isPaused,
+    isCancelled,
+    frameProgress,
+    pause,
+    resume,
+    cancel,
+    rerun,
+  }), [isPaused, isCancelled, frameProgress, pause, resume, cancel, rerun]);
 
   return {
     analysis,
@@ -149,6 +429,11 @@ export function useVideoAnalysis<T>({
     progress,
     error,
     allFramePoses,
+    smoothingReport,
+    trackingReport,
+    athleteChoice,
+    selectAthlete,
+    controls,
     videoRef,
     analyzeVideo,
   };
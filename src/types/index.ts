@@ -2,6 +2,7 @@
 export interface Keypoint {
   x: number;
   y: number;
+  z?: number;
   score?: number;
   name?: string;
 }
@@ -9,8 +10,28 @@ export interface Keypoint {
 export interface Pose {
   keypoints: Keypoint[];
   score: number;
+  schema?: KeypointSchema;
 }
 
+// Pose Model Types
+export type PoseModelId = 'movenet-lightning' | 'movenet-thunder' | 'movenet-multipose' | 'blazepose';
+
+export type KeypointSchema = 'coco17' | 'blazepose33';
+
+// Pose Worker Types
+export type PoseWorkerRequest =
+  | { type: 'init'; id: number; model: PoseModelId }
+  | { type: 'detect'; id: number; model: PoseModelId; bitmap: ImageBitmap }
+  | { type: 'detect-all'; id: number; model: PoseModelId; bitmap: ImageBitmap }
+  | { type: 'cancel'; id: number };
+
+export type PoseWorkerResponse =
+  | { type: 'ready'; id: number }
+  | { type: 'result'; id: number; pose: Pose | null }
+  | { type: 'results'; id: number; poses: Pose[] }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
 // Analysis Types
 export interface AngleData {
   knee?: number;
@@ -21,6 +42,14 @@ export interface AngleData {
   kneeLift?: number;
   hipExtension?: number;
   armSwing?: number;
+  ankle?: number;
+  kneeAtBDC?: number;
+  kneeAtTDC?: number;
+  hipAtTDC?: number;
+  kneeValgusLeft?: number;
+  kneeValgusRight?: number;
+  pelvicDrop?: number;
+  shoulderTilt?: number;
 }
 
 export interface Recommendation {
@@ -28,6 +57,8 @@ export interface Recommendation {
   message: string;
   type: 'success' | 'warning' | 'info' | 'error';
   angle?: number;
+  value?: number;
+  unit?: string;
   severity?: 'critical' | 'moderate' | 'minor';
   impact?: string;
   drills?: string[];
@@ -46,6 +77,13 @@ export interface RunningFormAnalysis {
   overall: 'excellent' | 'good' | 'needs-improvement';
 }
 
+export interface FrontalAnalysis {
+  angles: AngleData;
+  recommendations: Recommendation[];
+  overall: 'excellent' | 'good' | 'needs-adjustment';
+  legs?: Record<'left' | 'right', FrontalLegMetrics>;
+}
+
 // Detailed Metrics Types
 export interface MetricData {
   min: number;
@@ -55,6 +93,7 @@ export interface MetricData {
   range: number;
   consistency: number;
   values: number[];
+  unit?: string; // Degrees when absent
 }
 
 export interface DetailedMetrics {
@@ -67,6 +106,7 @@ export interface AsymmetryData {
   difference: number;
   percentDiff: number;
   status: 'balanced' | 'minor' | 'significant';
+  unit?: string; // Degrees when absent
 }
 
 export interface Asymmetry {
@@ -119,13 +159,174 @@ export interface AngleGauge {
 
 // Frame Analysis Types
 export interface FrameAnalysis {
-  analysis: BikeFitAnalysis | RunningFormAnalysis;
+  analysis: BikeFitAnalysis | RunningFormAnalysis | FrontalAnalysis;
   pose: Pose;
+  timestamp: number;
+  segment?: number; // Index of the trimmed video segment the frame came from
+}
+
+// Video Sampling Types
+export type SamplingOptions =
+  | { mode: 'even'; frames: number }
+  | { mode: 'fps'; fps: number }
+  | { mode: 'every-frame' };
+
+export interface VideoSegment {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+// Analysis Progress Types
+export interface AnalysisProgress {
+  framesProcessed: number;
+  totalFrames: number;
+  remainingSeconds: number | null; // Unknown until a few frames have been timed
+}
+
+export interface AnalysisControls {
+  isPaused: boolean;
+  isCancelled: boolean;
+  frameProgress: AnalysisProgress | null;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  rerun: () => void;
+}
+
+// Pose Smoothing Types
+export interface SmoothingOptions {
+  minCutoff: number; // One Euro minimum cutoff frequency (Hz) - lower is smoother when still
+  beta: number; // One Euro speed coefficient - higher is less lag on fast motion
+  derivativeCutoff: number; // Cutoff frequency for the velocity estimate (Hz)
+  minConfidence: number; // Keypoints scored below this are treated as missing
+  maxGapFrames: number; // Longest run of missing frames filled by interpolation
+  outlierThreshold: number; // Single-frame jump, in torso lengths, rejected as an outlier
+}
+
+export type SmoothingPreset = 'off' | 'light' | 'standard' | 'strong';
+
+export interface SmoothingReport {
+  frames: number;
+  swappedKeypoints: number;
+  rejectedOutliers: number;
+  filledKeypoints: number;
+  correctedKeypoints: number;
+}
+
+// Athlete Tracking Types
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TrackingReport {
+  frames: number; // Frames followed after the athlete was chosen
+  lostFrames: number[]; // Timestamps (s) where the athlete could not be matched
+  maxPeople: number; // Most people detected in a single frame
+}
+
+export interface AthleteTracker {
+  reference: Pose; // Athlete's pose in the last matched frame
+  report: TrackingReport;
+}
+
+export interface AthleteChoice {
+  poses: Pose[]; // Everyone detected in the first frame
+  timestamp: number;
+}
+
+// Gait Cycle Types
+export type GaitLeg = 'left' | 'right';
+
+export type GaitPhase = 'foot-strike' | 'mid-stance' | 'toe-off' | 'swing';
+
+export interface GaitEvent {
+  leg: GaitLeg;
+  phase: Exclude<GaitPhase, 'swing'>;
+  frameIndex: number;
+  time: number;
+  kneeFlexion?: number;
+  hipAngle?: number;
+}
+
+export interface GaitCycle {
+  leg: GaitLeg;
+  start: number;
+  end: number;
+  duration: number;
+  events: GaitEvent[];
+  peakSwingKneeFlexion?: number;
+}
+
+export interface GaitPhaseAngles {
+  kneeFlexionAtContact?: number;
+  kneeFlexionAtMidStance?: number;
+  hipExtensionAtToeOff?: number;
+  peakSwingKneeFlexion?: number;
+}
+
+export interface GaitAnalysis {
+  direction: 1 | -1; // Way the runner faces (+1 = towards increasing x)
+  events: GaitEvent[];
+  cycles: GaitCycle[];
+  phaseAngles: Record<GaitLeg, GaitPhaseAngles>;
+  framePhases: Array<Partial<Record<GaitLeg, GaitPhase>>>;
+}
+
+// Running economy of one stride, from foot strike to the next foot strike of the same leg
+export interface StrideEconomy {
+  leg: GaitLeg;
+  start: number; // Seconds
+  verticalOscillation?: number; // Hip rise and fall, cm when calibrated, otherwise % of leg length
+  groundContactTime?: number; // ms
+  flightTime?: number; // ms between this foot leaving the ground and the other landing
+  dutyFactor?: number; // % of the stride this foot is on the ground
+}
+
+// Cadence Types
+export interface CadenceEstimate {
+  value: number;
+  unit: 'spm' | 'rpm';
+  frequency: number;
+  confidence: number;
+}
+
+// Pedal Stroke Types
+export type CrankPosition = 'tdc' | 'three-oclock' | 'bdc';
+
+export interface PedalStrokeAnalysis {
+  side: 'left' | 'right';
+  crankAngles: Array<number | null>; // Per frame, degrees: 0 = TDC, 90 = 3 o'clock, 180 = BDC
+  positionFrames: Record<CrankPosition, number[]>;
+  revolutions: number;
+  kneeAtBDC?: number;
+  kneeAtTDC?: number;
+  hipAtTDC?: number;
+  kneeOverPedal?: number; // Knee ahead (+) or behind (-) the pedal at 3 o'clock, % of shin length
+  crankCenter: PixelPoint; // Bottom bracket estimated from the ankle path
+  direction: 1 | -1; // Way the rider faces (+1 = towards increasing x)
+}
+
+// Frontal View Types
+export type CameraView = 'side' | 'front';
+
+export type CameraViewSetting = CameraView | 'auto';
+
+export interface FrontalLegMetrics {
+  peakValgus?: number; // Peak inward knee deviation from the hip-ankle line, degrees (negative = outward)
+  lateralTravel?: number; // Side-to-side knee travel relative to the hip-ankle line, % of leg length
 }
 
 // Sport Detection Types
 export type SportType = 'cycling' | 'running' | null;
 
+export interface VideoProfile {
+  sport: SportType | 'unknown';
+  view: CameraView;
+}
+
 // Analysis Summary Types
 export interface AnalysisSummary {
   headline: string;
@@ -133,3 +334,340 @@ export interface AnalysisSummary {
   improvements: string[];
   topPriority: string;
 }
+
+// Report Types
+export interface ReportMetadata {
+  athleteName: string;
+  fitterName?: string;
+  sessionDate: string; // YYYY-MM-DD
+  notes?: string;
+}
+
+export interface ReportKeyFrame {
+  time: number; // Media time in seconds
+  image: string; // JPEG data URL of the annotated frame
+}
+
+export interface AnalysisReport {
+  title: string;
+  videoName: string;
+  metadata: ReportMetadata;
+  overallMessage: string;
+  summary: AnalysisSummary;
+  recommendations: Recommendation[];
+  angleGauges: AngleGauge[];
+  measuredAngles: Array<{ label: string; value: number }>;
+  detailedMetrics: DetailedMetrics | null;
+  asymmetry: Asymmetry | null;
+  keyFrames: ReportKeyFrame[];
+  noteText: string;
+}
+
+// Session Types
+export interface SessionVideoMetadata {
+  name: string;
+  size: number; // Bytes
+  type: string;
+  duration: number; // Seconds
+  width: number;
+  height: number;
+}
+
+export interface AnalysisSession {
+  format: 'sports-analysis-session';
+  version: number;
+  createdAt: string; // ISO timestamp
+  analysisType: 'bike' | 'running';
+  view: CameraView;
+  poseModel?: PoseModelId;
+  ruleProfile?: RuleProfileId; // Optimal ranges the session was judged against
+  calibration?: CalibrationSettings; // Pixel-to-centimetre scale for distances
+  segments?: VideoSegment[]; // Parts of the video analyzed, when it was trimmed
+  video: SessionVideoMetadata;
+  frames: FrameAnalysis[];
+  analysis: BikeFitAnalysis | RunningFormAnalysis | FrontalAnalysis;
+  detailedMetrics: DetailedMetrics | null;
+  asymmetry: Asymmetry | null;
+  recommendations: Recommendation[];
+  smoothingReport: SmoothingReport | null;
+}
+
+// Athlete Types
+export interface BikeSetup {
+  bikeName?: string;
+  saddleHeight?: number; // mm, bottom bracket to saddle top
+  saddleSetback?: number; // mm, saddle nose behind the bottom bracket
+  handlebarReach?: number; // mm, saddle nose to handlebar center
+  handlebarDrop?: number; // mm, saddle top to handlebar top
+  crankLength?: number; // mm
+}
+
+export interface AthleteProfile {
+  id: string;
+  name: string;
+  sport: 'cycling' | 'running' | 'both';
+  height?: number; // cm
+  bikeSetup?: BikeSetup;
+  createdAt: string; // ISO timestamp
+}
+
+export interface AthleteSessionRecord {
+  id: string;
+  athleteId: string;
+  date: string; // ISO timestamp of the analysis
+  session: AnalysisSession;
+}
+
+// Trend Types
+export type TrendDirection = 'toward' | 'away' | 'unchanged';
+
+export type TrendCategory = 'angle' | 'consistency' | 'asymmetry';
+
+export interface OptimalRange {
+  min: number;
+  max: number;
+}
+
+export interface TrendPoint {
+  date: string; // ISO timestamp of the session
+  value: number;
+}
+
+export interface MetricTrend {
+  key: string;
+  label: string;
+  category: TrendCategory;
+  unit: string;
+  points: TrendPoint[];
+  range: OptimalRange | null;
+  direction: TrendDirection | null; // First to latest session, null with fewer than two points
+  latestInRange: boolean | null;
+}
+
+// Rule Profile Types
+export type BikeDiscipline = 'road' | 'time-trial' | 'mtb' | 'triathlon';
+
+export type RunningDiscipline = 'sprint' | 'distance';
+
+// User-made profiles, e.g. tuned for one client or a studio's house standards
+export type CustomRuleProfileId = `custom-${string}`;
+
+export type RuleProfileId = BikeDiscipline | RunningDiscipline | CustomRuleProfileId;
+
+// Front-view ranges in degrees (knee travel in % of leg length)
+export interface FrontalRanges {
+  kneeValgus: OptimalRange;
+  kneeTravel: OptimalRange;
+  pelvicDrop: OptimalRange;
+  hipRocking: OptimalRange;
+  shoulderTilt: OptimalRange;
+}
+
+// Side-view bike fit ranges in degrees (knee over pedal in % of shin length)
+export interface BikeFitRanges extends FrontalRanges {
+  knee: OptimalRange;
+  hip: OptimalRange;
+  back: OptimalRange; // Torso angle above horizontal
+  elbow: OptimalRange;
+  kneeAtBDC: OptimalRange;
+  kneeAtTDC: OptimalRange;
+  hipAtTDC: OptimalRange;
+  kneeOverPedal: OptimalRange;
+}
+
+// Side-view running ranges in degrees (cadence in steps per minute)
+export interface RunningFormRanges extends FrontalRanges {
+  bodyLean: OptimalRange;
+  kneeLift: OptimalRange;
+  hipExtension: OptimalRange;
+  armSwing: OptimalRange;
+  cadence: OptimalRange;
+  verticalOscillation: OptimalRange; // % of leg length
+  groundContactTime: OptimalRange; // ms
+  flightTime: OptimalRange; // ms
+  dutyFactor: OptimalRange; // % of the stride on the ground
+}
+
+// Deviation beyond the range, in % of the range width, at which an issue becomes moderate or critical
+export interface SeverityThresholds {
+  moderate: number;
+  critical: number;
+}
+
+export interface BikeRuleProfile {
+  id: BikeDiscipline | CustomRuleProfileId;
+  label: string;
+  sport: 'bike';
+  basedOn?: BikeDiscipline; // Preset a custom profile was copied from
+  ranges: BikeFitRanges;
+  severity: Record<keyof BikeFitRanges, SeverityThresholds>;
+}
+
+export interface RunningRuleProfile {
+  id: RunningDiscipline | CustomRuleProfileId;
+  label: string;
+  sport: 'running';
+  basedOn?: RunningDiscipline;
+  ranges: RunningFormRanges;
+  severity: Record<keyof RunningFormRanges, SeverityThresholds>;
+}
+
+export type RuleProfile = BikeRuleProfile | RunningRuleProfile;
+
+export type RangeClassification = 'low' | 'optimal' | 'high';
+
+// Shareable file of custom rule profiles
+export interface RuleSetFile {
+  format: string;
+  version: number;
+  exportedAt: string;
+  profiles: RuleProfile[];
+}
+
+// Comparison Types
+export interface PhaseAlignment {
+  mode: 'phase' | 'time'; // Aligned on matching cycle starts, or on wall time when no cycles were found
+  anchors: Array<[number, number]>; // Matching times in video A and video B, seconds
+}
+
+export interface MetricComparison {
+  key: string;
+  label: string;
+  a: number; // Average in video A
+  b: number; // Average in video B
+  delta: number; // b - a
+  consistencyA: number;
+  consistencyB: number;
+}
+
+export interface TorsoMeasurement {
+  hips: { x: number; y: number }; // Hip centre
+  shoulders: { x: number; y: number }; // Shoulder centre
+  length: number; // Hip to shoulder distance, pixels
+}
+
+// Reference pose sequence drawn as a ghost over the athlete's video
+export interface GhostReference {
+  frames: FrameAnalysis[];
+  alignment: PhaseAlignment; // Maps athlete video time to reference time
+}
+
+// Injury Risk Types
+export type InjuryRegion = 'knee' | 'lowerBack' | 'hip' | 'achilles';
+
+export type RiskLevel = 'low' | 'moderate' | 'high';
+
+export interface RiskFactor {
+  id: string;
+  label: string;
+  points: number; // Contribution to the region score
+  explanation: string;
+}
+
+export interface RegionRisk {
+  region: InjuryRegion;
+  label: string;
+  score: number; // 0-100
+  level: RiskLevel;
+  factors: RiskFactor[]; // Largest contribution first
+}
+
+export interface InjuryRiskAssessment {
+  regions: RegionRisk[]; // Highest score first
+  overall: RiskLevel;
+}
+
+// Aero Types
+export interface AeroScenario {
+  torsoChange: number; // Degrees, negative = lower torso
+  backAngle: number;
+  hipAngle?: number; // Hip at TDC (or average hip angle) after the change
+  hipClosed: boolean; // Hip angle falls below the profile's range
+  cdaIndex: number;
+  cda?: number; // m²
+  powerChange?: number; // W at the reference speed, negative = saving
+}
+
+export interface AeroEstimate {
+  backAngle: number;
+  hipAngle?: number;
+  shoulderWidth?: number; // cm, from the rider's height
+  frontalArea?: number; // m²
+  cda?: number; // m²
+  cdaIndex: number; // 100 = typical road position on the hoods
+  aeroPower?: number; // W to overcome air resistance at the reference speed
+  scenarios: AeroScenario[];
+}
+
+// Calibration Types
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export type CalibrationSettings =
+  | { method: 'height'; heightCm: number } // Athlete's standing height
+  | { method: 'reference'; lengthCm: number; points: [PixelPoint, PixelPoint] }; // Marked object of known length
+
+export interface Calibration {
+  method: CalibrationSettings['method'];
+  cmPerPixel: number;
+}
+
+export interface RunningDistances {
+  strideLength?: number; // cm covered per stride (two steps)
+  overstride?: number; // cm the landing foot is ahead of the hips at foot strike
+}
+
+export interface DistanceMeasurement {
+  label: string;
+  value?: number; // cm, undefined when it could not be measured
+  hint: string;
+}
+
+// Live Camera Types
+export interface LiveFrame extends FrameAnalysis {
+  rawPose: Pose; // Detection before smoothing, which later frames are filtered from
+}
+
+export interface LiveWindowSummary {
+  frames: number;
+  duration: number; // Seconds covered by the window
+  sampleRate: number; // Detected frames per second
+  latest: AngleData; // Angles of the most recent frame
+  metrics: DetailedMetrics | null;
+  pedalStroke: PedalStrokeAnalysis | null;
+}
+
+// Coaching Cue Types
+export type CueDirection = 'low' | 'high';
+
+export type CueVerbosity = 'critical' | 'priority' | 'all';
+
+// Spoken phrase for a measurement below or above its range, keyed by rule range
+export type CueVocabulary = Record<string, Partial<Record<CueDirection, string>>>;
+
+export interface CueSettings {
+  muted: boolean;
+  verbosity: CueVerbosity;
+  vocabulary: Record<'bike' | 'running', CueVocabulary>;
+}
+
+export interface CueIssue {
+  key: string; // Rule range key
+  direction: CueDirection;
+  severity: SeverityLevel;
+}
+
+export interface CueTracker {
+  issues: Record<string, { since: number; lastSeen: number }>; // Out-of-range episodes by cue id
+  lastCueAt: number | null;
+  lastSpoken: Record<string, number>; // When each cue id was last spoken
+}
+
+export interface SpokenCue {
+  key: string;
+  direction: CueDirection;
+  text: string;
+  time: number;
+}
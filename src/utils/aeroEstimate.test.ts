@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { estimateAero, estimateFrontalArea, getAeroPower, getCdaIndex } from './aeroEstimate';
+import { BIKE_RULE_PROFILES } from './ruleProfiles';
+
+describe('aeroEstimate', () => {
+  describe('getCdaIndex', () => {
+    it('should score the reference road position as 100', () => {
+      expect(getCdaIndex(45)).toBe(100);
+    });
+
+    it('should score lower torso angles as more aerodynamic', () => {
+      expect(getCdaIndex(15)).toBeLessThan(getCdaIndex(30));
+      expect(getCdaIndex(30)).toBeLessThan(100);
+      expect(getCdaIndex(65)).toBeGreaterThan(100);
+    });
+  });
+
+  describe('estimateFrontalArea', () => {
+    it('should give a realistic frontal area for a rider on the hoods', () => {
+      const area = estimateFrontalArea(45, 175);
+      expect(area).toBeGreaterThan(0.3);
+      expect(area).toBeLessThan(0.4);
+    });
+
+    it('should scale with the square of height', () => {
+      expect(estimateFrontalArea(45, 200) / estimateFrontalArea(45, 100)).toBeCloseTo(4);
+    });
+  });
+
+  describe('getAeroPower', () => {
+    it('should grow linearly with CdA', () => {
+      expect(getAeroPower(0.4)).toBeCloseTo(getAeroPower(0.2) * 2);
+      expect(getAeroPower(0.3)).toBeGreaterThan(200);
+      expect(getAeroPower(0.3)).toBeLessThan(300);
+    });
+  });
+
+  describe('estimateAero', () => {
+    it('should return null without a back angle', () => {
+      expect(estimateAero({ hip: 50 })).toBeNull();
+    });
+
+    it('should estimate only the relative index without a height', () => {
+      const estimate = estimateAero({ back: 40, hip: 50 })!;
+
+      expect(estimate.cdaIndex).toBeLessThan(100);
+      expect(estimate.frontalArea).toBeUndefined();
+      expect(estimate.cda).toBeUndefined();
+      expect(estimate.aeroPower).toBeUndefined();
+      expect(estimate.scenarios.every(scenario => scenario.powerChange === undefined)).toBe(true);
+    });
+
+    it('should estimate absolute values from the rider height', () => {
+      const estimate = estimateAero({ back: 20, hip: 50 }, BIKE_RULE_PROFILES['time-trial'], 180)!;
+
+      expect(estimate.shoulderWidth).toBe(47);
+      expect(estimate.frontalArea).toBeGreaterThan(0.25);
+      expect(estimate.cda).toBeGreaterThan(0.18);
+      expect(estimate.cda).toBeLessThan(0.25);
+      expect(estimate.aeroPower).toBeGreaterThan(0);
+    });
+
+    it('should ignore implausible heights', () => {
+      const estimate = estimateAero({ back: 40 }, undefined, 20)!;
+      expect(estimate.frontalArea).toBeUndefined();
+    });
+
+    it('should save power when lowering the torso and cost power when raising it', () => {
+      const estimate = estimateAero({ back: 40, hip: 55 }, undefined, 175)!;
+      const lower = estimate.scenarios.find(scenario => scenario.torsoChange === -5)!;
+      const higher = estimate.scenarios.find(scenario => scenario.torsoChange === 5)!;
+
+      expect(lower.backAngle).toBe(35);
+      expect(lower.cdaIndex).toBeLessThan(estimate.cdaIndex);
+      expect(lower.powerChange).toBeLessThan(0);
+      expect(higher.powerChange).toBeGreaterThan(0);
+    });
+
+    it('should flag what-ifs that close the hip past the profile range', () => {
+      // Road hip at TDC range starts at 40°
+      const estimate = estimateAero({ back: 40, hip: 60, hipAtTDC: 47 }, BIKE_RULE_PROFILES.road, 175)!;
+      const byChange = Object.fromEntries(estimate.scenarios.map(scenario => [scenario.torsoChange, scenario]));
+
+      expect(estimate.hipAngle).toBe(47);
+      expect(byChange[-10].hipAngle).toBe(37);
+      expect(byChange[-10].hipClosed).toBe(true);
+      expect(byChange[-5].hipClosed).toBe(false);
+      expect(byChange[5].hipClosed).toBe(false);
+    });
+
+    it('should skip what-ifs beyond a flat or upright torso', () => {
+      const estimate = estimateAero({ back: 8 })!;
+      expect(estimate.scenarios.map(scenario => scenario.torsoChange)).toEqual([-5, 5]);
+    });
+  });
+});
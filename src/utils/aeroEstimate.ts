@@ -0,0 +1,129 @@
+import { DEFAULT_BIKE_PROFILE } from './ruleProfiles';
+import { MIN_HEIGHT_CM, MAX_HEIGHT_CM } from './calibration';
+import type { AeroEstimate, AeroScenario, AngleData, BikeRuleProfile } from '../types';
+
+/**
+ * Aerodynamic Position Estimate
+ * - Frontal area from the torso angle and body segment proportions of the rider's height
+ * - Relative CdA index (100 = typical road position on the hoods), independent of rider size
+ * - Power needed against air resistance at a reference speed when the height is known
+ * - What-if torso angles, flagged where the lower position closes the hip past the profile's range
+ */
+
+// Reference speed for the power estimate (km/h)
+export const AERO_SPEED_KMH = 40;
+
+// Sea-level air density (kg/m³)
+const AIR_DENSITY = 1.225;
+
+// Segment proportions of standing height (Drillis & Contini)
+const TORSO_LENGTH_RATIO = 0.288; // Shoulder to hip
+const SHOULDER_WIDTH_RATIO = 0.259;
+const HIP_WIDTH_RATIO = 0.191;
+
+// Frontal area of the head, arms and legs as a fraction of height squared;
+// these barely change with the torso angle
+const FIXED_AREA_RATIO = 0.068;
+
+// Drag coefficient of a rider with a flat (0°) and an upright (90°) torso
+const CD_FLAT = 0.7;
+const CD_UPRIGHT = 1.0;
+
+// Back angle of the reference position the index is relative to
+const REFERENCE_BACK_ANGLE = 45;
+
+// Torso angle changes shown as what-ifs (degrees, negative = lower)
+export const TORSO_ANGLE_CHANGES = [-10, -5, 5];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Frontal area per metre of height squared: the torso seen from the front shrinks as it flattens
+function getAreaRatio(backAngle: number): number {
+  const torsoWidth = (SHOULDER_WIDTH_RATIO + HIP_WIDTH_RATIO) / 2;
+  return TORSO_LENGTH_RATIO * torsoWidth * Math.sin(toRadians(backAngle)) + FIXED_AREA_RATIO;
+}
+
+function getDragCoefficient(backAngle: number): number {
+  return CD_FLAT + (CD_UPRIGHT - CD_FLAT) * Math.sin(toRadians(backAngle));
+}
+
+/**
+ * Frontal area (m²) of a rider of the given height with the given back angle
+ */
+export function estimateFrontalArea(backAngle: number, heightCm: number): number {
+  return getAreaRatio(backAngle) * (heightCm / 100) ** 2;
+}
+
+/**
+ * CdA relative to the reference road position, which scores 100
+ */
+export function getCdaIndex(backAngle: number): number {
+  const cda = (angle: number) => getDragCoefficient(angle) * getAreaRatio(angle);
+  return Math.round((cda(backAngle) / cda(REFERENCE_BACK_ANGLE)) * 100);
+}
+
+/**
+ * Power (W) to overcome air resistance at the reference speed
+ */
+export function getAeroPower(cda: number): number {
+  const speed = AERO_SPEED_KMH / 3.6;
+  return 0.5 * AIR_DENSITY * cda * speed ** 3;
+}
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Estimate the aerodynamics of the measured riding position
+ * @param angles - Combined bike fit angles (back angle required, hip at TDC preferred over the average hip angle)
+ * @param profile - Discipline whose hip range the what-ifs are checked against
+ * @param heightCm - Rider height; without it only the relative index is estimated
+ * @returns null without a back angle
+ */
+export function estimateAero(
+  angles: AngleData,
+  profile: BikeRuleProfile = DEFAULT_BIKE_PROFILE,
+  heightCm?: number
+): AeroEstimate | null {
+  const { back } = angles;
+  if (back === undefined) return null;
+
+  const height = heightCm && heightCm >= MIN_HEIGHT_CM && heightCm <= MAX_HEIGHT_CM ? heightCm : undefined;
+  const hipAngle = angles.hipAtTDC ?? angles.hip;
+  const hipRange = angles.hipAtTDC !== undefined ? profile.ranges.hipAtTDC : profile.ranges.hip;
+  const cdaFor = (backAngle: number) =>
+    height ? getDragCoefficient(backAngle) * estimateFrontalArea(backAngle, height) : undefined;
+
+  const cda = cdaFor(back);
+  const aeroPower = cda !== undefined ? getAeroPower(cda) : undefined;
+
+  // Lowering the torso closes the hip by the same angle while the legs stay put
+  const scenarios: AeroScenario[] = TORSO_ANGLE_CHANGES
+    .filter(change => back + change >= 0 && back + change <= 90)
+    .map(change => {
+      const backAngle = back + change;
+      const scenarioHip = hipAngle !== undefined ? hipAngle + change : undefined;
+      const scenarioCda = cdaFor(backAngle);
+      return {
+        torsoChange: change,
+        backAngle,
+        hipAngle: scenarioHip,
+        hipClosed: scenarioHip !== undefined && scenarioHip < hipRange.min,
+        cdaIndex: getCdaIndex(backAngle),
+        cda: scenarioCda !== undefined ? round(scenarioCda, 3) : undefined,
+        powerChange: scenarioCda !== undefined && aeroPower !== undefined
+          ? Math.round(getAeroPower(scenarioCda) - aeroPower)
+          : undefined,
+      };
+    });
+
+  return {
+    backAngle: back,
+    hipAngle,
+    shoulderWidth: height ? Math.round(SHOULDER_WIDTH_RATIO * height) : undefined,
+    frontalArea: height ? round(estimateFrontalArea(back, height), 3) : undefined,
+    cda: cda !== undefined ? round(cda, 3) : undefined,
+    cdaIndex: getCdaIndex(back),
+    aeroPower: aeroPower !== undefined ? Math.round(aeroPower) : undefined,
+    scenarios,
+  };
+}
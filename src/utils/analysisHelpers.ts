@@ -1,4 +1,5 @@
-import type { AngleData, IssueMarker, Recommendation } from '../types';
+import { seekToTime } from './videoSampling';
+import type { AngleData, FrameAnalysis, IssueMarker, Pose, Recommendation, ReportKeyFrame } from '../types';
 
 /**
  * Generic function to combine multiple analyses by averaging angle values
@@ -106,6 +107,22 @@ export function getRunningFormOverallMessage(overall: string): OverallMessage {
   }
 }
 
+/**
+ * Get overall message for front-view knee tracking analysis
+ */
+export function getFrontalOverallMessage(overall: string): OverallMessage {
+  switch (overall) {
+    case 'excellent':
+      return { text: 'Excellent alignment - knees, hips and shoulders track well!', color: '#4caf50' };
+    case 'good':
+      return { text: 'Good alignment with minor tracking issues', color: '#2196f3' };
+    case 'needs-adjustment':
+      return { text: 'Alignment issues detected', color: '#ff9800' };
+    default:
+      return { text: 'Analysis complete', color: '#757575' };
+  }
+}
+
 /**
  * Draw pose on static canvas (for snapshot visualization)
  */
@@ -132,3 +149,50 @@ export function drawPoseOnCanvas(
   // Draw angle measurements
   drawAnglesFn(ctx, pose, analysis);
 }
+
+/**
+ * Pick evenly spread key frames, preferring the most confident pose in each segment
+ * @param frames - Analyzed frames in time order
+ * @param count - Number of key frames to pick
+ */
+export function selectKeyFrames(frames: FrameAnalysis[], count: number = 4): FrameAnalysis[] {
+  if (frames.length <= count) return [...frames];
+
+  const selected: FrameAnalysis[] = [];
+  for (let i = 0; i < count; i++) {
+    const segment = frames.slice(
+      Math.floor((i * frames.length) / count),
+      Math.floor(((i + 1) * frames.length) / count)
+    );
+    selected.push(segment.reduce((best, frame) => (frame.pose.score > best.pose.score ? frame : best)));
+  }
+  return selected;
+}
+
+/**
+ * Render annotated key frames by seeking the video and drawing the pose overlay
+ * Restores the video's playback position afterwards
+ */
+export async function captureKeyFrames<T>(
+  video: HTMLVideoElement,
+  frames: FrameAnalysis[],
+  drawSkeletonFn: (ctx: CanvasRenderingContext2D, pose: Pose, width: number, height: number) => void,
+  drawAnglesFn: (ctx: CanvasRenderingContext2D, pose: Pose, analysis: T) => void,
+  count: number = 4
+): Promise<ReportKeyFrame[]> {
+  const originalTime = video.currentTime;
+  const canvas = document.createElement('canvas');
+  const keyFrames: ReportKeyFrame[] = [];
+
+  try {
+    for (const frame of selectKeyFrames(frames, count)) {
+      await seekToTime(video, frame.timestamp);
+      drawPoseOnCanvas(canvas, video, frame.pose, drawSkeletonFn, drawAnglesFn, frame.analysis);
+      keyFrames.push({ time: frame.timestamp, image: canvas.toDataURL('image/jpeg', 0.85) });
+    }
+  } finally {
+    await seekToTime(video, originalTime);
+  }
+
+  return keyFrames;
+}
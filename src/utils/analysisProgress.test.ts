@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { createAnalysisProgress, formatTimeLeft } from './analysisProgress';
+
+describe('analysisProgress', () => {
+  describe('createAnalysisProgress', () => {
+    it('should extrapolate the time left from the average frame time', () => {
+      // 10 frames in 5 s, 90 to go
+      expect(createAnalysisProgress(10, 100, 5000)).toEqual({
+        framesProcessed: 10,
+        totalFrames: 100,
+        remainingSeconds: 45,
+      });
+    });
+
+    it('should not estimate before a few frames are timed', () => {
+      expect(createAnalysisProgress(2, 100, 4000).remainingSeconds).toBeNull();
+    });
+
+    it('should report nothing left once every frame is processed', () => {
+      expect(createAnalysisProgress(100, 100, 50000).remainingSeconds).toBe(0);
+    });
+  });
+
+  describe('formatTimeLeft', () => {
+    it('should format seconds and minutes', () => {
+      expect(formatTimeLeft(45)).toBe('about 45 s left');
+      expect(formatTimeLeft(80)).toBe('about 1 min 20 s left');
+      expect(formatTimeLeft(120)).toBe('about 2 min left');
+    });
+
+    it('should describe unknown and nearly finished runs', () => {
+      expect(formatTimeLeft(null)).toBe('estimating time left...');
+      expect(formatTimeLeft(3)).toBe('almost done');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import type { AnalysisProgress } from '../types';
+
+/**
+ * Analysis Progress
+ * - Frames processed out of the sampled total
+ * - Time left from the average time per frame, excluding pauses
+ */
+
+// Frames timed before estimating - the first ones include model warm-up
+const MIN_TIMED_FRAMES = 3;
+
+/**
+ * Progress after a frame, with the time left extrapolated from the frames so far
+ * @param activeMs - Time spent processing frames, not counting pauses or waits for the user
+ */
+export function createAnalysisProgress(framesProcessed: number, totalFrames: number, activeMs: number): AnalysisProgress {
+  const remainingFrames = Math.max(0, totalFrames - framesProcessed);
+  const remainingSeconds = framesProcessed >= MIN_TIMED_FRAMES
+    ? Math.round(((activeMs / framesProcessed) * remainingFrames) / 1000)
+    : null;
+
+  return { framesProcessed, totalFrames, remainingSeconds };
+}
+
+/**
+ * Format the estimated time left for the loader, e.g. "about 1 min 20 s left"
+ */
+export function formatTimeLeft(seconds: number | null): string {
+  if (seconds === null) return 'estimating time left...';
+  if (seconds < 5) return 'almost done';
+
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  if (minutes === 0) return `about ${rest} s left`;
+  return rest > 0 ? `about ${minutes} min ${rest} s left` : `about ${minutes} min left`;
+}
@@ -1,4 +1,6 @@
-import type { Recommendation, DetailedMetrics, Asymmetry, AngleData } from '../types';
+import type { Recommendation, DetailedMetrics, Asymmetry, AngleData, RuleProfile } from '../types';
+import { DEFAULT_BIKE_PROFILE, DEFAULT_RUNNING_PROFILE, getAngleRange, isInRange } from './ruleProfiles';
+import { formatMetricValue } from './detailedMetrics';
 
 export interface AnalysisSummary {
   headline: string;
@@ -10,6 +12,7 @@ export interface AnalysisSummary {
 /**
  * Generates a detailed, specific summary from analysis data
  * Focuses on concrete measurements and specific feedback
+ * Strengths are angles within the discipline profile's optimal ranges
  */
 export function generateDetailedSummary(
   recommendations: Recommendation[],
@@ -17,7 +20,8 @@ export function generateDetailedSummary(
   detailedMetrics: DetailedMetrics | null,
   asymmetry: Asymmetry | null,
   overall: string,
-  sportType: 'bike' | 'running'
+  sportType: 'bike' | 'running',
+  profile: RuleProfile = sportType === 'bike' ? DEFAULT_BIKE_PROFILE : DEFAULT_RUNNING_PROFILE
 ): AnalysisSummary {
   const criticalIssues = recommendations.filter(r => r.severity === 'critical');
   const moderateIssues = recommendations.filter(r => r.severity === 'moderate');
@@ -38,33 +42,63 @@ export function generateDetailedSummary(
   // Extract specific strengths
   const strengths: string[] = [];
 
+  const isOptimal = (key: keyof AngleData): boolean => {
+    const value = angles[key];
+    const range = getAngleRange(key, profile);
+    return value !== undefined && range !== null && isInRange(value, range);
+  };
+
   // Check for good angles
   if (sportType === 'bike') {
-    if (angles.knee && angles.knee >= 140 && angles.knee <= 160) {
+    if (isOptimal('knee')) {
       strengths.push(`Knee angle (${angles.knee}°) is optimal - reduces stress on joints`);
     }
-    if (angles.hip && angles.hip >= 40 && angles.hip <= 70) {
+    if (isOptimal('kneeAtBDC')) {
+      strengths.push(`Knee extension at the bottom of the stroke (${angles.kneeAtBDC}°) confirms a good saddle height`);
+    }
+    if (isOptimal('kneeAtTDC')) {
+      strengths.push(`Knee flexion at the top of the stroke (${angles.kneeAtTDC}°) keeps the knee unloaded`);
+    }
+    if (isOptimal('hipAtTDC')) {
+      strengths.push(`Hip angle at the top of the stroke (${angles.hipAtTDC}°) leaves room to breathe and push`);
+    }
+    if (isOptimal('hip')) {
       strengths.push(`Hip angle (${angles.hip}°) is in ideal range - maximizes power transfer`);
     }
-    if (angles.elbow && angles.elbow >= 140 && angles.elbow <= 170) {
+    if (isOptimal('elbow')) {
       strengths.push(`Elbow position (${angles.elbow}°) is good - comfortable and aerodynamic`);
     }
-    if (angles.back && angles.back >= 35 && angles.back <= 50) {
-      strengths.push(`Back angle (${angles.back}°) shows good aerodynamic position`);
+    if (isOptimal('back')) {
+      strengths.push(`Back angle (${angles.back}°) suits a ${profile.label.toLowerCase()} position`);
     }
   } else {
     // Running
-    if (angles.kneeLift && angles.kneeLift >= 70 && angles.kneeLift <= 95) {
+    if (isOptimal('kneeLift')) {
       strengths.push(`Knee lift (${angles.kneeLift}°) is optimal - efficient stride mechanics`);
     }
-    if (angles.bodyLean && angles.bodyLean >= 3 && angles.bodyLean <= 8) {
+    if (isOptimal('bodyLean')) {
       strengths.push(`Body lean (${angles.bodyLean}°) is perfect - promotes forward momentum`);
     }
-    if (angles.armSwing && angles.armSwing >= 70 && angles.armSwing <= 100) {
+    if (isOptimal('armSwing')) {
       strengths.push(`Arm swing (${angles.armSwing}°) is efficient - good energy conservation`);
     }
   }
 
+  // Front-view measurements
+  ([['Left', 'kneeValgusLeft'], ['Right', 'kneeValgusRight']] as const).forEach(([side, key]) => {
+    if (isOptimal(key)) {
+      strengths.push(`${side} knee tracks in line with hip and ankle (${angles[key]}°) - keeps load off the inner knee`);
+    }
+  });
+  if (isOptimal('pelvicDrop')) {
+    strengths.push(sportType === 'bike'
+      ? `Stable hips on the saddle (${angles.pelvicDrop}° rocking)`
+      : `Level pelvis during stance (${angles.pelvicDrop}° drop) - strong hip stabilizers`);
+  }
+  if (isOptimal('shoulderTilt')) {
+    strengths.push(`Level shoulders (${angles.shoulderTilt}° tilt)`);
+  }
+
   // Check consistency
   if (detailedMetrics) {
     const consistentAngles = Object.entries(detailedMetrics).filter(([_, data]) => data.consistency >= 85);
@@ -95,6 +129,8 @@ export function generateDetailedSummary(
     let detail = '';
     if (rec.angle !== undefined) {
       detail = ` (current: ${rec.angle}°)`;
+    } else if (rec.value !== undefined) {
+      detail = ` (current: ${rec.value} ${rec.unit})`;
     }
 
     // Add specific impact and measurement
@@ -112,7 +148,7 @@ export function generateDetailedSummary(
     );
     asymmetryIssues.slice(0, 2).forEach(([key, data]) => {
       improvements.push(
-        `${formatAngleName(key, sportType)} imbalance: Left ${data.left}° vs Right ${data.right}° (${data.percentDiff}% difference) - work on balancing both sides`
+        `${formatAngleName(key, sportType)} imbalance: Left ${formatMetricValue(data.left, data.unit)} vs Right ${formatMetricValue(data.right, data.unit)} (${data.percentDiff}% difference) - work on balancing both sides`
       );
     });
   }
@@ -126,7 +162,7 @@ export function generateDetailedSummary(
 
     inconsistent.forEach(([key, data]) => {
       improvements.push(
-        `${formatAngleName(key, sportType)} consistency is low (${data.consistency}%) - range varies from ${data.min}° to ${data.max}°. Focus on maintaining steady form`
+        `${formatAngleName(key, sportType)} consistency is low (${data.consistency}%) - range varies from ${formatMetricValue(data.min, data.unit)} to ${formatMetricValue(data.max, data.unit)}. Focus on maintaining steady form`
       );
     });
   }
@@ -165,6 +201,9 @@ function formatAngleName(key: string, sportType: 'bike' | 'running'): string {
   const bikeMap: { [key: string]: string } = {
     knee: 'Knee',
     kneeAngle: 'Knee',
+    kneeAtBDC: 'Knee at BDC',
+    kneeAtTDC: 'Knee at TDC',
+    hipAtTDC: 'Hip at TDC',
     hip: 'Hip',
     hipAngle: 'Hip',
     elbow: 'Elbow',
@@ -178,6 +217,10 @@ function formatAngleName(key: string, sportType: 'bike' | 'running'): string {
     armSwing: 'Arm Swing',
     knee: 'Knee',
     hip: 'Hip',
+    verticalOscillation: 'Vertical Oscillation',
+    groundContactTime: 'Ground Contact Time',
+    flightTime: 'Flight Time',
+    dutyFactor: 'Duty Factor',
   };
 
   const map = sportType === 'bike' ? bikeMap : runningMap;
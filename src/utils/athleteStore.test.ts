@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { createAthleteProfile, createSessionRecord, sortSessionRecords } from './athleteStore';
+import type { AnalysisSession, AthleteSessionRecord } from '../types';
+
+describe('athleteStore', () => {
+  const createTestSession = (createdAt: string): AnalysisSession => ({
+    format: 'sports-analysis-session',
+    version: 1,
+    createdAt,
+    analysisType: 'bike',
+    view: 'side',
+    video: { name: 'ride.mp4', size: 1024, type: 'video/mp4', duration: 12, width: 640, height: 480 },
+    frames: [],
+    analysis: { angles: { knee: 148 }, recommendations: [], overall: 'good' },
+    detailedMetrics: null,
+    asymmetry: null,
+    recommendations: [],
+    smoothingReport: null,
+  });
+
+  describe('createAthleteProfile', () => {
+    it('should create a profile with an id and trimmed name', () => {
+      const profile = createAthleteProfile({ name: '  Jane Doe ', sport: 'cycling', height: 172 });
+
+      expect(profile.id).toBeTruthy();
+      expect(profile.name).toBe('Jane Doe');
+      expect(profile.height).toBe(172);
+      expect(new Date(profile.createdAt).getTime()).not.toBeNaN();
+    });
+
+    it('should require a name', () => {
+      expect(() => createAthleteProfile({ name: '   ', sport: 'running' })).toThrow('Athlete name is required');
+    });
+
+    it('should keep only filled-in bike setup fields', () => {
+      const profile = createAthleteProfile({
+        name: 'Jane',
+        sport: 'cycling',
+        bikeSetup: { bikeName: 'Road bike', saddleHeight: 720, saddleSetback: undefined, crankLength: NaN },
+      });
+
+      expect(profile.bikeSetup).toEqual({ bikeName: 'Road bike', saddleHeight: 720 });
+    });
+
+    it('should drop an empty bike setup and invalid height', () => {
+      const profile = createAthleteProfile({
+        name: 'Jane',
+        sport: 'both',
+        height: 0,
+        bikeSetup: { bikeName: '' },
+      });
+
+      expect(profile.bikeSetup).toBeUndefined();
+      expect(profile.height).toBeUndefined();
+    });
+
+    it('should not store a bike setup for runners', () => {
+      const profile = createAthleteProfile({ name: 'Sam', sport: 'running', bikeSetup: { saddleHeight: 700 } });
+      expect(profile.bikeSetup).toBeUndefined();
+    });
+  });
+
+  describe('createSessionRecord', () => {
+    it('should store the session against the athlete and analysis date', () => {
+      const session = createTestSession('2026-03-14T10:00:00.000Z');
+      const record = createSessionRecord('athlete-1', session);
+
+      expect(record.athleteId).toBe('athlete-1');
+      expect(record.date).toBe('2026-03-14T10:00:00.000Z');
+      expect(record.session).toBe(session);
+    });
+  });
+
+  describe('sortSessionRecords', () => {
+    it('should list the newest sessions first', () => {
+      const records: AthleteSessionRecord[] = ['2026-01-01', '2026-03-01', '2026-02-01'].map((date, i) => ({
+        id: `record-${i}`,
+        athleteId: 'athlete-1',
+        date: `${date}T00:00:00.000Z`,
+        session: createTestSession(`${date}T00:00:00.000Z`),
+      }));
+
+      expect(sortSessionRecords(records).map(record => record.id)).toEqual(['record-1', 'record-2', 'record-0']);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import type { AthleteProfile, AthleteSessionRecord, AnalysisSession, BikeSetup } from '../types';
+
+/**
+ * Athlete Profile Storage
+ * - Athlete profiles (name, sport, height, bike setup) kept in IndexedDB
+ * - Every completed analysis stored as a session record against an athlete and date
+ * - Stored sessions reopen without reprocessing the video
+ */
+
+const DB_NAME = 'sports-analysis';
+const DB_VERSION = 1;
+const ATHLETES_STORE = 'athletes';
+const SESSIONS_STORE = 'sessions';
+const ATHLETE_INDEX = 'athleteId';
+
+export type AthleteProfileInput = Omit<AthleteProfile, 'id' | 'createdAt'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Whether this browser can persist athlete profiles
+ */
+export function isAthleteStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(ATHLETES_STORE, { keyPath: 'id' });
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        sessions.createIndex(ATHLETE_INDEX, 'athleteId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open athlete storage'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Wrap an IndexedDB request in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+// Drop empty bike setup fields so stored profiles stay compact
+function cleanBikeSetup(setup: BikeSetup | undefined): BikeSetup | undefined {
+  if (!setup) return undefined;
+  const entries = Object.entries(setup).filter(([, value]) =>
+    typeof value === 'string' ? value.trim() !== '' : value !== undefined && !Number.isNaN(value)
+  );
+  return entries.length > 0 ? (Object.fromEntries(entries) as BikeSetup) : undefined;
+}
+
+/**
+ * Build a new athlete profile from form input
+ * @throws Error when the name is missing
+ */
+export function createAthleteProfile(input: AthleteProfileInput): AthleteProfile {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Athlete name is required');
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    sport: input.sport,
+    height: input.height && input.height > 0 ? input.height : undefined,
+    bikeSetup: input.sport === 'running' ? undefined : cleanBikeSetup(input.bikeSetup),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Attach a completed analysis session to an athlete
+ */
+export function createSessionRecord(athleteId: string, session: AnalysisSession): AthleteSessionRecord {
+  return {
+    id: crypto.randomUUID(),
+    athleteId,
+    date: session.createdAt,
+    session,
+  };
+}
+
+/**
+ * Newest sessions first
+ */
+export function sortSessionRecords(records: AthleteSessionRecord[]): AthleteSessionRecord[] {
+  return [...records].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export async function listAthletes(): Promise<AthleteProfile[]> {
+  const athletes = await promisify((await getStore(ATHLETES_STORE, 'readonly')).getAll() as IDBRequest<AthleteProfile[]>);
+  return athletes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveAthlete(profile: AthleteProfile): Promise<void> {
+  await promisify((await getStore(ATHLETES_STORE, 'readwrite')).put(profile));
+}
+
+/**
+ * Delete an athlete together with their stored sessions
+ */
+export async function deleteAthlete(athleteId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([ATHLETES_STORE, SESSIONS_STORE], 'readwrite');
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+
+  const keys = await promisify(sessions.index(ATHLETE_INDEX).getAllKeys(athleteId));
+  keys.forEach(key => sessions.delete(key));
+  transaction.objectStore(ATHLETES_STORE).delete(athleteId);
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function listAthleteSessions(athleteId: string): Promise<AthleteSessionRecord[]> {
+  const store = await getStore(SESSIONS_STORE, 'readonly');
+  const records = await promisify(store.index(ATHLETE_INDEX).getAll(athleteId) as IDBRequest<AthleteSessionRecord[]>);
+  return sortSessionRecords(records);
+}
+
+export async function saveSessionRecord(record: AthleteSessionRecord): Promise<void> {
+  await promisify((await getStore(SESSIONS_STORE, 'readwrite')).put(record));
+}
+
+export async function deleteSessionRecord(recordId: string): Promise<void> {
+  await promisify((await getStore(SESSIONS_STORE, 'readwrite')).delete(recordId));
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBoundingBox,
+  getBoxIoU,
+  getKeypointSimilarity,
+  getMatchScore,
+  selectPoseAt,
+  matchAthlete,
+  findAthlete,
+  createAthleteTracker,
+  updateAthleteTracker,
+  resumeAthleteTracker,
+} from './athleteTracking';
+import type { Pose } from '../types';
+
+describe('athleteTracking', () => {
+  // Standing person about 100 x 200 px, centred at (x, y)
+  const createPerson = (x: number, y: number, score: number = 0.9): Pose => ({
+    score,
+    keypoints: [
+      { name: 'nose', x, y: y - 100, score },
+      { name: 'left_shoulder', x: x - 40, y: y - 70, score },
+      { name: 'right_shoulder', x: x + 40, y: y - 70, score },
+      { name: 'left_hip', x: x - 30, y, score },
+      { name: 'right_hip', x: x + 30, y, score },
+      { name: 'left_ankle', x: x - 50, y: y + 100, score },
+      { name: 'right_ankle', x: x + 50, y: y + 100, score },
+    ],
+  });
+
+  const athlete = createPerson(200, 300);
+  const bystander = createPerson(600, 280);
+
+  describe('getBoundingBox', () => {
+    it('should enclose the visible keypoints', () => {
+      expect(getBoundingBox(athlete)).toEqual({ x: 150, y: 200, width: 100, height: 200 });
+    });
+
+    it('should ignore low-confidence keypoints', () => {
+      const pose = createPerson(200, 300);
+      pose.keypoints[0].score = 0.1;
+
+      expect(getBoundingBox(pose)?.y).toBe(230);
+    });
+
+    it('should return null without enough visible keypoints', () => {
+      expect(getBoundingBox(createPerson(200, 300, 0.1))).toBeNull();
+    });
+  });
+
+  describe('getBoxIoU', () => {
+    it('should be 1 for identical boxes and 0 for separate ones', () => {
+      const box = { x: 0, y: 0, width: 10, height: 10 };
+
+      expect(getBoxIoU(box, box)).toBe(1);
+      expect(getBoxIoU(box, { x: 20, y: 0, width: 10, height: 10 })).toBe(0);
+    });
+
+    it('should measure partial overlap', () => {
+      const iou = getBoxIoU({ x: 0, y: 0, width: 10, height: 10 }, { x: 5, y: 0, width: 10, height: 10 });
+
+      expect(iou).toBeCloseTo(50 / 150);
+    });
+  });
+
+  describe('getKeypointSimilarity', () => {
+    it('should fall off with distance relative to body size', () => {
+      expect(getKeypointSimilarity(athlete, athlete)).toBe(1);
+      expect(getKeypointSimilarity(athlete, createPerson(215, 300))).toBeGreaterThan(0.5);
+      expect(getKeypointSimilarity(athlete, bystander)).toBeLessThan(0.01);
+    });
+  });
+
+  describe('selectPoseAt', () => {
+    it('should pick the person nearest the click', () => {
+      expect(selectPoseAt([athlete, bystander], { x: 590, y: 300 })).toBe(1);
+      expect(selectPoseAt([athlete, bystander], { x: 210, y: 250 })).toBe(0);
+    });
+
+    it('should return -1 without people', () => {
+      expect(selectPoseAt([], { x: 0, y: 0 })).toBe(-1);
+    });
+  });
+
+  describe('matchAthlete', () => {
+    it('should prefer the moved athlete over a more confident bystander', () => {
+      const moved = createPerson(220, 305, 0.6);
+
+      expect(getMatchScore(athlete, moved)).toBeGreaterThan(getMatchScore(athlete, bystander));
+      expect(matchAthlete(athlete, [bystander, moved])).toBe(1);
+    });
+
+    it('should not match anyone when only the bystander is in frame', () => {
+      expect(matchAthlete(athlete, [bystander])).toBe(-1);
+    });
+  });
+
+  describe('findAthlete', () => {
+    it('should return the matching person rather than the most confident one', () => {
+      const moved = createPerson(220, 305, 0.6);
+
+      expect(findAthlete(athlete, [bystander, moved])).toBe(moved);
+      expect(findAthlete(athlete, [bystander])).toBeNull();
+    });
+
+    it('should take the most confident person without a reference', () => {
+      const faint = createPerson(200, 300, 0.5);
+
+      expect(findAthlete(null, [faint, bystander])).toBe(bystander);
+      expect(findAthlete(null, [])).toBeNull();
+    });
+  });
+
+  describe('updateAthleteTracker', () => {
+    it('should follow the athlete and report lost frames instead of swapping', () => {
+      let tracker = createAthleteTracker(athlete, 2);
+
+      let result = updateAthleteTracker(tracker, [bystander, createPerson(210, 300)], 0.5);
+      expect(result.pose?.keypoints[0].x).toBe(210);
+      tracker = result.tracker;
+
+      result = updateAthleteTracker(tracker, [bystander], 1);
+      expect(result.pose).toBeNull();
+      tracker = result.tracker;
+
+      // Picked up again near the last matched position
+      result = updateAthleteTracker(tracker, [createPerson(220, 300), bystander, createPerson(900, 300)], 1.5);
+      expect(result.pose?.keypoints[0].x).toBe(220);
+
+      expect(result.tracker.report).toEqual({ frames: 4, lostFrames: [1], maxPeople: 3 });
+    });
+  });
+
+  describe('resumeAthleteTracker', () => {
+    it('should replace the reference without reporting the athlete lost', () => {
+      const tracker = updateAthleteTracker(createAthleteTracker(athlete, 2), [bystander], 0.5).tracker;
+      const resumed = resumeAthleteTracker(tracker, createPerson(900, 300), 3);
+
+      expect(resumed.reference.keypoints[0].x).toBe(900);
+      expect(resumed.report).toEqual({ frames: 3, lostFrames: [0.5], maxPeople: 3 });
+      expect(updateAthleteTracker(resumed, [createPerson(910, 300)], 40).pose).not.toBeNull();
+    });
+  });
+});
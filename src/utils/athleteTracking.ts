@@ -0,0 +1,186 @@
+import type { AthleteTracker, BoundingBox, Keypoint, Pose } from '../types';
+
+/**
+ * Athlete Tracking
+ * - Picks the person the user clicked among everyone detected in a frame
+ * - Follows that athlete across frames by bounding-box overlap and keypoint similarity
+ * - Reports frames where the athlete is lost instead of switching to someone else
+ * - Picks the athlete up again at each trimmed segment, after footage the tracker never saw
+ */
+
+const MIN_KEYPOINT_SCORE = 0.3;
+
+// Share of the match score given to box overlap; the rest is keypoint similarity
+const IOU_WEIGHT = 0.5;
+
+// Keypoint distance falloff as a fraction of the athlete's size (OKS-style)
+const KEYPOINT_FALLOFF = 0.2;
+
+// Lowest match score still accepted as the same person
+export const MIN_MATCH_SCORE = 0.3;
+
+function isVisible(keypoint: Keypoint | undefined): keypoint is Keypoint {
+  return !!keypoint && (keypoint.score || 0) > MIN_KEYPOINT_SCORE;
+}
+
+/**
+ * Box around a pose's visible keypoints, or null with fewer than two
+ */
+export function getBoundingBox(pose: Pose): BoundingBox | null {
+  const visible = pose.keypoints.filter(isVisible);
+  if (visible.length < 2) return null;
+
+  const xs = visible.map(kp => kp.x);
+  const ys = visible.map(kp => kp.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Intersection over union of two boxes (0-1)
+ */
+export function getBoxIoU(a: BoundingBox, b: BoundingBox): number {
+  const overlapWidth = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const overlapHeight = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (overlapWidth <= 0 || overlapHeight <= 0) return 0;
+
+  const intersection = overlapWidth * overlapHeight;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * How closely two poses' keypoints coincide (0-1), scaled by the reference pose's size
+ * Only keypoints visible in both poses are compared
+ */
+export function getKeypointSimilarity(reference: Pose, candidate: Pose): number {
+  const box = getBoundingBox(reference);
+  if (!box) return 0;
+
+  const scale = Math.max(1, Math.sqrt(box.width * box.height)) * KEYPOINT_FALLOFF;
+  const similarities = reference.keypoints.flatMap((kp, index) => {
+    const other = kp.name ? candidate.keypoints.find(c => c.name === kp.name) : candidate.keypoints[index];
+    if (!isVisible(kp) || !isVisible(other)) return [];
+
+    const distanceSq = (kp.x - other.x) ** 2 + (kp.y - other.y) ** 2;
+    return [Math.exp(-distanceSq / (2 * scale ** 2))];
+  });
+
+  return similarities.length > 0 ? similarities.reduce((sum, s) => sum + s, 0) / similarities.length : 0;
+}
+
+/**
+ * Combined box overlap and keypoint similarity of a candidate to the tracked pose (0-1)
+ */
+export function getMatchScore(reference: Pose, candidate: Pose): number {
+  const referenceBox = getBoundingBox(reference);
+  const candidateBox = getBoundingBox(candidate);
+  const iou = referenceBox && candidateBox ? getBoxIoU(referenceBox, candidateBox) : 0;
+
+  return IOU_WEIGHT * iou + (1 - IOU_WEIGHT) * getKeypointSimilarity(reference, candidate);
+}
+
+/**
+ * Index of the pose the user clicked: the one with a visible keypoint nearest the point
+ * Returns -1 when no pose has visible keypoints
+ */
+export function selectPoseAt(poses: Pose[], point: { x: number; y: number }): number {
+  let selected = -1;
+  let nearest = Infinity;
+
+  poses.forEach((pose, index) => {
+    pose.keypoints.filter(isVisible).forEach(kp => {
+      const distance = Math.hypot(kp.x - point.x, kp.y - point.y);
+      if (distance < nearest) {
+        nearest = distance;
+        selected = index;
+      }
+    });
+  });
+
+  return selected;
+}
+
+/**
+ * Index of the pose that best matches the tracked athlete, or -1 if none is close enough
+ */
+export function matchAthlete(reference: Pose, poses: Pose[]): number {
+  let best = -1;
+  let bestScore = MIN_MATCH_SCORE;
+
+  poses.forEach((pose, index) => {
+    const score = getMatchScore(reference, pose);
+    if (score >= bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * The tracked athlete among everyone detected in a frame, or null when no one matches
+ * Without a reference yet, the most confident person is taken as the athlete
+ */
+export function findAthlete(reference: Pose | null, poses: Pose[]): Pose | null {
+  if (!reference) {
+    return poses.length > 0 ? poses.reduce((a, b) => (b.score > a.score ? b : a)) : null;
+  }
+  const index = matchAthlete(reference, poses);
+  return index >= 0 ? poses[index] : null;
+}
+
+/**
+ * Start tracking the chosen athlete from the first frame
+ * @param people - How many people were detected alongside the athlete
+ */
+export function createAthleteTracker(athlete: Pose, people: number = 1): AthleteTracker {
+  return {
+    reference: athlete,
+    report: { frames: 1, lostFrames: [], maxPeople: people },
+  };
+}
+
+/**
+ * Follow the athlete into the next frame
+ * Returns the athlete's pose, or null when no detected person matches; the
+ * last matched pose stays the reference so the athlete can be picked up again
+ */
+export function updateAthleteTracker(
+  tracker: AthleteTracker,
+  poses: Pose[],
+  timestamp: number
+): { tracker: AthleteTracker; pose: Pose | null } {
+  const index = matchAthlete(tracker.reference, poses);
+  const pose = index >= 0 ? poses[index] : null;
+
+  return {
+    tracker: {
+      reference: pose ?? tracker.reference,
+      report: {
+        frames: tracker.report.frames + 1,
+        lostFrames: pose ? tracker.report.lostFrames : [...tracker.report.lostFrames, timestamp],
+        maxPeople: Math.max(tracker.report.maxPeople, poses.length),
+      },
+    },
+    pose,
+  };
+}
+
+/**
+ * Continue tracking from a pose chosen at the start of a new trimmed segment
+ * The athlete may have moved anywhere during the cut, so the last reference is replaced
+ * @param people - How many people were detected in the frame
+ */
+export function resumeAthleteTracker(tracker: AthleteTracker, athlete: Pose, people: number): AthleteTracker {
+  return {
+    reference: athlete,
+    report: {
+      ...tracker.report,
+      frames: tracker.report.frames + 1,
+      maxPeople: Math.max(tracker.report.maxPeople, people),
+    },
+  };
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { estimateCadence } from './cadence';
+import { RUNNING_RULE_PROFILES } from './ruleProfiles';
+import type { FrameAnalysis, Keypoint, Pose } from '../types';
+
+describe('cadence', () => {
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  const createFrame = (pose: Pose, timestamp: number): FrameAnalysis => ({
+    analysis: { angles: {}, recommendations: [], overall: 'good' },
+    pose,
+    timestamp,
+  });
+
+  // Runner whose ankles swing in antiphase at the given stride frequency
+  const createRunningFrames = (strideHz: number, fps: number, seconds: number): FrameAnalysis[] =>
+    Array.from({ length: Math.round(fps * seconds) }, (_, i) => {
+      const t = i / fps;
+      const swing = 80 * Math.sin(2 * Math.PI * strideHz * t);
+      return createFrame(
+        {
+          score: 0.9,
+          keypoints: [
+            createKeypoint('left_hip', 300, 200),
+            createKeypoint('right_hip', 300, 200),
+            createKeypoint('left_ankle', 300 + swing, 400),
+            createKeypoint('right_ankle', 300 - swing, 400),
+          ],
+        },
+        t
+      );
+    });
+
+  // Rider whose ankle traces a circle at the given crank frequency
+  const createCyclingFrames = (crankHz: number, fps: number, seconds: number): FrameAnalysis[] =>
+    Array.from({ length: Math.round(fps * seconds) }, (_, i) => {
+      const t = i / fps;
+      const angle = 2 * Math.PI * crankHz * t;
+      return createFrame(
+        {
+          score: 0.9,
+          keypoints: [
+            createKeypoint('left_hip', 300, 200),
+            createKeypoint('left_ankle', 320 + 60 * Math.sin(angle), 420 - 60 * Math.cos(angle)),
+            createKeypoint('right_hip', 300, 200, 0.1),
+            createKeypoint('right_ankle', 320, 420, 0.1),
+          ],
+        },
+        t
+      );
+    });
+
+  describe('estimateCadence', () => {
+    it('should return null for too few frames', () => {
+      expect(estimateCadence([], 'running')).toBeNull();
+      expect(estimateCadence(createRunningFrames(1.5, 30, 0.05), 'running')).toBeNull();
+    });
+
+    it('should measure running cadence in steps per minute', () => {
+      // 1.5 strides/s = 3 steps/s = 180 spm
+      const result = estimateCadence(createRunningFrames(1.5, 30, 6), 'running');
+
+      expect(result).not.toBeNull();
+      expect(result!.unit).toBe('spm');
+      expect(result!.value).toBeGreaterThanOrEqual(176);
+      expect(result!.value).toBeLessThanOrEqual(184);
+      expect(result!.confidence).toBeGreaterThan(0.8);
+    });
+
+    it('should measure a slow running cadence', () => {
+      // 1.3 strides/s = 156 spm
+      const result = estimateCadence(createRunningFrames(1.3, 30, 6), 'running');
+
+      expect(result!.value).toBeGreaterThanOrEqual(152);
+      expect(result!.value).toBeLessThanOrEqual(160);
+    });
+
+    it('should measure a sprint cadence within the profile range', () => {
+      // 2.17 strides/s = 260 spm, above the default band
+      const frames = createRunningFrames(260 / 120, 15, 6);
+      const result = estimateCadence(frames, 'running', RUNNING_RULE_PROFILES.sprint.ranges.cadence);
+
+      expect(result!.value).toBeGreaterThanOrEqual(254);
+      expect(result!.value).toBeLessThanOrEqual(266);
+    });
+
+    it('should measure trimmed segments separately across a long gap', () => {
+      // Two 3 s segments of a 180 spm runner, a minute and a half apart
+      const first = createRunningFrames(1.5, 30, 3).map(frame => ({ ...frame, segment: 0 }));
+      const second = createRunningFrames(1.5, 30, 3).map(frame => ({
+        ...frame,
+        timestamp: frame.timestamp + 90.2,
+        segment: 1,
+      }));
+      const result = estimateCadence([...first, ...second], 'running');
+
+      expect(result!.value).toBeGreaterThanOrEqual(176);
+      expect(result!.value).toBeLessThanOrEqual(184);
+      // Resampling across the gap would add a flat stretch and a phase jump
+      expect(result!.confidence).toBeGreaterThan(0.95);
+    });
+
+    it('should measure cycling cadence in RPM', () => {
+      // 1.5 revolutions/s = 90 rpm
+      const result = estimateCadence(createCyclingFrames(1.5, 30, 6), 'cycling');
+
+      expect(result).not.toBeNull();
+      expect(result!.unit).toBe('rpm');
+      expect(result!.value).toBeGreaterThanOrEqual(87);
+      expect(result!.value).toBeLessThanOrEqual(93);
+    });
+
+    it('should not report a harmonic of the true cycling cadence', () => {
+      // 0.8 revolutions/s = 48 rpm, where 2x and 3x periods are also in range
+      const result = estimateCadence(createCyclingFrames(0.8, 30, 10), 'cycling');
+
+      expect(result!.value).toBeGreaterThanOrEqual(45);
+      expect(result!.value).toBeLessThanOrEqual(51);
+    });
+
+    it('should return null when sampling is too sparse for the movement', () => {
+      // 24 samples over 30 seconds cannot resolve a 1.5 Hz stride
+      const frames = createRunningFrames(1.5, 0.8, 30);
+
+      expect(estimateCadence(frames, 'running')).toBeNull();
+    });
+
+    it('should use media timestamps rather than frame indices', () => {
+      // Same motion sampled at an irregular rate
+      const frames = createRunningFrames(1.5, 30, 6).filter((_, i) => i % 3 !== 1);
+      const result = estimateCadence(frames, 'running');
+
+      expect(result!.value).toBeGreaterThanOrEqual(174);
+      expect(result!.value).toBeLessThanOrEqual(186);
+    });
+
+    it('should lower confidence when keypoints are missing in many frames', () => {
+      const frames = createRunningFrames(1.5, 30, 6).map((frame, i) =>
+        i % 2 === 0
+          ? frame
+          : {
+              ...frame,
+              pose: {
+                ...frame.pose,
+                keypoints: frame.pose.keypoints.map(kp => ({ ...kp, score: 0.1 })),
+              },
+            }
+      );
+
+      const full = estimateCadence(createRunningFrames(1.5, 30, 6), 'running');
+      const partial = estimateCadence(frames, 'running');
+
+      expect(partial!.confidence).toBeLessThan(full!.confidence);
+    });
+
+    it('should return null when there is no rhythmic motion', () => {
+      const frames = createRunningFrames(0, 30, 6);
+
+      expect(estimateCadence(frames, 'running')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { splitBySegment } from './videoSegments';
+import type { CadenceEstimate, FrameAnalysis, Keypoint, OptimalRange, Pose, SportType } from '../types';
+
+/**
+ * Cadence Detection
+ * - Steps per minute for running, crank RPM for cycling
+ * - Derived from the periodicity of ankle motion across timestamped frames
+ * - Confidence reflects how periodic the signal is and how many frames had usable keypoints
+ * - The search band widens to cover the cadence range of the athlete's profile (e.g. sprinting)
+ * - Trimmed videos are measured per segment and merged, weighted by frame count
+ */
+
+type CadenceSport = Exclude<SportType, null>;
+
+interface CadenceBand {
+  minFrequency: number;
+  maxFrequency: number;
+  cadencePerCycle: number;
+  unit: CadenceEstimate['unit'];
+}
+
+// Plausible frequencies (Hz) of the tracked signal for each sport
+const CADENCE_BANDS: Record<CadenceSport, CadenceBand> = {
+  // One period of ankle separation is a full stride (two steps): 120-230 spm
+  running: { minFrequency: 1.0, maxFrequency: 1.9, cadencePerCycle: 2, unit: 'spm' },
+  // One period of ankle height is one crank revolution: 40-140 rpm
+  cycling: { minFrequency: 0.65, maxFrequency: 2.35, cadencePerCycle: 1, unit: 'rpm' },
+};
+
+// Margin around a profile's cadence range when widening the band
+const EXPECTED_RANGE_MARGIN = 0.1;
+
+const MIN_KEYPOINT_SCORE = 0.3;
+
+// A later autocorrelation peak must be this close to the best one to be
+// preferred, so harmonics (2x, 3x the true period) are not picked
+const HARMONIC_TOLERANCE = 0.8;
+
+interface TimedSample {
+  time: number;
+  value: number;
+}
+
+// Get keypoint by name
+function getKeypoint(pose: Pose, name: string): Keypoint | undefined {
+  return pose.keypoints.find(kp => kp.name === name);
+}
+
+function isVisible(keypoint: Keypoint | undefined): keypoint is Keypoint {
+  return !!keypoint && (keypoint.score || 0) > MIN_KEYPOINT_SCORE;
+}
+
+// Running: fore-aft separation of the ankles, which completes one period per stride
+function getRunningSignal(pose: Pose): number | null {
+  const leftAnkle = getKeypoint(pose, 'left_ankle');
+  const rightAnkle = getKeypoint(pose, 'right_ankle');
+  if (!isVisible(leftAnkle) || !isVisible(rightAnkle)) return null;
+  return leftAnkle.x - rightAnkle.x;
+}
+
+// Cycling: ankle height below the hip, which completes one period per revolution
+function getCyclingSignal(pose: Pose, side: 'left' | 'right'): number | null {
+  const hip = getKeypoint(pose, `${side}_hip`);
+  const ankle = getKeypoint(pose, `${side}_ankle`);
+  if (!isVisible(hip) || !isVisible(ankle)) return null;
+  return ankle.y - hip.y;
+}
+
+// Pick the leg that is visible in the most frames (the one closest to the camera)
+function pickCyclingSide(frames: FrameAnalysis[]): 'left' | 'right' {
+  let leftCount = 0;
+  let rightCount = 0;
+  frames.forEach(({ pose }) => {
+    if (getCyclingSignal(pose, 'left') !== null) leftCount++;
+    if (getCyclingSignal(pose, 'right') !== null) rightCount++;
+  });
+  return leftCount >= rightCount ? 'left' : 'right';
+}
+
+// Widen the band so the expected cadence range (with a margin) can be resolved
+function getBand(sport: CadenceSport, expected?: OptimalRange): CadenceBand {
+  const band = CADENCE_BANDS[sport];
+  if (!expected) return band;
+
+  const toFrequency = (cadence: number) => cadence / 60 / band.cadencePerCycle;
+  return {
+    ...band,
+    minFrequency: Math.min(band.minFrequency, toFrequency(expected.min * (1 - EXPECTED_RANGE_MARGIN))),
+    maxFrequency: Math.max(band.maxFrequency, toFrequency(expected.max * (1 + EXPECTED_RANGE_MARGIN))),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Linearly resample irregular samples onto a uniform grid
+function resample(samples: TimedSample[], rate: number): number[] {
+  const start = samples[0].time;
+  const end = samples[samples.length - 1].time;
+  const count = Math.floor((end - start) * rate) + 1;
+  const result: number[] = [];
+
+  let j = 0;
+  for (let i = 0; i < count; i++) {
+    const t = start + i / rate;
+    while (j < samples.length - 2 && samples[j + 1].time < t) j++;
+
+    const a = samples[j];
+    const b = samples[Math.min(j + 1, samples.length - 1)];
+    const span = b.time - a.time;
+    const factor = span > 0 ? Math.min(1, Math.max(0, (t - a.time) / span)) : 0;
+    result.push(a.value + (b.value - a.value) * factor);
+  }
+
+  return result;
+}
+
+// Normalized autocorrelation of a zero-mean signal at the given lag (-1 to 1)
+function autocorrelation(signal: number[], lag: number): number {
+  let sum = 0;
+  let energyA = 0;
+  let energyB = 0;
+
+  for (let i = 0; i + lag < signal.length; i++) {
+    sum += signal[i] * signal[i + lag];
+    energyA += signal[i] * signal[i];
+    energyB += signal[i + lag] * signal[i + lag];
+  }
+
+  const energy = Math.sqrt(energyA * energyB);
+  return energy > 0 ? sum / energy : 0;
+}
+
+/**
+ * Estimate the dominant period of a uniformly sampled signal
+ * @returns Period in samples (sub-sample precision) and its autocorrelation, or null
+ */
+function findPeriod(signal: number[], minLag: number, maxLag: number): { lag: number; strength: number } | null {
+  const mean = signal.reduce((sum, v) => sum + v, 0) / signal.length;
+  const centered = signal.map(v => v - mean);
+
+  const correlations: number[] = [];
+  for (let lag = 0; lag <= maxLag + 1; lag++) {
+    correlations[lag] = autocorrelation(centered, lag);
+  }
+
+  const peaks: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (correlations[lag] > correlations[lag - 1] && correlations[lag] >= correlations[lag + 1]) {
+      peaks.push(lag);
+    }
+  }
+  if (peaks.length === 0) return null;
+
+  const best = Math.max(...peaks.map(lag => correlations[lag]));
+  if (best <= 0) return null;
+  const lag = peaks.find(l => correlations[l] >= best * HARMONIC_TOLERANCE)!;
+
+  // Parabolic interpolation around the peak
+  const prev = correlations[lag - 1];
+  const curr = correlations[lag];
+  const next = correlations[lag + 1];
+  const denominator = prev - 2 * curr + next;
+  const offset = denominator !== 0 ? (0.5 * (prev - next)) / denominator : 0;
+
+  return { lag: lag + offset, strength: curr };
+}
+
+// Cadence of one continuous run of frames
+function estimateRunCadence(
+  frames: FrameAnalysis[],
+  sport: CadenceSport,
+  band: CadenceBand,
+  cyclingSide: 'left' | 'right'
+): CadenceEstimate | null {
+  if (frames.length < 3) return null;
+
+  const samples: TimedSample[] = [];
+  frames.forEach(({ pose, timestamp }) => {
+    const value = sport === 'running' ? getRunningSignal(pose) : getCyclingSignal(pose, cyclingSide);
+    if (value !== null) samples.push({ time: timestamp, value });
+  });
+  if (samples.length < 3) return null;
+
+  // Frame rate of the analysis, not of the source video
+  const intervals = frames.slice(1).map((f, i) => f.timestamp - frames[i].timestamp).filter(dt => dt > 0);
+  if (intervals.length === 0) return null;
+  const rate = 1 / median(intervals);
+
+  // Need at least two samples per period of the fastest plausible movement
+  const minLag = Math.floor(rate / band.maxFrequency);
+  const maxLag = Math.ceil(rate / band.minFrequency);
+  if (minLag < 2) return null;
+
+  const signal = resample(samples, rate);
+  // Need at least two full periods of the slowest plausible movement
+  if (signal.length < maxLag * 2) return null;
+
+  const period = findPeriod(signal, minLag, maxLag);
+  if (!period) return null;
+
+  const frequency = rate / period.lag;
+  const coverage = samples.length / frames.length;
+
+  return {
+    value: Math.round(frequency * 60 * band.cadencePerCycle),
+    unit: band.unit,
+    frequency: Math.round(frequency * 100) / 100,
+    confidence: Math.round(Math.max(0, Math.min(1, period.strength * coverage)) * 100) / 100,
+  };
+}
+
+/**
+ * Estimate cadence from a timestamped pose series
+ * @param frames - Analyzed frames in chronological order (from useVideoAnalysis)
+ * @param sport - 'running' for steps/min, 'cycling' for crank RPM
+ * @param expected - Cadence range the athlete is judged against, searched even outside the default band
+ * @returns Cadence estimate, or null when the sampling is too sparse or no rhythm is found
+ */
+export function estimateCadence(
+  frames: FrameAnalysis[],
+  sport: CadenceSport,
+  expected?: OptimalRange
+): CadenceEstimate | null {
+  if (!frames || frames.length < 3) return null;
+
+  const band = getBand(sport, expected);
+  const cyclingSide = sport === 'cycling' ? pickCyclingSide(frames) : 'left';
+
+  // Each trimmed segment is measured on its own; the signal is never resampled across a cut
+  const runs = splitBySegment(frames)
+    .map(run => ({ frames: run.length, estimate: estimateRunCadence(run, sport, band, cyclingSide) }))
+    .filter((run): run is { frames: number; estimate: CadenceEstimate } => run.estimate !== null);
+  if (runs.length === 0) return null;
+  if (runs.length === 1) return runs[0].estimate;
+
+  const total = runs.reduce((sum, run) => sum + run.frames, 0);
+  const weighted = (key: 'frequency' | 'confidence') =>
+    runs.reduce((sum, run) => sum + run.estimate[key] * run.frames, 0) / total;
+  const frequency = weighted('frequency');
+
+  return {
+    value: Math.round(frequency * 60 * band.cadencePerCycle),
+    unit: band.unit,
+    frequency: Math.round(frequency * 100) / 100,
+    confidence: Math.round(weighted('confidence') * 100) / 100,
+  };
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calibrateFromHeight,
+  calibrateFromReference,
+  resolveCalibration,
+  measureRunningDistances,
+  measureSaddleSetback,
+} from './calibration';
+import { segmentGaitCycles } from './gaitCycle';
+import type { Calibration, FrameAnalysis, Keypoint, PedalStrokeAnalysis, Pose } from '../types';
+
+describe('calibration', () => {
+  const FPS = 30;
+  const STRIDE_FREQUENCY = 1.5; // strides per second
+
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  const createFrame = (pose: Pose, timestamp: number = 0): FrameAnalysis => ({
+    analysis: { angles: {}, recommendations: [], overall: 'good' },
+    pose,
+    timestamp,
+  });
+
+  // Standing athlete 180 cm tall filmed at 2 px per cm
+  const createStandingPose = (): Pose => ({
+    score: 0.9,
+    keypoints: ['left', 'right'].flatMap(side => [
+      createKeypoint(`${side}_shoulder`, 300, 100),
+      createKeypoint(`${side}_elbow`, 300, 100 + 0.186 * 360),
+      createKeypoint(`${side}_wrist`, 300, 100 + (0.186 + 0.146) * 360),
+      createKeypoint(`${side}_hip`, 300, 250),
+      createKeypoint(`${side}_knee`, 300, 250 + 0.245 * 360),
+      createKeypoint(`${side}_ankle`, 300, 250 + (0.245 + 0.246) * 360),
+    ]),
+  });
+
+  // Side-on runner: ankles swing 80 px either side of the hips, hips bounce 10 px twice per stride
+  const createRunningFrames = (seconds: number): FrameAnalysis[] =>
+    Array.from({ length: Math.round(seconds * FPS) }, (_, i) => {
+      const t = i / FPS;
+      const phase = 2 * Math.PI * STRIDE_FREQUENCY * t;
+      const hipY = 200 + 5 * Math.cos(2 * phase);
+      const leg = (offset: number) => ({
+        knee: { x: 300 + 40 * Math.sin(phase + offset), y: 300 },
+        ankle: { x: 300 + 80 * Math.sin(phase + offset), y: 400 },
+      });
+      const left = leg(0);
+      const right = leg(Math.PI);
+      return createFrame({
+        score: 0.9,
+        keypoints: [
+          createKeypoint('nose', 320, 40),
+          createKeypoint('left_shoulder', 300, 80),
+          createKeypoint('right_shoulder', 300, 80),
+          createKeypoint('left_hip', 300, hipY),
+          createKeypoint('right_hip', 300, hipY),
+          createKeypoint('left_knee', left.knee.x, left.knee.y),
+          createKeypoint('right_knee', right.knee.x, right.knee.y),
+          createKeypoint('left_ankle', left.ankle.x, left.ankle.y),
+          createKeypoint('right_ankle', right.ankle.x, right.ankle.y),
+        ],
+      }, t);
+    });
+
+  const halfCmPerPixel: Calibration = { method: 'reference', cmPerPixel: 0.5 };
+
+  describe('calibrateFromHeight', () => {
+    it('should derive the scale from limb segment lengths', () => {
+      const frames = Array.from({ length: 10 }, () => createFrame(createStandingPose()));
+
+      const calibration = calibrateFromHeight(frames, 180);
+
+      expect(calibration!.method).toBe('height');
+      expect(calibration!.cmPerPixel).toBeCloseTo(0.5, 2);
+    });
+
+    it('should read segments near their longest to discount foreshortening', () => {
+      const frames = Array.from({ length: 10 }, (_, i) => {
+        const pose = createStandingPose();
+        // Knees swing towards the camera in most frames, shortening both leg segments
+        if (i < 7) {
+          pose.keypoints = pose.keypoints.map(kp => (kp.name?.endsWith('knee') ? { ...kp, y: kp.y - 30 } : kp));
+        }
+        return createFrame(pose);
+      });
+
+      expect(calibrateFromHeight(frames, 180)!.cmPerPixel).toBeCloseTo(0.5, 1);
+    });
+
+    it('should reject implausible heights and poorly tracked limbs', () => {
+      const frames = Array.from({ length: 10 }, () => createFrame(createStandingPose()));
+
+      expect(calibrateFromHeight(frames, 0)).toBeNull();
+      expect(calibrateFromHeight(frames, 500)).toBeNull();
+      expect(calibrateFromHeight(frames.slice(0, 2), 180)).toBeNull();
+    });
+  });
+
+  describe('calibrateFromReference', () => {
+    it('should divide the known length by the marked distance', () => {
+      const calibration = calibrateFromReference([{ x: 0, y: 0 }, { x: 300, y: 400 }], 70);
+
+      expect(calibration).toEqual({ method: 'reference', cmPerPixel: 0.14 });
+    });
+
+    it('should reject points too close together and non-positive lengths', () => {
+      expect(calibrateFromReference([{ x: 0, y: 0 }, { x: 5, y: 5 }], 70)).toBeNull();
+      expect(calibrateFromReference([{ x: 0, y: 0 }, { x: 300, y: 400 }], 0)).toBeNull();
+    });
+  });
+
+  describe('resolveCalibration', () => {
+    it('should calibrate with the chosen method', () => {
+      const frames = Array.from({ length: 10 }, () => createFrame(createStandingPose()));
+
+      expect(resolveCalibration(null, frames)).toBeNull();
+      expect(resolveCalibration({ method: 'height', heightCm: 180 }, frames)!.method).toBe('height');
+      expect(
+        resolveCalibration({ method: 'reference', lengthCm: 70, points: [{ x: 0, y: 0 }, { x: 0, y: 140 }] }, frames)
+      ).toEqual({ method: 'reference', cmPerPixel: 0.5 });
+    });
+  });
+
+  describe('measureRunningDistances', () => {
+    it('should measure stride length and overstride in centimetres', () => {
+      const frames = createRunningFrames(4);
+      const distances = measureRunningDistances(frames, segmentGaitCycles(frames), halfCmPerPixel);
+
+      // Foot travels 160 px back during half a stride, so the stride covers 320 px
+      expect(distances.strideLength).toBeGreaterThanOrEqual(150);
+      expect(distances.strideLength).toBeLessThanOrEqual(170);
+      expect(distances.overstride).toBe(40);
+    });
+
+    it('should scale with the calibration rather than the pixel size', () => {
+      const frames = createRunningFrames(4);
+      const gait = segmentGaitCycles(frames);
+
+      const half = measureRunningDistances(frames, gait, halfCmPerPixel);
+      const quarter = measureRunningDistances(frames, gait, { method: 'height', cmPerPixel: 0.25 });
+
+      expect(quarter.overstride).toBe(half.overstride! / 2);
+    });
+
+    it('should leave distances undefined without gait cycles', () => {
+      expect(measureRunningDistances([], segmentGaitCycles([]), halfCmPerPixel)).toEqual({
+        strideLength: undefined,
+        overstride: undefined,
+      });
+    });
+  });
+
+  describe('measureSaddleSetback', () => {
+    const stroke = (direction: 1 | -1): PedalStrokeAnalysis => ({
+      side: 'left',
+      crankAngles: [],
+      positionFrames: { tdc: [], 'three-oclock': [], bdc: [] },
+      revolutions: 3,
+      crankCenter: { x: 300, y: 400 },
+      direction,
+    });
+
+    const hipFrames = (x: number) =>
+      Array.from({ length: 5 }, () => createFrame({ score: 0.9, keypoints: [createKeypoint('left_hip', x, 200)] }));
+
+    it('should measure the hip behind the bottom bracket in the riding direction', () => {
+      expect(measureSaddleSetback(hipFrames(250), stroke(1), halfCmPerPixel)).toBe(25);
+      expect(measureSaddleSetback(hipFrames(350), stroke(-1), halfCmPerPixel)).toBe(25);
+    });
+
+    it('should return null when the hip was not tracked', () => {
+      expect(measureSaddleSetback([], stroke(1), halfCmPerPixel)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { KEYPOINT_SCHEMAS, getPoseSchema } from './keypointSchema';
+import type {
+  Calibration,
+  CalibrationSettings,
+  FrameAnalysis,
+  GaitAnalysis,
+  GaitLeg,
+  Keypoint,
+  PedalStrokeAnalysis,
+  PixelPoint,
+  Pose,
+  RunningDistances,
+} from '../types';
+
+/**
+ * Body-Segment Calibration
+ * - Pixel-to-centimetre scale from the athlete's height, via the expected length of each limb segment,
+ *   or from a marked reference of known length (e.g. wheel diameter)
+ * - Stride length and overstride distance for running, saddle setback for cycling
+ *   (vertical oscillation is reported in cm by the running economy metrics once calibrated)
+ * - Distances in centimetres, independent of video resolution and camera distance
+ */
+
+// Limb segment lengths as a fraction of standing height (Drillis & Contini)
+export const SEGMENT_HEIGHT_RATIOS: Array<{ from: string; to: string; ratio: number }> = [
+  { from: 'hip', to: 'knee', ratio: 0.245 },
+  { from: 'knee', to: 'ankle', ratio: 0.246 },
+  { from: 'shoulder', to: 'elbow', ratio: 0.186 },
+  { from: 'elbow', to: 'wrist', ratio: 0.146 },
+];
+
+// Plausible standing heights (cm)
+export const MIN_HEIGHT_CM = 100;
+export const MAX_HEIGHT_CM = 230;
+
+// Segments look shorter when they swing towards or away from the camera,
+// so their length is read near the longest it appears
+const SEGMENT_PERCENTILE = 0.9;
+
+// A segment needs this many visible frames to be measured
+const MIN_SEGMENT_FRAMES = 5;
+
+// Marked references shorter than this (pixels) are too imprecise to calibrate from
+const MIN_REFERENCE_PIXELS = 20;
+
+// Keypoints below this confidence are ignored
+const MIN_KEYPOINT_SCORE = 0.3;
+
+const LEGS: GaitLeg[] = ['left', 'right'];
+
+// Get keypoint by name
+function getKeypoint(pose: Pose, name: string): Keypoint | undefined {
+  return pose.keypoints.find(kp => kp.name === name);
+}
+
+export function isVisible(keypoint: Keypoint | undefined): keypoint is Keypoint {
+  return !!keypoint && (keypoint.score || 0) > MIN_KEYPOINT_SCORE;
+}
+
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return percentile(values, 0.5);
+}
+
+function average(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+const roundTo = (value: number | undefined, decimals: number): number | undefined =>
+  value === undefined ? undefined : Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Midpoint of the visible hips, which stands in for the centre of mass
+export function hipCenter(pose: Pose): PixelPoint | undefined {
+  const hips = [getKeypoint(pose, 'left_hip'), getKeypoint(pose, 'right_hip')].filter(isVisible);
+  if (hips.length === 0) return undefined;
+  return {
+    x: hips.reduce((sum, hip) => sum + hip.x, 0) / hips.length,
+    y: hips.reduce((sum, hip) => sum + hip.y, 0) / hips.length,
+  };
+}
+
+// Heel when the model tracks feet, otherwise the ankle
+function landingPoint(pose: Pose, leg: GaitLeg): Keypoint | undefined {
+  const heel = KEYPOINT_SCHEMAS[getPoseSchema(pose)].hasFeet ? getKeypoint(pose, `${leg}_heel`) : undefined;
+  return isVisible(heel) ? heel : [getKeypoint(pose, `${leg}_ankle`)].find(isVisible);
+}
+
+/**
+ * Scale from the athlete's height
+ * Each visible limb segment gives an estimate; the median guards against one badly tracked limb
+ * @returns null when the height is implausible or no segment was tracked well enough
+ */
+export function calibrateFromHeight(frames: FrameAnalysis[], heightCm: number): Calibration | null {
+  if (!(heightCm >= MIN_HEIGHT_CM && heightCm <= MAX_HEIGHT_CM)) return null;
+
+  const estimates: number[] = [];
+  LEGS.forEach(side => {
+    SEGMENT_HEIGHT_RATIOS.forEach(({ from, to, ratio }) => {
+      const lengths = frames
+        .map(({ pose }) => [getKeypoint(pose, `${side}_${from}`), getKeypoint(pose, `${side}_${to}`)])
+        .filter((pair): pair is [Keypoint, Keypoint] => isVisible(pair[0]) && isVisible(pair[1]))
+        .map(([a, b]) => Math.hypot(a.x - b.x, a.y - b.y));
+      if (lengths.length < MIN_SEGMENT_FRAMES) return;
+
+      const pixels = percentile(lengths, SEGMENT_PERCENTILE);
+      if (pixels > 0) estimates.push((ratio * heightCm) / pixels);
+    });
+  });
+
+  const cmPerPixel = median(estimates);
+  return cmPerPixel ? { method: 'height', cmPerPixel } : null;
+}
+
+/**
+ * Scale from two points marked on an object of known length
+ * @returns null when the points are too close together or the length is not positive
+ */
+export function calibrateFromReference(points: [PixelPoint, PixelPoint], lengthCm: number): Calibration | null {
+  const pixels = Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y);
+  if (!(lengthCm > 0) || pixels < MIN_REFERENCE_PIXELS) return null;
+  return { method: 'reference', cmPerPixel: lengthCm / pixels };
+}
+
+export function resolveCalibration(
+  settings: CalibrationSettings | null | undefined,
+  frames: FrameAnalysis[]
+): Calibration | null {
+  if (!settings) return null;
+  return settings.method === 'height'
+    ? calibrateFromHeight(frames, settings.heightCm)
+    : calibrateFromReference(settings.points, settings.lengthCm);
+}
+
+/**
+ * Running distances from the gait events
+ * - Stride length: the stance foot moves back relative to the hips at running speed,
+ *   so its travel from foot strike to toe-off over the contact time gives the speed,
+ *   which times the stride duration gives the distance covered (treadmill or overground)
+ * - Overstride: how far the landing foot is ahead of the hips at foot strike
+ */
+export function measureRunningDistances(
+  frames: FrameAnalysis[],
+  gaitAnalysis: GaitAnalysis,
+  calibration: Calibration
+): RunningDistances {
+  const { direction, cycles, events } = gaitAnalysis;
+  const toCm = (pixels: number) => pixels * calibration.cmPerPixel;
+
+  // Foot position ahead of the hips, pixels in the running direction
+  const footOffset = (frameIndex: number, leg: GaitLeg): number | undefined => {
+    const pose = frames[frameIndex]?.pose;
+    if (!pose) return undefined;
+    const hips = hipCenter(pose);
+    const foot = landingPoint(pose, leg);
+    return hips && foot ? direction * (foot.x - hips.x) : undefined;
+  };
+
+  const strideLengths: number[] = [];
+  cycles.forEach(cycle => {
+    const strike = cycle.events.find(event => event.phase === 'foot-strike');
+    const toeOff = cycle.events.find(event => event.phase === 'toe-off');
+    if (strike && toeOff && toeOff.time > strike.time) {
+      const atStrike = footOffset(strike.frameIndex, cycle.leg);
+      const atToeOff = footOffset(toeOff.frameIndex, cycle.leg);
+      if (atStrike !== undefined && atToeOff !== undefined && atStrike > atToeOff) {
+        const speed = toCm(atStrike - atToeOff) / (toeOff.time - strike.time);
+        strideLengths.push(speed * cycle.duration);
+      }
+    }
+  });
+
+  const overstrides = events
+    .filter(event => event.phase === 'foot-strike')
+    .map(event => footOffset(event.frameIndex, event.leg))
+    .filter((offset): offset is number => offset !== undefined)
+    .map(toCm);
+
+  return {
+    strideLength: roundTo(average(strideLengths), 0),
+    overstride: roundTo(average(overstrides), 0),
+  };
+}
+
+/**
+ * Horizontal distance of the hip behind the bottom bracket (cm)
+ * The hip barely moves on the saddle, so its median position stands in for the saddle
+ * @returns null when the hip was not tracked
+ */
+export function measureSaddleSetback(
+  frames: FrameAnalysis[],
+  pedalStroke: PedalStrokeAnalysis,
+  calibration: Calibration
+): number | null {
+  const hipXs = frames
+    .map(({ pose }) => getKeypoint(pose, `${pedalStroke.side}_hip`))
+    .filter(isVisible)
+    .map(hip => hip.x);
+  const hipX = median(hipXs);
+  if (hipX === undefined) return null;
+
+  const setback = pedalStroke.direction * (pedalStroke.crankCenter.x - hipX) * calibration.cmPerPixel;
+  return Math.round(setback * 10) / 10;
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getWindowRecommendations,
+  getCueIssues,
+  createCueTracker,
+  updateCueTracker,
+  loadCueSettings,
+  saveCueSettings,
+  CUE_HOLD_SECONDS,
+  DEFAULT_CUE_SETTINGS,
+  DEFAULT_CUE_VOCABULARY,
+} from './coachingCues';
+import { DEFAULT_RUNNING_PROFILE, DEFAULT_BIKE_PROFILE } from './ruleProfiles';
+import type { CueIssue, CueTracker, FrameAnalysis, Recommendation, SpokenCue } from '../types';
+
+describe('coachingCues', () => {
+  const vocabulary = DEFAULT_CUE_VOCABULARY.running;
+  const leaningBack: CueIssue = { key: 'bodyLean', direction: 'low', severity: 'moderate' };
+  const lowCadence: CueIssue = { key: 'cadence', direction: 'low', severity: 'critical' };
+
+  // Feed the same issues every half second, as the live window publishes them
+  const run = (issues: CueIssue[], from: number, to: number, tracker: CueTracker = createCueTracker()) => {
+    const cues: SpokenCue[] = [];
+    for (let now = from; now <= to; now += 0.5) {
+      const result = updateCueTracker(tracker, issues, now, vocabulary);
+      tracker = result.tracker;
+      if (result.cue) cues.push(result.cue);
+    }
+    return { tracker, cues };
+  };
+
+  const createFrame = (bodyLean: number, timestamp: number): FrameAnalysis => ({
+    analysis: {
+      angles: { bodyLean },
+      recommendations: [{ type: 'warning', area: 'Body Lean', message: 'Lean', angle: bodyLean }],
+      overall: 'good',
+    },
+    pose: { score: 0.9, keypoints: [] },
+    timestamp,
+  });
+
+  describe('getWindowRecommendations', () => {
+    it('should judge each area on its window average', () => {
+      // Distance running lean range starts at 5°; one late frame leans enough, the window does not
+      const frames = [0, 0, 0, 0, 8].map((lean, i) => createFrame(lean, i * 0.5));
+      const lean = getWindowRecommendations(frames, DEFAULT_RUNNING_PROFILE).find(rec => rec.area === 'Body Lean');
+
+      expect(lean?.angle).toBe(2);
+      expect(lean?.severity).toBeDefined();
+    });
+
+    it('should measure running cadence over the window', () => {
+      // Ankles swinging at 1.25 strides/s = 150 spm, well below the distance range
+      const frames: FrameAnalysis[] = Array.from({ length: 90 }, (_, i) => {
+        const swing = 80 * Math.sin(2 * Math.PI * 1.25 * (i / 15));
+        return {
+          ...createFrame(8, i / 15),
+          pose: {
+            score: 0.9,
+            keypoints: [
+              { name: 'left_ankle', x: 300 + swing, y: 400, score: 0.9 },
+              { name: 'right_ankle', x: 300 - swing, y: 400, score: 0.9 },
+            ],
+          },
+        };
+      });
+
+      const recommendations = getWindowRecommendations(frames, DEFAULT_RUNNING_PROFILE);
+      const cadence = recommendations.find(rec => rec.area === 'Cadence');
+
+      expect(cadence?.value).toBeCloseTo(150, -1);
+      expect(getCueIssues(recommendations, DEFAULT_RUNNING_PROFILE, 'all').map(issue => issue.key)).toContain('cadence');
+    });
+
+    it('should return nothing for an empty window', () => {
+      expect(getWindowRecommendations([], DEFAULT_BIKE_PROFILE)).toEqual([]);
+    });
+  });
+
+  describe('getCueIssues', () => {
+    const recommendations: Recommendation[] = [
+      { type: 'warning', area: 'Cadence', message: '', value: 150, severity: 'critical' },
+      { type: 'warning', area: 'Body Lean', message: '', angle: 1, severity: 'moderate' },
+      { type: 'warning', area: 'Arm Swing', message: '', angle: 20, severity: 'minor' },
+      { type: 'success', area: 'Knee Lift', message: '', angle: 130, severity: 'minor' },
+      { type: 'warning', area: 'Foot Strike', message: '', severity: 'critical' },
+    ];
+
+    it('should keep out-of-range areas in priority order with their direction', () => {
+      const issues = getCueIssues(recommendations, DEFAULT_RUNNING_PROFILE, 'all');
+
+      expect(issues.map(issue => issue.key)).toEqual(['cadence', 'bodyLean', 'armSwing']);
+      expect(issues[0].direction).toBe('low');
+    });
+
+    it('should filter by verbosity', () => {
+      expect(getCueIssues(recommendations, DEFAULT_RUNNING_PROFILE, 'critical').map(issue => issue.key)).toEqual(['cadence']);
+      expect(getCueIssues(recommendations, DEFAULT_RUNNING_PROFILE, 'priority').map(issue => issue.key)).toEqual(['cadence', 'bodyLean']);
+    });
+
+    it('should skip areas inside their range', () => {
+      const inRange: Recommendation[] = [{ type: 'warning', area: 'Body Lean', message: '', angle: 8, severity: 'minor' }];
+      expect(getCueIssues(inRange, DEFAULT_RUNNING_PROFILE, 'all')).toEqual([]);
+    });
+  });
+
+  describe('updateCueTracker', () => {
+    it('should speak an issue only after it persists', () => {
+      const early = run([leaningBack], 0, CUE_HOLD_SECONDS - 0.5);
+      expect(early.cues).toEqual([]);
+
+      const { cues } = run([leaningBack], 0, CUE_HOLD_SECONDS);
+      expect(cues).toHaveLength(1);
+      expect(cues[0].text).toBe('Lean slightly forward');
+      expect(cues[0].time).toBe(CUE_HOLD_SECONDS);
+    });
+
+    it('should not restart the hold for a brief return into range', () => {
+      let { tracker } = run([leaningBack], 0, 6);
+      ({ tracker } = run([], 6.5, 8, tracker));
+      const { cues } = run([leaningBack], 8.5, CUE_HOLD_SECONDS, tracker);
+
+      expect(cues).toHaveLength(1);
+    });
+
+    it('should restart the hold once an issue has been fixed', () => {
+      let { tracker } = run([leaningBack], 0, 6);
+      ({ tracker } = run([], 6.5, 12, tracker));
+      const { cues } = run([leaningBack], 12.5, 20, tracker);
+
+      expect(cues).toEqual([]);
+    });
+
+    it('should not repeat a persisting cue too often', () => {
+      const { cues } = run([leaningBack], 0, 60);
+
+      expect(cues.map(cue => cue.time)).toEqual([10, 40]);
+    });
+
+    it('should leave a gap between different cues and speak the higher priority first', () => {
+      const { cues } = run([lowCadence, leaningBack], 0, 20);
+
+      expect(cues.map(cue => cue.key)).toEqual(['cadence', 'bodyLean']);
+      expect(cues[1].time - cues[0].time).toBeGreaterThanOrEqual(8);
+    });
+
+    it('should stay silent for areas without a phrase', () => {
+      const silent = { ...vocabulary, bodyLean: { low: ' ', high: 'Stand a little taller' } };
+      let tracker = createCueTracker();
+      let spoken = 0;
+      for (let now = 0; now <= 20; now += 0.5) {
+        const result = updateCueTracker(tracker, [leaningBack], now, silent);
+        tracker = result.tracker;
+        if (result.cue) spoken++;
+      }
+
+      expect(spoken).toBe(0);
+    });
+  });
+
+  describe('cue settings', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should fall back to the defaults', () => {
+      expect(loadCueSettings()).toEqual(DEFAULT_CUE_SETTINGS);
+    });
+
+    it('should round-trip saved settings', () => {
+      const settings = {
+        muted: true,
+        verbosity: 'critical' as const,
+        vocabulary: {
+          ...DEFAULT_CUE_VOCABULARY,
+          running: { ...DEFAULT_CUE_VOCABULARY.running, bodyLean: { low: 'Fall forward', high: '' } },
+        },
+      };
+      saveCueSettings(settings);
+
+      const loaded = loadCueSettings();
+      expect(loaded.muted).toBe(true);
+      expect(loaded.verbosity).toBe('critical');
+      expect(loaded.vocabulary.running.bodyLean).toEqual({ low: 'Fall forward', high: '' });
+      expect(loaded.vocabulary.bike).toEqual(DEFAULT_CUE_VOCABULARY.bike);
+    });
+
+    it('should ignore invalid stored values', () => {
+      localStorage.setItem('sports-analysis-cues', JSON.stringify({ verbosity: 'toString', vocabulary: { running: 'x' } }));
+
+      const loaded = loadCueSettings();
+      expect(loaded.verbosity).toBe(DEFAULT_CUE_SETTINGS.verbosity);
+      expect(loaded.vocabulary.running).toEqual(DEFAULT_CUE_VOCABULARY.running);
+    });
+
+    it('should ignore unreadable stored data', () => {
+      localStorage.setItem('sports-analysis-cues', '{not json');
+      expect(loadCueSettings()).toEqual(DEFAULT_CUE_SETTINGS);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { combineAnalyses } from './analysisHelpers';
+import { combineBikeFitAnalyses } from './pedalStroke';
+import { enhanceBikeFitRecommendations, enhanceRunningRecommendations } from './enhancedRecommendations';
+import { classifyRange, type RuleRangeKey } from './ruleProfiles';
+import { estimateCadence } from './cadence';
+import type {
+  AngleData,
+  BikeFitAnalysis,
+  CueDirection,
+  CueIssue,
+  CueSettings,
+  CueTracker,
+  CueVerbosity,
+  CueVocabulary,
+  FrameAnalysis,
+  OptimalRange,
+  Recommendation,
+  RuleProfile,
+  RunningFormAnalysis,
+  SpokenCue,
+} from '../types';
+
+/**
+ * Coaching Cues
+ * - Top-priority recommendations over the live window turned into short spoken phrases
+ * - An issue must persist for several seconds before it is spoken, and brief returns into
+ *   range do not end it, so cues don't flap at the edge of a range
+ * - Rate limited overall and per cue; phrases are configurable per area and saved in the browser
+ */
+
+// Seconds an issue must persist before it is spoken
+export const CUE_HOLD_SECONDS = 10;
+
+// Seconds back in range before an issue counts as fixed
+const CUE_CLEAR_SECONDS = 3;
+
+// Minimum seconds between any two cues
+const CUE_MIN_GAP_SECONDS = 8;
+
+// Seconds before the same cue is repeated while the issue persists
+const CUE_REPEAT_SECONDS = 30;
+
+const STORAGE_KEY = 'sports-analysis-cues';
+
+export const CUE_VERBOSITY_LABELS: Record<CueVerbosity, string> = {
+  critical: 'Critical issues only',
+  priority: 'Critical and moderate issues',
+  all: 'Every issue',
+};
+
+// Recommendation areas and the rule ranges they are judged against
+const CUE_AREAS: Record<string, RuleRangeKey> = {
+  'Knee Angle': 'knee',
+  'Knee Extension (BDC)': 'kneeAtBDC',
+  'Knee Flexion (TDC)': 'kneeAtTDC',
+  'Hip Closure (TDC)': 'hipAtTDC',
+  'Hip Angle': 'hip',
+  'Back Angle': 'back',
+  'Elbow Angle': 'elbow',
+  'Knee Over Pedal': 'kneeOverPedal',
+  'Body Lean': 'bodyLean',
+  'Knee Lift': 'kneeLift',
+  'Hip Extension': 'hipExtension',
+  'Arm Swing': 'armSwing',
+  'Cadence': 'cadence',
+};
+
+// Short phrases an athlete can act on mid-effort
+export const DEFAULT_CUE_VOCABULARY: Record<'bike' | 'running', CueVocabulary> = {
+  bike: {
+    knee: { low: 'Knee is very bent, check saddle height', high: 'Knee is overextending, check saddle height' },
+    kneeAtBDC: { low: 'Extend the leg more at the bottom', high: 'Stop reaching for the pedal at the bottom' },
+    kneeAtTDC: { low: 'Knee is closing too much at the top' },
+    hipAtTDC: { low: 'Hip is closing at the top, raise the torso slightly' },
+    hip: { low: 'Open the hip angle', high: 'Hip angle is very open' },
+    back: { low: 'Raise your torso slightly', high: 'Lower your torso slightly' },
+    elbow: { low: 'Relax and lengthen the arms', high: 'Soften your elbows' },
+    kneeOverPedal: { low: 'Knee is behind the pedal', high: 'Knee is ahead of the pedal' },
+  },
+  running: {
+    bodyLean: { low: 'Lean slightly forward', high: 'Stand a little taller' },
+    kneeLift: { low: 'Relax the knee drive', high: 'Lift your knees a little more' },
+    hipExtension: { low: 'Push back through the hips' },
+    armSwing: { low: 'Open the elbows slightly', high: 'Bend your elbows more' },
+    cadence: { low: 'Quicker, shorter steps', high: 'Lengthen your stride slightly' },
+  },
+};
+
+export const DEFAULT_CUE_SETTINGS: CueSettings = {
+  muted: false,
+  verbosity: 'priority',
+  vocabulary: DEFAULT_CUE_VOCABULARY,
+};
+
+const VERBOSITY_SEVERITIES: Record<CueVerbosity, Array<CueIssue['severity']>> = {
+  critical: ['critical'],
+  priority: ['critical', 'moderate'],
+  all: ['critical', 'moderate', 'minor'],
+};
+
+const getCueId = (key: string, direction: CueDirection) => `${key}:${direction}`;
+
+function getRange(profile: RuleProfile, key: RuleRangeKey): OptimalRange | undefined {
+  const ranges: Partial<Record<RuleRangeKey, OptimalRange>> = profile.ranges;
+  return ranges[key];
+}
+
+/**
+ * Recommendations for the live window, with each area judged on its window average
+ * rather than on the last frame alone; running cadence is measured over the window
+ */
+export function getWindowRecommendations(frames: FrameAnalysis[], profile: RuleProfile): Recommendation[] {
+  if (frames.length === 0) return [];
+
+  const combined = profile.sport === 'bike'
+    ? combineBikeFitAnalyses(frames.map(frame => frame.analysis as BikeFitAnalysis), frames, profile)
+    : combineAnalyses(frames.map(frame => frame.analysis as RunningFormAnalysis));
+
+  // Latest recommendation per area, from any frame in the window
+  const byArea = new Map<string, Recommendation>();
+  frames.forEach(frame => frame.analysis.recommendations.forEach(rec => byArea.set(rec.area, rec)));
+  combined.recommendations.forEach(rec => byArea.set(rec.area, rec));
+
+  const recommendations = [...byArea.values()].map(rec => {
+    const average = combined.angles[CUE_AREAS[rec.area] as keyof AngleData];
+    return rec.angle !== undefined && average !== undefined ? { ...rec, angle: average } : rec;
+  });
+
+  return profile.sport === 'bike'
+    ? enhanceBikeFitRecommendations({ ...(combined as BikeFitAnalysis), recommendations }, profile)
+    : enhanceRunningRecommendations(
+      { ...(combined as RunningFormAnalysis), recommendations },
+      estimateCadence(frames, 'running', profile.ranges.cadence),
+      profile
+    );
+}
+
+/**
+ * Out-of-range areas in priority order, filtered by verbosity
+ */
+export function getCueIssues(
+  recommendations: Recommendation[],
+  profile: RuleProfile,
+  verbosity: CueVerbosity
+): CueIssue[] {
+  const issues: CueIssue[] = [];
+
+  recommendations.forEach(rec => {
+    const key = CUE_AREAS[rec.area];
+    const range = key ? getRange(profile, key) : undefined;
+    const value = rec.angle ?? rec.value;
+    if (!key || !range || value === undefined || !rec.severity) return;
+    if (!VERBOSITY_SEVERITIES[verbosity].includes(rec.severity)) return;
+
+    const status = classifyRange(value, range);
+    if (status !== 'optimal' && !issues.some(issue => issue.key === key)) {
+      issues.push({ key, direction: status, severity: rec.severity });
+    }
+  });
+
+  return issues;
+}
+
+export function createCueTracker(): CueTracker {
+  return { issues: {}, lastCueAt: null, lastSpoken: {} };
+}
+
+/**
+ * Track how long each issue has persisted and pick the cue to speak now, if any
+ * @param issues - Current issues in priority order
+ * @param now - Time in seconds on a steady clock
+ * @returns The updated tracker and the cue to speak
+ */
+export function updateCueTracker(
+  tracker: CueTracker,
+  issues: CueIssue[],
+  now: number,
+  vocabulary: CueVocabulary
+): { tracker: CueTracker; cue: SpokenCue | null } {
+  const episodes: CueTracker['issues'] = {};
+
+  // Episodes continue through brief returns into range
+  Object.entries(tracker.issues).forEach(([id, episode]) => {
+    if (now - episode.lastSeen <= CUE_CLEAR_SECONDS) episodes[id] = episode;
+  });
+  issues.forEach(({ key, direction }) => {
+    const id = getCueId(key, direction);
+    episodes[id] = { since: episodes[id]?.since ?? now, lastSeen: now };
+  });
+
+  const updated: CueTracker = { ...tracker, issues: episodes };
+  if (tracker.lastCueAt !== null && now - tracker.lastCueAt < CUE_MIN_GAP_SECONDS) {
+    return { tracker: updated, cue: null };
+  }
+
+  for (const { key, direction } of issues) {
+    const id = getCueId(key, direction);
+    const text = vocabulary[key]?.[direction]?.trim();
+    const lastSpoken = tracker.lastSpoken[id];
+    if (
+      !text ||
+      now - episodes[id].since < CUE_HOLD_SECONDS ||
+      (lastSpoken !== undefined && now - lastSpoken < CUE_REPEAT_SECONDS)
+    ) {
+      continue;
+    }
+
+    return {
+      tracker: { ...updated, lastCueAt: now, lastSpoken: { ...tracker.lastSpoken, [id]: now } },
+      cue: { key, direction, text, time: now },
+    };
+  }
+
+  return { tracker: updated, cue: null };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Stored phrases over the defaults; an empty phrase silences that cue
+function readVocabulary(value: unknown, defaults: CueVocabulary): CueVocabulary {
+  const vocabulary: CueVocabulary = {};
+  Object.entries(defaults).forEach(([key, phrases]) => {
+    const stored = isObject(value) && isObject(value[key]) ? value[key] : {};
+    vocabulary[key] = {
+      low: typeof stored.low === 'string' ? stored.low : phrases.low,
+      high: typeof stored.high === 'string' ? stored.high : phrases.high,
+    };
+  });
+  return vocabulary;
+}
+
+/**
+ * Cue settings saved in this browser, falling back to the defaults
+ */
+export function loadCueSettings(): CueSettings {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!isObject(stored)) return DEFAULT_CUE_SETTINGS;
+
+    const verbosity = Object.keys(CUE_VERBOSITY_LABELS).find(level => level === stored.verbosity) as CueVerbosity | undefined;
+    const vocabulary = isObject(stored.vocabulary) ? stored.vocabulary : {};
+    return {
+      muted: stored.muted === true,
+      verbosity: verbosity ?? DEFAULT_CUE_SETTINGS.verbosity,
+      vocabulary: {
+        bike: readVocabulary(vocabulary.bike, DEFAULT_CUE_VOCABULARY.bike),
+        running: readVocabulary(vocabulary.running, DEFAULT_CUE_VOCABULARY.running),
+      },
+    };
+  } catch (err) {
+    // Storage blocked or unreadable - cues still work with the defaults
+    console.error('Stored cue settings could not be read:', err);
+    return DEFAULT_CUE_SETTINGS;
+  }
+}
+
+export function saveCueSettings(settings: CueSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
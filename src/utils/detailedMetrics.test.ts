@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { calculateDetailedMetrics, calculateAsymmetry } from './detailedMetrics';
+import { calculateDetailedMetrics, calculateAsymmetry, compareSides, formatMetricValue, summarizeValues } from './detailedMetrics';
 
 interface AnalysisWithAngles {
   angles?: Record<string, number>;
@@ -156,4 +156,29 @@ describe('detailedMetrics', () => {
       expect(asymmetry!.knee).toBeDefined();
     });
   });
+
+  describe('measurements in other units', () => {
+    it('should keep the unit of a summarized measurement', () => {
+      const metric = summarizeValues([220, 240, 260], 'ms');
+
+      expect(metric.avg).toBe(240);
+      expect(metric.range).toBe(40);
+      expect(metric.unit).toBe('ms');
+      expect(summarizeValues([150]).unit).toBeUndefined();
+    });
+
+    it('should report no asymmetry when both sides average zero', () => {
+      const asymmetry = compareSides([0, 0], [0], 'ms');
+
+      expect(asymmetry.percentDiff).toBe(0);
+      expect(asymmetry.status).toBe('balanced');
+    });
+
+    it('should format values in degrees unless a unit is given', () => {
+      expect(formatMetricValue(145)).toBe('145°');
+      expect(formatMetricValue(230, 'ms')).toBe('230 ms');
+      expect(formatMetricValue(35, '%')).toBe('35%');
+      expect(formatMetricValue(7, '% of leg')).toBe('7% of leg');
+    });
+  });
 });
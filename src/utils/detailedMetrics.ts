@@ -6,27 +6,31 @@ import {
   FrameData,
   ConsistencyRating,
   AsymmetryStatus,
-  BikeFitAnalysis,
-  RunningFormAnalysis
+  AngleData
 } from '../types';
 
 interface AnalysisWithAngles {
-  angles?: Record<string, number>;
+  angles?: AngleData;
   sides?: {
     left?: Record<string, number>;
     right?: Record<string, number>;
   };
 }
 
+// Angles measured in one analysis
+function getAngleKeys(angles: AngleData | undefined): (keyof AngleData)[] {
+  return Object.keys(angles || {}) as (keyof AngleData)[];
+}
+
 // Calculate detailed metrics from all analyzed frames
 export function calculateDetailedMetrics(
   allAnalyses: AnalysisWithAngles[]
 ): DetailedMetrics | null {
   if (!allAnalyses || allAnalyses.length === 0) return null;
 
-  const angleKeys = new Set<string>();
+  const angleKeys = new Set<keyof AngleData>();
   allAnalyses.forEach(analysis => {
-    Object.keys(analysis.angles || {}).forEach(key => angleKeys.add(key));
+    getAngleKeys(analysis.angles).forEach(key => angleKeys.add(key));
   });
 
   const metrics: DetailedMetrics = {};
@@ -37,27 +41,33 @@ export function calculateDetailedMetrics(
       .filter((v): v is number => v !== undefined && v !== null && !isNaN(v));
 
     if (values.length > 0) {
-      const min = Math.min(...values);
-      const max = Math.max(...values);
-      const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
-      const variance = values.reduce((sum, val) => sum + Math.pow(val - avg, 2), 0) / values.length;
-      const stdDev = Math.sqrt(variance);
-
-      metrics[angleKey] = {
-        min: Math.round(min),
-        max: Math.round(max),
-        avg: Math.round(avg),
-        stdDev: Math.round(stdDev * 10) / 10,
-        range: Math.round(max - min),
-        consistency: calculateConsistency(stdDev, avg),
-        values: values.map(v => Math.round(v)),
-      };
+      metrics[angleKey] = summarizeValues(values);
     }
   });
 
   return metrics;
 }
 
+// Min/avg/max, spread and consistency of one measurement (unit defaults to degrees)
+export function summarizeValues(values: number[], unit?: string): MetricData {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
+  const variance = values.reduce((sum, val) => sum + Math.pow(val - avg, 2), 0) / values.length;
+  const stdDev = Math.sqrt(variance);
+
+  return {
+    min: Math.round(min),
+    max: Math.round(max),
+    avg: Math.round(avg),
+    stdDev: Math.round(stdDev * 10) / 10,
+    range: Math.round(max - min),
+    consistency: calculateConsistency(stdDev, avg),
+    values: values.map(v => Math.round(v)),
+    ...(unit ? { unit } : {}),
+  };
+}
+
 // Calculate consistency score (0-100)
 function calculateConsistency(stdDev: number, avg: number): number {
   if (avg === 0) return 0;
@@ -119,24 +129,31 @@ export function calculateAsymmetry(
 
   Object.keys(leftAngles).forEach(key => {
     if (rightAngles[key]) {
-      const leftAvg = leftAngles[key].reduce((a, b) => a + b, 0) / leftAngles[key].length;
-      const rightAvg = rightAngles[key].reduce((a, b) => a + b, 0) / rightAngles[key].length;
-      const difference = Math.abs(leftAvg - rightAvg);
-      const percentDiff = (difference / ((leftAvg + rightAvg) / 2)) * 100;
-
-      asymmetry[key] = {
-        left: Math.round(leftAvg),
-        right: Math.round(rightAvg),
-        difference: Math.round(difference),
-        percentDiff: Math.round(percentDiff * 10) / 10,
-        status: percentDiff < 5 ? 'balanced' : percentDiff < 10 ? 'minor' : 'significant',
-      };
+      asymmetry[key] = compareSides(leftAngles[key], rightAngles[key]);
     }
   });
 
   return Object.keys(asymmetry).length > 0 ? asymmetry : null;
 }
 
+// Left vs right averages of one measurement (unit defaults to degrees)
+export function compareSides(leftValues: number[], rightValues: number[], unit?: string): AsymmetryData {
+  const leftAvg = leftValues.reduce((a, b) => a + b, 0) / leftValues.length;
+  const rightAvg = rightValues.reduce((a, b) => a + b, 0) / rightValues.length;
+  const difference = Math.abs(leftAvg - rightAvg);
+  const mean = (leftAvg + rightAvg) / 2;
+  const percentDiff = mean === 0 ? 0 : (difference / mean) * 100;
+
+  return {
+    left: Math.round(leftAvg),
+    right: Math.round(rightAvg),
+    difference: Math.round(difference),
+    percentDiff: Math.round(percentDiff * 10) / 10,
+    status: percentDiff < 5 ? 'balanced' : percentDiff < 10 ? 'minor' : 'significant',
+    ...(unit ? { unit } : {}),
+  };
+}
+
 // Get consistency rating
 export function getConsistencyRating(score: number): ConsistencyRating {
   if (score >= 90) return { label: 'Excellent', color: '#4caf50' };
@@ -159,10 +176,50 @@ export function getAsymmetryStatus(status: 'balanced' | 'minor' | 'significant')
   }
 }
 
+// Display name for a metric or asymmetry key
+export function formatMetricName(key: string): string {
+  const nameMap: { [key: string]: string } = {
+    knee: 'Knee',
+    hip: 'Hip',
+    elbow: 'Elbow',
+    back: 'Back',
+    ankle: 'Ankle',
+    bodyLean: 'Body Lean',
+    kneeLift: 'Knee Lift',
+    hipExtension: 'Hip Extension',
+    armSwing: 'Arm Swing',
+    kneeAtBDC: 'Knee at BDC',
+    kneeAtTDC: 'Knee at TDC',
+    hipAtTDC: 'Hip at TDC',
+    kneeValgusLeft: 'Left Knee Tracking',
+    kneeValgusRight: 'Right Knee Tracking',
+    pelvicDrop: 'Pelvic Drop',
+    shoulderTilt: 'Shoulder Tilt',
+    kneeAngle: 'Knee',
+    hipAngle: 'Hip',
+    armAngle: 'Arm',
+    verticalOscillation: 'Vertical Oscillation',
+    groundContactTime: 'Ground Contact Time',
+    flightTime: 'Flight Time',
+    dutyFactor: 'Duty Factor',
+  };
+  return nameMap[key] || key;
+}
+
+// Value with its unit, degrees when the metric has none
+export function formatMetricValue(value: number, unit?: string): string {
+  if (!unit) return `${value}°`;
+  return unit.startsWith('%') ? `${value}${unit}` : `${value} ${unit}`;
+}
+
 // Create frame-by-frame data for charting
 export function createFrameData(allAnalyses: AnalysisWithAngles[]): FrameData[] {
-  return allAnalyses.map((analysis, index) => ({
-    frame: index + 1,
-    ...analysis.angles,
-  }));
+  return allAnalyses.map((analysis, index) => {
+    const row: FrameData = { frame: index + 1 };
+    getAngleKeys(analysis.angles).forEach(key => {
+      const value = analysis.angles?.[key];
+      if (value !== undefined) row[key] = value;
+    });
+    return row;
+  });
 }
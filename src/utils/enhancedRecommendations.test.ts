@@ -4,9 +4,11 @@ import {
   calculateSeverity,
   enhanceBikeFitRecommendations,
   enhanceRunningRecommendations,
+  enhanceFrontalRecommendations,
   getSeverityDisplay,
 } from './enhancedRecommendations';
-import type { BikeFitAnalysis, RunningFormAnalysis, Recommendation, SeverityLevel } from '../types';
+import { DEFAULT_BIKE_PROFILE, RUNNING_RULE_PROFILES, createCustomProfile } from './ruleProfiles';
+import type { BikeFitAnalysis, RunningFormAnalysis, FrontalAnalysis, MetricData, Recommendation, SeverityLevel } from '../types';
 
 describe('enhancedRecommendations', () => {
   describe('SEVERITY constants', () => {
@@ -201,6 +203,27 @@ describe('enhancedRecommendations', () => {
         expect(result[0].severity).toBe('critical');
         expect(result[0].impact).toContain('High risk');
       });
+
+      it('should use the severity thresholds of the rule profile', () => {
+        const analysis: BikeFitAnalysis = {
+          angles: { knee: 100 },
+          recommendations: [
+            {
+              area: 'Knee Angle',
+              message: 'Saddle too low',
+              type: 'warning',
+              angle: 100,
+            },
+          ],
+          overall: 'needs-adjustment',
+        };
+        const profile = createCustomProfile(DEFAULT_BIKE_PROFILE, 'Lenient');
+        profile.severity.knee = { moderate: 150, critical: 250 };
+
+        const result = enhanceBikeFitRecommendations(analysis, profile);
+
+        expect(result[0].severity).toBe('moderate');
+      });
     });
 
     describe('Hip angle enhancements', () => {
@@ -407,6 +430,69 @@ describe('enhancedRecommendations', () => {
         expect(result[0].drills).toEqual([]);
       });
     });
+
+    describe('Pedal stroke enhancements', () => {
+      it('should suggest lowering the saddle when the knee locks out at BDC', () => {
+        const analysis: BikeFitAnalysis = {
+          angles: { kneeAtBDC: 168 },
+          recommendations: [
+            {
+              area: 'Knee Extension (BDC)',
+              message: 'Saddle may be too high',
+              type: 'warning',
+              angle: 168,
+            },
+          ],
+          overall: 'needs-adjustment',
+        };
+
+        const result = enhanceBikeFitRecommendations(analysis);
+
+        expect(result[0].severity).toBe('critical');
+        expect(result[0].drills).toContain('Lower saddle height by 5-10mm increments');
+      });
+
+      it('should suggest moving the saddle back when the knee is ahead of the pedal', () => {
+        const analysis: BikeFitAnalysis = {
+          angles: {},
+          recommendations: [
+            {
+              area: 'Knee Over Pedal',
+              message: 'Knee is ahead of the pedal',
+              type: 'warning',
+              value: 12,
+              unit: '% of shin',
+            },
+          ],
+          overall: 'good',
+        };
+
+        const result = enhanceBikeFitRecommendations(analysis);
+
+        expect(result[0].severity).toBe('moderate');
+        expect(result[0].drills).toContain('Move saddle back 5mm at a time');
+      });
+
+      it('should keep in-range stroke measurements minor', () => {
+        const analysis: BikeFitAnalysis = {
+          angles: { kneeAtTDC: 70 },
+          recommendations: [
+            {
+              area: 'Knee Flexion (TDC)',
+              message: 'Good knee flexion',
+              type: 'success',
+              angle: 70,
+            },
+          ],
+          overall: 'good',
+        };
+
+        const result = enhanceBikeFitRecommendations(analysis);
+
+        expect(result[0].severity).toBe('minor');
+        expect(result[0].drills).toEqual([]);
+      });
+    });
   });
 
   describe('enhanceRunningRecommendations', () => {
@@ -604,6 +690,127 @@ describe('enhancedRecommendations', () => {
       });
     });
 
+    describe('Cadence enhancements', () => {
+      const analysis: RunningFormAnalysis = {
+        angles: {},
+        recommendations: [],
+        overall: 'good',
+      };
+
+      it('should add a cadence drill recommendation for low cadence', () => {
+        const result = enhanceRunningRecommendations(analysis, {
+          value: 158,
+          unit: 'spm',
+          frequency: 1.32,
+          confidence: 0.8,
+        });
+
+        expect(result).toHaveLength(1);
+        expect(result[0].area).toBe('Cadence');
+        expect(result[0].value).toBe(158);
+        expect(result[0].type).toBe('warning');
+        expect(result[0].severity).toBe('critical');
+        expect(result[0].drills).toContain('Cadence drills at 180 steps/minute');
+      });
+
+      it('should rate cadence within range as success without drills', () => {
+        const result = enhanceRunningRecommendations(analysis, {
+          value: 178,
+          unit: 'spm',
+          frequency: 1.48,
+          confidence: 0.8,
+        });
+
+        expect(result[0].type).toBe('success');
+        expect(result[0].severity).toBe('minor');
+        expect(result[0].drills).toEqual([]);
+      });
+
+      it('should ignore low-confidence cadence estimates', () => {
+        const result = enhanceRunningRecommendations(analysis, {
+          value: 150,
+          unit: 'spm',
+          frequency: 1.25,
+          confidence: 0.2,
+        });
+
+        expect(result).toHaveLength(0);
+      });
+
+      it('should ignore pedal RPM estimates', () => {
+        const result = enhanceRunningRecommendations(analysis, {
+          value: 90,
+          unit: 'rpm',
+          frequency: 1.5,
+          confidence: 0.9,
+        });
+
+        expect(result).toHaveLength(0);
+      });
+    });
+
+    describe('Running economy enhancements', () => {
+      const analysis: RunningFormAnalysis = {
+        angles: {},
+        recommendations: [],
+        overall: 'good',
+      };
+
+      const metric = (avg: number, unit: string): MetricData => ({
+        min: avg,
+        max: avg,
+        avg,
+        stdDev: 0,
+        range: 0,
+        consistency: 100,
+        values: [avg],
+        unit,
+      });
+
+      it('should recommend quicker steps for long ground contact', () => {
+        const result = enhanceRunningRecommendations(analysis, null, undefined, {
+          groundContactTime: metric(340, 'ms'),
+        });
+
+        expect(result).toHaveLength(1);
+        expect(result[0].area).toBe('Ground Contact Time');
+        expect(result[0].value).toBe(340);
+        expect(result[0].unit).toBe('ms');
+        expect(result[0].message).toContain('340 ms');
+        expect(result[0].severity).toBe('critical');
+        expect(result[0].drills).toContain('Pogo hops (3 × 20)');
+      });
+
+      it('should flag bouncing from vertical oscillation and duty factor', () => {
+        const result = enhanceRunningRecommendations(analysis, null, undefined, {
+          verticalOscillation: metric(12, '% of leg'),
+          dutyFactor: metric(25, '%'),
+        });
+
+        expect(result.map(rec => rec.area)).toEqual(['Vertical Oscillation', 'Duty Factor']);
+        expect(result.every(rec => rec.drills!.includes('Run tall and think "forward, not up"'))).toBe(true);
+        expect(result[0].message).toContain('12% of leg');
+      });
+
+      it('should not add recommendations for metrics within range', () => {
+        const result = enhanceRunningRecommendations(analysis, null, undefined, {
+          groundContactTime: metric(220, 'ms'),
+          flightTime: metric(110, 'ms'),
+          dutyFactor: metric(34, '%'),
+          verticalOscillation: metric(7, '% of leg'),
+        });
+
+        expect(result).toEqual([]);
+      });
+
+      it('should judge running economy against the profile ranges', () => {
+        const metrics = { groundContactTime: metric(220, 'ms') };
+
+        expect(enhanceRunningRecommendations(analysis, null, RUNNING_RULE_PROFILES.distance, metrics)).toHaveLength(0);
+        expect(enhanceRunningRecommendations(analysis, null, RUNNING_RULE_PROFILES.sprint, metrics)[0].severity).toBe('critical');
+      });
+    });
+
     describe('Sorting by severity', () => {
       it('should sort recommendations by priority score (critical first)', () => {
         const analysis: RunningFormAnalysis = {
@@ -681,6 +888,58 @@ describe('enhancedRecommendations', () => {
     });
   });
 
+  describe('enhanceFrontalRecommendations', () => {
+    const createKneeAnalysis = (angle: number): FrontalAnalysis => ({
+      angles: { kneeValgusLeft: angle },
+      recommendations: [
+        {
+          area: 'Knee Tracking (Left)',
+          message: 'Left knee collapses inward',
+          type: 'warning',
+          angle,
+        },
+      ],
+      overall: 'good',
+    });
+
+    it('should return empty array for null analysis', () => {
+      expect(enhanceFrontalRecommendations(null as any, 'cycling')).toEqual([]);
+    });
+
+    it('should suggest cleat and wedge changes for knee valgus when cycling', () => {
+      const result = enhanceFrontalRecommendations(createKneeAnalysis(16), 'cycling');
+
+      expect(result[0].severity).toBe('critical');
+      expect(result[0].drills).toContain('Check cleat rotation and stance width');
+    });
+
+    it('should suggest single-leg strength work for knee valgus when running', () => {
+      const result = enhanceFrontalRecommendations(createKneeAnalysis(16), 'running');
+
+      expect(result[0].drills).toContain('Single-leg squats in front of a mirror (3 × 10)');
+    });
+
+    it('should suggest hip abductor work for pelvic drop', () => {
+      const analysis: FrontalAnalysis = {
+        angles: { pelvicDrop: 7 },
+        recommendations: [
+          {
+            area: 'Pelvic Drop',
+            message: 'Opposite hip drops during stance',
+            type: 'warning',
+            angle: 7,
+          },
+        ],
+        overall: 'good',
+      };
+
+      const result = enhanceFrontalRecommendations(analysis, 'running');
+
+      expect(result[0].severity).toBe('moderate');
+      expect(result[0].drills).toContain('Hip hikes off a step (3 × 12 each side)');
+    });
+  });
+
   describe('getSeverityDisplay', () => {
     it('should return display properties for CRITICAL severity', () => {
       const display = getSeverityDisplay('critical');
@@ -1,4 +1,7 @@
-import { SeverityLevel, SeverityDisplay, BikeFitAnalysis, RunningFormAnalysis, Recommendation } from '../types';
+import { SeverityLevel, SeverityDisplay, BikeFitAnalysis, RunningFormAnalysis, FrontalAnalysis, Recommendation, CadenceEstimate, SportType, BikeRuleProfile, RunningRuleProfile, RuleProfile, DetailedMetrics } from '../types';
+import { DEFAULT_BIKE_PROFILE, DEFAULT_RUNNING_PROFILE } from './ruleProfiles';
+import { formatMetricValue } from './detailedMetrics';
+import { RUNNING_ECONOMY_UNITS } from './runningEconomy';
 
 /**
  * Enhanced Recommendations System
@@ -14,6 +17,9 @@ export const SEVERITY: Record<string, SeverityLevel> = {
   MINOR: 'minor',
 };
 
+// Cadence estimates below this confidence are not turned into recommendations
+export const MIN_CADENCE_CONFIDENCE = 0.5;
+
 interface ExerciseData {
   drills: string[];
   videoTimestamp: boolean;
@@ -55,6 +61,30 @@ const EXERCISES: Record<string, ExerciseData> = {
     ],
     videoTimestamp: true,
   },
+  kneeClosedAtTop: {
+    drills: [
+      'Raise saddle in 5mm steps if knee extension at the bottom allows',
+      'Consider shorter cranks (5-10mm shorter)',
+      'Hip flexor and quad mobility work',
+    ],
+    videoTimestamp: true,
+  },
+  saddleTooForward: {
+    drills: [
+      'Move saddle back 5mm at a time',
+      'Re-check saddle height after each change - moving back raises it effectively',
+      'Check cleats are not too far forward',
+    ],
+    videoTimestamp: true,
+  },
+  saddleTooFarBack: {
+    drills: [
+      'Move saddle forward 5mm at a time',
+      'Re-check saddle height after each change - moving forward lowers it effectively',
+      'Check reach to the handlebars after moving the saddle',
+    ],
+    videoTimestamp: true,
+  },
   elbowTooStraight: {
     drills: [
       'Shorten stem length',
@@ -125,6 +155,15 @@ const EXERCISES: Record<string, ExerciseData> = {
     ],
     videoTimestamp: true,
   },
+  cadenceLow: {
+    drills: [
+      'Cadence drills at 180 steps/minute',
+      'Run to a metronome set 5% above your current cadence',
+      'Quick-feet drills (10 seconds × 6)',
+      'Shorten stride while keeping the same pace',
+    ],
+    videoTimestamp: true,
+  },
   hipExtensionLimited: {
     drills: [
       'Hip flexor stretches (couch stretch, lunge holds)',
@@ -143,6 +182,92 @@ const EXERCISES: Record<string, ExerciseData> = {
     ],
     videoTimestamp: true,
   },
+  bouncing: {
+    drills: [
+      'Run tall and think "forward, not up"',
+      'Run to a metronome set 5% above your current cadence',
+      'Low skips focusing on a quiet landing (3 × 20m)',
+    ],
+    videoTimestamp: true,
+  },
+  shuffling: {
+    drills: [
+      'Bounding (3 × 30m)',
+      'B-skips for an active push-off (3 × 20m)',
+      'Hill strides (6 × 15 seconds)',
+    ],
+    videoTimestamp: true,
+  },
+  contactTimeLong: {
+    drills: [
+      'Pogo hops (3 × 20)',
+      'Jump rope (3 × 1 minute)',
+      'Fast-feet drills with quick, light ground contacts',
+      'Eccentric heel drops for calf and Achilles stiffness (3 × 15)',
+    ],
+    videoTimestamp: true,
+  },
+
+  // Frontal-plane exercises
+  kneeValgusCycling: {
+    drills: [
+      'Check cleat rotation and stance width',
+      'Try varus wedges or insoles with arch support',
+      'Glute medius work (side-lying leg raises, band walks)',
+      'Single-leg pedaling focusing on a straight knee path',
+    ],
+    videoTimestamp: true,
+  },
+  kneeValgusRunning: {
+    drills: [
+      'Single-leg squats in front of a mirror (3 × 10)',
+      'Lateral band walks (3 × 15 steps each way)',
+      'Step-downs with the knee tracking over the second toe',
+      'Hip abductor strengthening (clamshells, side planks)',
+    ],
+    videoTimestamp: true,
+  },
+  kneeVarus: {
+    drills: [
+      'Check cleat position or shoe wear on the outside edge',
+      'Adductor strengthening (Copenhagen planks)',
+      'Single-leg balance with the knee over the second toe',
+    ],
+    videoTimestamp: true,
+  },
+  kneeTravel: {
+    drills: [
+      'Check for float or loose cleats and pedals',
+      'Single-leg drills at low resistance to groove a consistent knee path',
+      'Hip stability work (side planks, single-leg bridges)',
+    ],
+    videoTimestamp: true,
+  },
+  pelvicDrop: {
+    drills: [
+      'Side planks with top-leg raise (3 × 30 seconds)',
+      'Single-leg deadlifts (3 × 8 each side)',
+      'Hip hikes off a step (3 × 12 each side)',
+      'Lateral band walks before runs',
+    ],
+    videoTimestamp: true,
+  },
+  hipRocking: {
+    drills: [
+      'Lower saddle height by 3-5mm and re-check',
+      'Check for a leg length difference - consider cleat shims',
+      'Core stability work (dead bugs, bird dogs)',
+    ],
+    videoTimestamp: true,
+  },
+  shoulderTilt: {
+    drills: [
+      'Check handlebar and hood positions are level',
+      'Thoracic mobility work (open books, thread the needle)',
+      'Suitcase carries for lateral trunk strength',
+    ],
+    videoTimestamp: true,
+  },
 };
 
 /**
@@ -189,11 +314,17 @@ export function calculateSeverity(
 /**
  * Enhance bike fit recommendations with severity and exercises
  * @param analysis - Bike fit analysis result
+ * @param profile - Discipline whose ranges severity is measured from
  * @returns Enhanced recommendations sorted by severity
  */
-export function enhanceBikeFitRecommendations(analysis: BikeFitAnalysis): Recommendation[] {
+export function enhanceBikeFitRecommendations(
+  analysis: BikeFitAnalysis,
+  profile: BikeRuleProfile = DEFAULT_BIKE_PROFILE
+): Recommendation[] {
   if (!analysis || !analysis.recommendations) return [];
 
+  const { ranges, severity: thresholds } = profile;
+
   const enhanced = analysis.recommendations.map(rec => {
     let severity: SeverityLevel = SEVERITY.MINOR as SeverityLevel;
     let exerciseKey: string | null = null;
@@ -202,14 +333,16 @@ export function enhanceBikeFitRecommendations(analysis: BikeFitAnalysis): Recomm
     // Knee angle analysis
     if (rec.area === 'Knee Angle' && rec.angle !== undefined) {
       const angle = rec.angle;
-      severity = calculateSeverity(angle, 140, 160, 25, 15);
+      const { min, max } = ranges.knee;
+      const { critical, moderate } = thresholds.knee;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
 
-      if (angle < 140) {
+      if (angle < min) {
         exerciseKey = 'kneeTooLow';
         impact = severity === SEVERITY.CRITICAL
           ? 'High risk of knee pain and reduced power output'
           : 'May cause discomfort on longer rides';
-      } else if (angle > 160) {
+      } else if (angle > max) {
         exerciseKey = 'kneeTooHigh';
         impact = severity === SEVERITY.CRITICAL
           ? 'Risk of hamstring strain and inefficient pedaling'
@@ -217,17 +350,89 @@ export function enhanceBikeFitRecommendations(analysis: BikeFitAnalysis): Recomm
       }
     }
 
+    // Knee extension at bottom dead centre (saddle height)
+    if (rec.area === 'Knee Extension (BDC)' && rec.angle !== undefined) {
+      const angle = rec.angle;
+      const { min, max } = ranges.kneeAtBDC;
+      const { critical, moderate } = thresholds.kneeAtBDC;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
+
+      if (angle < min) {
+        exerciseKey = 'kneeTooLow';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'High load on the front of the knee and reduced power output'
+          : 'May cause knee discomfort on longer rides';
+      } else if (angle > max) {
+        exerciseKey = 'kneeTooHigh';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Hip rocking and risk of hamstring or back-of-knee strain'
+          : 'Slight reach for the pedals at the bottom of the stroke';
+      }
+    }
+
+    // Knee flexion at top dead centre
+    if (rec.area === 'Knee Flexion (TDC)' && rec.angle !== undefined) {
+      const angle = rec.angle;
+      const { min, max } = ranges.kneeAtTDC;
+      const { critical, moderate } = thresholds.kneeAtTDC;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
+
+      if (angle < min) {
+        exerciseKey = 'kneeClosedAtTop';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'High compressive knee load over the top of the stroke'
+          : 'Slightly reduced pedaling smoothness over the top';
+      }
+    }
+
+    // Hip closure at top dead centre
+    if (rec.area === 'Hip Closure (TDC)' && rec.angle !== undefined) {
+      const angle = rec.angle;
+      const { min, max } = ranges.hipAtTDC;
+      const { critical, moderate } = thresholds.hipAtTDC;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
+
+      if (angle < min) {
+        exerciseKey = 'hipTooCompressed';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Restricted breathing and power loss at the top of the stroke'
+          : 'May limit comfort in the drops';
+      }
+    }
+
+    // Knee over pedal spindle at 3 o'clock (saddle setback)
+    if (rec.area === 'Knee Over Pedal' && rec.value !== undefined) {
+      const offset = rec.value;
+      const { min, max } = ranges.kneeOverPedal;
+      const { critical, moderate } = thresholds.kneeOverPedal;
+      severity = calculateSeverity(offset, min, max, critical, moderate);
+
+      if (offset > max) {
+        exerciseKey = 'saddleTooForward';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Extra load on the front of the knee'
+          : 'Slight shift of effort onto the quads';
+      } else if (offset < min) {
+        exerciseKey = 'saddleTooFarBack';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Overreaching for the pedals and hamstring strain'
+          : 'Slight loss of power at the front of the stroke';
+      }
+    }
+
     // Hip angle analysis
     if (rec.area === 'Hip Angle' && rec.angle !== undefined) {
       const angle = rec.angle;
-      severity = calculateSeverity(angle, 40, 70, 30, 20);
+      const { min, max } = ranges.hip;
+      const { critical, moderate } = thresholds.hip;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
 
-      if (angle > 70) {
+      if (angle > max) {
         exerciseKey = 'hipTooOpen';
         impact = severity === SEVERITY.CRITICAL
           ? 'Reduced aerodynamics and power generation'
           : 'Minor reduction in efficiency';
-      } else if (angle < 40) {
+      } else if (angle < min) {
         exerciseKey = 'hipTooCompressed';
         impact = severity === SEVERITY.CRITICAL
           ? 'Breathing restriction and back pain risk'
@@ -238,14 +443,16 @@ export function enhanceBikeFitRecommendations(analysis: BikeFitAnalysis): Recomm
     // Elbow angle analysis
     if (rec.area === 'Elbow Angle' && rec.angle !== undefined) {
       const angle = rec.angle;
-      severity = calculateSeverity(angle, 140, 170, 25, 15);
+      const { min, max } = ranges.elbow;
+      const { critical, moderate } = thresholds.elbow;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
 
-      if (angle > 170) {
+      if (angle > max) {
         exerciseKey = 'elbowTooStraight';
         impact = severity === SEVERITY.CRITICAL
           ? 'Risk of shoulder/neck pain and reduced control'
           : 'Minor strain on upper body';
-      } else if (angle < 140) {
+      } else if (angle < min) {
         exerciseKey = 'elbowTooBent';
         impact = severity === SEVERITY.CRITICAL
           ? 'Excessive weight on arms, fatigue risk'
@@ -256,14 +463,16 @@ export function enhanceBikeFitRecommendations(analysis: BikeFitAnalysis): Recomm
     // Back angle analysis
     if (rec.area === 'Back Angle' && rec.angle !== undefined) {
       const angle = rec.angle;
-      severity = calculateSeverity(angle, 35, 50, 30, 20);
+      const { min, max } = ranges.back;
+      const { critical, moderate } = thresholds.back;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
 
-      if (angle > 50) {
+      if (angle > max) {
         exerciseKey = 'backTooUpright';
         impact = severity === SEVERITY.CRITICAL
           ? 'Significant aerodynamic drag'
           : 'Slight efficiency loss';
-      } else if (angle < 35) {
+      } else if (angle < min) {
         exerciseKey = 'backTooAggressive';
         impact = severity === SEVERITY.CRITICAL
           ? 'Back pain risk and breathing limitations'
@@ -283,18 +492,118 @@ export function enhanceBikeFitRecommendations(analysis: BikeFitAnalysis): Recomm
   });
 
   // Sort by severity (critical first)
-  return enhanced.sort((a, b) => (b.priorityScore || 0) - (a.priorityScore || 0));
+  return prioritizeRecommendations(enhanced);
+}
+
+/**
+ * Create a recommendation from a measured running cadence
+ */
+function createCadenceRecommendation(cadence: CadenceEstimate, profile: RunningRuleProfile): Recommendation {
+  const base = { area: 'Cadence', value: cadence.value, unit: 'steps/min' };
+  const { min, max } = profile.ranges.cadence;
+
+  if (cadence.value < min) {
+    return {
+      ...base,
+      type: 'warning',
+      message: `Cadence of ${cadence.value} steps/min is low - take shorter, quicker steps`,
+    };
+  }
+  if (cadence.value > max) {
+    return {
+      ...base,
+      type: 'info',
+      message: `High cadence of ${cadence.value} steps/min - fine if stride length is not restricted`,
+    };
+  }
+  return {
+    ...base,
+    type: 'success',
+    message: `Good cadence of ${cadence.value} steps/min`,
+  };
+}
+
+// Running economy metrics, their recommendation area and how to describe a value outside the range
+const ECONOMY_METRICS: Array<{
+  key: keyof typeof RUNNING_ECONOMY_UNITS;
+  area: string;
+  low: (value: string) => string;
+  high: (value: string) => string;
+}> = [
+  {
+    key: 'verticalOscillation',
+    area: 'Vertical Oscillation',
+    low: value => `Vertical oscillation of ${value} is low - a shuffling stride with little push-off`,
+    high: value => `Vertical oscillation of ${value} is high - drive forward rather than up`,
+  },
+  {
+    key: 'groundContactTime',
+    area: 'Ground Contact Time',
+    low: value => `Ground contact of ${value} is short for this discipline - make sure you push off fully`,
+    high: value => `Ground contact of ${value} is long - aim for quicker, lighter steps`,
+  },
+  {
+    key: 'flightTime',
+    area: 'Flight Time',
+    low: value => `Flight time of ${value} is short - little push-off between steps`,
+    high: value => `Flight time of ${value} is long - bounding strides raise landing forces`,
+  },
+  {
+    key: 'dutyFactor',
+    area: 'Duty Factor',
+    low: value => `Duty factor of ${value} is low - the stride is bouncy for this discipline`,
+    high: value => `Duty factor of ${value} is high - the feet spend too much of each stride on the ground`,
+  },
+];
+
+/**
+ * Create recommendations for running economy metrics outside the profile's ranges
+ */
+function createEconomyRecommendations(metrics: DetailedMetrics, profile: RunningRuleProfile): Recommendation[] {
+  return ECONOMY_METRICS.flatMap(({ key, area, low, high }) => {
+    const metric = metrics[key];
+    if (!metric) return [];
+
+    const { min, max } = profile.ranges[key];
+    if (metric.avg >= min && metric.avg <= max) return [];
+
+    const value = formatMetricValue(metric.avg, RUNNING_ECONOMY_UNITS[key]);
+    return [{
+      area,
+      value: metric.avg,
+      unit: RUNNING_ECONOMY_UNITS[key],
+      type: 'warning' as const,
+      message: metric.avg < min ? low(value) : high(value),
+    }];
+  });
 }
 
 /**
  * Enhance running form recommendations with severity and exercises
  * @param analysis - Running form analysis result
+ * @param cadence - Measured cadence, adds a cadence recommendation when confident enough
+ * @param profile - Discipline whose ranges severity is measured from
+ * @param metrics - Detailed metrics, adds recommendations for running economy outside its ranges
  * @returns Enhanced recommendations sorted by severity
  */
-export function enhanceRunningRecommendations(analysis: RunningFormAnalysis): Recommendation[] {
+export function enhanceRunningRecommendations(
+  analysis: RunningFormAnalysis,
+  cadence?: CadenceEstimate | null,
+  profile: RunningRuleProfile = DEFAULT_RUNNING_PROFILE,
+  metrics?: DetailedMetrics | null
+): Recommendation[] {
   if (!analysis || !analysis.recommendations) return [];
 
-  const enhanced = analysis.recommendations.map(rec => {
+  const { ranges, severity: thresholds } = profile;
+  const recommendations = [...analysis.recommendations];
+  if (cadence && cadence.unit === 'spm' && cadence.confidence >= MIN_CADENCE_CONFIDENCE) {
+    recommendations.push(createCadenceRecommendation(cadence, profile));
+  }
+  if (metrics) {
+    recommendations.push(...createEconomyRecommendations(metrics, profile));
+  }
+
+  const enhanced = recommendations.map(rec => {
     let severity: SeverityLevel = SEVERITY.MINOR as SeverityLevel;
     let exerciseKey: string | null = null;
     let impact = '';
@@ -302,14 +611,16 @@ export function enhanceRunningRecommendations(analysis: RunningFormAnalysis): Re
     // Body lean analysis
     if (rec.area === 'Body Lean' && rec.angle !== undefined) {
       const angle = rec.angle;
-      severity = calculateSeverity(angle, 5, 12, 40, 25);
+      const { min, max } = ranges.bodyLean;
+      const { critical, moderate } = thresholds.bodyLean;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
 
-      if (angle < 5) {
+      if (angle < min) {
         exerciseKey = 'leaningBack';
         impact = severity === SEVERITY.CRITICAL
           ? 'Heel striking and braking forces increase injury risk'
           : 'Reduced running efficiency';
-      } else if (angle > 12) {
+      } else if (angle > max) {
         exerciseKey = 'leaningTooFar';
         impact = severity === SEVERITY.CRITICAL
           ? 'Risk of quad strain and forward momentum loss'
@@ -320,14 +631,16 @@ export function enhanceRunningRecommendations(analysis: RunningFormAnalysis): Re
     // Knee lift analysis
     if (rec.area === 'Knee Lift' && rec.angle !== undefined) {
       const angle = rec.angle;
-      severity = calculateSeverity(angle, 100, 140, 30, 20);
+      const { min, max } = ranges.kneeLift;
+      const { critical, moderate } = thresholds.kneeLift;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
 
-      if (angle < 100) {
+      if (angle < min) {
         exerciseKey = 'kneeLiftLow';
         impact = severity === SEVERITY.CRITICAL
           ? 'Shuffling gait increases injury risk, reduces speed'
           : 'Minor stride length reduction';
-      } else if (angle > 140) {
+      } else if (angle > max) {
         exerciseKey = 'kneeLiftHigh';
         impact = severity === SEVERITY.CRITICAL
           ? 'Wasted energy, increased ground contact time'
@@ -338,9 +651,11 @@ export function enhanceRunningRecommendations(analysis: RunningFormAnalysis): Re
     // Hip extension analysis
     if (rec.area === 'Hip Extension' && rec.angle !== undefined) {
       const angle = rec.angle;
-      severity = calculateSeverity(angle, 160, 180, 15, 10);
+      const { min, max } = ranges.hipExtension;
+      const { critical, moderate } = thresholds.hipExtension;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
 
-      if (angle < 160) {
+      if (angle < min) {
         exerciseKey = 'hipExtensionLimited';
         impact = severity === SEVERITY.CRITICAL
           ? 'Reduced power output, compensatory strain on quads/knees'
@@ -351,9 +666,11 @@ export function enhanceRunningRecommendations(analysis: RunningFormAnalysis): Re
     // Arm swing analysis
     if (rec.area === 'Arm Swing' && rec.angle !== undefined) {
       const angle = rec.angle;
-      severity = calculateSeverity(angle, 80, 110, 30, 20);
+      const { min, max } = ranges.armSwing;
+      const { critical, moderate } = thresholds.armSwing;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
 
-      if (angle < 80 || angle > 110) {
+      if (angle < min || angle > max) {
         exerciseKey = 'armSwingPoor';
         impact = severity === SEVERITY.CRITICAL
           ? 'Energy waste and rotational imbalance'
@@ -361,6 +678,206 @@ export function enhanceRunningRecommendations(analysis: RunningFormAnalysis): Re
       }
     }
 
+    // Cadence analysis
+    if (rec.area === 'Cadence' && rec.value !== undefined) {
+      const cadence = rec.value;
+      const { min, max } = ranges.cadence;
+      const { critical, moderate } = thresholds.cadence;
+      severity = calculateSeverity(cadence, min, max, critical, moderate);
+
+      if (cadence < min) {
+        exerciseKey = 'cadenceLow';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Overstriding and high impact forces on knees and shins'
+          : 'Longer ground contact and slight braking each step';
+      }
+    }
+
+    // Vertical oscillation analysis
+    if (rec.area === 'Vertical Oscillation' && rec.value !== undefined) {
+      const oscillation = rec.value;
+      const { min, max } = ranges.verticalOscillation;
+      const { critical, moderate } = thresholds.verticalOscillation;
+      severity = calculateSeverity(oscillation, min, max, critical, moderate);
+
+      if (oscillation > max) {
+        exerciseKey = 'bouncing';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Energy spent lifting the body instead of moving forward, with harder landings'
+          : 'Some energy lost to vertical bounce';
+      } else if (oscillation < min) {
+        exerciseKey = 'shuffling';
+        impact = 'Limited push-off shortens the stride';
+      }
+    }
+
+    // Ground contact time analysis
+    if (rec.area === 'Ground Contact Time' && rec.value !== undefined) {
+      const contact = rec.value;
+      const { min, max } = ranges.groundContactTime;
+      const { critical, moderate } = thresholds.groundContactTime;
+      severity = calculateSeverity(contact, min, max, critical, moderate);
+
+      if (contact > max) {
+        exerciseKey = 'contactTimeLong';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Braking on every step and a slow turnover'
+          : 'Slight loss of elastic return from the tendons';
+      }
+    }
+
+    // Flight time analysis
+    if (rec.area === 'Flight Time' && rec.value !== undefined) {
+      const flight = rec.value;
+      const { min, max } = ranges.flightTime;
+      const { critical, moderate } = thresholds.flightTime;
+      severity = calculateSeverity(flight, min, max, critical, moderate);
+
+      if (flight > max) {
+        exerciseKey = 'bouncing';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Higher landing forces on the knees and Achilles'
+          : 'Slightly harder landings';
+      } else if (flight < min) {
+        exerciseKey = 'shuffling';
+        impact = 'Limited push-off shortens the stride';
+      }
+    }
+
+    // Duty factor analysis
+    if (rec.area === 'Duty Factor' && rec.value !== undefined) {
+      const dutyFactor = rec.value;
+      const { min, max } = ranges.dutyFactor;
+      const { critical, moderate } = thresholds.dutyFactor;
+      severity = calculateSeverity(dutyFactor, min, max, critical, moderate);
+
+      if (dutyFactor > max) {
+        exerciseKey = 'contactTimeLong';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Most of each stride spent on the ground, like a fast walk'
+          : 'Slightly grounded, less springy stride';
+      } else if (dutyFactor < min) {
+        exerciseKey = 'bouncing';
+        impact = 'More time airborne than the pace needs, with harder landings';
+      }
+    }
+
+    const drills = exerciseKey ? EXERCISES[exerciseKey].drills : [];
+
+    return {
+      ...rec,
+      severity,
+      impact,
+      drills,
+      priorityScore: getSeverityScore(severity),
+    };
+  });
+
+  // Sort by severity (critical first)
+  return prioritizeRecommendations(enhanced);
+}
+
+/**
+ * Enhance frontal-plane recommendations with severity and exercises
+ * @param analysis - Frontal analysis result
+ * @param sport - Sport the video shows, selects cycling or running drills
+ * @param profile - Discipline whose ranges severity is measured from
+ * @returns Enhanced recommendations sorted by severity
+ */
+export function enhanceFrontalRecommendations(
+  analysis: FrontalAnalysis,
+  sport: SportType,
+  profile: RuleProfile = sport === 'cycling' ? DEFAULT_BIKE_PROFILE : DEFAULT_RUNNING_PROFILE
+): Recommendation[] {
+  if (!analysis || !analysis.recommendations) return [];
+
+  const { ranges, severity: thresholds } = profile;
+
+  const enhanced = analysis.recommendations.map(rec => {
+    let severity: SeverityLevel = SEVERITY.MINOR as SeverityLevel;
+    let exerciseKey: string | null = null;
+    let impact = '';
+
+    // Knee valgus/varus (knee tracking inside or outside the hip-ankle line)
+    if (rec.area.startsWith('Knee Tracking') && rec.angle !== undefined) {
+      const angle = rec.angle;
+      const { min, max } = ranges.kneeValgus;
+      const { critical, moderate } = thresholds.kneeValgus;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
+
+      if (angle > max) {
+        exerciseKey = sport === 'cycling' ? 'kneeValgusCycling' : 'kneeValgusRunning';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'High risk of patellofemoral and IT band pain'
+          : 'Extra load on the inside of the knee';
+      } else if (angle < min) {
+        exerciseKey = 'kneeVarus';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'High load on the outside of the knee and IT band'
+          : 'Power leaks through the outside of the knee';
+      }
+    }
+
+    // Side-to-side knee travel
+    if (rec.area.startsWith('Knee Travel') && rec.value !== undefined) {
+      const travel = rec.value;
+      const { min, max } = ranges.kneeTravel;
+      const { critical, moderate } = thresholds.kneeTravel;
+      severity = calculateSeverity(travel, min, max, critical, moderate);
+
+      if (travel > max) {
+        exerciseKey = 'kneeTravel';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Unstable knee path increases joint stress'
+          : 'Slight loss of power through an inconsistent knee path';
+      }
+    }
+
+    // Contralateral pelvic drop during stance
+    if (rec.area === 'Pelvic Drop' && rec.angle !== undefined) {
+      const angle = rec.angle;
+      const { min, max } = ranges.pelvicDrop;
+      const { critical, moderate } = thresholds.pelvicDrop;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
+
+      if (angle > max) {
+        exerciseKey = 'pelvicDrop';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Risk of IT band syndrome, hip and lower back pain'
+          : 'Energy loss through an unstable pelvis';
+      }
+    }
+
+    // Hip rocking on the saddle
+    if (rec.area === 'Hip Rocking' && rec.angle !== undefined) {
+      const angle = rec.angle;
+      const { min, max } = ranges.hipRocking;
+      const { critical, moderate } = thresholds.hipRocking;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
+
+      if (angle > max) {
+        exerciseKey = 'hipRocking';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Saddle sores and lower back pain'
+          : 'Minor loss of power and saddle comfort';
+      }
+    }
+
+    // Shoulder tilt
+    if (rec.area === 'Shoulder Tilt' && rec.angle !== undefined) {
+      const angle = rec.angle;
+      const { min, max } = ranges.shoulderTilt;
+      const { critical, moderate } = thresholds.shoulderTilt;
+      severity = calculateSeverity(angle, min, max, critical, moderate);
+
+      if (angle > max) {
+        exerciseKey = 'shoulderTilt';
+        impact = severity === SEVERITY.CRITICAL
+          ? 'Neck and shoulder strain from an uneven upper body'
+          : 'Minor upper body asymmetry';
+      }
+    }
+
     const drills = exerciseKey ? EXERCISES[exerciseKey].drills : [];
 
     return {
@@ -373,13 +890,21 @@ export function enhanceRunningRecommendations(analysis: RunningFormAnalysis): Re
   });
 
   // Sort by severity (critical first)
-  return enhanced.sort((a, b) => (b.priorityScore || 0) - (a.priorityScore || 0));
+  return prioritizeRecommendations(enhanced);
+}
+
+/**
+ * Sort recommendations by severity (critical first)
+ * Recommendations from other modules are merged through here so they share one order
+ */
+export function prioritizeRecommendations(recommendations: Recommendation[]): Recommendation[] {
+  return [...recommendations].sort((a, b) => (b.priorityScore || 0) - (a.priorityScore || 0));
 }
 
 /**
  * Convert severity to numeric score for sorting
  */
-function getSeverityScore(severity: SeverityLevel): number {
+export function getSeverityScore(severity: SeverityLevel): number {
   switch (severity) {
     case SEVERITY.CRITICAL:
       return 3;
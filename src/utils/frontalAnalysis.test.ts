@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectCameraView,
+  analyzeFrontalPose,
+  combineFrontalAnalyses,
+  createFrontalRecommendations,
+} from './frontalAnalysis';
+import type { FrameAnalysis, FrontalAnalysis, Keypoint, Pose } from '../types';
+
+describe('frontalAnalysis', () => {
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  interface FrontPoseOptions {
+    leftKneeShift?: number; // Positive moves the left knee towards the midline
+    rightKneeShift?: number; // Positive moves the right knee towards the midline
+    hipTilt?: number; // Pixels the left hip sits below the right hip
+    shoulderTilt?: number; // Pixels the left shoulder sits below the right shoulder
+    leftAnkleY?: number;
+    rightAnkleY?: number;
+  }
+
+  // Athlete facing the camera - their left side appears on the right of the image
+  const createFrontPose = ({
+    leftKneeShift = 0,
+    rightKneeShift = 0,
+    hipTilt = 0,
+    shoulderTilt = 0,
+    leftAnkleY = 400,
+    rightAnkleY = 400,
+  }: FrontPoseOptions = {}): Pose => ({
+    score: 0.9,
+    keypoints: [
+      createKeypoint('left_shoulder', 280, 100 + shoulderTilt / 2),
+      createKeypoint('right_shoulder', 160, 100 - shoulderTilt / 2),
+      createKeypoint('left_hip', 250, 200 + hipTilt / 2),
+      createKeypoint('right_hip', 190, 200 - hipTilt / 2),
+      createKeypoint('left_knee', 250 - leftKneeShift, 300),
+      createKeypoint('right_knee', 190 + rightKneeShift, 300),
+      createKeypoint('left_ankle', 250, leftAnkleY),
+      createKeypoint('right_ankle', 190, rightAnkleY),
+    ],
+  });
+
+  // Side-on athlete - left and right points overlap
+  const createSidePose = (): Pose => ({
+    score: 0.9,
+    keypoints: [
+      createKeypoint('left_shoulder', 300, 100),
+      createKeypoint('right_shoulder', 305, 100),
+      createKeypoint('left_hip', 300, 200),
+      createKeypoint('right_hip', 304, 200),
+      createKeypoint('left_knee', 330, 300),
+      createKeypoint('right_knee', 280, 300),
+      createKeypoint('left_ankle', 320, 400),
+      createKeypoint('right_ankle', 270, 400),
+    ],
+  });
+
+  const toFrames = (poses: Pose[]): FrameAnalysis[] =>
+    poses.map((pose, i) => ({ pose, analysis: analyzeFrontalPose(pose)!, timestamp: i / 15 }));
+
+  const combine = (poses: Pose[], sport: 'cycling' | 'running') => {
+    const frames = toFrames(poses);
+    return combineFrontalAnalyses(frames.map(f => f.analysis as FrontalAnalysis), frames, sport);
+  };
+
+  describe('detectCameraView', () => {
+    it('should detect a front view from wide shoulders and hips', () => {
+      expect(detectCameraView([createFrontPose(), createFrontPose()])).toBe('front');
+    });
+
+    it('should detect a side view when left and right points overlap', () => {
+      expect(detectCameraView([createSidePose(), createSidePose()])).toBe('side');
+    });
+
+    it('should default to a side view without usable poses', () => {
+      expect(detectCameraView([])).toBe('side');
+    });
+  });
+
+  describe('analyzeFrontalPose', () => {
+    it('should return null for a pose without keypoints', () => {
+      expect(analyzeFrontalPose({ score: 0.9, keypoints: [] })).toBeNull();
+    });
+
+    it('should measure straight legs and level hips as zero', () => {
+      const result = analyzeFrontalPose(createFrontPose())!;
+
+      expect(result.angles.kneeValgusLeft).toBe(0);
+      expect(result.angles.kneeValgusRight).toBe(0);
+      expect(result.angles.pelvicDrop).toBe(0);
+      expect(result.angles.shoulderTilt).toBe(0);
+    });
+
+    it('should report a knee moving towards the midline as positive valgus', () => {
+      const result = analyzeFrontalPose(createFrontPose({ leftKneeShift: 20, rightKneeShift: 20 }))!;
+
+      expect(result.angles.kneeValgusLeft).toBeGreaterThan(0);
+      expect(result.angles.kneeValgusRight).toBeGreaterThan(0);
+    });
+
+    it('should report a knee bowing outwards as negative', () => {
+      const result = analyzeFrontalPose(createFrontPose({ leftKneeShift: -20 }))!;
+
+      expect(result.angles.kneeValgusLeft).toBeLessThan(0);
+      expect(result.angles.kneeValgusRight).toBe(0);
+    });
+
+    it('should report pelvic tilt as positive when the left hip is lower', () => {
+      expect(analyzeFrontalPose(createFrontPose({ hipTilt: 10 }))!.angles.pelvicDrop).toBeGreaterThan(0);
+      expect(analyzeFrontalPose(createFrontPose({ hipTilt: -10 }))!.angles.pelvicDrop).toBeLessThan(0);
+    });
+  });
+
+  describe('combineFrontalAnalyses', () => {
+    it('should throw when there are no analyses', () => {
+      expect(() => combineFrontalAnalyses([], [], 'cycling')).toThrow('No analyses to combine');
+    });
+
+    it('should take the peak knee deviation and lateral travel over the pedal stroke', () => {
+      const shifts = [0, 10, 25, 10, 0, 10, 25, 10];
+      const result = combine(shifts.map(shift => createFrontPose({ leftKneeShift: shift })), 'cycling');
+
+      expect(result.legs!.left.peakValgus).toBeGreaterThan(8);
+      expect(result.legs!.left.lateralTravel).toBe(13);
+      expect(result.legs!.right.peakValgus).toBe(0);
+      expect(result.recommendations).toContainEqual(
+        expect.objectContaining({ area: 'Knee Tracking (Left)', type: 'warning' })
+      );
+      expect(result.overall).not.toBe('excellent');
+    });
+
+    it('should measure hip rocking as the range of pelvic tilt when cycling', () => {
+      const tilts = [-12, 0, 12, 0, -12, 0, 12, 0];
+      const result = combine(tilts.map(hipTilt => createFrontPose({ hipTilt })), 'cycling');
+
+      expect(result.angles.pelvicDrop).toBeGreaterThan(10);
+      expect(result.recommendations).toContainEqual(
+        expect.objectContaining({ area: 'Hip Rocking', type: 'warning' })
+      );
+    });
+
+    it('should measure the drop of the opposite hip during stance when running', () => {
+      // Left foot planted (lowest ankle) while the right hip drops, and vice versa
+      const poses = [
+        createFrontPose({ leftAnkleY: 400, rightAnkleY: 340, hipTilt: -20 }),
+        createFrontPose({ leftAnkleY: 370, rightAnkleY: 370 }),
+        createFrontPose({ leftAnkleY: 340, rightAnkleY: 400, hipTilt: 20 }),
+        createFrontPose({ leftAnkleY: 370, rightAnkleY: 370 }),
+      ];
+      const result = combine(poses, 'running');
+
+      expect(result.angles.pelvicDrop).toBeGreaterThan(5);
+      expect(result.recommendations).toContainEqual(
+        expect.objectContaining({ area: 'Pelvic Drop', type: 'warning' })
+      );
+    });
+
+    it('should ignore pelvic tilt towards the stance leg when running', () => {
+      // Stance-side hip lower is a hip hike, not a drop
+      const poses = [
+        createFrontPose({ leftAnkleY: 400, rightAnkleY: 340, hipTilt: 20 }),
+        createFrontPose({ leftAnkleY: 340, rightAnkleY: 400, hipTilt: -20 }),
+      ];
+      const result = combine(poses, 'running');
+
+      expect(result.angles.pelvicDrop).toBe(0);
+    });
+
+    it('should report good alignment for a clean video', () => {
+      const result = combine(Array.from({ length: 6 }, () => createFrontPose()), 'cycling');
+
+      expect(result.recommendations.every(rec => rec.type === 'success')).toBe(true);
+      expect(result.overall).toBe('excellent');
+    });
+  });
+
+  describe('createFrontalRecommendations', () => {
+    it('should flag shoulder tilt', () => {
+      const recommendations = createFrontalRecommendations({ angles: { shoulderTilt: 7 } }, 'running');
+
+      expect(recommendations).toEqual([
+        expect.objectContaining({ area: 'Shoulder Tilt', type: 'warning', angle: 7 }),
+      ]);
+    });
+
+    it('should flag excessive knee travel with its unit', () => {
+      const recommendations = createFrontalRecommendations(
+        { angles: {}, legs: { left: { peakValgus: 2, lateralTravel: 15 }, right: {} } },
+        'cycling'
+      );
+
+      expect(recommendations).toContainEqual(
+        expect.objectContaining({ area: 'Knee Travel (Left)', value: 15, unit: '% of leg' })
+      );
+    });
+  });
+});
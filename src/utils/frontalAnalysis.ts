@@ -0,0 +1,329 @@
+import { calculateAngle, assessBikeFitOverall } from './poseDetection';
+import { DEFAULT_BIKE_PROFILE, DEFAULT_RUNNING_PROFILE } from './ruleProfiles';
+import type {
+  CameraView,
+  FrameAnalysis,
+  FrontalAnalysis,
+  FrontalLegMetrics,
+  Keypoint,
+  Pose,
+  Recommendation,
+  RuleProfile,
+  SportType,
+} from '../types';
+
+/**
+ * Frontal-Plane Analysis
+ * - Detects whether a video was filmed from the side or the front
+ * - Measures knee tracking (valgus/varus and lateral travel), pelvic drop and shoulder tilt
+ * - Uses the whole pedal stroke for cycling and the stance phase for running
+ */
+
+type Leg = 'left' | 'right';
+
+const LEGS: Leg[] = ['left', 'right'];
+
+// Shoulder (or hip) width relative to torso height above which the camera faces the athlete
+const FRONT_VIEW_WIDTH_RATIO = 0.5;
+
+// Lowest part of an ankle's vertical range treated as the stance phase when running
+const STANCE_FRACTION = 0.25;
+
+// Keypoints below this confidence are ignored
+const MIN_KEYPOINT_SCORE = 0.3;
+
+function getKeypoint(pose: Pose, name: string): Keypoint | undefined {
+  return pose.keypoints.find(kp => kp.name === name);
+}
+
+function isVisible(keypoint: Keypoint | undefined): keypoint is Keypoint {
+  return !!keypoint && (keypoint.score || 0) > MIN_KEYPOINT_SCORE;
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Tilt of the line between two keypoints from horizontal, positive when the left point is lower
+function lineTilt(left: Keypoint, right: Keypoint): number {
+  return (Math.atan2(left.y - right.y, Math.abs(left.x - right.x)) * 180) / Math.PI;
+}
+
+/**
+ * Detect the camera view from how wide the shoulders (or hips) appear relative to the torso
+ * @param poses - Poses sampled from the video
+ * @returns 'front' when the athlete faces (or faces away from) the camera, otherwise 'side'
+ */
+export function detectCameraView(poses: Pose[]): CameraView {
+  const ratios: number[] = [];
+
+  for (const pose of poses) {
+    const leftShoulder = getKeypoint(pose, 'left_shoulder');
+    const rightShoulder = getKeypoint(pose, 'right_shoulder');
+    const leftHip = getKeypoint(pose, 'left_hip');
+    const rightHip = getKeypoint(pose, 'right_hip');
+    if (!isVisible(leftShoulder) || !isVisible(rightShoulder) || !isVisible(leftHip) || !isVisible(rightHip)) {
+      continue;
+    }
+
+    const torsoHeight = Math.hypot(
+      (leftShoulder.x + rightShoulder.x) / 2 - (leftHip.x + rightHip.x) / 2,
+      (leftShoulder.y + rightShoulder.y) / 2 - (leftHip.y + rightHip.y) / 2
+    );
+    if (torsoHeight === 0) continue;
+
+    const width = Math.max(
+      Math.abs(leftShoulder.x - rightShoulder.x),
+      Math.abs(leftHip.x - rightHip.x)
+    );
+    ratios.push(width / torsoHeight);
+  }
+
+  const ratio = median(ratios);
+  return ratio !== undefined && ratio > FRONT_VIEW_WIDTH_RATIO ? 'front' : 'side';
+}
+
+interface LegMeasurement {
+  valgus: number;
+  deviation: number;
+}
+
+/**
+ * Knee position relative to the hip-ankle line for one leg
+ * Positive values mean the knee is inside the line (towards the midline)
+ */
+function measureLeg(pose: Pose, leg: Leg): LegMeasurement | null {
+  const hip = getKeypoint(pose, `${leg}_hip`);
+  const knee = getKeypoint(pose, `${leg}_knee`);
+  const ankle = getKeypoint(pose, `${leg}_ankle`);
+  const otherHip = getKeypoint(pose, `${leg === 'left' ? 'right' : 'left'}_hip`);
+  if (!isVisible(hip) || !isVisible(knee) || !isVisible(ankle) || !isVisible(otherHip)) return null;
+  if (ankle.y === hip.y) return null;
+
+  const medialSign = Math.sign(otherHip.x - hip.x) || 1;
+  const lineX = hip.x + ((ankle.x - hip.x) * (knee.y - hip.y)) / (ankle.y - hip.y);
+  const offset = (knee.x - lineX) * medialSign;
+  const legLength = Math.hypot(ankle.x - hip.x, ankle.y - hip.y);
+
+  const deviationAngle = 180 - calculateAngle(hip, knee, ankle);
+  return {
+    valgus: offset >= 0 ? deviationAngle : -deviationAngle,
+    deviation: (offset / legLength) * 100,
+  };
+}
+
+/**
+ * Analyze a single front-facing pose
+ * @returns Signed knee deviation per leg, pelvic and shoulder tilt for the frame
+ */
+export function analyzeFrontalPose(pose: Pose): FrontalAnalysis | null {
+  if (!pose || !pose.keypoints) return null;
+
+  const result: FrontalAnalysis = {
+    angles: {},
+    recommendations: [],
+    overall: 'good',
+  };
+
+  const left = measureLeg(pose, 'left');
+  const right = measureLeg(pose, 'right');
+  if (left) result.angles.kneeValgusLeft = Math.round(left.valgus);
+  if (right) result.angles.kneeValgusRight = Math.round(right.valgus);
+
+  const leftHip = getKeypoint(pose, 'left_hip');
+  const rightHip = getKeypoint(pose, 'right_hip');
+  if (isVisible(leftHip) && isVisible(rightHip)) {
+    result.angles.pelvicDrop = Math.round(lineTilt(leftHip, rightHip));
+  }
+
+  const leftShoulder = getKeypoint(pose, 'left_shoulder');
+  const rightShoulder = getKeypoint(pose, 'right_shoulder');
+  if (isVisible(leftShoulder) && isVisible(rightShoulder)) {
+    result.angles.shoulderTilt = Math.round(lineTilt(leftShoulder, rightShoulder));
+  }
+
+  return Object.keys(result.angles).length > 0 ? result : null;
+}
+
+/**
+ * Frames in which each leg is in stance, from the lowest part of its ankle's vertical range
+ */
+function findStanceFrames(frames: FrameAnalysis[], leg: Leg): number[] {
+  const ankleYs = frames.map(({ pose }) => {
+    const ankle = getKeypoint(pose, `${leg}_ankle`);
+    return isVisible(ankle) ? ankle.y : null;
+  });
+  const visible = ankleYs.filter((y): y is number => y !== null);
+  if (visible.length === 0) return [];
+
+  const lowest = Math.max(...visible);
+  const highest = Math.min(...visible);
+  const threshold = lowest - (lowest - highest) * STANCE_FRACTION;
+
+  return ankleYs.flatMap((y, index) => (y !== null && y >= threshold ? [index] : []));
+}
+
+const getDefaultProfile = (sport: SportType): RuleProfile =>
+  sport === 'cycling' ? DEFAULT_BIKE_PROFILE : DEFAULT_RUNNING_PROFILE;
+
+/**
+ * Create frontal-plane recommendations for the combined measurements
+ * @param profile - Discipline whose ranges the measurements are judged against (knee travel in % of leg length)
+ */
+export function createFrontalRecommendations(
+  analysis: Pick<FrontalAnalysis, 'angles' | 'legs'>,
+  sport: SportType,
+  profile: RuleProfile = getDefaultProfile(sport)
+): Recommendation[] {
+  const recommendations: Recommendation[] = [];
+  const { ranges } = profile;
+  const phase = sport === 'cycling' ? 'through the pedal stroke' : 'during stance';
+
+  LEGS.forEach(leg => {
+    const metrics = analysis.legs?.[leg];
+    const label = leg === 'left' ? 'Left' : 'Right';
+    const area = `Knee Tracking (${label})`;
+
+    if (metrics?.peakValgus !== undefined) {
+      const { min, max } = ranges.kneeValgus;
+      if (metrics.peakValgus > max) {
+        recommendations.push({ area, type: 'warning', angle: metrics.peakValgus, message: `${label} knee collapses inward ${phase}` });
+      } else if (metrics.peakValgus < min) {
+        recommendations.push({ area, type: 'warning', angle: metrics.peakValgus, message: `${label} knee bows outward ${phase}` });
+      } else {
+        recommendations.push({ area, type: 'success', angle: metrics.peakValgus, message: `${label} knee tracks in line with hip and ankle` });
+      }
+    }
+
+    if (metrics?.lateralTravel !== undefined && metrics.lateralTravel > ranges.kneeTravel.max) {
+      recommendations.push({
+        area: `Knee Travel (${label})`,
+        type: 'warning',
+        value: metrics.lateralTravel,
+        unit: '% of leg',
+        message: `${label} knee sways side to side ${phase}`,
+      });
+    }
+  });
+
+  const { pelvicDrop, shoulderTilt } = analysis.angles;
+
+  if (pelvicDrop !== undefined) {
+    if (sport === 'cycling') {
+      const { max } = ranges.hipRocking;
+      recommendations.push(
+        pelvicDrop > max
+          ? { area: 'Hip Rocking', type: 'warning', angle: pelvicDrop, message: 'Hips rock side to side on the saddle - saddle may be too high' }
+          : { area: 'Hip Rocking', type: 'success', angle: pelvicDrop, message: 'Stable hips on the saddle' }
+      );
+    } else {
+      const { max } = ranges.pelvicDrop;
+      recommendations.push(
+        pelvicDrop > max
+          ? { area: 'Pelvic Drop', type: 'warning', angle: pelvicDrop, message: 'Opposite hip drops during stance - sign of weak hip abductors' }
+          : { area: 'Pelvic Drop', type: 'success', angle: pelvicDrop, message: 'Level pelvis during stance' }
+      );
+    }
+  }
+
+  if (shoulderTilt !== undefined) {
+    const { max } = ranges.shoulderTilt;
+    recommendations.push(
+      shoulderTilt > max
+        ? { area: 'Shoulder Tilt', type: 'warning', angle: shoulderTilt, message: 'Shoulders are not level - one side is carried lower' }
+        : { area: 'Shoulder Tilt', type: 'success', angle: shoulderTilt, message: 'Level shoulders' }
+    );
+  }
+
+  return recommendations;
+}
+
+/**
+ * Combine front-view frames into knee tracking, pelvic and shoulder measurements
+ * Cycling uses the whole pedal stroke; running uses each leg's stance phase
+ */
+export function combineFrontalAnalyses(
+  analyses: FrontalAnalysis[],
+  frames: FrameAnalysis[],
+  sport: SportType,
+  profile: RuleProfile = getDefaultProfile(sport)
+): FrontalAnalysis {
+  if (analyses.length === 0) {
+    throw new Error('No analyses to combine');
+  }
+
+  const allFrames = frames.map((_, index) => index);
+  const phaseFrames: Record<Leg, number[]> = {
+    left: sport === 'cycling' ? allFrames : findStanceFrames(frames, 'left'),
+    right: sport === 'cycling' ? allFrames : findStanceFrames(frames, 'right'),
+  };
+
+  // Knee tracking per leg over its phase frames
+  const legs = {} as Record<Leg, FrontalLegMetrics>;
+  LEGS.forEach(leg => {
+    const measurements = phaseFrames[leg]
+      .map(index => measureLeg(frames[index].pose, leg))
+      .filter((m): m is LegMeasurement => m !== null);
+
+    if (measurements.length === 0) {
+      legs[leg] = {};
+      return;
+    }
+
+    const deviations = measurements.map(m => m.deviation);
+    legs[leg] = {
+      peakValgus: Math.round(
+        measurements.reduce((peak, m) => (Math.abs(m.valgus) > Math.abs(peak) ? m.valgus : peak), 0)
+      ),
+      lateralTravel: Math.round(Math.max(...deviations) - Math.min(...deviations)),
+    };
+  });
+
+  // Pelvic tilt per frame (positive = left hip lower)
+  const pelvicTilts = frames.map(({ pose }) => {
+    const leftHip = getKeypoint(pose, 'left_hip');
+    const rightHip = getKeypoint(pose, 'right_hip');
+    return isVisible(leftHip) && isVisible(rightHip) ? lineTilt(leftHip, rightHip) : null;
+  });
+
+  let pelvicDrop: number | undefined;
+  if (sport === 'cycling') {
+    // Side-to-side hip rocking over the stroke
+    const tilts = pelvicTilts.filter((t): t is number => t !== null);
+    if (tilts.length > 0) pelvicDrop = Math.round(Math.max(...tilts) - Math.min(...tilts));
+  } else {
+    // The hip opposite the stance leg drops
+    const drops = [
+      ...phaseFrames.left.map(index => (pelvicTilts[index] !== null ? -pelvicTilts[index]! : null)),
+      ...phaseFrames.right.map(index => pelvicTilts[index]),
+    ].filter((d): d is number => d !== null);
+    if (drops.length > 0) pelvicDrop = Math.round(Math.max(0, ...drops));
+  }
+
+  // Average shoulder tilt magnitude
+  const shoulderTilts = analyses
+    .map(a => a.angles.shoulderTilt)
+    .filter((t): t is number => t !== undefined)
+    .map(Math.abs);
+  const shoulderTilt = shoulderTilts.length > 0
+    ? Math.round(shoulderTilts.reduce((sum, t) => sum + t, 0) / shoulderTilts.length)
+    : undefined;
+
+  const combined: FrontalAnalysis = {
+    angles: {},
+    recommendations: [],
+    overall: 'good',
+    legs,
+  };
+  if (legs.left.peakValgus !== undefined) combined.angles.kneeValgusLeft = legs.left.peakValgus;
+  if (legs.right.peakValgus !== undefined) combined.angles.kneeValgusRight = legs.right.peakValgus;
+  if (pelvicDrop !== undefined) combined.angles.pelvicDrop = pelvicDrop;
+  if (shoulderTilt !== undefined) combined.angles.shoulderTilt = shoulderTilt;
+
+  combined.recommendations = createFrontalRecommendations(combined, sport, profile);
+  combined.overall = assessBikeFitOverall(combined.recommendations);
+
+  return combined;
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import { segmentGaitCycles } from './gaitCycle';
+import type { FrameAnalysis, Keypoint, Pose } from '../types';
+
+describe('gaitCycle', () => {
+  const FPS = 30;
+  const STRIDE_FREQUENCY = 1.5; // strides per second
+
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  // Side-on runner: each ankle swings fore-aft around its hip, legs in antiphase
+  const createRunningPose = (t: number, direction: 1 | -1 = 1): Pose => {
+    const leg = (offset: number) => {
+      const swing = Math.sin(2 * Math.PI * STRIDE_FREQUENCY * t + offset);
+      return {
+        knee: { x: 300 + direction * 40 * swing, y: 300 },
+        ankle: { x: 300 + direction * 80 * swing, y: 400 - Math.max(0, -swing) * 40 },
+      };
+    };
+    const left = leg(0);
+    const right = leg(Math.PI);
+
+    return {
+      score: 0.9,
+      keypoints: [
+        createKeypoint('nose', 300 + direction * 20, 40),
+        createKeypoint('left_shoulder', 300, 80),
+        createKeypoint('right_shoulder', 300, 80),
+        createKeypoint('left_hip', 300, 200),
+        createKeypoint('right_hip', 300, 200),
+        createKeypoint('left_knee', left.knee.x, left.knee.y),
+        createKeypoint('right_knee', right.knee.x, right.knee.y),
+        createKeypoint('left_ankle', left.ankle.x, left.ankle.y),
+        createKeypoint('right_ankle', right.ankle.x, right.ankle.y),
+      ],
+    };
+  };
+
+  const createFrames = (seconds: number, direction: 1 | -1 = 1): FrameAnalysis[] =>
+    Array.from({ length: Math.round(seconds * FPS) }, (_, i) => {
+      const t = i / FPS;
+      return {
+        analysis: { angles: {}, recommendations: [], overall: 'good' },
+        pose: createRunningPose(t, direction),
+        timestamp: t,
+      };
+    });
+
+  describe('segmentGaitCycles', () => {
+    it('should return no cycles for an empty sequence', () => {
+      const result = segmentGaitCycles([]);
+
+      expect(result.events).toHaveLength(0);
+      expect(result.cycles).toHaveLength(0);
+      expect(result.framePhases).toHaveLength(0);
+    });
+
+    it('should detect foot strikes when the ankle is furthest ahead', () => {
+      const result = segmentGaitCycles(createFrames(3));
+      const leftStrikes = result.events.filter(e => e.leg === 'left' && e.phase === 'foot-strike');
+
+      expect(leftStrikes.length).toBeGreaterThanOrEqual(3);
+      leftStrikes.forEach(strike => {
+        // sin peaks at a quarter of each stride period
+        const cyclePosition = (strike.time * STRIDE_FREQUENCY) % 1;
+        expect(cyclePosition).toBeCloseTo(0.25, 1);
+      });
+    });
+
+    it('should detect toe-off when the ankle is furthest behind', () => {
+      const result = segmentGaitCycles(createFrames(3));
+      const leftToeOffs = result.events.filter(e => e.leg === 'left' && e.phase === 'toe-off');
+
+      expect(leftToeOffs.length).toBeGreaterThanOrEqual(3);
+      leftToeOffs.forEach(toeOff => {
+        const cyclePosition = (toeOff.time * STRIDE_FREQUENCY) % 1;
+        expect(cyclePosition).toBeCloseTo(0.75, 1);
+      });
+    });
+
+    it('should place mid-stance between foot strike and toe-off', () => {
+      const result = segmentGaitCycles(createFrames(3));
+      const leftEvents = result.events.filter(e => e.leg === 'left');
+
+      leftEvents.forEach((event, index) => {
+        if (event.phase === 'mid-stance') {
+          expect(leftEvents[index - 1].phase).toBe('foot-strike');
+          expect(leftEvents[index + 1].phase).toBe('toe-off');
+        }
+      });
+      expect(leftEvents.some(e => e.phase === 'mid-stance')).toBe(true);
+    });
+
+    it('should build stride cycles matching the stride period', () => {
+      const result = segmentGaitCycles(createFrames(3));
+
+      expect(result.cycles.length).toBeGreaterThan(0);
+      result.cycles.forEach(cycle => {
+        expect(cycle.duration).toBeCloseTo(1 / STRIDE_FREQUENCY, 1);
+        expect(cycle.events[0].phase).toBe('foot-strike');
+      });
+    });
+
+    it('should not build strides across the gap between trimmed segments', () => {
+      const first = createFrames(2).map(frame => ({ ...frame, segment: 0 }));
+      const second = createFrames(2).map(frame => ({ ...frame, timestamp: frame.timestamp + 60.3, segment: 1 }));
+      const result = segmentGaitCycles([...first, ...second]);
+
+      expect(result.cycles.some(cycle => cycle.start < 2)).toBe(true);
+      expect(result.cycles.some(cycle => cycle.start > 60)).toBe(true);
+      result.cycles.forEach(cycle => {
+        expect(cycle.duration).toBeCloseTo(1 / STRIDE_FREQUENCY, 1);
+      });
+      // Phases restart with the first event of the new segment
+      expect(result.framePhases[first.length]).toEqual({});
+    });
+
+    it('should detect both legs in antiphase', () => {
+      const result = segmentGaitCycles(createFrames(3));
+      const leftStrike = result.events.find(e => e.leg === 'left' && e.phase === 'foot-strike')!;
+      const rightStrike = result.events.find(e => e.leg === 'right' && e.phase === 'foot-strike')!;
+
+      const offset = Math.abs(leftStrike.time - rightStrike.time) * STRIDE_FREQUENCY;
+      expect(offset % 1).toBeCloseTo(0.5, 1);
+    });
+
+    it('should label every frame after the first event with a phase', () => {
+      const frames = createFrames(3);
+      const result = segmentGaitCycles(frames);
+      const firstLeftEvent = result.events.find(e => e.leg === 'left')!;
+
+      expect(result.framePhases).toHaveLength(frames.length);
+      result.framePhases.slice(firstLeftEvent.frameIndex).forEach(phases => {
+        expect(phases.left).toBeDefined();
+      });
+      expect(result.framePhases.some(p => p.left === 'swing')).toBe(true);
+    });
+
+    it('should report per-phase angles for each leg', () => {
+      const result = segmentGaitCycles(createFrames(3));
+
+      ['left', 'right'].forEach(leg => {
+        const angles = result.phaseAngles[leg as 'left' | 'right'];
+        expect(angles.kneeFlexionAtContact).toBeDefined();
+        expect(angles.kneeFlexionAtMidStance).toBeDefined();
+        expect(angles.hipExtensionAtToeOff).toBeDefined();
+        expect(angles.peakSwingKneeFlexion).toBeDefined();
+      });
+    });
+
+    it('should detect foot strikes for a runner facing the other way', () => {
+      const result = segmentGaitCycles(createFrames(3, -1));
+      const leftStrikes = result.events.filter(e => e.leg === 'left' && e.phase === 'foot-strike');
+
+      expect(leftStrikes.length).toBeGreaterThanOrEqual(3);
+      leftStrikes.forEach(strike => {
+        const cyclePosition = (strike.time * STRIDE_FREQUENCY) % 1;
+        expect(cyclePosition).toBeCloseTo(0.25, 1);
+      });
+    });
+
+    it('should ignore small jitter that does not reach step amplitude', () => {
+      const frames = createFrames(1).map((frame, i) => ({
+        ...frame,
+        pose: {
+          ...frame.pose,
+          keypoints: frame.pose.keypoints.map(kp =>
+            kp.name?.endsWith('ankle') ? { ...kp, x: 300 + (i % 2) * 3 } : kp
+          ),
+        },
+      }));
+
+      const result = segmentGaitCycles(frames);
+      expect(result.events).toHaveLength(0);
+    });
+
+    it('should skip frames where leg keypoints have low confidence', () => {
+      const frames = createFrames(3).map(frame => ({
+        ...frame,
+        pose: {
+          ...frame.pose,
+          keypoints: frame.pose.keypoints.map(kp =>
+            kp.name === 'right_ankle' ? { ...kp, score: 0.1 } : kp
+          ),
+        },
+      }));
+
+      const result = segmentGaitCycles(frames);
+      expect(result.events.some(e => e.leg === 'left')).toBe(true);
+      expect(result.events.some(e => e.leg === 'right')).toBe(false);
+    });
+  });
+});
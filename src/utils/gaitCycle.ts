@@ -0,0 +1,325 @@
+import { calculateAngle } from './poseDetection';
+import { splitBySegment } from './videoSegments';
+import type {
+  FrameAnalysis,
+  GaitAnalysis,
+  GaitCycle,
+  GaitEvent,
+  GaitLeg,
+  GaitPhase,
+  GaitPhaseAngles,
+  Keypoint,
+  Pose,
+} from '../types';
+
+/**
+ * Gait Cycle Segmentation
+ * - Detects foot-strike, mid-stance and toe-off for each leg from the ankle trajectory
+ * - Labels every frame with the gait phase it falls in
+ * - Reports joint angles tied to specific gait phases
+ * - Events and strides stay within a trimmed segment, never across a cut
+ */
+
+const LEGS: GaitLeg[] = ['left', 'right'];
+
+// Keypoints below this confidence are ignored
+const MIN_KEYPOINT_SCORE = 0.3;
+
+// Minimum fore-aft ankle travel (fraction of leg length) between a foot strike
+// and a toe-off for the turning point to count as a real step
+const MIN_STEP_AMPLITUDE = 0.15;
+
+interface LegSample {
+  frameIndex: number;
+  value: number;
+  segment?: number;
+}
+
+interface TurningPoint extends LegSample {
+  type: 'max' | 'min';
+}
+
+// Get keypoint by name
+function getKeypoint(pose: Pose, name: string): Keypoint | undefined {
+  return pose.keypoints.find(kp => kp.name === name);
+}
+
+function isVisible(keypoint: Keypoint | undefined): keypoint is Keypoint {
+  return !!keypoint && (keypoint.score || 0) > MIN_KEYPOINT_SCORE;
+}
+
+function distance(a: Keypoint, b: Keypoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function average(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+/**
+ * Determine which way the runner faces (+1 = towards increasing x)
+ * from the nose position relative to the shoulders
+ */
+function detectFacingDirection(frames: FrameAnalysis[]): 1 | -1 {
+  let total = 0;
+
+  frames.forEach(({ pose }) => {
+    const nose = getKeypoint(pose, 'nose');
+    const leftShoulder = getKeypoint(pose, 'left_shoulder');
+    const rightShoulder = getKeypoint(pose, 'right_shoulder');
+
+    if (isVisible(nose) && isVisible(leftShoulder) && isVisible(rightShoulder)) {
+      total += nose.x - (leftShoulder.x + rightShoulder.x) / 2;
+    }
+  });
+
+  return total < 0 ? -1 : 1;
+}
+
+/**
+ * Horizontal ankle position relative to the hip, normalised by leg length.
+ * Positive values mean the foot is ahead of the body.
+ */
+function getLegSignal(pose: Pose, leg: GaitLeg, direction: 1 | -1): number | null {
+  const hip = getKeypoint(pose, `${leg}_hip`);
+  const knee = getKeypoint(pose, `${leg}_knee`);
+  const ankle = getKeypoint(pose, `${leg}_ankle`);
+
+  if (!isVisible(hip) || !isVisible(knee) || !isVisible(ankle)) return null;
+
+  const legLength = distance(hip, knee) + distance(knee, ankle);
+  if (legLength === 0) return null;
+
+  return (direction * (ankle.x - hip.x)) / legLength;
+}
+
+// Knee flexion (0° = straight leg) for one leg
+function getKneeFlexion(pose: Pose, leg: GaitLeg): number | undefined {
+  const hip = getKeypoint(pose, `${leg}_hip`);
+  const knee = getKeypoint(pose, `${leg}_knee`);
+  const ankle = getKeypoint(pose, `${leg}_ankle`);
+
+  if (!isVisible(hip) || !isVisible(knee) || !isVisible(ankle)) return undefined;
+  return Math.round(180 - calculateAngle(hip, knee, ankle));
+}
+
+// Hip angle (shoulder-hip-knee) for one leg, 180° = fully extended
+function getHipAngle(pose: Pose, leg: GaitLeg): number | undefined {
+  const shoulder = getKeypoint(pose, `${leg}_shoulder`);
+  const hip = getKeypoint(pose, `${leg}_hip`);
+  const knee = getKeypoint(pose, `${leg}_knee`);
+
+  if (!isVisible(shoulder) || !isVisible(hip) || !isVisible(knee)) return undefined;
+  return Math.round(calculateAngle(shoulder, hip, knee));
+}
+
+/**
+ * Find alternating maxima/minima with hysteresis so that keypoint jitter
+ * does not produce spurious steps. Turning points on the first or last
+ * sample are dropped since the true extreme may lie outside the clip.
+ */
+function findTurningPoints(samples: LegSample[], minAmplitude: number): TurningPoint[] {
+  const points: TurningPoint[] = [];
+  if (samples.length < 3) return points;
+
+  let max = samples[0];
+  let min = samples[0];
+  let lookingForMax = true;
+
+  samples.forEach(sample => {
+    if (sample.value > max.value) max = sample;
+    if (sample.value < min.value) min = sample;
+
+    if (lookingForMax && sample.value < max.value - minAmplitude) {
+      points.push({ ...max, type: 'max' });
+      min = sample;
+      lookingForMax = false;
+    } else if (!lookingForMax && sample.value > min.value + minAmplitude) {
+      points.push({ ...min, type: 'min' });
+      max = sample;
+      lookingForMax = true;
+    }
+  });
+
+  const first = samples[0].frameIndex;
+  const last = samples[samples.length - 1].frameIndex;
+  return points.filter(p => p.frameIndex !== first && p.frameIndex !== last);
+}
+
+function createEvent(
+  frames: FrameAnalysis[],
+  leg: GaitLeg,
+  phase: GaitEvent['phase'],
+  frameIndex: number
+): GaitEvent {
+  const { pose, timestamp } = frames[frameIndex];
+  return {
+    leg,
+    phase,
+    frameIndex,
+    time: timestamp,
+    kneeFlexion: getKneeFlexion(pose, leg),
+    hipAngle: getHipAngle(pose, leg),
+  };
+}
+
+// Detect gait events for a single leg
+function detectLegEvents(frames: FrameAnalysis[], leg: GaitLeg, direction: 1 | -1): GaitEvent[] {
+  const samples: LegSample[] = [];
+  frames.forEach((frame, frameIndex) => {
+    const value = getLegSignal(frame.pose, leg, direction);
+    if (value !== null) samples.push({ frameIndex, value, segment: frame.segment });
+  });
+
+  const events: GaitEvent[] = [];
+
+  splitBySegment(samples).forEach(segmentSamples => {
+    const turningPoints = findTurningPoints(segmentSamples, MIN_STEP_AMPLITUDE);
+
+    turningPoints.forEach((point, index) => {
+      if (point.type === 'max') {
+        // Foot furthest ahead of the body = initial contact
+        events.push(createEvent(frames, leg, 'foot-strike', point.frameIndex));
+
+        // Mid-stance = ankle passes under the hip before toe-off
+        const toeOff = turningPoints[index + 1];
+        if (toeOff) {
+          const stance = segmentSamples.filter(
+            s => s.frameIndex > point.frameIndex && s.frameIndex < toeOff.frameIndex
+          );
+          if (stance.length > 0) {
+            const midStance = stance.reduce((best, s) =>
+              Math.abs(s.value) < Math.abs(best.value) ? s : best
+            );
+            events.push(createEvent(frames, leg, 'mid-stance', midStance.frameIndex));
+          }
+        }
+      } else {
+        // Foot furthest behind the body = toe-off
+        events.push(createEvent(frames, leg, 'toe-off', point.frameIndex));
+      }
+    });
+  });
+
+  return events;
+}
+
+// Build stride cycles (foot-strike to next foot-strike) for a single leg
+function buildCycles(frames: FrameAnalysis[], leg: GaitLeg, events: GaitEvent[]): GaitCycle[] {
+  const strikes = events.filter(e => e.phase === 'foot-strike');
+  const cycles: GaitCycle[] = [];
+
+  for (let i = 0; i < strikes.length - 1; i++) {
+    const start = strikes[i];
+    const end = strikes[i + 1];
+    if (frames[start.frameIndex].segment !== frames[end.frameIndex].segment) continue;
+
+    const cycleEvents = events.filter(
+      e => e.frameIndex >= start.frameIndex && e.frameIndex < end.frameIndex
+    );
+
+    // Peak knee flexion during swing (toe-off up to the next contact)
+    const toeOff = cycleEvents.find(e => e.phase === 'toe-off');
+    let peakSwingKneeFlexion: number | undefined;
+    if (toeOff) {
+      for (let f = toeOff.frameIndex; f < end.frameIndex; f++) {
+        const flexion = getKneeFlexion(frames[f].pose, leg);
+        if (flexion !== undefined && (peakSwingKneeFlexion === undefined || flexion > peakSwingKneeFlexion)) {
+          peakSwingKneeFlexion = flexion;
+        }
+      }
+    }
+
+    cycles.push({
+      leg,
+      start: start.time,
+      end: end.time,
+      duration: end.time - start.time,
+      events: cycleEvents,
+      peakSwingKneeFlexion,
+    });
+  }
+
+  return cycles;
+}
+
+function summarizePhaseAngles(events: GaitEvent[], cycles: GaitCycle[]): GaitPhaseAngles {
+  const valuesFor = (phase: GaitEvent['phase'], key: 'kneeFlexion' | 'hipAngle'): number[] =>
+    events
+      .filter(e => e.phase === phase)
+      .map(e => e[key])
+      .filter((v): v is number => v !== undefined);
+
+  return {
+    kneeFlexionAtContact: average(valuesFor('foot-strike', 'kneeFlexion')),
+    kneeFlexionAtMidStance: average(valuesFor('mid-stance', 'kneeFlexion')),
+    hipExtensionAtToeOff: average(valuesFor('toe-off', 'hipAngle')),
+    peakSwingKneeFlexion: average(
+      cycles.map(c => c.peakSwingKneeFlexion).filter((v): v is number => v !== undefined)
+    ),
+  };
+}
+
+/**
+ * Label every frame with the gait phase it falls in. A frame belongs to the
+ * phase opened by the most recent event in its segment; frames after toe-off are swing.
+ */
+function labelFramePhases(frames: FrameAnalysis[], events: GaitEvent[]): Array<Partial<Record<GaitLeg, GaitPhase>>> {
+  const frameCount = frames.length;
+  const labels: Array<Partial<Record<GaitLeg, GaitPhase>>> = Array.from({ length: frameCount }, () => ({}));
+
+  LEGS.forEach(leg => {
+    const legEvents = events.filter(e => e.leg === leg);
+    let current: GaitPhase | undefined;
+    let eventIndex = 0;
+
+    for (let f = 0; f < frameCount; f++) {
+      if (f > 0 && frames[f].segment !== frames[f - 1].segment) current = undefined;
+
+      if (eventIndex < legEvents.length && legEvents[eventIndex].frameIndex === f) {
+        current = legEvents[eventIndex].phase;
+        eventIndex++;
+      } else if (current === 'toe-off') {
+        current = 'swing';
+      }
+
+      if (current) labels[f][leg] = current;
+    }
+  });
+
+  return labels;
+}
+
+/**
+ * Segment a running pose sequence into gait cycles
+ * @param frames - Timestamped poses in chronological order (from useVideoAnalysis)
+ * @returns Detected events, stride cycles, per-frame phases and per-phase angles
+ */
+export function segmentGaitCycles(frames: FrameAnalysis[]): GaitAnalysis {
+  const direction = detectFacingDirection(frames);
+
+  const events: GaitEvent[] = [];
+  const cycles: GaitCycle[] = [];
+  const phaseAngles = {} as Record<GaitLeg, GaitPhaseAngles>;
+
+  LEGS.forEach(leg => {
+    const legEvents = detectLegEvents(frames, leg, direction);
+    const legCycles = buildCycles(frames, leg, legEvents);
+
+    events.push(...legEvents);
+    cycles.push(...legCycles);
+    phaseAngles[leg] = summarizePhaseAngles(legEvents, legCycles);
+  });
+
+  events.sort((a, b) => a.frameIndex - b.frameIndex);
+  cycles.sort((a, b) => a.start - b.start);
+
+  return {
+    direction,
+    events,
+    cycles,
+    phaseAngles,
+    framePhases: labelFramePhases(frames, events),
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { alignGhostPose, createGhostReference, findDeviatingSegments, GHOST_SEGMENT_TOLERANCE } from './ghostOverlay';
+import type { Keypoint, Pose } from '../types';
+
+describe('ghostOverlay', () => {
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  const createPose = (keypoints: Keypoint[]): Pose => ({ score: 0.9, keypoints });
+
+  // Side view athlete facing +x with the hip at (300, 300) and a 100px torso
+  const athlete = createPose([
+    createKeypoint('nose', 340, 170),
+    createKeypoint('left_shoulder', 300, 200),
+    createKeypoint('left_hip', 300, 300),
+    createKeypoint('left_knee', 380, 350),
+    createKeypoint('left_ankle', 380, 450),
+  ]);
+
+  const rounded = (pose: Pose | null) => pose?.keypoints.map(({ name, x, y }) => [name, Math.round(x), Math.round(y)]);
+
+  describe('alignGhostPose', () => {
+    it('should place the ghost hips on the athlete and match torso length', () => {
+      const ghost = createPose([
+        createKeypoint('nose', 120, -60),
+        createKeypoint('left_shoulder', 100, 0),
+        createKeypoint('left_hip', 100, 200),
+        createKeypoint('left_knee', 260, 300),
+      ]);
+
+      expect(rounded(alignGhostPose(ghost, athlete))).toEqual([
+        ['nose', 310, 170],
+        ['left_shoulder', 300, 200],
+        ['left_hip', 300, 300],
+        ['left_knee', 380, 350],
+      ]);
+    });
+
+    it('should mirror a ghost facing the other way', () => {
+      const ghost = createPose([
+        createKeypoint('nose', 60, 170),
+        createKeypoint('left_shoulder', 100, 200),
+        createKeypoint('left_hip', 100, 300),
+        createKeypoint('left_knee', 20, 350),
+      ]);
+
+      const aligned = rounded(alignGhostPose(ghost, athlete));
+      expect(aligned?.[0]).toEqual(['nose', 340, 170]);
+      expect(aligned?.[3]).toEqual(['left_knee', 380, 350]);
+    });
+
+    it('should return null without visible hips or shoulders', () => {
+      const ghost = createPose([createKeypoint('left_hip', 100, 300)]);
+      expect(alignGhostPose(ghost, athlete)).toBeNull();
+    });
+  });
+
+  describe('findDeviatingSegments', () => {
+    const connections: Array<[string, string]> = [
+      ['left_shoulder', 'left_hip'],
+      ['left_hip', 'left_knee'],
+      ['left_knee', 'left_ankle'],
+    ];
+
+    it('should flag segments pointing away from the ghost', () => {
+      // Shin swung forward by about 27 degrees
+      const ghost = createPose([
+        createKeypoint('left_shoulder', 300, 200),
+        createKeypoint('left_hip', 300, 300),
+        createKeypoint('left_knee', 380, 350),
+        createKeypoint('left_ankle', 430, 450),
+      ]);
+
+      expect(findDeviatingSegments(athlete, ghost, connections)).toEqual([['left_knee', 'left_ankle']]);
+    });
+
+    it('should ignore differences within the tolerance', () => {
+      const ghost = createPose([
+        createKeypoint('left_shoulder', 300, 200),
+        createKeypoint('left_hip', 300, 300),
+        createKeypoint('left_knee', 380, 350),
+        createKeypoint('left_ankle', 380 + 100 * Math.tan(((GHOST_SEGMENT_TOLERANCE - 5) * Math.PI) / 180), 450),
+      ]);
+
+      expect(findDeviatingSegments(athlete, ghost, connections)).toEqual([]);
+    });
+
+    it('should skip segments missing from either pose', () => {
+      const ghost = createPose([
+        createKeypoint('left_hip', 300, 300),
+        createKeypoint('left_knee', 300, 400),
+        createKeypoint('left_ankle', 450, 450, 0.1),
+      ]);
+
+      expect(findDeviatingSegments(athlete, ghost, connections)).toEqual([['left_hip', 'left_knee']]);
+    });
+  });
+
+  describe('createGhostReference', () => {
+    it('should fall back to wall time when no cycles are found', () => {
+      const frames = [{ analysis: { angles: {}, recommendations: [], overall: 'good' as const }, pose: athlete, timestamp: 0 }];
+      const ghost = createGhostReference(frames, frames, 'bike');
+
+      expect(ghost.frames).toBe(frames);
+      expect(ghost.alignment).toEqual({ mode: 'time', anchors: [[0, 0]] });
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { findCycleStartTimes, createPhaseAlignment, measureTorso } from './videoComparison';
+import type { FrameAnalysis, GhostReference, Keypoint, Pose, TorsoMeasurement } from '../types';
+
+/**
+ * Ghost Overlay
+ * - Reference pose sequence (a previous session or a model athlete) drawn over the live video
+ * - Aligned on pedal-stroke or stride phase, at the hip, and scaled to the athlete's torso
+ * - Limb segments whose direction differs from the reference beyond a tolerance
+ */
+
+// Limb segments pointing more than this many degrees away from the ghost are highlighted
+export const GHOST_SEGMENT_TOLERANCE = 15;
+
+// Keypoints below this confidence are ignored
+const MIN_KEYPOINT_SCORE = 0.3;
+
+// Minimum horizontal nose offset from the shoulders (fraction of torso length) to tell facing direction
+const MIN_FACING_OFFSET = 0.1;
+
+function getKeypoint(pose: Pose, name: string): Keypoint | undefined {
+  return pose.keypoints.find(kp => kp.name === name);
+}
+
+function isVisible(keypoint: Keypoint | undefined): keypoint is Keypoint {
+  return !!keypoint && (keypoint.score || 0) > MIN_KEYPOINT_SCORE;
+}
+
+/**
+ * Align a reference session to the athlete's video on cycle phase
+ * @param frames - Athlete's analyzed frames
+ * @param referenceFrames - Frames of the session drawn as the ghost
+ */
+export function createGhostReference(
+  frames: FrameAnalysis[],
+  referenceFrames: FrameAnalysis[],
+  analysisType: 'bike' | 'running'
+): GhostReference {
+  return {
+    frames: referenceFrames,
+    alignment: createPhaseAlignment(
+      findCycleStartTimes(frames, analysisType),
+      findCycleStartTimes(referenceFrames, analysisType)
+    ),
+  };
+}
+
+/**
+ * Direction the athlete faces in a side view (+1 = towards increasing x)
+ * @returns null when the head is not clearly ahead of the shoulders (e.g. front views)
+ */
+function getFacing(pose: Pose, torso: TorsoMeasurement): 1 | -1 | null {
+  const nose = getKeypoint(pose, 'nose');
+  if (!isVisible(nose)) return null;
+
+  const offset = nose.x - torso.shoulders.x;
+  if (Math.abs(offset) < MIN_FACING_OFFSET * torso.length) return null;
+  return offset > 0 ? 1 : -1;
+}
+
+/**
+ * Move the ghost so its hips sit on the athlete's hips and scale it to the athlete's torso length,
+ * mirroring it when the two face opposite directions
+ * @returns null if either pose has no visible hips or shoulders
+ */
+export function alignGhostPose(ghost: Pose, athlete: Pose): Pose | null {
+  const ghostTorso = measureTorso(ghost);
+  const athleteTorso = measureTorso(athlete);
+  if (!ghostTorso || !athleteTorso) return null;
+
+  const scale = athleteTorso.length / ghostTorso.length;
+  const ghostFacing = getFacing(ghost, ghostTorso);
+  const athleteFacing = getFacing(athlete, athleteTorso);
+  const mirror = ghostFacing !== null && athleteFacing !== null && ghostFacing !== athleteFacing ? -1 : 1;
+
+  return {
+    ...ghost,
+    keypoints: ghost.keypoints.map(kp => ({
+      ...kp,
+      x: athleteTorso.hips.x + (kp.x - ghostTorso.hips.x) * scale * mirror,
+      y: athleteTorso.hips.y + (kp.y - ghostTorso.hips.y) * scale,
+    })),
+  };
+}
+
+// Direction of a segment in degrees, or null if either end is not visible
+function segmentDirection(pose: Pose, [startName, endName]: [string, string]): number | null {
+  const start = getKeypoint(pose, startName);
+  const end = getKeypoint(pose, endName);
+  if (!isVisible(start) || !isVisible(end)) return null;
+  return Math.atan2(end.y - start.y, end.x - start.x) * (180 / Math.PI);
+}
+
+/**
+ * Skeleton segments whose direction differs from the aligned ghost by more than the tolerance
+ * @param connections - Segments to compare, as keypoint name pairs
+ */
+export function findDeviatingSegments(
+  athlete: Pose,
+  ghost: Pose,
+  connections: Array<[string, string]>,
+  tolerance: number = GHOST_SEGMENT_TOLERANCE
+): Array<[string, string]> {
+  return connections.filter(connection => {
+    const athleteDirection = segmentDirection(athlete, connection);
+    const ghostDirection = segmentDirection(ghost, connection);
+    if (athleteDirection === null || ghostDirection === null) return false;
+
+    const diff = Math.abs(athleteDirection - ghostDirection) % 360;
+    return (diff > 180 ? 360 - diff : diff) > tolerance;
+  });
+}
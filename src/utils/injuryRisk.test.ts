@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessInjuryRisk,
+  createInjuryRiskRecommendations,
+  measureOverstriding,
+  getRiskLevel,
+} from './injuryRisk';
+import { prioritizeRecommendations } from './enhancedRecommendations';
+import { DEFAULT_BIKE_PROFILE, DEFAULT_RUNNING_PROFILE } from './ruleProfiles';
+import type { FrameAnalysis, GaitAnalysis, GaitEvent, GaitLeg, InjuryRegion, InjuryRiskAssessment, Recommendation } from '../types';
+
+describe('injuryRisk', () => {
+  const getRegion = (assessment: InjuryRiskAssessment, region: InjuryRegion) =>
+    assessment.regions.find(r => r.region === region)!;
+
+  describe('getRiskLevel', () => {
+    it('should map scores to risk levels', () => {
+      expect(getRiskLevel(0)).toBe('low');
+      expect(getRiskLevel(30)).toBe('moderate');
+      expect(getRiskLevel(60)).toBe('high');
+    });
+  });
+
+  describe('assessInjuryRisk', () => {
+    it('should report low risk in every region without risk factors', () => {
+      const assessment = assessInjuryRisk({ angles: { back: 40, hipAtTDC: 45 }, profile: DEFAULT_BIKE_PROFILE });
+
+      expect(assessment.regions.map(r => r.region).sort()).toEqual(['achilles', 'hip', 'knee', 'lowerBack']);
+      assessment.regions.forEach(region => {
+        expect(region.score).toBe(0);
+        expect(region.factors).toEqual([]);
+      });
+      expect(assessment.overall).toBe('low');
+    });
+
+    it('should load the knee and Achilles when overstriding', () => {
+      const assessment = assessInjuryRisk({ angles: {}, profile: DEFAULT_RUNNING_PROFILE, overstrideRate: 0.6 });
+
+      expect(getRegion(assessment, 'knee').score).toBe(40);
+      expect(getRegion(assessment, 'achilles').score).toBe(45);
+      expect(getRegion(assessment, 'achilles').factors[0].explanation).toContain('60% of foot strikes');
+      expect(assessment.regions[0].region).toBe('achilles');
+    });
+
+    it('should ignore occasional overstriding and overstriding on the bike', () => {
+      expect(assessInjuryRisk({ angles: {}, profile: DEFAULT_RUNNING_PROFILE, overstrideRate: 0.1 }).overall).toBe('low');
+      expect(assessInjuryRisk({ angles: {}, profile: DEFAULT_BIKE_PROFILE, overstrideRate: 1 }).overall).toBe('low');
+    });
+
+    it('should rate knee valgus beyond the critical threshold as high knee risk', () => {
+      const assessment = assessInjuryRisk({
+        angles: { kneeValgusLeft: 3, kneeValgusRight: 15 },
+        profile: DEFAULT_RUNNING_PROFILE,
+      });
+
+      const knee = getRegion(assessment, 'knee');
+      expect(knee.score).toBe(60);
+      expect(knee.level).toBe('high');
+      expect(knee.factors[0].explanation).toContain('15°');
+      expect(getRegion(assessment, 'hip').score).toBe(20);
+    });
+
+    it('should scale range factors with the profile severity thresholds', () => {
+      const angles = { kneeValgusRight: 10 };
+      const strict = {
+        ...DEFAULT_RUNNING_PROFILE,
+        severity: { ...DEFAULT_RUNNING_PROFILE.severity, kneeValgus: { moderate: 5, critical: 10 } },
+      };
+
+      const defaultScore = getRegion(assessInjuryRisk({ angles, profile: DEFAULT_RUNNING_PROFILE }), 'knee').score;
+      const strictScore = getRegion(assessInjuryRisk({ angles, profile: strict }), 'knee').score;
+
+      expect(defaultScore).toBeGreaterThan(0);
+      expect(strictScore).toBeGreaterThan(defaultScore);
+    });
+
+    it('should flag lumbar flexion from a flat back on the bike', () => {
+      const assessment = assessInjuryRisk({ angles: { back: 25, hipAtTDC: 30 }, profile: DEFAULT_BIKE_PROFILE });
+
+      const lowerBack = getRegion(assessment, 'lowerBack');
+      expect(lowerBack.level).toBe('high');
+      expect(lowerBack.factors.map(f => f.id)).toEqual(['lumbar-flexion', 'hip-closure']);
+      expect(lowerBack.score).toBe(85);
+      expect(getRegion(assessment, 'hip').score).toBe(30);
+    });
+
+    it('should flag toes pointing down on the bike as Achilles load', () => {
+      const assessment = assessInjuryRisk({ angles: { ankle: 160 }, profile: DEFAULT_BIKE_PROFILE });
+
+      expect(getRegion(assessment, 'achilles').score).toBe(50);
+    });
+
+    it('should add asymmetry and low consistency to the matching region', () => {
+      const assessment = assessInjuryRisk({
+        angles: {},
+        profile: DEFAULT_RUNNING_PROFILE,
+        asymmetry: {
+          kneeAngle: { left: 150, right: 130, difference: 20, percentDiff: 15, status: 'significant' },
+          hipAngle: { left: 160, right: 159, difference: 1, percentDiff: 0.6, status: 'balanced' },
+          armAngle: { left: 90, right: 60, difference: 30, percentDiff: 40, status: 'significant' },
+        },
+        detailedMetrics: {
+          hipExtension: { min: 5, max: 40, avg: 20, stdDev: 10, range: 35, consistency: 40, values: [] },
+          kneeLift: { min: 100, max: 110, avg: 105, stdDev: 2, range: 10, consistency: 95, values: [] },
+        },
+      });
+
+      expect(getRegion(assessment, 'knee').factors.map(f => f.id)).toEqual(['asymmetry-kneeAngle']);
+      expect(getRegion(assessment, 'knee').score).toBe(35);
+      expect(getRegion(assessment, 'hip').factors.map(f => f.id)).toEqual(['consistency-hipExtension']);
+      expect(getRegion(assessment, 'hip').score).toBe(25);
+    });
+
+    it('should cap region scores at 100', () => {
+      const assessment = assessInjuryRisk({
+        angles: { kneeValgusLeft: 20 },
+        profile: DEFAULT_RUNNING_PROFILE,
+        overstrideRate: 1,
+        asymmetry: { kneeAngle: { left: 150, right: 120, difference: 30, percentDiff: 22, status: 'significant' } },
+      });
+
+      expect(getRegion(assessment, 'knee').score).toBe(100);
+      expect(getRegion(assessment, 'knee').factors[0].id).toBe('knee-valgus');
+    });
+  });
+
+  describe('measureOverstriding', () => {
+    // Shin of 100px with the ankle landing `reach` px to the right of the knee
+    const createFrame = (leg: GaitLeg, reach: number): FrameAnalysis => ({
+      analysis: { angles: {}, recommendations: [], overall: 'good' },
+      pose: {
+        keypoints: [
+          { name: `${leg}_knee`, x: 300, y: 300, score: 0.9 },
+          { name: `${leg}_ankle`, x: 300 + reach, y: 300 + Math.sqrt(100 ** 2 - reach ** 2), score: 0.9 },
+        ],
+        score: 0.9,
+      },
+      timestamp: 0,
+    });
+
+    const createGait = (strikes: Array<[number, GaitLeg]>, direction: 1 | -1 = 1): GaitAnalysis => ({
+      direction,
+      events: [
+        ...strikes.map(([frameIndex, leg]): GaitEvent => ({ leg, phase: 'foot-strike', frameIndex, time: 0 })),
+        { leg: 'left', phase: 'toe-off', frameIndex: 1, time: 0 },
+      ],
+      cycles: [],
+      phaseAngles: { left: {}, right: {} },
+      framePhases: [],
+    });
+
+    it('should return the share of foot strikes that overstride', () => {
+      const frames = [createFrame('left', 50), createFrame('left', 40), createFrame('left', 0), createFrame('left', -10)];
+
+      expect(measureOverstriding(frames, createGait([[0, 'left'], [1, 'left'], [2, 'left'], [3, 'left']]))).toBe(0.5);
+    });
+
+    it('should judge each strike on the striking leg', () => {
+      const frames = [createFrame('right', 50), createFrame('left', 0)];
+
+      expect(measureOverstriding(frames, createGait([[0, 'right'], [1, 'left']]))).toBe(0.5);
+    });
+
+    it('should measure runners moving left', () => {
+      const frames = [createFrame('left', -50), createFrame('right', 50)];
+
+      expect(measureOverstriding(frames, createGait([[0, 'left'], [1, 'right']], -1))).toBe(0.5);
+    });
+
+    it('should return null without checked foot strikes', () => {
+      expect(measureOverstriding([createFrame('right', 50)], createGait([[0, 'left']]))).toBeNull();
+      expect(measureOverstriding([], createGait([]))).toBeNull();
+    });
+  });
+
+  describe('createInjuryRiskRecommendations', () => {
+    it('should create critical recommendations for high risk and skip low risk', () => {
+      const assessment = assessInjuryRisk({
+        angles: { kneeValgusLeft: 20 },
+        profile: DEFAULT_RUNNING_PROFILE,
+        overstrideRate: 0.4,
+      });
+
+      const recommendations = createInjuryRiskRecommendations(assessment);
+
+      // Hip (20) and Achilles (23) stay low
+      expect(recommendations.map(rec => [rec.area, rec.severity])).toEqual([['Knee Injury Risk', 'critical']]);
+      expect(recommendations[0].value).toBe(80);
+      expect(recommendations[0].message).toMatch(/^High knee injury risk - /);
+      expect(recommendations[0].drills!.length).toBeGreaterThan(0);
+      expect(recommendations[0].priorityScore).toBe(3);
+    });
+
+    it('should sort ahead of minor recommendations when prioritized', () => {
+      const assessment = assessInjuryRisk({ angles: { back: 25 }, profile: DEFAULT_BIKE_PROFILE });
+      const minor: Recommendation = { area: 'Elbow Angle', type: 'info', message: '', severity: 'minor', priorityScore: 1 };
+
+      const sorted = prioritizeRecommendations([minor, ...createInjuryRiskRecommendations(assessment)]);
+
+      expect(sorted[0].area).toBe('Lower back Injury Risk');
+      expect(sorted[0].severity).toBe('critical');
+    });
+
+    it('should mark moderate risk as moderate severity', () => {
+      const assessment = assessInjuryRisk({ angles: {}, profile: DEFAULT_RUNNING_PROFILE, overstrideRate: 0.6 });
+
+      expect(createInjuryRiskRecommendations(assessment).map(rec => [rec.area, rec.severity])).toEqual([
+        ['Achilles Injury Risk', 'moderate'],
+        ['Knee Injury Risk', 'moderate'],
+      ]);
+    });
+  });
+});
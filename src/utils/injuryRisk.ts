@@ -0,0 +1,296 @@
+import { getSeverityScore } from './enhancedRecommendations';
+import { formatMetricName } from './detailedMetrics';
+import { getFootStrikeOffset, OVERSTRIDE_SHIN_RATIO } from './runningAnalysis';
+import type {
+  AngleData,
+  Asymmetry,
+  DetailedMetrics,
+  FrameAnalysis,
+  GaitAnalysis,
+  InjuryRegion,
+  InjuryRiskAssessment,
+  OptimalRange,
+  Recommendation,
+  RegionRisk,
+  RiskFactor,
+  RiskLevel,
+  RuleProfile,
+  SeverityLevel,
+  SeverityThresholds,
+} from '../types';
+
+/**
+ * Injury Risk Assessment
+ * - Combines overstriding, knee valgus, left/right asymmetry, lumbar flexion on the bike
+ *   and low consistency into a 0-100 risk score per body region
+ * - Range-based factors reach their full weight at the rule profile's critical threshold
+ * - High and moderate risks become recommendations that sort with the rest
+ */
+
+export const REGION_LABELS: Record<InjuryRegion, string> = {
+  knee: 'Knee',
+  lowerBack: 'Lower back',
+  hip: 'Hip',
+  achilles: 'Achilles',
+};
+
+// Region scores at or above these are high / moderate risk
+export const HIGH_RISK_SCORE = 60;
+export const MODERATE_RISK_SCORE = 30;
+
+// Most points each factor can add to a region
+const WEIGHTS = {
+  overstriding: { knee: 40, achilles: 45 },
+  kneeValgus: { knee: 60, hip: 20 },
+  pelvicDrop: { hip: 45, lowerBack: 20 },
+  lumbarFlexion: { lowerBack: 60 },
+  hipClosure: { lowerBack: 25, hip: 30 },
+  ankleReach: { achilles: 50 },
+  asymmetry: 35,
+  consistency: 25,
+} satisfies Record<string, Partial<Record<InjuryRegion, number>> | number>;
+
+// Share of foot strikes landing ahead of the body: no risk at the lower value, full weight at the upper
+const OVERSTRIDE_RATES = { min: 0.2, max: 0.6 };
+
+// Left/right difference (percent): balanced below the lower value, full weight at the upper
+const ASYMMETRY_PERCENT = { min: 5, max: 15 };
+
+// Consistency score: no risk above the upper value, full weight at the lower
+const CONSISTENCY_SCORES = { min: 40, max: 70 };
+
+// Ankle angle on the bike (degrees): toes pointing down past the lower value, full weight at the upper
+const ANKLE_REACH_ANGLES = { min: 140, max: 160 };
+
+// Asymmetry and consistency keys and the region they load
+const ASYMMETRY_REGIONS: Record<string, InjuryRegion> = {
+  kneeAngle: 'knee',
+  hipAngle: 'hip',
+};
+
+const CONSISTENCY_REGIONS: Record<string, InjuryRegion> = {
+  knee: 'knee',
+  kneeLift: 'knee',
+  hip: 'hip',
+  hipExtension: 'hip',
+  back: 'lowerBack',
+  bodyLean: 'lowerBack',
+  ankle: 'achilles',
+};
+
+const RISK_DRILLS: Record<InjuryRegion, string[]> = {
+  knee: [
+    'Single-leg squats and step-downs in front of a mirror, keeping the knee over the second toe',
+    'Lateral band walks and clamshells for hip abductor strength',
+    'Reduce volume or intensity until knee tracking improves',
+  ],
+  lowerBack: [
+    'Dead bugs, bird dogs and side planks for trunk stability',
+    'Hip flexor and hamstring mobility work after each session',
+    'Raise the handlebars or shorten the reach until you can hold a neutral spine',
+  ],
+  hip: [
+    'Single-leg glute bridges and side-lying hip abduction',
+    'Single-leg balance drills, progressing to hops',
+    'Check saddle height and cleat stance width if hips rock on the bike',
+  ],
+  achilles: [
+    'Eccentric heel drops off a step, 3 x 15 daily',
+    'Increase cadence 5% to shorten the stride and land under the hips',
+    'Check saddle height and cleat position if the toes point down at the bottom of the stroke',
+  ],
+};
+
+export interface InjuryRiskInput {
+  angles: AngleData;
+  profile: RuleProfile; // Sport and ranges the analysis was scored with
+  detailedMetrics?: DetailedMetrics | null;
+  asymmetry?: Asymmetry | null;
+  overstrideRate?: number | null; // From measureOverstriding
+}
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+// Position between a no-risk value and a full-weight value (either order)
+const scale = (value: number, none: number, full: number): number => clamp01((value - none) / (full - none));
+
+/**
+ * How far a value lies beyond a range, from 0 at the bound to 1 at the critical threshold
+ * @param side - Which side of the range is harmful
+ */
+function rangeExcess(value: number, range: OptimalRange, thresholds: SeverityThresholds, side: 'low' | 'high'): number {
+  const beyond = side === 'high' ? value - range.max : range.min - value;
+  if (beyond <= 0) return 0;
+  const percent = (beyond / (range.max - range.min)) * 100;
+  return clamp01(percent / thresholds.critical);
+}
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= HIGH_RISK_SCORE) return 'high';
+  if (score >= MODERATE_RISK_SCORE) return 'moderate';
+  return 'low';
+}
+
+/**
+ * Share of foot strikes landing too far ahead of the knee
+ * Each strike is judged on the striking leg, in the direction the runner is moving
+ * @returns null when no foot strike could be checked
+ */
+export function measureOverstriding(frames: FrameAnalysis[], gaitAnalysis: GaitAnalysis): number | null {
+  const offsets = gaitAnalysis.events
+    .filter(event => event.phase === 'foot-strike')
+    .map(event => {
+      const pose = frames[event.frameIndex]?.pose;
+      return pose ? getFootStrikeOffset(pose, event.leg, gaitAnalysis.direction) : undefined;
+    })
+    .filter((offset): offset is number => offset !== undefined);
+  if (offsets.length === 0) return null;
+
+  return offsets.filter(offset => offset > OVERSTRIDE_SHIN_RATIO).length / offsets.length;
+}
+
+/**
+ * Score each body region from the factors present in one analysis
+ * Side-view analyses contribute overstriding, lumbar flexion, asymmetry and consistency;
+ * front-view analyses contribute knee valgus and pelvic drop
+ */
+export function assessInjuryRisk({
+  angles,
+  profile,
+  detailedMetrics = null,
+  asymmetry = null,
+  overstrideRate = null,
+}: InjuryRiskInput): InjuryRiskAssessment {
+  const factors: Record<InjuryRegion, RiskFactor[]> = { knee: [], lowerBack: [], hip: [], achilles: [] };
+
+  const addFactor = (
+    weights: Partial<Record<InjuryRegion, number>>,
+    severity: number,
+    factor: Omit<RiskFactor, 'points'>
+  ) => {
+    (Object.entries(weights) as Array<[InjuryRegion, number]>).forEach(([region, weight]) => {
+      const points = Math.round(weight * severity);
+      if (points > 0) factors[region].push({ ...factor, points });
+    });
+  };
+
+  if (profile.sport === 'running' && overstrideRate !== null) {
+    const percent = Math.round(overstrideRate * 100);
+    addFactor(WEIGHTS.overstriding, scale(overstrideRate, OVERSTRIDE_RATES.min, OVERSTRIDE_RATES.max), {
+      id: 'overstriding',
+      label: 'Overstriding',
+      explanation: `${percent}% of foot strikes land ahead of the body, adding braking load through the knee and Achilles`,
+    });
+  }
+
+  // Front view: inward knee collapse and hip drop
+  const { kneeValgus } = profile.ranges;
+  const kneeValgusThresholds = profile.severity.kneeValgus;
+  const valgus = [angles.kneeValgusLeft, angles.kneeValgusRight].filter((v): v is number => v !== undefined);
+  if (valgus.length > 0) {
+    const peak = Math.max(...valgus);
+    addFactor(WEIGHTS.kneeValgus, rangeExcess(peak, kneeValgus, kneeValgusThresholds, 'high'), {
+      id: 'knee-valgus',
+      label: 'Knee valgus',
+      explanation: `Knee collapses inward up to ${peak}° (optimal up to ${kneeValgus.max}°), straining the inside of the knee`,
+    });
+  }
+
+  if (angles.pelvicDrop !== undefined) {
+    const isBike = profile.sport === 'bike';
+    const range = isBike ? profile.ranges.hipRocking : profile.ranges.pelvicDrop;
+    const thresholds = isBike ? profile.severity.hipRocking : profile.severity.pelvicDrop;
+    addFactor(WEIGHTS.pelvicDrop, rangeExcess(angles.pelvicDrop, range, thresholds, 'high'), {
+      id: 'pelvic-drop',
+      label: isBike ? 'Hip rocking' : 'Pelvic drop',
+      explanation: `${isBike ? 'Hips rock' : 'Pelvis drops'} ${angles.pelvicDrop}° (optimal up to ${range.max}°), overloading the hip abductors and lower back`,
+    });
+  }
+
+  // Side view on the bike: a flat back with a closed hip flexes the lumbar spine
+  if (profile.sport === 'bike') {
+    const { ranges, severity } = profile;
+    if (angles.back !== undefined) {
+      addFactor(WEIGHTS.lumbarFlexion, rangeExcess(angles.back, ranges.back, severity.back, 'low'), {
+        id: 'lumbar-flexion',
+        label: 'Lumbar flexion',
+        explanation: `Back angle of ${angles.back}° (optimal from ${ranges.back.min}°) rounds the lower back when the pelvis cannot rotate further`,
+      });
+    }
+    if (angles.hipAtTDC !== undefined) {
+      addFactor(WEIGHTS.hipClosure, rangeExcess(angles.hipAtTDC, ranges.hipAtTDC, severity.hipAtTDC, 'low'), {
+        id: 'hip-closure',
+        label: 'Closed hip at top of stroke',
+        explanation: `Hip closes to ${angles.hipAtTDC}° at the top of the stroke (optimal from ${ranges.hipAtTDC.min}°), pinching the hip and pulling on the lower back`,
+      });
+    }
+    if (angles.ankle !== undefined) {
+      addFactor(WEIGHTS.ankleReach, scale(angles.ankle, ANKLE_REACH_ANGLES.min, ANKLE_REACH_ANGLES.max), {
+        id: 'ankle-reach',
+        label: 'Reaching for the pedals',
+        explanation: `Ankle angle of ${angles.ankle}° means the toes point down to reach the pedal, loading the Achilles`,
+      });
+    }
+  }
+
+  Object.entries(asymmetry ?? {}).forEach(([key, data]) => {
+    const region = ASYMMETRY_REGIONS[key];
+    if (!region) return;
+    addFactor({ [region]: WEIGHTS.asymmetry }, scale(data.percentDiff, ASYMMETRY_PERCENT.min, ASYMMETRY_PERCENT.max), {
+      id: `asymmetry-${key}`,
+      label: `${REGION_LABELS[region]} asymmetry`,
+      explanation: `${data.percentDiff}% left/right difference (${data.left}° vs ${data.right}°) puts more load on one side`,
+    });
+  });
+
+  Object.entries(detailedMetrics ?? {}).forEach(([key, metric]) => {
+    const region = CONSISTENCY_REGIONS[key];
+    if (!region) return;
+    addFactor(
+      { [region]: WEIGHTS.consistency },
+      scale(metric.consistency, CONSISTENCY_SCORES.max, CONSISTENCY_SCORES.min),
+      {
+        id: `consistency-${key}`,
+        label: 'Low consistency',
+        explanation: `${formatMetricName(key)} consistency of ${metric.consistency}% (${metric.min}° to ${metric.max}°) suggests fatigue or poor control`,
+      }
+    );
+  });
+
+  const regions: RegionRisk[] = (Object.keys(factors) as InjuryRegion[])
+    .map(region => {
+      const sorted = [...factors[region]].sort((a, b) => b.points - a.points);
+      const score = Math.min(100, sorted.reduce((sum, factor) => sum + factor.points, 0));
+      return { region, label: REGION_LABELS[region], score, level: getRiskLevel(score), factors: sorted };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    regions,
+    overall: getRiskLevel(regions[0].score),
+  };
+}
+
+/**
+ * Recommendations for regions at moderate or high risk
+ * High risk is critical so it sorts ahead of single-angle issues of the same area
+ */
+export function createInjuryRiskRecommendations(assessment: InjuryRiskAssessment): Recommendation[] {
+  return assessment.regions
+    .filter(region => region.level !== 'low')
+    .map(region => {
+      const severity: SeverityLevel = region.level === 'high' ? 'critical' : 'moderate';
+      const [mainFactor] = region.factors;
+      return {
+        area: `${region.label} Injury Risk`,
+        type: 'warning',
+        value: region.score,
+        unit: '/ 100',
+        message: `${region.level === 'high' ? 'High' : 'Moderate'} ${region.label.toLowerCase()} injury risk - ${mainFactor.explanation}`,
+        severity,
+        impact: `Contributing factors: ${region.factors.map(factor => factor.label.toLowerCase()).join(', ')}`,
+        drills: RISK_DRILLS[region.region],
+        priorityScore: getSeverityScore(severity),
+      };
+    });
+}
@@ -0,0 +1,70 @@
+import type { KeypointSchema, Pose } from '../types';
+
+/**
+ * Keypoint Schemas
+ * - COCO 17-keypoint layout used by MoveNet
+ * - BlazePose 33-keypoint layout with heel and foot-index points
+ */
+
+interface KeypointSchemaDefinition {
+  keypointCount: number;
+  hasFeet: boolean;
+  connections: Array<[string, string]>;
+}
+
+// Connections shared by both schemas
+const BODY_CONNECTIONS: Array<[string, string]> = [
+  // Torso
+  ['left_shoulder', 'right_shoulder'],
+  ['left_shoulder', 'left_hip'],
+  ['right_shoulder', 'right_hip'],
+  ['left_hip', 'right_hip'],
+
+  // Left arm
+  ['left_shoulder', 'left_elbow'],
+  ['left_elbow', 'left_wrist'],
+
+  // Right arm
+  ['right_shoulder', 'right_elbow'],
+  ['right_elbow', 'right_wrist'],
+
+  // Left leg
+  ['left_hip', 'left_knee'],
+  ['left_knee', 'left_ankle'],
+
+  // Right leg
+  ['right_hip', 'right_knee'],
+  ['right_knee', 'right_ankle'],
+];
+
+export const KEYPOINT_SCHEMAS: Record<KeypointSchema, KeypointSchemaDefinition> = {
+  coco17: {
+    keypointCount: 17,
+    hasFeet: false,
+    connections: BODY_CONNECTIONS,
+  },
+  blazepose33: {
+    keypointCount: 33,
+    hasFeet: true,
+    connections: [
+      ...BODY_CONNECTIONS,
+
+      // Feet
+      ['left_ankle', 'left_heel'],
+      ['left_heel', 'left_foot_index'],
+      ['left_ankle', 'left_foot_index'],
+      ['right_ankle', 'right_heel'],
+      ['right_heel', 'right_foot_index'],
+      ['right_ankle', 'right_foot_index'],
+    ],
+  },
+};
+
+/**
+ * Get the keypoint schema of a pose, inferring it from the keypoint count
+ * for poses that were not tagged by the detector
+ */
+export function getPoseSchema(pose: Pose): KeypointSchema {
+  if (pose.schema) return pose.schema;
+  return pose.keypoints.length === KEYPOINT_SCHEMAS.blazepose33.keypointCount ? 'blazepose33' : 'coco17';
+}
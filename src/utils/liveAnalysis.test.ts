@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { appendLiveFrame, smoothLivePose, summarizeLiveWindow, LIVE_WINDOW_SECONDS } from './liveAnalysis';
+import { DEFAULT_SMOOTHING_OPTIONS } from './poseSmoothing';
+import type { Keypoint, LiveFrame, Pose } from '../types';
+
+describe('liveAnalysis', () => {
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  // Side-on rider or runner; `offset` shifts the knee to simulate detector jitter
+  const createPose = (offset: number = 0): Pose => ({
+    score: 0.9,
+    keypoints: [
+      createKeypoint('left_shoulder', 300, 100),
+      createKeypoint('right_shoulder', 305, 100),
+      createKeypoint('left_hip', 300, 250),
+      createKeypoint('right_hip', 305, 250),
+      createKeypoint('left_knee', 360 + offset, 330),
+      createKeypoint('right_knee', 365, 330),
+      createKeypoint('left_ankle', 340, 430),
+      createKeypoint('right_ankle', 345, 430),
+    ],
+  });
+
+  const createFrame = (timestamp: number, knee: number = 140, pose: Pose = createPose()): LiveFrame => ({
+    analysis: { angles: { knee }, recommendations: [], overall: 'good' },
+    pose,
+    rawPose: pose,
+    timestamp,
+  });
+
+  describe('appendLiveFrame', () => {
+    it('should append frames in time order', () => {
+      let frames: LiveFrame[] = [];
+      frames = appendLiveFrame(frames, createFrame(0));
+      frames = appendLiveFrame(frames, createFrame(0.1));
+
+      expect(frames.map(frame => frame.timestamp)).toEqual([0, 0.1]);
+    });
+
+    it('should drop frames older than the window', () => {
+      let frames: LiveFrame[] = [];
+      for (let t = 0; t <= 10; t++) {
+        frames = appendLiveFrame(frames, createFrame(t));
+      }
+
+      expect(frames[0].timestamp).toBeGreaterThan(10 - LIVE_WINDOW_SECONDS);
+      expect(frames[frames.length - 1].timestamp).toBe(10);
+    });
+
+    it('should honour a custom window length', () => {
+      const frames = [0, 1, 2, 3].reduce<LiveFrame[]>((window, t) => appendLiveFrame(window, createFrame(t), 2), []);
+      expect(frames.map(frame => frame.timestamp)).toEqual([2, 3]);
+    });
+
+    it('should start a new window when the clock goes backwards', () => {
+      const frames = appendLiveFrame([createFrame(5), createFrame(6)], createFrame(1));
+      expect(frames.map(frame => frame.timestamp)).toEqual([1]);
+    });
+  });
+
+  describe('smoothLivePose', () => {
+    const steadyFrames = Array.from({ length: 15 }, (_, i) => createFrame(i / 15));
+    const knee = (pose: Pose) => pose.keypoints.find(kp => kp.name === 'left_knee')!;
+
+    it('should return the detection unchanged when smoothing is off', () => {
+      const pose = createPose(20);
+      expect(smoothLivePose(steadyFrames, pose, 1, false)).toBe(pose);
+    });
+
+    it('should return the first detection unchanged', () => {
+      const pose = createPose(20);
+      expect(smoothLivePose([], pose, 0, DEFAULT_SMOOTHING_OPTIONS)).toBe(pose);
+    });
+
+    it('should damp a jump from the steady poses before it', () => {
+      const smoothed = smoothLivePose(steadyFrames, createPose(20), 1, DEFAULT_SMOOTHING_OPTIONS);
+
+      expect(knee(smoothed).x).toBeGreaterThan(360);
+      expect(knee(smoothed).x).toBeLessThan(380);
+    });
+
+    it('should not change the window', () => {
+      smoothLivePose(steadyFrames, createPose(20), 1, DEFAULT_SMOOTHING_OPTIONS);
+      expect(steadyFrames.every(frame => knee(frame.rawPose).x === 360)).toBe(true);
+    });
+  });
+
+  describe('summarizeLiveWindow', () => {
+    it('should summarize an empty window', () => {
+      const summary = summarizeLiveWindow([], 'bike');
+
+      expect(summary.frames).toBe(0);
+      expect(summary.sampleRate).toBe(0);
+      expect(summary.latest).toEqual({});
+      expect(summary.metrics).toBeNull();
+      expect(summary.pedalStroke).toBeNull();
+    });
+
+    it('should report the rolling metrics, latest angles and sample rate', () => {
+      const frames = [130, 140, 150, 145, 135].map((knee, i) => createFrame(i * 0.25, knee));
+      const summary = summarizeLiveWindow(frames, 'running');
+
+      expect(summary.frames).toBe(5);
+      expect(summary.duration).toBe(1);
+      expect(summary.sampleRate).toBe(4);
+      expect(summary.latest.knee).toBe(135);
+      expect(summary.metrics?.knee.avg).toBe(140);
+      expect(summary.metrics?.knee.min).toBe(130);
+      expect(summary.metrics?.knee.max).toBe(150);
+    });
+
+    it('should not measure pedal stroke positions without pedaling', () => {
+      const frames = Array.from({ length: 20 }, (_, i) => createFrame(i / 10));
+
+      expect(summarizeLiveWindow(frames, 'bike').pedalStroke).toBeNull();
+      expect(summarizeLiveWindow(frames, 'running').pedalStroke).toBeNull();
+    });
+  });
+});
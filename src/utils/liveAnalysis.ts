@@ -0,0 +1,66 @@
+import { calculateDetailedMetrics } from './detailedMetrics';
+import { analyzePedalStroke } from './pedalStroke';
+import { smoothPoseSequence } from './poseSmoothing';
+import type { FrameAnalysis, LiveFrame, LiveWindowSummary, Pose, SmoothingOptions } from '../types';
+
+/**
+ * Live Camera Analysis
+ * - Rolling window of the most recent poses from the camera
+ * - Each new pose is smoothed against the raw detections before it, so the filter stays causal
+ * - Rolling metrics over the window, with pedal stroke positions once the crank has turned in view
+ */
+
+// Seconds of camera frames kept for the rolling metrics - several crank revolutions or strides
+export const LIVE_WINDOW_SECONDS = 6;
+
+/**
+ * Add a frame to the rolling window and drop frames older than the window
+ * A timestamp that goes backwards (camera restarted) starts a new window
+ */
+export function appendLiveFrame<T extends FrameAnalysis>(
+  frames: T[],
+  frame: T,
+  windowSeconds: number = LIVE_WINDOW_SECONDS
+): T[] {
+  const last = frames[frames.length - 1];
+  if (last && frame.timestamp <= last.timestamp) return [frame];
+
+  return [...frames.filter(previous => previous.timestamp > frame.timestamp - windowSeconds), frame];
+}
+
+/**
+ * Smooth a new detection using the raw detections already in the window
+ * @returns The smoothed pose, or the detection unchanged when smoothing is off
+ */
+export function smoothLivePose(
+  frames: LiveFrame[],
+  pose: Pose,
+  timestamp: number,
+  smoothing: SmoothingOptions | false
+): Pose {
+  if (!smoothing || frames.length === 0) return pose;
+
+  const { poses } = smoothPoseSequence(
+    [...frames.map(frame => frame.rawPose), pose],
+    [...frames.map(frame => frame.timestamp), timestamp],
+    smoothing
+  );
+  return poses[poses.length - 1];
+}
+
+/**
+ * Rolling metrics over the frames in the window
+ * @param sport - Pedal stroke positions are only measured for cycling
+ */
+export function summarizeLiveWindow(frames: FrameAnalysis[], sport: 'bike' | 'running'): LiveWindowSummary {
+  const duration = frames.length > 1 ? frames[frames.length - 1].timestamp - frames[0].timestamp : 0;
+
+  return {
+    frames: frames.length,
+    duration,
+    sampleRate: duration > 0 ? (frames.length - 1) / duration : 0,
+    latest: frames.length > 0 ? frames[frames.length - 1].analysis.angles : {},
+    metrics: calculateDetailedMetrics(frames.map(frame => frame.analysis)),
+    pedalStroke: sport === 'bike' ? analyzePedalStroke(frames) : null,
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { createAnalysisReport, getReportFileName } from './pdfReport';
+import type { AnalysisReport, Recommendation } from '../types';
+
+describe('pdfReport', () => {
+  // 1×1 transparent PNG
+  const PIXEL_PNG =
+    'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+  const createRecommendation = (area: string): Recommendation => ({
+    area,
+    message: `${area} needs attention`,
+    type: 'warning',
+    angle: 135,
+    severity: 'moderate',
+    impact: 'May cause discomfort on longer rides',
+    drills: ['Raise saddle height by 5-10mm increments'],
+  });
+
+  const createReport = (overrides: Partial<AnalysisReport> = {}): AnalysisReport => ({
+    title: 'Bike Fit Analysis Results',
+    videoName: 'session.mp4',
+    metadata: {
+      athleteName: 'Jane Doe',
+      fitterName: 'Sam Fitter',
+      sessionDate: '2026-03-14',
+      notes: 'Raised saddle 5mm',
+    },
+    overallMessage: 'Good bike fit with minor adjustments needed',
+    summary: {
+      headline: 'Form is functional but 1 area needs improvement',
+      strengths: ['Hip angle (55°) is in ideal range - maximizes power transfer'],
+      improvements: ['Knee Angle (current: 135°): Saddle may be too low'],
+      topPriority: 'Focus on: Knee Angle - Saddle may be too low',
+    },
+    recommendations: [createRecommendation('Knee Angle')],
+    angleGauges: [
+      { label: 'Knee Angle', angle: 135, minOptimal: 140, maxOptimal: 160, percentage: 0, status: 'warning' },
+    ],
+    measuredAngles: [{ label: 'Knee Angle', value: 135 }],
+    detailedMetrics: {
+      knee: { min: 130, max: 140, avg: 135, stdDev: 3, range: 10, consistency: 88, values: [130, 140] },
+    },
+    asymmetry: {
+      kneeAngle: { left: 134, right: 136, difference: 2, percentDiff: 1.5, status: 'balanced' },
+    },
+    keyFrames: [],
+    noteText: 'This is an automated analysis.',
+    ...overrides,
+  });
+
+  const getText = (report: AnalysisReport): string => createAnalysisReport(report).output();
+
+  describe('getReportFileName', () => {
+    it('should include the athlete and session date', () => {
+      expect(getReportFileName({ athleteName: ' Jane  Doe ', sessionDate: '2026-03-14' })).toBe(
+        'analysis-report-jane-doe-2026-03-14.pdf'
+      );
+    });
+
+    it('should omit a missing athlete name', () => {
+      expect(getReportFileName({ athleteName: '', sessionDate: '2026-03-14' })).toBe(
+        'analysis-report-2026-03-14.pdf'
+      );
+    });
+  });
+
+  describe('createAnalysisReport', () => {
+    it('should include the athlete metadata', () => {
+      const text = getText(createReport());
+
+      expect(text).toContain('Jane Doe');
+      expect(text).toContain('Sam Fitter');
+      expect(text).toContain('2026-03-14');
+      expect(text).toContain('session.mp4');
+    });
+
+    it('should include the summary, recommendations and drills', () => {
+      const text = getText(createReport());
+
+      expect(text).toContain('Form is functional but 1 area needs improvement');
+      expect(text).toContain('Knee Angle needs attention');
+      expect(text).toContain('Raise saddle height by 5-10mm increments');
+      expect(text).toContain('Moderate');
+    });
+
+    it('should include the metrics and asymmetry tables', () => {
+      const text = getText(createReport());
+
+      expect(text).toContain('Detailed Metrics');
+      expect(text).toContain('88% \\(Good\\)');
+      expect(text).toContain('Left / Right Balance');
+      expect(text).toContain('Balanced');
+    });
+
+    it('should skip empty sections', () => {
+      const text = getText(createReport({ detailedMetrics: null, asymmetry: null, keyFrames: [] }));
+
+      expect(text).not.toContain('Detailed Metrics');
+      expect(text).not.toContain('Key Frames');
+    });
+
+    it('should embed annotated key frames', () => {
+      const text = getText(createReport({ keyFrames: [{ time: 1.5, image: PIXEL_PNG }] }));
+
+      expect(text).toContain('Key Frames');
+      expect(text).toContain('1.50s');
+      expect(text).toContain('/Subtype /Image');
+    });
+
+    it('should continue onto new pages and number them', () => {
+      const recommendations = Array.from({ length: 30 }, (_, i) => createRecommendation(`Area ${i + 1}`));
+      const doc = createAnalysisReport(createReport({ recommendations }));
+      const pageCount = doc.getNumberOfPages();
+
+      expect(pageCount).toBeGreaterThan(1);
+      expect(doc.output()).toContain(`Page ${pageCount} of ${pageCount}`);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import { jsPDF } from 'jspdf';
+import { getSeverityDisplay } from './enhancedRecommendations';
+import { getConsistencyRating, getAsymmetryStatus, formatMetricName, formatMetricValue } from './detailedMetrics';
+import type { AnalysisReport, ReportMetadata } from '../types';
+
+/**
+ * PDF Analysis Report
+ * - Branded A4 report generated client-side with jsPDF
+ * - Athlete metadata, performance summary, annotated key frames
+ * - Angle ranges, prioritized recommendations, detailed metrics and asymmetry tables
+ */
+
+export const REPORT_BRANDING = {
+  name: 'Sports Performance Analysis',
+  color: '#667eea',
+};
+
+const PAGE_MARGIN = 15; // mm
+const LINE_HEIGHT = 5; // mm at body font size
+const BODY_FONT_SIZE = 10;
+const HEADER_HEIGHT = 28; // mm
+const KEY_FRAME_COLUMNS = 2;
+
+const DISCLAIMER =
+  'This report was generated automatically from video and has not been validated by a health professional.';
+
+type RGB = [number, number, number];
+
+function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Build the report file name from the athlete and session date
+ */
+export function getReportFileName(metadata: ReportMetadata): string {
+  const athlete = metadata.athleteName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return ['analysis-report', athlete, metadata.sessionDate].filter(Boolean).join('-') + '.pdf';
+}
+
+/**
+ * Lay out the analysis report as a PDF document
+ * @returns The jsPDF document, ready to save or output
+ */
+export function createAnalysisReport(report: AnalysisReport): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const brandColor = hexToRgb(REPORT_BRANDING.color);
+  let y = PAGE_MARGIN;
+
+  // Start a new page when the next block doesn't fit
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN - 10) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const setBody = (style: 'normal' | 'bold' = 'normal', color: RGB = [51, 51, 51]) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(BODY_FONT_SIZE);
+    doc.setTextColor(...color);
+  };
+
+  const writeParagraph = (text: string, indent: number = 0, style: 'normal' | 'bold' = 'normal') => {
+    setBody(style);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth - indent);
+    lines.forEach(line => {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, PAGE_MARGIN + indent, y);
+      y += LINE_HEIGHT;
+    });
+  };
+
+  const writeBullets = (items: string[], indent: number = 0) => {
+    items.forEach(item => {
+      setBody();
+      const lines: string[] = doc.splitTextToSize(item, contentWidth - indent - 5);
+      lines.forEach((line, index) => {
+        ensureSpace(LINE_HEIGHT);
+        if (index === 0) doc.text('-', PAGE_MARGIN + indent, y);
+        doc.text(line, PAGE_MARGIN + indent + 5, y);
+        y += LINE_HEIGHT;
+      });
+    });
+  };
+
+  const writeHeading = (text: string) => {
+    ensureSpace(LINE_HEIGHT * 4);
+    y += LINE_HEIGHT;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...brandColor);
+    doc.text(text, PAGE_MARGIN, y);
+    y += 2;
+    doc.setDrawColor(...brandColor);
+    doc.setLineWidth(0.4);
+    doc.line(PAGE_MARGIN, y, PAGE_MARGIN + contentWidth, y);
+    y += LINE_HEIGHT + 1;
+  };
+
+  // Simple table with fractional column widths
+  const writeTable = (headers: string[], rows: string[][], widths: number[]) => {
+    const columnX = widths.reduce<number[]>(
+      (xs, _, i) => [...xs, i === 0 ? PAGE_MARGIN : xs[i - 1] + widths[i - 1] * contentWidth],
+      []
+    );
+
+    const writeRow = (cells: string[], bold: boolean) => {
+      ensureSpace(LINE_HEIGHT + 2);
+      setBody(bold ? 'bold' : 'normal');
+      cells.forEach((cell, i) => doc.text(cell, columnX[i] + 1, y));
+      y += 2;
+      doc.setDrawColor(220, 220, 220);
+      doc.setLineWidth(0.2);
+      doc.line(PAGE_MARGIN, y, PAGE_MARGIN + contentWidth, y);
+      y += LINE_HEIGHT;
+    };
+
+    writeRow(headers, true);
+    rows.forEach(row => writeRow(row, false));
+  };
+
+  // Branded header band
+  doc.setFillColor(...brandColor);
+  doc.rect(0, 0, pageWidth, HEADER_HEIGHT, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(REPORT_BRANDING.name, PAGE_MARGIN, 13);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text(report.title, PAGE_MARGIN, 21);
+  y = HEADER_HEIGHT + 10;
+
+  // Athlete metadata
+  const { metadata } = report;
+  const details: Array<[string, string | undefined]> = [
+    ['Athlete', metadata.athleteName || 'Not specified'],
+    ['Session date', metadata.sessionDate],
+    ['Fitter', metadata.fitterName],
+    ['Video', report.videoName],
+  ];
+  details
+    .filter((detail): detail is [string, string] => !!detail[1])
+    .forEach(([label, value]) => {
+      setBody('bold');
+      doc.text(`${label}:`, PAGE_MARGIN, y);
+      setBody();
+      doc.text(value, PAGE_MARGIN + 30, y);
+      y += LINE_HEIGHT;
+    });
+
+  // Overall status and performance summary
+  writeHeading('Performance Summary');
+  writeParagraph(report.overallMessage, 0, 'bold');
+  writeParagraph(report.summary.headline);
+  y += 2;
+  writeParagraph("What you're doing well", 0, 'bold');
+  writeBullets(report.summary.strengths);
+  y += 2;
+  writeParagraph('Areas to improve', 0, 'bold');
+  writeBullets(report.summary.improvements);
+  y += 2;
+  writeParagraph(`Top priority: ${report.summary.topPriority}`, 0, 'bold');
+
+  // Annotated key frames, two per row
+  if (report.keyFrames.length > 0) {
+    writeHeading('Key Frames');
+    const gap = 5;
+    const imageWidth = (contentWidth - gap * (KEY_FRAME_COLUMNS - 1)) / KEY_FRAME_COLUMNS;
+
+    for (let i = 0; i < report.keyFrames.length; i += KEY_FRAME_COLUMNS) {
+      const row = report.keyFrames.slice(i, i + KEY_FRAME_COLUMNS);
+      const heights = row.map(frame => {
+        const { width, height } = doc.getImageProperties(frame.image);
+        return (imageWidth * height) / width;
+      });
+      const rowHeight = Math.max(...heights);
+      ensureSpace(rowHeight + LINE_HEIGHT * 2);
+
+      row.forEach((frame, column) => {
+        const x = PAGE_MARGIN + column * (imageWidth + gap);
+        const { fileType } = doc.getImageProperties(frame.image);
+        doc.addImage(frame.image, fileType, x, y, imageWidth, heights[column]);
+        setBody('normal', [117, 117, 117]);
+        doc.text(`${frame.time.toFixed(2)}s`, x, y + heights[column] + 4);
+      });
+      y += rowHeight + LINE_HEIGHT * 2;
+    }
+  }
+
+  // Angle ranges and measured angles
+  if (report.angleGauges.length > 0) {
+    writeHeading('Angle Ranges');
+    writeTable(
+      ['Measurement', 'Value', 'Optimal', 'Status'],
+      report.angleGauges.map(gauge => [
+        gauge.label,
+        `${gauge.angle}°`,
+        `${gauge.minOptimal}° - ${gauge.maxOptimal}°`,
+        gauge.status === 'good' ? 'In range' : 'Out of range',
+      ]),
+      [0.4, 0.15, 0.25, 0.2]
+    );
+  }
+
+  if (report.measuredAngles.length > 0) {
+    writeHeading('Measured Angles');
+    writeTable(
+      ['Angle', 'Value'],
+      report.measuredAngles.map(({ label, value }) => [label, `${value}°`]),
+      [0.6, 0.4]
+    );
+  }
+
+  // Prioritized recommendations with drills
+  if (report.recommendations.length > 0) {
+    writeHeading('Recommendations');
+    report.recommendations.forEach(rec => {
+      const severity = getSeverityDisplay(rec.severity!);
+      const measurement = rec.angle !== undefined
+        ? ` (${rec.angle}°)`
+        : rec.value !== undefined ? ` (${[rec.value, rec.unit].filter(Boolean).join(' ')})` : '';
+
+      ensureSpace(LINE_HEIGHT * 3);
+      doc.setFillColor(...hexToRgb(severity.color));
+      doc.rect(PAGE_MARGIN, y - 3.5, 2, 4.5, 'F');
+      setBody('bold');
+      doc.text(`${rec.area}${measurement}`, PAGE_MARGIN + 4, y);
+      setBody('bold', hexToRgb(severity.color));
+      doc.text(severity.label, PAGE_MARGIN + contentWidth, y, { align: 'right' });
+      y += LINE_HEIGHT;
+
+      writeParagraph(rec.message, 4);
+      if (rec.impact) writeParagraph(`Impact: ${rec.impact}`, 4);
+      if (rec.drills && rec.drills.length > 0) writeBullets(rec.drills, 6);
+      y += 2;
+    });
+  }
+
+  // Detailed metrics and asymmetry
+  if (report.detailedMetrics && Object.keys(report.detailedMetrics).length > 0) {
+    writeHeading('Detailed Metrics');
+    writeTable(
+      ['Measurement', 'Min', 'Avg', 'Max', 'Range', 'Consistency'],
+      Object.entries(report.detailedMetrics).map(([key, data]) => [
+        formatMetricName(key),
+        formatMetricValue(data.min, data.unit),
+        formatMetricValue(data.avg, data.unit),
+        formatMetricValue(data.max, data.unit),
+        formatMetricValue(data.range, data.unit),
+        `${data.consistency}% (${getConsistencyRating(data.consistency).label})`,
+      ]),
+      [0.25, 0.1, 0.1, 0.1, 0.1, 0.35]
+    );
+  }
+
+  if (report.asymmetry && Object.keys(report.asymmetry).length > 0) {
+    writeHeading('Left / Right Balance');
+    writeTable(
+      ['Measurement', 'Left', 'Right', 'Difference', 'Status'],
+      Object.entries(report.asymmetry).map(([key, data]) => [
+        formatMetricName(key),
+        formatMetricValue(data.left, data.unit),
+        formatMetricValue(data.right, data.unit),
+        `${data.percentDiff}%`,
+        getAsymmetryStatus(data.status).label,
+      ]),
+      [0.25, 0.15, 0.15, 0.15, 0.3]
+    );
+  }
+
+  // Fitter notes and disclaimer
+  if (metadata.notes) {
+    writeHeading('Notes');
+    writeParagraph(metadata.notes);
+  }
+
+  y += LINE_HEIGHT;
+  writeParagraph(report.noteText);
+  writeParagraph(DISCLAIMER);
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(117, 117, 117);
+    doc.text(`${REPORT_BRANDING.name} - ${metadata.athleteName || 'Athlete'} - ${metadata.sessionDate}`, PAGE_MARGIN, pageHeight - 8);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 8, { align: 'right' });
+  }
+
+  return doc;
+}
+
+/**
+ * Generate the report and trigger a browser download
+ */
+export function downloadAnalysisReport(report: AnalysisReport): void {
+  createAnalysisReport(report).save(getReportFileName(report.metadata));
+}
@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzePedalStroke,
+  applyPedalStroke,
+  combineBikeFitAnalyses,
+  createPedalStrokeRecommendations,
+} from './pedalStroke';
+import type { BikeFitAnalysis, FrameAnalysis, Keypoint, PedalStrokeAnalysis, Pose } from '../types';
+
+describe('pedalStroke', () => {
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  const createFrame = (pose: Pose, timestamp: number): FrameAnalysis => ({
+    analysis: { angles: {}, recommendations: [], overall: 'good' },
+    pose,
+    timestamp,
+  });
+
+  const HIP = { x: 300, y: 200 };
+  const CRANK_CENTER = { x: 320, y: 428 };
+  const CRANK_RADIUS = 60;
+  const THIGH = 150;
+  const SHIN = 150;
+
+  // Place the knee forward of the hip-ankle line for the given segment lengths
+  const solveKnee = (ankle: { x: number; y: number }) => {
+    const dx = ankle.x - HIP.x;
+    const dy = ankle.y - HIP.y;
+    const d = Math.hypot(dx, dy);
+    const a = (THIGH * THIGH - SHIN * SHIN + d * d) / (2 * d);
+    const h = Math.sqrt(Math.max(0, THIGH * THIGH - a * a));
+    const px = HIP.x + (a * dx) / d;
+    const py = HIP.y + (a * dy) / d;
+    return { x: px + (h * dy) / d, y: py - (h * dx) / d };
+  };
+
+  // Rider facing +x pedaling at `rpm`, left side towards the camera
+  const createPedalingFrames = (
+    rpm: number,
+    fps: number,
+    seconds: number,
+    options: { withFeet?: boolean; facing?: 1 | -1 } = {}
+  ): FrameAnalysis[] => {
+    const facing = options.facing ?? 1;
+    const mirror = (x: number) => (facing === 1 ? x : 640 - x);
+
+    return Array.from({ length: Math.round(fps * seconds) }, (_, i) => {
+      const t = i / fps;
+      const crank = 2 * Math.PI * (rpm / 60) * t;
+      const ankle = {
+        x: CRANK_CENTER.x + CRANK_RADIUS * Math.sin(crank),
+        y: CRANK_CENTER.y - CRANK_RADIUS * Math.cos(crank),
+      };
+      const knee = solveKnee(ankle);
+
+      const keypoints = [
+        createKeypoint('left_shoulder', mirror(420), 150),
+        createKeypoint('left_wrist', mirror(480), 220),
+        createKeypoint('left_hip', mirror(HIP.x), HIP.y),
+        createKeypoint('left_knee', mirror(knee.x), knee.y),
+        createKeypoint('left_ankle', mirror(ankle.x), ankle.y),
+        createKeypoint('right_knee', mirror(knee.x), knee.y, 0.2),
+      ];
+      if (options.withFeet) {
+        keypoints.push(createKeypoint('left_foot_index', mirror(ankle.x + 45), ankle.y + 10));
+      }
+
+      return createFrame({ score: 0.9, keypoints }, t);
+    });
+  };
+
+  const createStaticFrames = (count: number): FrameAnalysis[] =>
+    Array.from({ length: count }, (_, i) =>
+      createFrame(
+        {
+          score: 0.9,
+          keypoints: [
+            createKeypoint('left_shoulder', 420, 150),
+            createKeypoint('left_hip', 300, 200),
+            createKeypoint('left_knee', 420, 300),
+            createKeypoint('left_ankle', 340, 440),
+          ],
+        },
+        i / 15
+      )
+    );
+
+  describe('analyzePedalStroke', () => {
+    it('should return null without pedaling motion', () => {
+      expect(analyzePedalStroke([])).toBeNull();
+      expect(analyzePedalStroke(createStaticFrames(30))).toBeNull();
+    });
+
+    it('should place the crank at TDC, 3 o\'clock and BDC from the ankle path', () => {
+      const frames = createPedalingFrames(90, 15, 4);
+      const result = analyzePedalStroke(frames)!;
+
+      // 90 rpm at 15 fps = 36° per frame starting at the top
+      expect(result.crankAngles[0]).toBeCloseTo(0, 0);
+      expect(result.crankAngles[5]).toBeCloseTo(180, 0);
+      expect(result.positionFrames.tdc).toContain(0);
+      expect(result.positionFrames.bdc).toContain(5);
+      expect(result.positionFrames['three-oclock']).toContain(2);
+      expect(result.side).toBe('left');
+    });
+
+    it('should measure knee extension at BDC and flexion at TDC', () => {
+      const result = analyzePedalStroke(createPedalingFrames(90, 15, 4))!;
+
+      // Law of cosines for the synthetic leg geometry
+      expect(result.kneeAtBDC).toBeGreaterThanOrEqual(148);
+      expect(result.kneeAtBDC).toBeLessThanOrEqual(152);
+      expect(result.kneeAtTDC).toBeGreaterThanOrEqual(67);
+      expect(result.kneeAtTDC).toBeLessThanOrEqual(71);
+      expect(result.hipAtTDC).toBeDefined();
+    });
+
+    it('should count crank revolutions', () => {
+      const result = analyzePedalStroke(createPedalingFrames(90, 15, 4))!;
+
+      // 1.5 revolutions per second for 4 seconds
+      expect(result.revolutions).toBeGreaterThanOrEqual(5);
+      expect(result.revolutions).toBeLessThanOrEqual(6);
+    });
+
+    it('should handle a rider facing the other way', () => {
+      const right = analyzePedalStroke(createPedalingFrames(90, 15, 4))!;
+      const left = analyzePedalStroke(createPedalingFrames(90, 15, 4, { facing: -1 }))!;
+
+      expect(left.crankAngles[2]).toBeCloseTo(right.crankAngles[2]!, 0);
+      expect(left.kneeAtBDC).toBe(right.kneeAtBDC);
+    });
+
+    it('should only measure knee over pedal when foot keypoints are available', () => {
+      expect(analyzePedalStroke(createPedalingFrames(90, 15, 4))!.kneeOverPedal).toBeUndefined();
+
+      const result = analyzePedalStroke(createPedalingFrames(90, 15, 4, { withFeet: true }))!;
+      expect(result.kneeOverPedal).toBeDefined();
+    });
+  });
+
+  describe('createPedalStrokeRecommendations', () => {
+    const stroke = (overrides: Partial<PedalStrokeAnalysis>): PedalStrokeAnalysis => ({
+      side: 'left',
+      crankAngles: [],
+      positionFrames: { tdc: [], 'three-oclock': [], bdc: [] },
+      revolutions: 3,
+      crankCenter: { x: 0, y: 0 },
+      direction: 1,
+      ...overrides,
+    });
+
+    it('should flag a saddle that is too high from knee extension at BDC', () => {
+      const recs = createPedalStrokeRecommendations(stroke({ kneeAtBDC: 165 }));
+
+      expect(recs).toHaveLength(1);
+      expect(recs[0]).toMatchObject({ area: 'Knee Extension (BDC)', type: 'warning', angle: 165 });
+      expect(recs[0].message).toContain('too high');
+    });
+
+    it('should flag a closed hip at TDC', () => {
+      const recs = createPedalStrokeRecommendations(stroke({ hipAtTDC: 32 }));
+
+      expect(recs[0]).toMatchObject({ area: 'Hip Closure (TDC)', type: 'warning' });
+    });
+
+    it('should report knee over pedal as a value with a unit', () => {
+      const recs = createPedalStrokeRecommendations(stroke({ kneeOverPedal: 12 }));
+
+      expect(recs[0]).toMatchObject({ area: 'Knee Over Pedal', type: 'warning', value: 12 });
+      expect(recs[0].unit).toBeDefined();
+    });
+
+    it('should confirm measurements within range', () => {
+      const recs = createPedalStrokeRecommendations(stroke({ kneeAtBDC: 148, kneeAtTDC: 70, hipAtTDC: 48 }));
+
+      expect(recs.every(rec => rec.type === 'success')).toBe(true);
+    });
+  });
+
+  describe('applyPedalStroke', () => {
+    const analysis: BikeFitAnalysis = {
+      angles: { knee: 120, hip: 60, back: 40 },
+      recommendations: [
+        { area: 'Knee Angle', type: 'warning', message: 'Saddle may be too low - knee is too bent', angle: 120 },
+        { area: 'Back Angle', type: 'success', message: 'Good aerodynamic position', angle: 40 },
+      ],
+      overall: 'good',
+    };
+
+    it('should replace the averaged knee angle with stroke-position angles', () => {
+      const result = applyPedalStroke(analysis, {
+        side: 'left',
+        crankAngles: [],
+        positionFrames: { tdc: [], 'three-oclock': [], bdc: [] },
+        revolutions: 3,
+        crankCenter: { x: 0, y: 0 },
+        direction: 1,
+        kneeAtBDC: 148,
+        kneeAtTDC: 70,
+        hipAtTDC: 48,
+      });
+
+      expect(result.angles.knee).toBeUndefined();
+      expect(result.angles).toMatchObject({ kneeAtBDC: 148, kneeAtTDC: 70, hipAtTDC: 48, hip: 60, back: 40 });
+      expect(result.recommendations.some(rec => rec.area === 'Knee Angle')).toBe(false);
+      expect(result.recommendations.some(rec => rec.area === 'Back Angle')).toBe(true);
+      expect(result.overall).toBe('excellent');
+    });
+
+    it('should keep the knee angle when BDC was not measured', () => {
+      const result = applyPedalStroke(analysis, {
+        side: 'left',
+        crankAngles: [],
+        positionFrames: { tdc: [], 'three-oclock': [], bdc: [] },
+        revolutions: 0,
+        crankCenter: { x: 0, y: 0 },
+        direction: 1,
+        hipAtTDC: 48,
+      });
+
+      expect(result.angles.knee).toBe(120);
+      expect(result.recommendations.some(rec => rec.area === 'Knee Angle')).toBe(true);
+    });
+  });
+
+  describe('combineBikeFitAnalyses', () => {
+    it('should fall back to averaged angles without pedaling frames', () => {
+      const analyses: BikeFitAnalysis[] = [
+        { angles: { knee: 140 }, recommendations: [], overall: 'good' },
+        { angles: { knee: 150 }, recommendations: [], overall: 'good' },
+      ];
+
+      expect(combineBikeFitAnalyses(analyses).angles.knee).toBe(145);
+      expect(combineBikeFitAnalyses(analyses, createStaticFrames(10)).angles.knee).toBe(145);
+    });
+
+    it('should measure the stroke across the analyzed frames', () => {
+      const frames = createPedalingFrames(90, 15, 4);
+      const analyses = frames.map(() => ({ angles: { knee: 110 }, recommendations: [], overall: 'good' as const }));
+
+      const result = combineBikeFitAnalyses(analyses, frames);
+
+      expect(result.angles.knee).toBeUndefined();
+      expect(result.angles.kneeAtBDC).toBeGreaterThan(140);
+    });
+  });
+});
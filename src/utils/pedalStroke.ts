@@ -0,0 +1,308 @@
+import { calculateAngle, assessBikeFitOverall } from './poseDetection';
+import { combineAnalyses } from './analysisHelpers';
+import { DEFAULT_BIKE_PROFILE } from './ruleProfiles';
+import type {
+  BikeFitAnalysis,
+  BikeRuleProfile,
+  CrankPosition,
+  FrameAnalysis,
+  Keypoint,
+  PedalStrokeAnalysis,
+  Pose,
+  Recommendation,
+} from '../types';
+
+/**
+ * Pedal Stroke Analysis
+ * - Estimates crank position from the ankle's circular trajectory
+ * - Measures the joint angles bike fitters use at TDC, 3 o'clock and BDC
+ * - Replaces the stroke-averaged knee angle and its saddle height advice
+ */
+
+// Crank angle of each reference position (0 = top, increasing in the pedaling direction)
+const POSITION_ANGLES: Record<CrankPosition, number> = {
+  tdc: 0,
+  'three-oclock': 90,
+  bdc: 180,
+};
+
+// Frames within this many degrees of a position are measured for it
+const POSITION_TOLERANCE = 20;
+
+// Keypoints below this confidence are ignored
+const MIN_KEYPOINT_SCORE = 0.3;
+
+// Minimum vertical ankle travel (fraction of shin length) to treat the motion as pedaling
+const MIN_CRANK_TRAVEL = 0.25;
+
+// Percentiles used for the ankle path extent, so a few bad detections don't move the crank centre
+const EXTENT_PERCENTILE = 0.05;
+
+function getKeypoint(pose: Pose, name: string): Keypoint | undefined {
+  return pose.keypoints.find(kp => kp.name === name);
+}
+
+function isVisible(keypoint: Keypoint | undefined): keypoint is Keypoint {
+  return !!keypoint && (keypoint.score || 0) > MIN_KEYPOINT_SCORE;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Smallest absolute difference between two angles in degrees
+function angularDistance(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Pick the side facing the camera - the one whose knee is detected more confidently
+ */
+function chooseSide(frames: FrameAnalysis[]): 'left' | 'right' {
+  let leftScore = 0;
+  let rightScore = 0;
+  for (const { pose } of frames) {
+    leftScore += getKeypoint(pose, 'left_knee')?.score || 0;
+    rightScore += getKeypoint(pose, 'right_knee')?.score || 0;
+  }
+  return leftScore >= rightScore ? 'left' : 'right';
+}
+
+/**
+ * Determine which way the rider faces (+1 = towards increasing x)
+ * from the hands, or the shoulders, relative to the hips
+ */
+function getRidingDirection(frames: FrameAnalysis[], side: 'left' | 'right'): 1 | -1 {
+  let offset = 0;
+  for (const { pose } of frames) {
+    const hip = getKeypoint(pose, `${side}_hip`);
+    const reference = [getKeypoint(pose, `${side}_wrist`), getKeypoint(pose, `${side}_shoulder`)].find(isVisible);
+    if (isVisible(hip) && reference) {
+      offset += reference.x - hip.x;
+    }
+  }
+  return offset >= 0 ? 1 : -1;
+}
+
+/**
+ * Estimate the crank angle of each frame from the ankle's position on its circular path
+ * and measure knee and hip angles at TDC, 3 o'clock and BDC
+ * @param frames - Analyzed frames in time order
+ * @returns Pedal stroke analysis, or null if no pedaling motion was found
+ */
+export function analyzePedalStroke(frames: FrameAnalysis[]): PedalStrokeAnalysis | null {
+  if (frames.length === 0) return null;
+
+  const side = chooseSide(frames);
+  const direction = getRidingDirection(frames, side);
+
+  const ankles = frames.map(({ pose }) => getKeypoint(pose, `${side}_ankle`));
+  const visibleAnkles = ankles.filter(isVisible);
+  if (visibleAnkles.length < 3) return null;
+
+  // Crank centre from the extent of the ankle path
+  const xs = visibleAnkles.map(a => a.x).sort((a, b) => a - b);
+  const ys = visibleAnkles.map(a => a.y).sort((a, b) => a - b);
+  const centerX = (percentile(xs, EXTENT_PERCENTILE) + percentile(xs, 1 - EXTENT_PERCENTILE)) / 2;
+  const centerY = (percentile(ys, EXTENT_PERCENTILE) + percentile(ys, 1 - EXTENT_PERCENTILE)) / 2;
+  const verticalTravel = percentile(ys, 1 - EXTENT_PERCENTILE) - percentile(ys, EXTENT_PERCENTILE);
+
+  // Reject static poses - the ankle must sweep a meaningful part of a crank circle
+  const shinLengths = frames
+    .map(({ pose }) => [getKeypoint(pose, `${side}_knee`), getKeypoint(pose, `${side}_ankle`)])
+    .filter((pair): pair is [Keypoint, Keypoint] => isVisible(pair[0]) && isVisible(pair[1]))
+    .map(([knee, ankle]) => Math.hypot(knee.x - ankle.x, knee.y - ankle.y));
+  const shinLength = median(shinLengths);
+  if (!shinLength || verticalTravel < MIN_CRANK_TRAVEL * shinLength) return null;
+
+  // 0° at the top, 90° forward, 180° at the bottom
+  const crankAngles = ankles.map(ankle => {
+    if (!isVisible(ankle)) return null;
+    const angle = (Math.atan2(direction * (ankle.x - centerX), centerY - ankle.y) * 180) / Math.PI;
+    return (angle + 360) % 360;
+  });
+
+  const positionFrames: Record<CrankPosition, number[]> = { tdc: [], 'three-oclock': [], bdc: [] };
+  crankAngles.forEach((angle, index) => {
+    if (angle === null) return;
+    (Object.keys(POSITION_ANGLES) as CrankPosition[]).forEach(position => {
+      if (angularDistance(angle, POSITION_ANGLES[position]) <= POSITION_TOLERANCE) {
+        positionFrames[position].push(index);
+      }
+    });
+  });
+
+  if (positionFrames.tdc.length === 0 && positionFrames.bdc.length === 0) return null;
+
+  // Count revolutions from the forward progress of the crank angle, restarting at each trimmed segment
+  let progress = 0;
+  let previous: number | null = null;
+  for (let i = 0; i < crankAngles.length; i++) {
+    const angle = crankAngles[i];
+    if (i > 0 && frames[i].segment !== frames[i - 1].segment) previous = null;
+    if (angle === null) continue;
+    if (previous !== null) {
+      const step = ((angle - previous + 540) % 360) - 180;
+      if (step > 0) progress += step;
+    }
+    previous = angle;
+  }
+
+  // Median joint angle over the frames at a crank position
+  const measure = (
+    position: CrankPosition,
+    joints: [string, string, string]
+  ): number | undefined => {
+    const values = positionFrames[position]
+      .map(index => joints.map(joint => getKeypoint(frames[index].pose, `${side}_${joint}`)))
+      .filter((points): points is Keypoint[] => points.every(isVisible))
+      .map(([a, b, c]) => calculateAngle(a, b, c));
+    const value = median(values);
+    return value !== undefined ? Math.round(value) : undefined;
+  };
+
+  // Knee over pedal: horizontal knee offset from the toe point (nearest keypoint to the
+  // pedal spindle) at 3 o'clock - needs foot keypoints, the ankle sits well behind the spindle
+  const kneeOffsets = positionFrames['three-oclock']
+    .map(index => {
+      const pose = frames[index].pose;
+      const knee = getKeypoint(pose, `${side}_knee`);
+      const toe = getKeypoint(pose, `${side}_foot_index`);
+      if (!isVisible(knee) || !isVisible(toe)) return null;
+      return (direction * (knee.x - toe.x) / shinLength) * 100;
+    })
+    .filter((offset): offset is number => offset !== null);
+  const kneeOverPedal = median(kneeOffsets);
+
+  return {
+    side,
+    crankAngles,
+    positionFrames,
+    revolutions: Math.floor(progress / 360),
+    kneeAtBDC: measure('bdc', ['hip', 'knee', 'ankle']),
+    kneeAtTDC: measure('tdc', ['hip', 'knee', 'ankle']),
+    hipAtTDC: measure('tdc', ['shoulder', 'hip', 'knee']),
+    kneeOverPedal: kneeOverPedal !== undefined ? Math.round(kneeOverPedal) : undefined,
+    crankCenter: { x: centerX, y: centerY },
+    direction,
+  };
+}
+
+/**
+ * Create bike fit recommendations from the stroke-position measurements
+ * @param profile - Discipline whose ranges the measurements are judged against (knee over pedal in %)
+ */
+export function createPedalStrokeRecommendations(
+  stroke: PedalStrokeAnalysis,
+  profile: BikeRuleProfile = DEFAULT_BIKE_PROFILE
+): Recommendation[] {
+  const recommendations: Recommendation[] = [];
+  const { ranges } = profile;
+  const { kneeAtBDC, kneeAtTDC, hipAtTDC, kneeOverPedal } = stroke;
+
+  // Saddle height is judged by knee extension at the bottom of the stroke
+  if (kneeAtBDC !== undefined) {
+    const range = ranges.kneeAtBDC;
+    const base = { area: 'Knee Extension (BDC)', angle: kneeAtBDC };
+    if (kneeAtBDC > range.max) {
+      recommendations.push({ ...base, type: 'warning', message: 'Saddle may be too high - knee nearly locks out at the bottom of the stroke' });
+    } else if (kneeAtBDC < range.min) {
+      recommendations.push({ ...base, type: 'warning', message: 'Saddle may be too low - knee stays bent at the bottom of the stroke' });
+    } else {
+      recommendations.push({ ...base, type: 'success', message: 'Good knee extension at the bottom of the stroke' });
+    }
+  }
+
+  // Knee flexion at the top limits how low the saddle and how long the cranks can be
+  if (kneeAtTDC !== undefined) {
+    const range = ranges.kneeAtTDC;
+    const base = { area: 'Knee Flexion (TDC)', angle: kneeAtTDC };
+    if (kneeAtTDC < range.min) {
+      recommendations.push({ ...base, type: 'warning', message: 'Knee closes sharply at the top of the stroke - saddle may be too low or cranks too long' });
+    } else if (kneeAtTDC > range.max) {
+      recommendations.push({ ...base, type: 'info', message: 'Knee stays open at the top of the stroke - check saddle height against knee extension at the bottom' });
+    } else {
+      recommendations.push({ ...base, type: 'success', message: 'Good knee flexion at the top of the stroke' });
+    }
+  }
+
+  // Hip closure at the top is where the position is tightest
+  if (hipAtTDC !== undefined) {
+    const range = ranges.hipAtTDC;
+    const base = { area: 'Hip Closure (TDC)', angle: hipAtTDC };
+    if (hipAtTDC < range.min) {
+      recommendations.push({ ...base, type: 'warning', message: 'Hip closes too far at the top of the stroke - raise the handlebars or move the saddle back' });
+    } else if (hipAtTDC > range.max) {
+      recommendations.push({ ...base, type: 'info', message: 'Open hip angle at the top of the stroke - room for a lower front end if comfortable' });
+    } else {
+      recommendations.push({ ...base, type: 'success', message: 'Good hip angle at the top of the stroke' });
+    }
+  }
+
+  // Knee over pedal spindle at 3 o'clock sets saddle setback
+  if (kneeOverPedal !== undefined) {
+    const range = ranges.kneeOverPedal;
+    const base = { area: 'Knee Over Pedal', value: kneeOverPedal, unit: '% of shin' };
+    if (kneeOverPedal > range.max) {
+      recommendations.push({ ...base, type: 'warning', message: "Knee is ahead of the pedal at 3 o'clock - saddle may be too far forward" });
+    } else if (kneeOverPedal < range.min) {
+      recommendations.push({ ...base, type: 'warning', message: "Knee is behind the pedal at 3 o'clock - saddle may be too far back" });
+    } else {
+      recommendations.push({ ...base, type: 'success', message: "Knee is over the pedal at 3 o'clock" });
+    }
+  }
+
+  return recommendations;
+}
+
+/**
+ * Replace the stroke-averaged knee angle and its saddle height advice
+ * with measurements at specific crank positions
+ */
+export function applyPedalStroke(
+  analysis: BikeFitAnalysis,
+  stroke: PedalStrokeAnalysis,
+  profile: BikeRuleProfile = DEFAULT_BIKE_PROFILE
+): BikeFitAnalysis {
+  const angles = { ...analysis.angles };
+  if (stroke.kneeAtBDC !== undefined) {
+    delete angles.knee;
+    angles.kneeAtBDC = stroke.kneeAtBDC;
+  }
+  if (stroke.kneeAtTDC !== undefined) angles.kneeAtTDC = stroke.kneeAtTDC;
+  if (stroke.hipAtTDC !== undefined) angles.hipAtTDC = stroke.hipAtTDC;
+
+  const recommendations = [
+    ...createPedalStrokeRecommendations(stroke, profile),
+    ...analysis.recommendations.filter(rec => stroke.kneeAtBDC === undefined || rec.area !== 'Knee Angle'),
+  ];
+
+  return {
+    ...analysis,
+    angles,
+    recommendations,
+    overall: assessBikeFitOverall(recommendations),
+  };
+}
+
+/**
+ * Combine per-frame bike fit analyses, then measure the pedal stroke across the frames
+ * Falls back to the plain average when no pedaling motion is detected
+ */
+export function combineBikeFitAnalyses(
+  analyses: BikeFitAnalysis[],
+  frames: FrameAnalysis[] = [],
+  profile: BikeRuleProfile = DEFAULT_BIKE_PROFILE
+): BikeFitAnalysis {
+  const combined = combineAnalyses(analyses);
+  const stroke = analyzePedalStroke(frames);
+  return stroke ? applyPedalStroke(combined, stroke, profile) : combined;
+}
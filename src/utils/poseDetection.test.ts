@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { calculateAngle, analyzeBikeFit } from './poseDetection';
+import { calculateAngle, analyzeBikeFit, getKeypointSchema, POSE_MODELS, DEFAULT_POSE_MODEL } from './poseDetection';
+import { BIKE_RULE_PROFILES } from './ruleProfiles';
 import type { Keypoint, Pose } from '../types';
 
 describe('poseDetection', () => {
@@ -123,7 +124,7 @@ describe('poseDetection', () => {
 
       const result = analyzeBikeFit(pose);
       expect(result).toBeDefined();
-      const saddleWarning = result!.recommendations.find(r => r.area === 'Saddle Height' && r.type === 'warning');
+      const saddleWarning = result!.recommendations.find(r => r.area === 'Knee Angle' && r.type === 'warning');
       expect(saddleWarning).toBeDefined();
       expect(saddleWarning!.message).toContain('too high');
     });
@@ -273,5 +274,91 @@ describe('poseDetection', () => {
       expect(result).toBeDefined();
       expect(result!.angles.knee).toBeDefined();
     });
+
+    describe('Rule profiles', () => {
+      // Flat aero tuck: torso about 17 degrees above horizontal with bent elbows
+      const aeroPose: Pose = {
+        score: 0.9,
+        keypoints: [
+          createKeypoint('left_shoulder', 200, 120),
+          createKeypoint('left_hip', 100, 150),
+          createKeypoint('left_elbow', 215, 185),
+          createKeypoint('left_wrist', 275, 180),
+          createKeypoint('left_knee', 140, 220),
+          createKeypoint('right_knee', 110, 250, 0.5),
+        ],
+      };
+
+      it('should measure the back angle above horizontal', () => {
+        const result = analyzeBikeFit(aeroPose);
+        expect(result!.angles.back).toBe(17);
+      });
+
+      it('should flag an aero tuck as too low for road riding', () => {
+        const result = analyzeBikeFit(aeroPose, BIKE_RULE_PROFILES.road);
+        const back = result!.recommendations.find(r => r.area === 'Back Angle');
+        expect(back!.type).toBe('warning');
+        const elbow = result!.recommendations.find(r => r.area === 'Elbow Angle');
+        expect(elbow!.type).toBe('info');
+      });
+
+      it('should accept an aero tuck for time trials', () => {
+        const result = analyzeBikeFit(aeroPose, BIKE_RULE_PROFILES['time-trial']);
+        const back = result!.recommendations.find(r => r.area === 'Back Angle');
+        expect(back!.type).toBe('success');
+        expect(back!.message).toContain('time trial');
+        const elbow = result!.recommendations.find(r => r.area === 'Elbow Angle');
+        expect(elbow!.type).toBe('success');
+      });
+    });
+
+    describe('Foot keypoints', () => {
+      const createPoseWithFoot = (footX: number, footY: number, schema?: Pose['schema']): Pose => ({
+        score: 0.9,
+        schema,
+        keypoints: [
+          createKeypoint('left_hip', 100, 150),
+          createKeypoint('left_knee', 100, 250),
+          createKeypoint('left_ankle', 100, 350),
+          createKeypoint('left_foot_index', footX, footY),
+          createKeypoint('right_knee', 110, 250, 0.5),
+        ],
+      });
+
+      it('should measure ankle angle for BlazePose poses', () => {
+        const result = analyzeBikeFit(createPoseWithFoot(150, 350, 'blazepose33'));
+        expect(result!.angles.ankle).toBe(90);
+      });
+
+      it('should warn when toes point down sharply', () => {
+        const result = analyzeBikeFit(createPoseWithFoot(130, 400, 'blazepose33'));
+        expect(result!.angles.ankle).toBeGreaterThan(140);
+        expect(result!.recommendations.some(r => r.area === 'Ankle Angle')).toBe(true);
+      });
+
+      it('should not measure ankle angle for COCO poses', () => {
+        const result = analyzeBikeFit(createPoseWithFoot(150, 350, 'coco17'));
+        expect(result!.angles.ankle).toBeUndefined();
+      });
+    });
+  });
+
+  describe('Pose model registry', () => {
+    it('should default to MoveNet Lightning', () => {
+      expect(DEFAULT_POSE_MODEL).toBe('movenet-lightning');
+      expect(getKeypointSchema()).toBe('coco17');
+    });
+
+    it('should expose the keypoint schema of each model', () => {
+      expect(getKeypointSchema('movenet-thunder')).toBe('coco17');
+      expect(getKeypointSchema('movenet-multipose')).toBe('coco17');
+      expect(getKeypointSchema('blazepose')).toBe('blazepose33');
+    });
+
+    it('should provide a label for every model', () => {
+      Object.values(POSE_MODELS).forEach(model => {
+        expect(model.label).toBeTruthy();
+      });
+    });
   });
 });
@@ -1,33 +1,116 @@
 import * as poseDetection from '@tensorflow-models/pose-detection';
 import '@tensorflow/tfjs-backend-webgl';
-import type { Pose, Keypoint, BikeFitAnalysis, Recommendation } from '../types';
+import { KEYPOINT_SCHEMAS, getPoseSchema } from './keypointSchema';
+import { DEFAULT_BIKE_PROFILE, classifyRange } from './ruleProfiles';
+import type { Pose, Keypoint, BikeFitAnalysis, BikeRuleProfile, Recommendation, PoseModelId, KeypointSchema } from '../types';
 
-let detector: poseDetection.PoseDetector | null = null;
+interface PoseModelDefinition {
+  label: string;
+  schema: KeypointSchema;
+  model: poseDetection.SupportedModels;
+  config: poseDetection.MoveNetModelConfig | poseDetection.BlazePoseTfjsModelConfig;
+  multiPerson?: boolean; // Detects everyone in frame, so the athlete must be chosen and tracked
+}
 
-// Initialize the pose detector
-export async function initializePoseDetector(): Promise<poseDetection.PoseDetector> {
-  if (detector) return detector;
+// Available pose models, keyed by the id selected in the UI
+export const POSE_MODELS: Record<PoseModelId, PoseModelDefinition> = {
+  'movenet-lightning': {
+    label: 'MoveNet Lightning (fastest)',
+    schema: 'coco17',
+    model: poseDetection.SupportedModels.MoveNet,
+    config: { modelType: poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING },
+  },
+  'movenet-thunder': {
+    label: 'MoveNet Thunder (most accurate)',
+    schema: 'coco17',
+    model: poseDetection.SupportedModels.MoveNet,
+    config: { modelType: poseDetection.movenet.modelType.SINGLEPOSE_THUNDER },
+  },
+  'movenet-multipose': {
+    label: 'MoveNet MultiPose (several people)',
+    schema: 'coco17',
+    model: poseDetection.SupportedModels.MoveNet,
+    config: { modelType: poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING, enableTracking: false },
+    multiPerson: true,
+  },
+  blazepose: {
+    label: 'BlazePose 3D (heel & toe points)',
+    schema: 'blazepose33',
+    model: poseDetection.SupportedModels.BlazePose,
+    // Smoothing is left to the analysis pipeline since frames are seeked, not played
+    config: { runtime: 'tfjs', modelType: 'full', enableSmoothing: false },
+  },
+};
 
-  const detectorConfig: poseDetection.MoveNetModelConfig = {
-    modelType: poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
-  };
+export const DEFAULT_POSE_MODEL: PoseModelId = 'movenet-lightning';
 
-  detector = await poseDetection.createDetector(
-    poseDetection.SupportedModels.MoveNet,
-    detectorConfig
-  );
+// Detectors are loaded lazily and cached per model
+const detectors = new Map<PoseModelId, Promise<poseDetection.PoseDetector>>();
 
-  return detector;
-}
+// Initialize the pose detector for a model
+export async function initializePoseDetector(
+  modelId: PoseModelId = DEFAULT_POSE_MODEL
+): Promise<poseDetection.PoseDetector> {
+  let detector = detectors.get(modelId);
 
-// Get pose from video element
-export async function detectPose(videoElement: HTMLVideoElement): Promise<Pose | null> {
   if (!detector) {
-    await initializePoseDetector();
+    const { model, config } = POSE_MODELS[modelId];
+    detector = poseDetection.createDetector(model, config);
+    detectors.set(modelId, detector);
+
+    // Allow a retry if the model fails to load
+    detector.catch(() => detectors.delete(modelId));
   }
 
-  const poses = await detector!.estimatePoses(videoElement);
-  return poses.length > 0 ? (poses[0] as Pose) : null;
+  return detector;
+}
+
+// Get the keypoint schema produced by a model
+export function getKeypointSchema(modelId: PoseModelId = DEFAULT_POSE_MODEL): KeypointSchema {
+  return POSE_MODELS[modelId].schema;
+}
+
+// Whether a model returns every person in frame rather than a single pose
+export function detectsMultiplePeople(modelId: PoseModelId = DEFAULT_POSE_MODEL): boolean {
+  return !!POSE_MODELS[modelId].multiPerson;
+}
+
+// Convert a detector result into our Pose, tagging its schema
+function toPose(result: poseDetection.Pose, schema: KeypointSchema): Pose {
+  const keypoints: Keypoint[] = result.keypoints.map((kp, index) => ({
+    ...kp,
+    // BlazePose reports depth in its 3D keypoints
+    z: result.keypoints3D?.[index]?.z ?? kp.z,
+  }));
+
+  const score = result.score ??
+    keypoints.reduce((sum, kp) => sum + (kp.score || 0), 0) / Math.max(1, keypoints.length);
+
+  return { keypoints, score, schema };
+}
+
+// Get pose from a video element (main thread) or a transferred frame bitmap (worker)
+export async function detectPose(
+  source: HTMLVideoElement | ImageBitmap,
+  modelId: PoseModelId = DEFAULT_POSE_MODEL
+): Promise<Pose | null> {
+  const detector = await initializePoseDetector(modelId);
+  const poses = await detector.estimatePoses(source);
+  if (poses.length === 0) return null;
+
+  // Multi-person models return everyone in frame - keep the most confident
+  const best = poses.reduce((a, b) => ((b.score || 0) > (a.score || 0) ? b : a));
+  return toPose(best, POSE_MODELS[modelId].schema);
+}
+
+// Get everyone in frame, for picking and tracking one athlete among several people
+export async function detectPoses(
+  source: HTMLVideoElement | ImageBitmap,
+  modelId: PoseModelId = DEFAULT_POSE_MODEL
+): Promise<Pose[]> {
+  const detector = await initializePoseDetector(modelId);
+  const poses = await detector.estimatePoses(source);
+  return poses.map(result => toPose(result, POSE_MODELS[modelId].schema));
 }
 
 // Calculate angle between three points
@@ -48,8 +131,8 @@ function getKeypoint(pose: Pose, name: string): Keypoint | undefined {
   return pose.keypoints.find((kp) => kp.name === name);
 }
 
-// Analyze bike fit from pose
-export function analyzeBikeFit(pose: Pose): BikeFitAnalysis | null {
+// Analyze bike fit from pose, judging angles against the discipline's optimal ranges
+export function analyzeBikeFit(pose: Pose, profile: BikeRuleProfile = DEFAULT_BIKE_PROFILE): BikeFitAnalysis | null {
   if (!pose || !pose.keypoints) return null;
 
   const leftShoulder = getKeypoint(pose, 'left_shoulder');
@@ -81,35 +164,26 @@ export function analyzeBikeFit(pose: Pose): BikeFitAnalysis | null {
     overall: 'good',
   };
 
+  const { ranges } = profile;
+
   // Calculate knee angle (hip-knee-ankle)
   if (hip && knee && ankle && hip.score! > 0.3 && knee.score! > 0.3 && ankle.score! > 0.3) {
     const kneeAngle = calculateAngle(hip, knee, ankle);
     results.angles.knee = Math.round(kneeAngle);
 
-    // Optimal knee angle at bottom of pedal stroke: 25-35 degrees
-    // During pedaling it varies, but should not be too straight (>170) or too bent (<90)
-    if (kneeAngle > 170) {
-      results.recommendations.push({
-        type: 'warning',
-        area: 'Saddle Height',
-        message: 'Saddle may be too high - knee is too straight',
-        angle: results.angles.knee,
-      });
-    } else if (kneeAngle < 90) {
-      results.recommendations.push({
-        type: 'warning',
-        area: 'Saddle Height',
-        message: 'Saddle may be too low - knee is too bent',
-        angle: results.angles.knee,
-      });
-    } else if (kneeAngle >= 140 && kneeAngle <= 160) {
-      results.recommendations.push({
-        type: 'success',
-        area: 'Saddle Height',
-        message: 'Good knee extension',
-        angle: results.angles.knee,
-      });
-    }
+    // Averaged over the stroke this is a rough saddle height check - the pedal stroke
+    // analysis replaces it with the extension at the bottom of the stroke when it can
+    const kneeStatus = classifyRange(kneeAngle, ranges.knee);
+    results.recommendations.push({
+      type: kneeStatus === 'optimal' ? 'success' : 'warning',
+      area: 'Knee Angle',
+      message: kneeStatus === 'high'
+        ? 'Saddle may be too high - knee is too straight'
+        : kneeStatus === 'low'
+          ? 'Saddle may be too low - knee is too bent'
+          : 'Good knee extension',
+      angle: results.angles.knee,
+    });
   }
 
   // Calculate hip angle (shoulder-hip-knee)
@@ -117,15 +191,22 @@ export function analyzeBikeFit(pose: Pose): BikeFitAnalysis | null {
     const hipAngle = calculateAngle(shoulder, hip, knee);
     results.angles.hip = Math.round(hipAngle);
 
-    // Hip angle should be between 40-60 degrees for optimal power
-    if (hipAngle < 40) {
+    const hipStatus = classifyRange(hipAngle, ranges.hip);
+    if (hipStatus === 'low') {
       results.recommendations.push({
         type: 'warning',
         area: 'Hip Angle',
         message: 'Hip angle too closed - may need to raise handlebars or adjust saddle',
         angle: results.angles.hip,
       });
-    } else if (hipAngle >= 40 && hipAngle <= 70) {
+    } else if (hipStatus === 'high') {
+      results.recommendations.push({
+        type: 'info',
+        area: 'Hip Angle',
+        message: 'Open hip angle - room for a lower front end if flexibility allows',
+        angle: results.angles.hip,
+      });
+    } else {
       results.recommendations.push({
         type: 'success',
         area: 'Hip Angle',
@@ -135,36 +216,24 @@ export function analyzeBikeFit(pose: Pose): BikeFitAnalysis | null {
     }
   }
 
-  // Calculate back angle (vertical line-shoulder-hip)
+  // Calculate back angle (torso above horizontal - 0° is flat, 90° upright)
   if (shoulder && hip && shoulder.score! > 0.3 && hip.score! > 0.3) {
-    // Create a vertical reference point
-    const verticalPoint: Keypoint = { x: shoulder.x, y: shoulder.y - 100 };
-    const backAngle = calculateAngle(verticalPoint, shoulder, hip);
+    const horizontalPoint: Keypoint = { x: hip.x + (shoulder.x >= hip.x ? 100 : -100), y: hip.y };
+    const backAngle = calculateAngle(horizontalPoint, hip, shoulder);
     results.angles.back = Math.round(backAngle);
 
-    // Back angle from vertical: 35-45 degrees is typical for road cycling
-    if (backAngle < 30) {
-      results.recommendations.push({
-        type: 'info',
-        area: 'Back Angle',
-        message: 'Very upright position - good for comfort',
-        angle: results.angles.back,
-      });
-    } else if (backAngle >= 35 && backAngle <= 50) {
-      results.recommendations.push({
-        type: 'success',
-        area: 'Back Angle',
-        message: 'Good aerodynamic position',
-        angle: results.angles.back,
-      });
-    } else if (backAngle > 60) {
-      results.recommendations.push({
-        type: 'warning',
-        area: 'Back Angle',
-        message: 'Very aggressive position - ensure flexibility and comfort',
-        angle: results.angles.back,
-      });
-    }
+    // The back angle is what sets the disciplines apart - flat for time trials, upright for MTB
+    const backStatus = classifyRange(backAngle, ranges.back);
+    results.recommendations.push({
+      type: backStatus === 'optimal' ? 'success' : 'warning',
+      area: 'Back Angle',
+      message: backStatus === 'low'
+        ? `Lower than a typical ${profile.label.toLowerCase()} position - ensure flexibility and comfort`
+        : backStatus === 'high'
+          ? `More upright than a typical ${profile.label.toLowerCase()} position - costs aerodynamics`
+          : `Good back angle for ${profile.label.toLowerCase()} riding`,
+      angle: results.angles.back,
+    });
   }
 
   // Calculate elbow angle (shoulder-elbow-wrist)
@@ -172,35 +241,64 @@ export function analyzeBikeFit(pose: Pose): BikeFitAnalysis | null {
     const elbowAngle = calculateAngle(shoulder, elbow, wrist);
     results.angles.elbow = Math.round(elbowAngle);
 
-    // Elbow should have slight bend (140-170 degrees)
-    if (elbowAngle > 170) {
+    const elbowStatus = classifyRange(elbowAngle, ranges.elbow);
+    if (elbowStatus === 'high') {
       results.recommendations.push({
         type: 'warning',
-        area: 'Elbow Position',
+        area: 'Elbow Angle',
         message: 'Arms too straight - add slight bend for comfort and shock absorption',
         angle: results.angles.elbow,
       });
-    } else if (elbowAngle >= 140 && elbowAngle <= 170) {
+    } else if (elbowStatus === 'low') {
+      results.recommendations.push({
+        type: 'info',
+        area: 'Elbow Angle',
+        message: 'Elbows bent more than usual for this position - reach may be short',
+        angle: results.angles.elbow,
+      });
+    } else {
       results.recommendations.push({
         type: 'success',
-        area: 'Elbow Position',
-        message: 'Good arm position with slight bend',
+        area: 'Elbow Angle',
+        message: 'Good arm position',
         angle: results.angles.elbow,
       });
     }
   }
 
+  // Calculate ankle angle (knee-ankle-foot) when the model provides foot keypoints
+  const footIndex = getKeypoint(pose, useLeftSide ? 'left_foot_index' : 'right_foot_index');
+  if (KEYPOINT_SCHEMAS[getPoseSchema(pose)].hasFeet &&
+      knee && ankle && footIndex && knee.score! > 0.3 && ankle.score! > 0.3 && footIndex.score! > 0.3) {
+    const ankleAngle = calculateAngle(knee, ankle, footIndex);
+    results.angles.ankle = Math.round(ankleAngle);
+
+    // Toes pointing sharply down usually means the rider is reaching for the pedals
+    if (ankleAngle > 140) {
+      results.recommendations.push({
+        type: 'warning',
+        area: 'Ankle Angle',
+        message: 'Toes pointing down sharply - saddle may be too high or too far back',
+        angle: results.angles.ankle,
+      });
+    }
+  }
+
   // Overall assessment
-  const warningCount = results.recommendations.filter((r: Recommendation) => r.type === 'warning').length;
-  const successCount = results.recommendations.filter((r: Recommendation) => r.type === 'success').length;
+  results.overall = assessBikeFitOverall(results.recommendations);
+
+  return results;
+}
+
+// Overall bike fit rating from the number of warnings and confirmed-good measurements
+export function assessBikeFitOverall(recommendations: Recommendation[]): BikeFitAnalysis['overall'] {
+  const warningCount = recommendations.filter((r: Recommendation) => r.type === 'warning').length;
+  const successCount = recommendations.filter((r: Recommendation) => r.type === 'success').length;
 
   if (warningCount === 0 && successCount >= 2) {
-    results.overall = 'excellent';
+    return 'excellent';
   } else if (warningCount <= 1) {
-    results.overall = 'good';
-  } else {
-    results.overall = 'needs-adjustment';
+    return 'good';
   }
-
-  return results;
+  return 'needs-adjustment';
 }
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { smoothPoseSequence, smoothPoseSegments, alignLimbIdentity, DEFAULT_SMOOTHING_OPTIONS } from './poseSmoothing';
+import type { Keypoint, Pose } from '../types';
+
+describe('poseSmoothing', () => {
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  // Side-view runner with the left leg ahead of the right by `stride` pixels
+  const createPose = (stride: number = 60, offsetX: number = 0): Pose => ({
+    score: 0.9,
+    keypoints: [
+      createKeypoint('left_shoulder', 300 + offsetX, 100),
+      createKeypoint('right_shoulder', 300 + offsetX, 100),
+      createKeypoint('left_hip', 300 + offsetX, 200),
+      createKeypoint('right_hip', 300 + offsetX, 200),
+      createKeypoint('left_knee', 300 + offsetX + stride / 2, 300),
+      createKeypoint('right_knee', 300 + offsetX - stride / 2, 300),
+      createKeypoint('left_ankle', 300 + offsetX + stride, 400),
+      createKeypoint('right_ankle', 300 + offsetX - stride, 400),
+    ],
+  });
+
+  const getKeypoint = (pose: Pose, name: string): Keypoint => pose.keypoints.find(kp => kp.name === name)!;
+
+  const times = (count: number, fps: number = 15): number[] => Array.from({ length: count }, (_, i) => i / fps);
+
+  describe('smoothPoseSequence', () => {
+    it('should return an empty report for no poses', () => {
+      const { poses, report } = smoothPoseSequence([], []);
+
+      expect(poses).toEqual([]);
+      expect(report.correctedKeypoints).toBe(0);
+    });
+
+    it('should not mutate the input poses', () => {
+      const input = [createPose(), createPose(), createPose()];
+      input[1].keypoints[6].x += 5;
+      const snapshot = JSON.parse(JSON.stringify(input));
+
+      smoothPoseSequence(input, times(3));
+
+      expect(input).toEqual(snapshot);
+    });
+
+    it('should leave a steady pose unchanged', () => {
+      const input = Array.from({ length: 5 }, () => createPose());
+      const { poses, report } = smoothPoseSequence(input, times(5));
+
+      expect(getKeypoint(poses[4], 'left_ankle').x).toBeCloseTo(360);
+      expect(report.correctedKeypoints).toBe(0);
+    });
+
+    it('should reduce frame-to-frame jitter', () => {
+      const input = Array.from({ length: 30 }, (_, i) => {
+        const pose = createPose();
+        getKeypoint(pose, 'left_ankle').x += i % 2 === 0 ? 6 : -6;
+        return pose;
+      });
+
+      const { poses } = smoothPoseSequence(input, times(30));
+      const xs = poses.slice(10).map(pose => getKeypoint(pose, 'left_ankle').x);
+
+      expect(Math.max(...xs) - Math.min(...xs)).toBeLessThan(12);
+    });
+
+    it('should undo a left/right leg swap', () => {
+      const input = [createPose(), createPose(), createPose(-60), createPose()];
+      const { poses, report } = smoothPoseSequence(input, times(4));
+
+      expect(getKeypoint(poses[2], 'left_ankle').x).toBeGreaterThan(getKeypoint(poses[2], 'right_ankle').x);
+      expect(report.swappedKeypoints).toBe(4);
+    });
+
+    it('should not swap legs that are crossing', () => {
+      const input = [createPose(20), createPose(5), createPose(-10), createPose(-25)];
+      const { report } = smoothPoseSequence(input, times(4));
+
+      expect(report.swappedKeypoints).toBe(0);
+    });
+
+    it('should reject a single-frame spike and fill it from its neighbours', () => {
+      const input = [createPose(), createPose(), createPose(), createPose(), createPose()];
+      getKeypoint(input[2], 'left_knee').y += 200;
+
+      const { poses, report } = smoothPoseSequence(input, times(5));
+
+      expect(report.rejectedOutliers).toBe(1);
+      expect(getKeypoint(poses[2], 'left_knee').y).toBeCloseTo(300);
+    });
+
+    it('should fill short low-confidence gaps using timestamps', () => {
+      const input = [createPose(60, 0), createPose(60, 10), createPose(60, 20), createPose(60, 30)];
+      input[1].keypoints[6].score = 0.1;
+      input[2].keypoints[6].score = 0.1;
+
+      const { poses, report } = smoothPoseSequence(input, [0, 0.1, 0.2, 0.3], {
+        ...DEFAULT_SMOOTHING_OPTIONS,
+        minCutoff: 1000,
+      });
+
+      expect(report.filledKeypoints).toBe(2);
+      expect(poses[1].keypoints[6].score).toBeGreaterThanOrEqual(DEFAULT_SMOOTHING_OPTIONS.minConfidence);
+      expect(poses[1].keypoints[6].x).toBeCloseTo(370, 0);
+    });
+
+    it('should leave gaps longer than the configured maximum', () => {
+      const input = Array.from({ length: 6 }, () => createPose());
+      for (let i = 1; i < 5; i++) input[i].keypoints[6].score = 0.1;
+
+      const { poses, report } = smoothPoseSequence(input, times(6), {
+        ...DEFAULT_SMOOTHING_OPTIONS,
+        maxGapFrames: 3,
+      });
+
+      expect(report.filledKeypoints).toBe(0);
+      expect(poses[2].keypoints[6].score).toBe(0.1);
+    });
+
+    it('should count each corrected keypoint once', () => {
+      const input = [createPose(), createPose(), createPose(), createPose(), createPose()];
+      getKeypoint(input[2], 'left_knee').y += 200;
+
+      const { report } = smoothPoseSequence(input, times(5));
+
+      // Rejected and then filled, but only one keypoint changed
+      expect(report.rejectedOutliers).toBe(1);
+      expect(report.filledKeypoints).toBe(1);
+      expect(report.correctedKeypoints).toBe(1);
+    });
+  });
+
+  describe('smoothPoseSegments', () => {
+    it('should not carry smoothing across a cut between segments', () => {
+      // Athlete framed 400 px further right after the cut, 40 s later
+      const input = [createPose(), createPose(), createPose(), createPose(60, 400), createPose(60, 400), createPose(60, 400)];
+      const timestamps = [...times(3), ...times(3).map(t => t + 40)];
+
+      const { poses, report } = smoothPoseSegments(input, timestamps, [0, 0, 0, 1, 1, 1]);
+
+      expect(report.frames).toBe(6);
+      expect(report.correctedKeypoints).toBe(0);
+      expect(getKeypoint(poses[3], 'left_hip').x).toBeCloseTo(700);
+      expect(getKeypoint(poses[2], 'left_hip').x).toBeCloseTo(300);
+    });
+  });
+
+  describe('alignLimbIdentity', () => {
+    it('should swap limbs to match the reference pose', () => {
+      const aligned = alignLimbIdentity(createPose(-60), createPose(60));
+
+      expect(getKeypoint(aligned, 'left_ankle').x).toBe(360);
+      expect(getKeypoint(aligned, 'right_ankle').x).toBe(240);
+    });
+
+    it('should keep a pose that already matches', () => {
+      const pose = createPose(60);
+      const aligned = alignLimbIdentity(pose, createPose(55));
+
+      expect(aligned).toEqual(pose);
+      expect(aligned).not.toBe(pose);
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import type { Keypoint, Pose, SmoothingOptions, SmoothingPreset, SmoothingReport } from '../types';
+
+/**
+ * Pose Smoothing
+ * - Tracks left/right limb identity across frames and undoes detector swaps
+ * - Rejects single-frame keypoint spikes
+ * - Fills short low-confidence gaps by interpolating between timestamps
+ * - Smooths keypoint trajectories with a One Euro filter
+ */
+
+export const DEFAULT_SMOOTHING_OPTIONS: SmoothingOptions = {
+  minCutoff: 1.5,
+  beta: 0.01,
+  derivativeCutoff: 1.0,
+  minConfidence: 0.3,
+  maxGapFrames: 3,
+  outlierThreshold: 0.6,
+};
+
+export const SMOOTHING_PRESETS: Record<SmoothingPreset, { label: string; options: SmoothingOptions | false }> = {
+  off: { label: 'Off (raw detections)', options: false },
+  light: {
+    label: 'Light',
+    options: { ...DEFAULT_SMOOTHING_OPTIONS, minCutoff: 3, beta: 0.02, maxGapFrames: 2 },
+  },
+  standard: { label: 'Standard', options: DEFAULT_SMOOTHING_OPTIONS },
+  strong: {
+    label: 'Strong',
+    options: { ...DEFAULT_SMOOTHING_OPTIONS, minCutoff: 0.8, beta: 0.005, maxGapFrames: 5 },
+  },
+};
+
+// Limb keypoints (without the left_/right_ prefix) that swap together
+const LIMB_GROUPS: string[][] = [
+  ['elbow', 'wrist'],
+  ['knee', 'ankle', 'heel', 'foot_index'],
+];
+
+// Swap only when the crossed assignment is clearly closer than the current one
+const SWAP_COST_RATIO = 0.5;
+
+interface FilterState {
+  value: number;
+  derivative: number;
+  time: number;
+}
+
+const distance = (a: Keypoint, b: Keypoint): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+const findKeypoint = (pose: Pose, name: string): Keypoint | undefined =>
+  pose.keypoints.find(kp => kp.name === name);
+
+const isConfident = (keypoint: Keypoint | undefined, minConfidence: number): keypoint is Keypoint =>
+  !!keypoint && (keypoint.score || 0) >= minConfidence;
+
+const clonePose = (pose: Pose): Pose => ({
+  ...pose,
+  keypoints: pose.keypoints.map(kp => ({ ...kp })),
+});
+
+// Exchange positions and scores while keeping the keypoint names
+function swapKeypoints(a: Keypoint, b: Keypoint): void {
+  const { x, y, z, score } = a;
+  a.x = b.x;
+  a.y = b.y;
+  a.z = b.z;
+  a.score = b.score;
+  b.x = x;
+  b.y = y;
+  b.z = z;
+  b.score = score;
+}
+
+/**
+ * Undo left/right limb swaps in a pose by comparing it with a reference pose
+ * Mutates the pose and returns the names of the keypoints swapped
+ */
+function correctLimbSwaps(pose: Pose, reference: Pose, minConfidence: number): string[] {
+  const swapped: string[] = [];
+
+  for (const group of LIMB_GROUPS) {
+    let keepCost = 0;
+    let swapCost = 0;
+    let pairs = 0;
+
+    for (const part of group) {
+      const left = findKeypoint(pose, `left_${part}`);
+      const right = findKeypoint(pose, `right_${part}`);
+      const refLeft = findKeypoint(reference, `left_${part}`);
+      const refRight = findKeypoint(reference, `right_${part}`);
+      if (
+        !isConfident(left, minConfidence) ||
+        !isConfident(right, minConfidence) ||
+        !isConfident(refLeft, minConfidence) ||
+        !isConfident(refRight, minConfidence)
+      ) {
+        continue;
+      }
+
+      keepCost += distance(left, refLeft) + distance(right, refRight);
+      swapCost += distance(left, refRight) + distance(right, refLeft);
+      pairs++;
+    }
+
+    if (pairs === 0 || swapCost >= keepCost * SWAP_COST_RATIO) continue;
+
+    for (const part of group) {
+      const left = findKeypoint(pose, `left_${part}`);
+      const right = findKeypoint(pose, `right_${part}`);
+      if (left && right) {
+        swapKeypoints(left, right);
+        swapped.push(`left_${part}`, `right_${part}`);
+      }
+    }
+  }
+
+  return swapped;
+}
+
+/**
+ * Align a single pose's limb identity with a reference pose (e.g. the cached smoothed pose)
+ * @returns A corrected copy of the pose
+ */
+export function alignLimbIdentity(
+  pose: Pose,
+  reference: Pose,
+  minConfidence: number = DEFAULT_SMOOTHING_OPTIONS.minConfidence
+): Pose {
+  const aligned = clonePose(pose);
+  correctLimbSwaps(aligned, reference, minConfidence);
+  return aligned;
+}
+
+// Extrapolate the previous pose at constant velocity so crossing limbs aren't mistaken for swaps
+function predictPose(previous: Pose, beforePrevious: Pose, stepRatio: number, minConfidence: number): Pose {
+  return {
+    ...previous,
+    keypoints: previous.keypoints.map(kp => {
+      const earlier = kp.name ? findKeypoint(beforePrevious, kp.name) : undefined;
+      if (!isConfident(kp, minConfidence) || !isConfident(earlier, minConfidence)) return kp;
+      return {
+        ...kp,
+        x: kp.x + (kp.x - earlier.x) * stepRatio,
+        y: kp.y + (kp.y - earlier.y) * stepRatio,
+      };
+    }),
+  };
+}
+
+// Median shoulder-to-hip distance across the sequence, used to scale outlier detection
+function getTorsoLength(poses: Pose[], minConfidence: number): number | null {
+  const lengths: number[] = [];
+
+  for (const pose of poses) {
+    for (const side of ['left', 'right']) {
+      const shoulder = findKeypoint(pose, `${side}_shoulder`);
+      const hip = findKeypoint(pose, `${side}_hip`);
+      if (isConfident(shoulder, minConfidence) && isConfident(hip, minConfidence)) {
+        lengths.push(distance(shoulder, hip));
+      }
+    }
+  }
+
+  if (lengths.length === 0) return null;
+  lengths.sort((a, b) => a - b);
+  return lengths[Math.floor(lengths.length / 2)] || null;
+}
+
+// Smoothing factor of a first-order low-pass filter for a cutoff frequency and time step
+function smoothingFactor(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+// Advance a One Euro filter by one sample
+function filterStep(
+  state: FilterState | undefined,
+  value: number,
+  time: number,
+  options: SmoothingOptions
+): FilterState {
+  if (!state) return { value, derivative: 0, time };
+
+  const dt = time - state.time;
+  if (dt <= 0) return state;
+
+  const rawDerivative = (value - state.value) / dt;
+  const derivative =
+    state.derivative + smoothingFactor(options.derivativeCutoff, dt) * (rawDerivative - state.derivative);
+  const cutoff = options.minCutoff + options.beta * Math.abs(derivative);
+  const filtered = state.value + smoothingFactor(cutoff, dt) * (value - state.value);
+
+  return { value: filtered, derivative, time };
+}
+
+/**
+ * Smooth a pose sequence and repair tracking errors
+ * @param poses - Poses in time order, all from the same keypoint schema
+ * @param timestamps - Media timestamp of each pose in seconds
+ * @returns Corrected copies of the poses and a report of what was changed
+ */
+export function smoothPoseSequence(
+  poses: Pose[],
+  timestamps: number[],
+  options: SmoothingOptions = DEFAULT_SMOOTHING_OPTIONS
+): { poses: Pose[]; report: SmoothingReport } {
+  const { minConfidence } = options;
+  const smoothed = poses.map(clonePose);
+  const corrected = new Set<string>();
+  const markCorrected = (frame: number, index: number) => corrected.add(`${frame}:${index}`);
+
+  const report: SmoothingReport = {
+    frames: poses.length,
+    swappedKeypoints: 0,
+    rejectedOutliers: 0,
+    filledKeypoints: 0,
+    correctedKeypoints: 0,
+  };
+
+  if (smoothed.length === 0) return { poses: smoothed, report };
+
+  // 1. Left/right identity tracking against the motion of the previous (already corrected) frames
+  for (let i = 1; i < smoothed.length; i++) {
+    const previousStep = i >= 2 ? timestamps[i - 1] - timestamps[i - 2] : 0;
+    const reference =
+      previousStep > 0
+        ? predictPose(smoothed[i - 1], smoothed[i - 2], (timestamps[i] - timestamps[i - 1]) / previousStep, minConfidence)
+        : smoothed[i - 1];
+    const swapped = correctLimbSwaps(smoothed[i], reference, minConfidence);
+    report.swappedKeypoints += swapped.length;
+    smoothed[i].keypoints.forEach((kp, index) => {
+      if (kp.name && swapped.includes(kp.name)) markCorrected(i, index);
+    });
+  }
+
+  const keypointCount = smoothed[0].keypoints.length;
+  const sameLayout = smoothed.every(pose => pose.keypoints.length === keypointCount);
+  if (!sameLayout) {
+    report.correctedKeypoints = corrected.size;
+    return { poses: smoothed, report };
+  }
+
+  // 2. Reject single-frame spikes - a point far from the midpoint of both neighbours
+  const torsoLength = getTorsoLength(smoothed, minConfidence);
+  if (torsoLength) {
+    const maxDeviation = options.outlierThreshold * torsoLength;
+
+    for (let k = 0; k < keypointCount; k++) {
+      const outliers: number[] = [];
+      for (let i = 1; i < smoothed.length - 1; i++) {
+        const prev = smoothed[i - 1].keypoints[k];
+        const current = smoothed[i].keypoints[k];
+        const next = smoothed[i + 1].keypoints[k];
+        if (!isConfident(prev, minConfidence) || !isConfident(current, minConfidence) || !isConfident(next, minConfidence)) {
+          continue;
+        }
+
+        const midpoint = { ...current, x: (prev.x + next.x) / 2, y: (prev.y + next.y) / 2 };
+        if (distance(current, midpoint) > maxDeviation && distance(prev, next) < maxDeviation) {
+          outliers.push(i);
+        }
+      }
+
+      // Mark after scanning so one spike doesn't hide its neighbours
+      for (const i of outliers) {
+        smoothed[i].keypoints[k].score = 0;
+        report.rejectedOutliers++;
+        markCorrected(i, k);
+      }
+    }
+  }
+
+  // 3. Fill short gaps of missing keypoints between two confident frames
+  for (let k = 0; k < keypointCount; k++) {
+    let lastValid = -1;
+
+    for (let i = 0; i < smoothed.length; i++) {
+      const current = smoothed[i].keypoints[k];
+      if (!isConfident(current, minConfidence)) continue;
+
+      const gap = i - lastValid - 1;
+      if (lastValid >= 0 && gap > 0 && gap <= options.maxGapFrames) {
+        const before = smoothed[lastValid].keypoints[k];
+        const span = timestamps[i] - timestamps[lastValid];
+
+        for (let j = lastValid + 1; j < i; j++) {
+          const t = span > 0 ? (timestamps[j] - timestamps[lastValid]) / span : (j - lastValid) / (gap + 1);
+          const target = smoothed[j].keypoints[k];
+          target.x = before.x + (current.x - before.x) * t;
+          target.y = before.y + (current.y - before.y) * t;
+          if (before.z !== undefined && current.z !== undefined) {
+            target.z = before.z + (current.z - before.z) * t;
+          }
+          target.score = Math.min(before.score || 0, current.score || 0);
+          report.filledKeypoints++;
+          markCorrected(j, k);
+        }
+      }
+
+      lastValid = i;
+    }
+  }
+
+  // 4. One Euro filter over each confident keypoint trajectory
+  for (let k = 0; k < keypointCount; k++) {
+    let stateX: FilterState | undefined;
+    let stateY: FilterState | undefined;
+
+    for (let i = 0; i < smoothed.length; i++) {
+      const keypoint = smoothed[i].keypoints[k];
+      if (!isConfident(keypoint, minConfidence)) continue;
+
+      stateX = filterStep(stateX, keypoint.x, timestamps[i], options);
+      stateY = filterStep(stateY, keypoint.y, timestamps[i], options);
+      keypoint.x = stateX.value;
+      keypoint.y = stateY.value;
+    }
+  }
+
+  report.correctedKeypoints = corrected.size;
+  return { poses: smoothed, report };
+}
+
+/**
+ * Smooth each trimmed video segment as its own sequence, so nothing is carried across the cut
+ * @param segments - Segment index of each pose; poses of a segment must be contiguous
+ * @returns Corrected copies of the poses and the combined report
+ */
+export function smoothPoseSegments(
+  poses: Pose[],
+  timestamps: number[],
+  segments: number[],
+  options: SmoothingOptions = DEFAULT_SMOOTHING_OPTIONS
+): { poses: Pose[]; report: SmoothingReport } {
+  const report: SmoothingReport = {
+    frames: 0,
+    swappedKeypoints: 0,
+    rejectedOutliers: 0,
+    filledKeypoints: 0,
+    correctedKeypoints: 0,
+  };
+  const smoothed: Pose[] = [];
+
+  let start = 0;
+  while (start < poses.length) {
+    let end = start + 1;
+    while (end < poses.length && segments[end] === segments[start]) end++;
+
+    const result = smoothPoseSequence(poses.slice(start, end), timestamps.slice(start, end), options);
+    smoothed.push(...result.poses);
+    (Object.keys(report) as (keyof SmoothingReport)[]).forEach(key => {
+      report[key] += result.report[key];
+    });
+    start = end;
+  }
+
+  return { poses: smoothed, report };
+}
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Pose, PoseWorkerRequest, PoseWorkerResponse } from '../types';
+
+// Mock poseDetection module
+vi.mock('./poseDetection', () => ({
+  DEFAULT_POSE_MODEL: 'movenet-lightning',
+  initializePoseDetector: vi.fn(),
+  detectPose: vi.fn(),
+  detectPoses: vi.fn(),
+}));
+
+// Minimal stand-in for the pose worker that records requests
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  messages: PoseWorkerRequest[] = [];
+  transfers: Transferable[][] = [];
+  onmessage: ((event: MessageEvent<PoseWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminate = vi.fn();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: PoseWorkerRequest, transfer: Transferable[] = []) {
+    this.messages.push(message);
+    this.transfers.push(transfer);
+  }
+
+  respond(response: PoseWorkerResponse) {
+    this.onmessage?.({ data: response } as MessageEvent<PoseWorkerResponse>);
+  }
+}
+
+describe('poseWorkerClient', () => {
+  const pose: Pose = { keypoints: [{ name: 'nose', x: 10, y: 20, score: 0.9 }], score: 0.9 };
+  const video = {} as HTMLVideoElement;
+
+  let poseDetection: typeof import('./poseDetection');
+
+  // Fresh module state (worker instance, failure flag) for every test
+  const loadClient = () => import('./poseWorkerClient');
+
+  const stubWorkerSupport = () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('OffscreenCanvas', class {});
+    vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ close: vi.fn() })));
+  };
+
+  // Let estimatePose create the bitmap and post its request
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    poseDetection = await import('./poseDetection');
+    FakeWorker.instances = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('without worker support', () => {
+    it('should detect on the main thread', async () => {
+      vi.mocked(poseDetection.detectPose).mockResolvedValue(pose);
+      const { estimatePose, supportsPoseWorker } = await loadClient();
+
+      expect(supportsPoseWorker()).toBe(false);
+      await expect(estimatePose(video, 'blazepose')).resolves.toBe(pose);
+      expect(poseDetection.detectPose).toHaveBeenCalledWith(video, 'blazepose');
+    });
+
+    it('should initialize the detector on the main thread', async () => {
+      const { initializePoseEstimator } = await loadClient();
+
+      await initializePoseEstimator('movenet-thunder');
+
+      expect(poseDetection.initializePoseDetector).toHaveBeenCalledWith('movenet-thunder');
+    });
+
+    it('should reject immediately when already aborted', async () => {
+      const { estimatePose, isAbortError } = await loadClient();
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await estimatePose(video, 'movenet-lightning', controller.signal).catch(e => e);
+
+      expect(isAbortError(error)).toBe(true);
+      expect(poseDetection.detectPose).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with worker support', () => {
+    beforeEach(() => {
+      stubWorkerSupport();
+    });
+
+    it('should transfer the frame bitmap to the worker and resolve with its pose', async () => {
+      const { estimatePose } = await loadClient();
+
+      const promise = estimatePose(video, 'blazepose');
+      await flush();
+
+      const worker = FakeWorker.instances[0];
+      const request = worker.messages[0];
+      expect(request.type).toBe('detect');
+      expect(request.type === 'detect' && request.model).toBe('blazepose');
+      expect(worker.transfers[0]).toHaveLength(1);
+
+      worker.respond({ type: 'result', id: request.id, pose });
+
+      await expect(promise).resolves.toEqual(pose);
+      expect(poseDetection.detectPose).not.toHaveBeenCalled();
+    });
+
+    it('should detect everyone in frame in the worker', async () => {
+      const { estimatePoses } = await loadClient();
+      const bystander: Pose = { ...pose, score: 0.5 };
+
+      const promise = estimatePoses(video, 'movenet-multipose');
+      await flush();
+
+      const worker = FakeWorker.instances[0];
+      const request = worker.messages[0];
+      expect(request.type).toBe('detect-all');
+
+      worker.respond({ type: 'results', id: request.id, poses: [pose, bystander] });
+
+      await expect(promise).resolves.toEqual([pose, bystander]);
+      expect(poseDetection.detectPoses).not.toHaveBeenCalled();
+    });
+
+    it('should match responses to requests by id', async () => {
+      const { estimatePose } = await loadClient();
+      const otherPose: Pose = { ...pose, score: 0.5 };
+
+      const first = estimatePose(video);
+      const second = estimatePose(video);
+      await flush();
+
+      const worker = FakeWorker.instances[0];
+      worker.respond({ type: 'result', id: worker.messages[1].id, pose: otherPose });
+      worker.respond({ type: 'result', id: worker.messages[0].id, pose });
+
+      await expect(first).resolves.toEqual(pose);
+      await expect(second).resolves.toEqual(otherPose);
+    });
+
+    it('should cancel the worker request when aborted', async () => {
+      const { estimatePose, isAbortError } = await loadClient();
+      const controller = new AbortController();
+
+      const promise = estimatePose(video, 'movenet-lightning', controller.signal);
+      await flush();
+      controller.abort();
+
+      const error = await promise.catch(e => e);
+      const worker = FakeWorker.instances[0];
+
+      expect(isAbortError(error)).toBe(true);
+      expect(worker.messages[1]).toEqual({ type: 'cancel', id: worker.messages[0].id });
+    });
+
+    it('should surface detection errors from the worker', async () => {
+      const { estimatePose } = await loadClient();
+
+      const promise = estimatePose(video);
+      await flush();
+
+      const worker = FakeWorker.instances[0];
+      worker.respond({ type: 'error', id: worker.messages[0].id, message: 'Model failed' });
+
+      await expect(promise).rejects.toThrow('Model failed');
+    });
+
+    it('should fall back to the main thread when the worker fails to start', async () => {
+      vi.mocked(poseDetection.detectPose).mockResolvedValue(pose);
+      const { estimatePose, supportsPoseWorker } = await loadClient();
+
+      const promise = estimatePose(video);
+      await flush();
+
+      const worker = FakeWorker.instances[0];
+      worker.onerror?.({ message: 'WebGL unavailable' } as ErrorEvent);
+
+      await expect(promise).resolves.toBe(pose);
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(supportsPoseWorker()).toBe(false);
+    });
+
+    it('should fall back to the main thread when the model fails to load in the worker', async () => {
+      vi.mocked(poseDetection.detectPose).mockResolvedValue(pose);
+      const { initializePoseEstimator, estimatePose, supportsPoseWorker } = await loadClient();
+
+      const promise = initializePoseEstimator('blazepose');
+      const worker = FakeWorker.instances[0];
+      worker.respond({ type: 'error', id: worker.messages[0].id, message: 'WebGL not supported' });
+
+      await expect(promise).resolves.toBeUndefined();
+      expect(poseDetection.initializePoseDetector).toHaveBeenCalledWith('blazepose');
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(supportsPoseWorker()).toBe(false);
+
+      await expect(estimatePose(video, 'blazepose')).resolves.toBe(pose);
+      expect(poseDetection.detectPose).toHaveBeenCalledWith(video, 'blazepose');
+    });
+
+    it('should initialize the model in the worker', async () => {
+      const { initializePoseEstimator } = await loadClient();
+
+      const promise = initializePoseEstimator('blazepose');
+      const worker = FakeWorker.instances[0];
+      expect(worker.messages[0]).toMatchObject({ type: 'init', model: 'blazepose' });
+
+      worker.respond({ type: 'ready', id: worker.messages[0].id });
+
+      await expect(promise).resolves.toBeUndefined();
+      expect(poseDetection.initializePoseDetector).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { initializePoseDetector, detectPose, detectPoses, DEFAULT_POSE_MODEL } from './poseDetection';
+import type { Pose, PoseModelId, PoseWorkerRequest, PoseWorkerResponse } from '../types';
+
+/**
+ * Pose Worker Client
+ * - Sends video frames to the pose worker as transferred ImageBitmaps
+ * - Matches responses to requests and supports cancellation via AbortSignal
+ * - Falls back to main-thread detection when workers or OffscreenCanvas are unavailable
+ */
+
+type WorkerResult = Pose | Pose[] | null;
+
+interface PendingRequest {
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+/**
+ * Whether pose detection can run in a worker in this browser
+ * (TensorFlow.js needs OffscreenCanvas for WebGL inside a worker)
+ */
+export function supportsPoseWorker(): boolean {
+  return (
+    !workerFailed &&
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  );
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Pose detection cancelled', 'AbortError');
+}
+
+function handleResponse(response: PoseWorkerResponse): void {
+  const request = pending.get(response.id);
+  if (!request) return;
+  pending.delete(response.id);
+
+  switch (response.type) {
+    case 'ready':
+      request.resolve(null);
+      break;
+    case 'result':
+      request.resolve(response.pose);
+      break;
+    case 'results':
+      request.resolve(response.poses);
+      break;
+    case 'cancelled':
+      request.reject(createAbortError());
+      break;
+    case 'error':
+      request.reject(new Error(response.message));
+      break;
+  }
+}
+
+// Stop using the worker if it cannot start or load the model (e.g. no WebGL in workers)
+function disableWorker(reason: string): void {
+  console.warn('Pose worker failed, falling back to main thread:', reason);
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+
+  const error = new Error('Pose worker failed');
+  pending.forEach(request => request.reject(error));
+  pending.clear();
+}
+
+function handleWorkerFailure(event: ErrorEvent): void {
+  disableWorker(event.message);
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/poseWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => handleResponse(event.data);
+    worker.onerror = handleWorkerFailure;
+  }
+  return worker;
+}
+
+function sendRequest(
+  request: Exclude<PoseWorkerRequest, { type: 'cancel' }>,
+  signal?: AbortSignal,
+  transfer: Transferable[] = []
+): Promise<WorkerResult> {
+  const target = getWorker();
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      if (!pending.has(request.id)) return;
+      pending.delete(request.id);
+      const cancel: PoseWorkerRequest = { type: 'cancel', id: request.id };
+      target.postMessage(cancel);
+      reject(createAbortError());
+    };
+
+    pending.set(request.id, {
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    });
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    target.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Load the pose model, in the worker when supported
+ */
+export async function initializePoseEstimator(modelId: PoseModelId = DEFAULT_POSE_MODEL): Promise<void> {
+  if (supportsPoseWorker()) {
+    try {
+      await sendRequest({ type: 'init', id: nextRequestId++, model: modelId });
+      return;
+    } catch (error) {
+      // Worker could not start or load the model (e.g. no WebGL on OffscreenCanvas) -
+      // load on the main thread instead, which has backends the worker lacks
+      if (supportsPoseWorker()) disableWorker(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  await initializePoseDetector(modelId);
+}
+
+/**
+ * Send the current video frame to the worker as a transferred bitmap
+ * Resolves undefined when the worker cannot start, leaving detection to the main thread
+ */
+async function detectInWorker(
+  type: 'detect' | 'detect-all',
+  video: HTMLVideoElement,
+  modelId: PoseModelId,
+  signal?: AbortSignal
+): Promise<WorkerResult | undefined> {
+  if (signal?.aborted) throw createAbortError();
+  if (!supportsPoseWorker()) return undefined;
+
+  const bitmap = await createImageBitmap(video);
+  if (signal?.aborted) {
+    bitmap.close();
+    throw createAbortError();
+  }
+
+  try {
+    return await sendRequest({ type, id: nextRequestId++, model: modelId, bitmap }, signal, [bitmap]);
+  } catch (error) {
+    if (supportsPoseWorker()) throw error;
+    // Worker could not start - detect this frame on the main thread instead
+    return undefined;
+  }
+}
+
+/**
+ * Detect the pose in the current video frame, in the worker when supported
+ * @param signal - Aborting rejects with an AbortError and drops the worker result
+ */
+export async function estimatePose(
+  video: HTMLVideoElement,
+  modelId: PoseModelId = DEFAULT_POSE_MODEL,
+  signal?: AbortSignal
+): Promise<Pose | null> {
+  const result = await detectInWorker('detect', video, modelId, signal);
+  return result === undefined ? detectPose(video, modelId) : (result as Pose | null);
+}
+
+/**
+ * Detect everyone in the current video frame, in the worker when supported
+ * @param signal - Aborting rejects with an AbortError and drops the worker result
+ */
+export async function estimatePoses(
+  video: HTMLVideoElement,
+  modelId: PoseModelId = DEFAULT_POSE_MODEL,
+  signal?: AbortSignal
+): Promise<Pose[]> {
+  const result = await detectInWorker('detect-all', video, modelId, signal);
+  return result === undefined ? detectPoses(video, modelId) : (result as Pose[]);
+}
+
+/**
+ * Whether an error is the result of cancelling a pose request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
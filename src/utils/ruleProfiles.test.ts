@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BIKE_RULE_PROFILES,
+  RUNNING_RULE_PROFILES,
+  DEFAULT_BIKE_PROFILE,
+  DEFAULT_RUNNING_PROFILE,
+  getRuleProfile,
+  getAngleRange,
+  classifyRange,
+  isInRange,
+  isCustomProfileId,
+  createCustomProfile,
+  validateRuleProfile,
+} from './ruleProfiles';
+
+describe('ruleProfiles', () => {
+  describe('getRuleProfile', () => {
+    it('should return the selected discipline', () => {
+      expect(getRuleProfile('time-trial', 'bike')).toBe(BIKE_RULE_PROFILES['time-trial']);
+      expect(getRuleProfile('sprint', 'running')).toBe(RUNNING_RULE_PROFILES.sprint);
+    });
+
+    it('should fall back to the sport default for missing or mismatched ids', () => {
+      expect(getRuleProfile(undefined, 'bike')).toBe(DEFAULT_BIKE_PROFILE);
+      expect(getRuleProfile('sprint', 'bike')).toBe(DEFAULT_BIKE_PROFILE);
+      expect(getRuleProfile('road', 'running')).toBe(DEFAULT_RUNNING_PROFILE);
+    });
+
+    it('should look up custom profiles of the same sport', () => {
+      const custom = createCustomProfile(DEFAULT_BIKE_PROFILE, 'Studio road');
+
+      expect(getRuleProfile(custom.id, 'bike', [custom])).toBe(custom);
+      expect(getRuleProfile(custom.id, 'running', [custom])).toBe(DEFAULT_RUNNING_PROFILE);
+      expect(getRuleProfile(custom.id, 'bike')).toBe(DEFAULT_BIKE_PROFILE);
+    });
+
+    it('should key every preset by its own id', () => {
+      Object.entries(BIKE_RULE_PROFILES).forEach(([id, profile]) => {
+        expect(profile.id).toBe(id);
+        expect(profile.sport).toBe('bike');
+      });
+      Object.entries(RUNNING_RULE_PROFILES).forEach(([id, profile]) => {
+        expect(profile.id).toBe(id);
+        expect(profile.sport).toBe('running');
+      });
+    });
+  });
+
+  describe('getAngleRange', () => {
+    it('should look up side-view angles for the profile sport', () => {
+      expect(getAngleRange('back', BIKE_RULE_PROFILES['time-trial'])).toEqual({ min: 10, max: 25 });
+      expect(getAngleRange('kneeLift', RUNNING_RULE_PROFILES.distance)).toEqual({ min: 100, max: 140 });
+      expect(getAngleRange('kneeLift', DEFAULT_BIKE_PROFILE)).toBeNull();
+    });
+
+    it('should map front-view angles onto the frontal ranges', () => {
+      expect(getAngleRange('kneeValgusRight', DEFAULT_BIKE_PROFILE)).toEqual(DEFAULT_BIKE_PROFILE.ranges.kneeValgus);
+      expect(getAngleRange('pelvicDrop', DEFAULT_BIKE_PROFILE)).toEqual(DEFAULT_BIKE_PROFILE.ranges.hipRocking);
+      expect(getAngleRange('pelvicDrop', DEFAULT_RUNNING_PROFILE)).toEqual(DEFAULT_RUNNING_PROFILE.ranges.pelvicDrop);
+    });
+
+    it('should return null for angles without a range', () => {
+      expect(getAngleRange('ankle', DEFAULT_BIKE_PROFILE)).toBeNull();
+    });
+  });
+
+  describe('classifyRange', () => {
+    const range = { min: 10, max: 20 };
+
+    it('should classify values below, within and above the range', () => {
+      expect(classifyRange(5, range)).toBe('low');
+      expect(classifyRange(15, range)).toBe('optimal');
+      expect(classifyRange(25, range)).toBe('high');
+    });
+
+    it('should include the bounds', () => {
+      expect(isInRange(10, range)).toBe(true);
+      expect(isInRange(20, range)).toBe(true);
+      expect(isInRange(20.5, range)).toBe(false);
+    });
+  });
+
+  describe('createCustomProfile', () => {
+    it('should copy a preset under a new custom id', () => {
+      const custom = createCustomProfile(BIKE_RULE_PROFILES['time-trial'], 'Client TT');
+
+      expect(isCustomProfileId(custom.id)).toBe(true);
+      expect(custom.label).toBe('Client TT');
+      expect(custom.basedOn).toBe('time-trial');
+      expect(custom.ranges).toEqual(BIKE_RULE_PROFILES['time-trial'].ranges);
+      expect(custom.severity).toEqual(BIKE_RULE_PROFILES['time-trial'].severity);
+    });
+
+    it('should not share ranges with the preset', () => {
+      const custom = createCustomProfile(DEFAULT_BIKE_PROFILE, 'Copy');
+      custom.ranges.knee.min = 100;
+      custom.severity.knee.critical = 90;
+
+      expect(DEFAULT_BIKE_PROFILE.ranges.knee.min).toBe(140);
+      expect(DEFAULT_BIKE_PROFILE.severity.knee.critical).toBe(25);
+    });
+
+    it('should keep the original preset when copying a custom profile', () => {
+      const copy = createCustomProfile(createCustomProfile(RUNNING_RULE_PROFILES.sprint, 'A'), 'B');
+
+      expect(copy.basedOn).toBe('sprint');
+    });
+  });
+
+  describe('validateRuleProfile', () => {
+    it('should accept every preset', () => {
+      [...Object.values(BIKE_RULE_PROFILES), ...Object.values(RUNNING_RULE_PROFILES)].forEach(profile => {
+        expect(validateRuleProfile(profile)).toEqual([]);
+      });
+    });
+
+    it('should require a name', () => {
+      expect(validateRuleProfile(createCustomProfile(DEFAULT_BIKE_PROFILE, '  '))).toContain('Profile name is required');
+    });
+
+    it('should reject inverted or missing ranges', () => {
+      const profile = createCustomProfile(DEFAULT_RUNNING_PROFILE, 'Custom');
+      profile.ranges.bodyLean = { min: 10, max: 5 };
+      profile.ranges.kneeLift.max = NaN;
+
+      expect(validateRuleProfile(profile)).toEqual([
+        'Body lean: minimum must be below maximum',
+        'Knee lift: minimum must be below maximum',
+      ]);
+    });
+
+    it('should require the moderate threshold below the critical threshold', () => {
+      const profile = createCustomProfile(DEFAULT_BIKE_PROFILE, 'Custom');
+      profile.severity.hip = { moderate: 30, critical: 20 };
+
+      expect(validateRuleProfile(profile)).toEqual([
+        'Hip angle: moderate threshold must be above 0 and below the critical threshold',
+      ]);
+    });
+
+    it('should reject overlapping top and bottom dead center knee ranges', () => {
+      const profile = createCustomProfile(DEFAULT_BIKE_PROFILE, 'Custom');
+      profile.ranges.kneeAtTDC = { min: 60, max: 145 };
+
+      expect(validateRuleProfile(profile)).toEqual([
+        expect.stringContaining('ranges overlap'),
+      ]);
+    });
+  });
+});
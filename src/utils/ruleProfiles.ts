@@ -0,0 +1,350 @@
+import type {
+  BikeDiscipline,
+  BikeFitRanges,
+  BikeRuleProfile,
+  CustomRuleProfileId,
+  FrontalRanges,
+  OptimalRange,
+  RangeClassification,
+  RuleProfile,
+  RuleProfileId,
+  RunningDiscipline,
+  RunningFormRanges,
+  RunningRuleProfile,
+  SeverityThresholds,
+} from '../types';
+
+/**
+ * Rule Profiles
+ * - Optimal ranges and severity thresholds for every measured angle, per discipline, in one place
+ * - Presets for road, time-trial, MTB and triathlon riding and sprint and distance running
+ * - Custom profiles copied from a preset and tuned per client
+ * - Used by the analysis, recommendation, summary, gauge and trend modules alike
+ */
+
+export type RuleRangeKey = keyof BikeFitRanges | keyof RunningFormRanges;
+
+// Editor labels and units for every range
+export const RULE_RANGE_LABELS: Record<RuleRangeKey, { label: string; unit: string }> = {
+  knee: { label: 'Knee angle', unit: '°' },
+  kneeAtBDC: { label: 'Knee at BDC', unit: '°' },
+  kneeAtTDC: { label: 'Knee at TDC', unit: '°' },
+  hipAtTDC: { label: 'Hip at TDC', unit: '°' },
+  hip: { label: 'Hip angle', unit: '°' },
+  back: { label: 'Back angle', unit: '°' },
+  elbow: { label: 'Elbow angle', unit: '°' },
+  kneeOverPedal: { label: 'Knee over pedal', unit: '% of shin' },
+  bodyLean: { label: 'Body lean', unit: '°' },
+  kneeLift: { label: 'Knee lift', unit: '°' },
+  hipExtension: { label: 'Hip extension', unit: '°' },
+  armSwing: { label: 'Arm swing', unit: '°' },
+  cadence: { label: 'Cadence', unit: 'steps/min' },
+  verticalOscillation: { label: 'Vertical oscillation', unit: '% of leg' },
+  groundContactTime: { label: 'Ground contact time', unit: 'ms' },
+  flightTime: { label: 'Flight time', unit: 'ms' },
+  dutyFactor: { label: 'Duty factor', unit: '%' },
+  kneeValgus: { label: 'Knee tracking', unit: '°' },
+  kneeTravel: { label: 'Knee travel', unit: '% of leg' },
+  pelvicDrop: { label: 'Pelvic drop', unit: '°' },
+  hipRocking: { label: 'Hip rocking', unit: '°' },
+  shoulderTilt: { label: 'Shoulder tilt', unit: '°' },
+};
+
+// Front-view ranges are the same for every discipline
+const FRONTAL_RANGES: FrontalRanges = {
+  kneeValgus: { min: -5, max: 8 },
+  kneeTravel: { min: 0, max: 8 },
+  pelvicDrop: { min: 0, max: 5 },
+  hipRocking: { min: 0, max: 4 },
+  shoulderTilt: { min: 0, max: 3 },
+};
+
+const FRONTAL_SEVERITY: Record<keyof FrontalRanges, SeverityThresholds> = {
+  kneeValgus: { moderate: 25, critical: 50 },
+  kneeTravel: { moderate: 50, critical: 100 },
+  pelvicDrop: { moderate: 30, critical: 60 },
+  hipRocking: { moderate: 40, critical: 75 },
+  shoulderTilt: { moderate: 50, critical: 100 },
+};
+
+const BIKE_SEVERITY: Record<keyof BikeFitRanges, SeverityThresholds> = {
+  ...FRONTAL_SEVERITY,
+  knee: { moderate: 15, critical: 25 },
+  hip: { moderate: 20, critical: 30 },
+  back: { moderate: 20, critical: 30 },
+  elbow: { moderate: 15, critical: 25 },
+  kneeAtBDC: { moderate: 25, critical: 50 },
+  kneeAtTDC: { moderate: 25, critical: 50 },
+  hipAtTDC: { moderate: 25, critical: 50 },
+  kneeOverPedal: { moderate: 50, critical: 100 },
+};
+
+const RUNNING_SEVERITY: Record<keyof RunningFormRanges, SeverityThresholds> = {
+  ...FRONTAL_SEVERITY,
+  bodyLean: { moderate: 25, critical: 40 },
+  kneeLift: { moderate: 20, critical: 30 },
+  hipExtension: { moderate: 10, critical: 15 },
+  armSwing: { moderate: 20, critical: 30 },
+  cadence: { moderate: 25, critical: 50 },
+  verticalOscillation: { moderate: 25, critical: 50 },
+  groundContactTime: { moderate: 25, critical: 50 },
+  flightTime: { moderate: 30, critical: 60 },
+  dutyFactor: { moderate: 25, critical: 50 },
+};
+
+// Saddle height and stroke-position ranges shared by every riding position
+const PEDALING_RANGES = {
+  knee: { min: 140, max: 160 },
+  kneeAtBDC: { min: 140, max: 155 },
+  kneeAtTDC: { min: 65, max: 80 },
+};
+
+export const BIKE_RULE_PROFILES: Record<BikeDiscipline, BikeRuleProfile> = {
+  road: {
+    id: 'road',
+    label: 'Road',
+    sport: 'bike',
+    ranges: {
+      ...FRONTAL_RANGES,
+      ...PEDALING_RANGES,
+      hip: { min: 40, max: 70 },
+      back: { min: 35, max: 50 },
+      elbow: { min: 140, max: 170 },
+      hipAtTDC: { min: 40, max: 55 },
+      kneeOverPedal: { min: -5, max: 5 },
+    },
+    severity: BIKE_SEVERITY,
+  },
+  'time-trial': {
+    id: 'time-trial',
+    label: 'Time trial',
+    sport: 'bike',
+    ranges: {
+      ...FRONTAL_RANGES,
+      ...PEDALING_RANGES,
+      hip: { min: 35, max: 60 },
+      back: { min: 10, max: 25 },
+      elbow: { min: 80, max: 110 },
+      hipAtTDC: { min: 35, max: 50 },
+      kneeOverPedal: { min: 0, max: 10 },
+    },
+    severity: BIKE_SEVERITY,
+  },
+  mtb: {
+    id: 'mtb',
+    label: 'Mountain bike',
+    sport: 'bike',
+    ranges: {
+      ...FRONTAL_RANGES,
+      ...PEDALING_RANGES,
+      hip: { min: 45, max: 75 },
+      back: { min: 45, max: 65 },
+      elbow: { min: 140, max: 165 },
+      hipAtTDC: { min: 45, max: 60 },
+      kneeOverPedal: { min: -5, max: 5 },
+    },
+    severity: BIKE_SEVERITY,
+  },
+  triathlon: {
+    id: 'triathlon',
+    label: 'Triathlon',
+    sport: 'bike',
+    ranges: {
+      ...FRONTAL_RANGES,
+      ...PEDALING_RANGES,
+      hip: { min: 40, max: 65 },
+      back: { min: 15, max: 30 },
+      elbow: { min: 80, max: 110 },
+      hipAtTDC: { min: 40, max: 55 },
+      kneeOverPedal: { min: 0, max: 10 },
+    },
+    severity: BIKE_SEVERITY,
+  },
+};
+
+export const RUNNING_RULE_PROFILES: Record<RunningDiscipline, RunningRuleProfile> = {
+  sprint: {
+    id: 'sprint',
+    label: 'Sprint',
+    sport: 'running',
+    ranges: {
+      ...FRONTAL_RANGES,
+      bodyLean: { min: 8, max: 20 },
+      kneeLift: { min: 70, max: 110 },
+      hipExtension: { min: 165, max: 180 },
+      armSwing: { min: 70, max: 100 },
+      cadence: { min: 200, max: 280 },
+      verticalOscillation: { min: 4, max: 9 },
+      groundContactTime: { min: 80, max: 140 },
+      flightTime: { min: 110, max: 170 },
+      dutyFactor: { min: 18, max: 30 },
+    },
+    severity: RUNNING_SEVERITY,
+  },
+  distance: {
+    id: 'distance',
+    label: 'Distance running',
+    sport: 'running',
+    ranges: {
+      ...FRONTAL_RANGES,
+      bodyLean: { min: 5, max: 12 },
+      kneeLift: { min: 100, max: 140 },
+      hipExtension: { min: 160, max: 180 },
+      armSwing: { min: 80, max: 110 },
+      cadence: { min: 170, max: 190 },
+      verticalOscillation: { min: 5, max: 10 },
+      groundContactTime: { min: 180, max: 260 },
+      flightTime: { min: 80, max: 150 },
+      dutyFactor: { min: 28, max: 40 },
+    },
+    severity: RUNNING_SEVERITY,
+  },
+};
+
+export const DEFAULT_BIKE_PROFILE = BIKE_RULE_PROFILES.road;
+export const DEFAULT_RUNNING_PROFILE = RUNNING_RULE_PROFILES.distance;
+
+// Side-view angles judged directly against the range of the same name
+const BIKE_ANGLE_KEYS = ['knee', 'hip', 'back', 'elbow', 'kneeAtBDC', 'kneeAtTDC', 'hipAtTDC'] as const;
+const RUNNING_ANGLE_KEYS = ['bodyLean', 'kneeLift', 'hipExtension', 'armSwing'] as const;
+
+export function isCustomProfileId(id: RuleProfileId): id is CustomRuleProfileId {
+  return id.startsWith('custom-');
+}
+
+/**
+ * Look up a preset or custom profile for a sport
+ * Falls back to the sport's default when the id is missing, unknown or belongs to the other sport
+ */
+export function getRuleProfile(
+  id: RuleProfileId | undefined,
+  sport: 'bike',
+  customProfiles?: RuleProfile[]
+): BikeRuleProfile;
+export function getRuleProfile(
+  id: RuleProfileId | undefined,
+  sport: 'running',
+  customProfiles?: RuleProfile[]
+): RunningRuleProfile;
+export function getRuleProfile(
+  id: RuleProfileId | undefined,
+  sport: 'bike' | 'running',
+  customProfiles?: RuleProfile[]
+): RuleProfile;
+export function getRuleProfile(
+  id: RuleProfileId | undefined,
+  sport: 'bike' | 'running',
+  customProfiles: RuleProfile[] = []
+): RuleProfile {
+  const custom = id && isCustomProfileId(id)
+    ? customProfiles.find(profile => profile.id === id && profile.sport === sport)
+    : undefined;
+  if (custom) return custom;
+
+  if (sport === 'bike') {
+    return (id && BIKE_RULE_PROFILES[id as BikeDiscipline]) || DEFAULT_BIKE_PROFILE;
+  }
+  return (id && RUNNING_RULE_PROFILES[id as RunningDiscipline]) || DEFAULT_RUNNING_PROFILE;
+}
+
+/**
+ * Copy a profile into a new, editable custom profile
+ */
+export function createCustomProfile<T extends RuleProfile>(base: T, label: string): T {
+  const copy = (record: object) =>
+    Object.fromEntries(Object.entries(record).map(([key, value]) => [key, { ...value }]));
+
+  return {
+    ...base,
+    id: `custom-${crypto.randomUUID()}`,
+    label,
+    basedOn: base.basedOn ?? (isCustomProfileId(base.id) ? undefined : base.id),
+    ranges: copy(base.ranges),
+    severity: copy(base.severity),
+  } as T;
+}
+
+// Stroke-position ranges that describe opposite ends of the pedal stroke and must not overlap
+const SEPARATE_BIKE_RANGES: Array<[keyof BikeFitRanges, keyof BikeFitRanges]> = [
+  ['kneeAtTDC', 'kneeAtBDC'],
+];
+
+/**
+ * Check a profile before it is saved or imported
+ * @returns User-facing problems, empty when the profile is usable
+ */
+export function validateRuleProfile(profile: RuleProfile): string[] {
+  const errors: string[] = [];
+  if (!profile.label.trim()) {
+    errors.push('Profile name is required');
+  }
+
+  const ranges: Partial<Record<RuleRangeKey, OptimalRange>> = profile.ranges;
+  const severity: Partial<Record<RuleRangeKey, SeverityThresholds>> = profile.severity;
+  (Object.keys(ranges) as RuleRangeKey[]).forEach(key => {
+    const { label } = RULE_RANGE_LABELS[key];
+    const range = ranges[key]!;
+    const thresholds = severity[key];
+
+    if (!Number.isFinite(range.min) || !Number.isFinite(range.max) || range.min >= range.max) {
+      errors.push(`${label}: minimum must be below maximum`);
+    }
+    if (
+      !thresholds ||
+      !Number.isFinite(thresholds.moderate) ||
+      !Number.isFinite(thresholds.critical) ||
+      thresholds.moderate <= 0 ||
+      thresholds.moderate >= thresholds.critical
+    ) {
+      errors.push(`${label}: moderate threshold must be above 0 and below the critical threshold`);
+    }
+  });
+
+  if (profile.sport === 'bike') {
+    SEPARATE_BIKE_RANGES.forEach(([lowKey, highKey]) => {
+      if (profile.ranges[lowKey].max >= profile.ranges[highKey].min) {
+        errors.push(`${RULE_RANGE_LABELS[lowKey].label} and ${RULE_RANGE_LABELS[highKey].label} ranges overlap`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Optimal range for a measured angle under a profile
+ * Front-view pelvic motion is judged as hip rocking on the bike and pelvic drop when running
+ * @returns null for angles without a range
+ */
+export function getAngleRange(key: string, profile: RuleProfile): OptimalRange | null {
+  const { ranges } = profile;
+  switch (key) {
+    case 'kneeValgusLeft':
+    case 'kneeValgusRight':
+      return ranges.kneeValgus;
+    case 'pelvicDrop':
+      return profile.sport === 'bike' ? ranges.hipRocking : ranges.pelvicDrop;
+    case 'shoulderTilt':
+      return ranges.shoulderTilt;
+  }
+
+  if (profile.sport === 'bike') {
+    const bikeKey = BIKE_ANGLE_KEYS.find(angle => angle === key);
+    return bikeKey ? profile.ranges[bikeKey] : null;
+  }
+  const runningKey = RUNNING_ANGLE_KEYS.find(angle => angle === key);
+  return runningKey ? profile.ranges[runningKey] : null;
+}
+
+/**
+ * Whether a value falls below, within or above a range (bounds inclusive)
+ */
+export function classifyRange(value: number, range: OptimalRange): RangeClassification {
+  if (value < range.min) return 'low';
+  if (value > range.max) return 'high';
+  return 'optimal';
+}
+
+export function isInRange(value: number, range: OptimalRange): boolean {
+  return classifyRange(value, range) === 'optimal';
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RULES_FORMAT,
+  serializeRuleSet,
+  parseRuleSet,
+  loadCustomProfiles,
+  saveCustomProfiles,
+  mergeRuleProfiles,
+} from './ruleStore';
+import { DEFAULT_BIKE_PROFILE, DEFAULT_RUNNING_PROFILE, createCustomProfile } from './ruleProfiles';
+import type { BikeRuleProfile, RunningRuleProfile } from '../types';
+
+describe('ruleStore', () => {
+  const createTestProfiles = () => {
+    const bike = createCustomProfile(DEFAULT_BIKE_PROFILE, 'Studio road');
+    bike.ranges.knee = { min: 138, max: 152 };
+    bike.severity.knee = { moderate: 20, critical: 40 };
+    const running = createCustomProfile(DEFAULT_RUNNING_PROFILE, 'Trail');
+    return [bike, running] as [BikeRuleProfile, RunningRuleProfile];
+  };
+
+  describe('serializeRuleSet / parseRuleSet', () => {
+    it('should round-trip custom profiles', () => {
+      const profiles = createTestProfiles();
+      const text = serializeRuleSet(profiles);
+
+      expect(JSON.parse(text).format).toBe(RULES_FORMAT);
+      expect(parseRuleSet(text)).toEqual(profiles);
+    });
+
+    it('should reject files that are not rule sets', () => {
+      expect(() => parseRuleSet('not json')).toThrow('Rules file is not valid JSON');
+      expect(() => parseRuleSet(JSON.stringify({ format: 'sports-analysis-session', version: 1 }))).toThrow(
+        'File is not a rules file'
+      );
+      expect(() => parseRuleSet(JSON.stringify({ format: RULES_FORMAT, version: 1 }))).toThrow(
+        'Rules file has no profiles'
+      );
+    });
+
+    it('should reject rule sets from a newer version', () => {
+      const file = { format: RULES_FORMAT, version: 99, profiles: [] };
+      expect(() => parseRuleSet(JSON.stringify(file))).toThrow('newer version');
+    });
+
+    it('should reject presets and malformed profiles', () => {
+      const preset = JSON.parse(serializeRuleSet([DEFAULT_BIKE_PROFILE]));
+      expect(() => parseRuleSet(JSON.stringify(preset))).toThrow('Rules file contains an invalid profile');
+
+      const [bike] = createTestProfiles();
+      const noSport = JSON.parse(serializeRuleSet([{ ...bike, sport: 'swimming' } as never]));
+      expect(() => parseRuleSet(JSON.stringify(noSport))).toThrow('Rules file contains an invalid profile');
+    });
+
+    it('should reject profiles that fail validation', () => {
+      const [bike] = createTestProfiles();
+      bike.ranges.kneeAtTDC = { min: 60, max: 150 };
+
+      expect(() => parseRuleSet(serializeRuleSet([bike]))).toThrow('Studio road: Knee at TDC and Knee at BDC ranges overlap');
+    });
+
+    it('should fill ranges missing from older files with the sport defaults', () => {
+      const [bike] = createTestProfiles();
+      const file = JSON.parse(serializeRuleSet([bike]));
+      delete file.profiles[0].ranges.elbow;
+      delete file.profiles[0].severity.elbow;
+
+      const [parsed] = parseRuleSet(JSON.stringify(file));
+
+      expect(parsed.ranges).toMatchObject({ knee: { min: 138, max: 152 }, elbow: DEFAULT_BIKE_PROFILE.ranges.elbow });
+      expect(parsed.severity).toMatchObject({ elbow: DEFAULT_BIKE_PROFILE.severity.elbow });
+    });
+  });
+
+  describe('loadCustomProfiles / saveCustomProfiles', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should return no profiles when nothing is stored', () => {
+      expect(loadCustomProfiles()).toEqual([]);
+    });
+
+    it('should persist profiles in local storage', () => {
+      const profiles = createTestProfiles();
+      saveCustomProfiles(profiles);
+
+      expect(loadCustomProfiles()).toEqual(profiles);
+    });
+
+    it('should ignore unreadable stored rules', () => {
+      localStorage.setItem('sports-analysis-rules', '{broken');
+
+      expect(loadCustomProfiles()).toEqual([]);
+    });
+  });
+
+  describe('mergeRuleProfiles', () => {
+    it('should add new profiles and replace profiles with the same id', () => {
+      const [bike, running] = createTestProfiles();
+      const renamed = { ...bike, label: 'Studio road v2' };
+
+      const merged = mergeRuleProfiles([bike, running], [renamed]);
+
+      expect(merged).toHaveLength(2);
+      expect(merged.find(profile => profile.id === bike.id)?.label).toBe('Studio road v2');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { getRuleProfile, isCustomProfileId, validateRuleProfile } from './ruleProfiles';
+import type { OptimalRange, RuleProfile, RuleSetFile, SeverityThresholds } from '../types';
+
+/**
+ * Custom Rule Storage
+ * - Custom rule profiles kept in the browser's local storage
+ * - Versioned JSON rule set files so a studio can share its standards across machines
+ * - Import validation against the same checks as the rules editor
+ */
+
+export const RULES_FORMAT = 'sports-analysis-rules';
+export const RULES_FORMAT_VERSION = 1;
+
+const STORAGE_KEY = 'sports-analysis-rules';
+
+/**
+ * Whether this browser can persist custom rules
+ */
+export function isRuleStorageAvailable(): boolean {
+  try {
+    return typeof localStorage !== 'undefined';
+  } catch {
+    // Access throws when storage is blocked
+    return false;
+  }
+}
+
+export function serializeRuleSet(profiles: RuleProfile[]): string {
+  const file: RuleSetFile = {
+    format: RULES_FORMAT,
+    version: RULES_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read one profile, taking ranges missing from older files from the sport's default
+ */
+function readProfile(value: unknown): RuleProfile {
+  if (
+    !isObject(value) ||
+    (value.sport !== 'bike' && value.sport !== 'running') ||
+    typeof value.id !== 'string' ||
+    !isCustomProfileId(value.id as RuleProfile['id']) ||
+    typeof value.label !== 'string' ||
+    !isObject(value.ranges) ||
+    !isObject(value.severity)
+  ) {
+    throw new Error('Rules file contains an invalid profile');
+  }
+
+  const defaults = getRuleProfile(undefined, value.sport);
+  const ranges = value.ranges as Record<string, OptimalRange>;
+  const severity = value.severity as Record<string, SeverityThresholds>;
+  const profile = {
+    ...defaults,
+    id: value.id,
+    label: value.label,
+    basedOn: value.basedOn,
+    ranges: Object.fromEntries(
+      Object.entries(defaults.ranges).map(([key, range]) => [key, isObject(ranges[key]) ? ranges[key] : range])
+    ),
+    severity: Object.fromEntries(
+      Object.entries(defaults.severity).map(([key, thresholds]) => [
+        key,
+        isObject(severity[key]) ? severity[key] : thresholds,
+      ])
+    ),
+  } as RuleProfile;
+
+  const errors = validateRuleProfile(profile);
+  if (errors.length > 0) {
+    throw new Error(`${profile.label || 'Unnamed profile'}: ${errors[0]}`);
+  }
+  return profile;
+}
+
+/**
+ * Parse and validate a rule set file
+ * @throws Error with a user-facing message when the file is not a usable rule set
+ */
+export function parseRuleSet(text: string): RuleProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Rules file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== RULES_FORMAT || typeof data.version !== 'number') {
+    throw new Error('File is not a rules file');
+  }
+  if (data.version > RULES_FORMAT_VERSION) {
+    throw new Error('Rules were saved by a newer version of the app');
+  }
+  if (!Array.isArray(data.profiles)) {
+    throw new Error('Rules file has no profiles');
+  }
+
+  return data.profiles.map(readProfile);
+}
+
+/**
+ * Custom profiles saved in this browser
+ * Unreadable stored data is ignored rather than blocking the app
+ */
+export function loadCustomProfiles(): RuleProfile[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return parseRuleSet(stored);
+  } catch (err) {
+    console.error('Stored rules could not be read:', err);
+    return [];
+  }
+}
+
+export function saveCustomProfiles(profiles: RuleProfile[]): void {
+  localStorage.setItem(STORAGE_KEY, serializeRuleSet(profiles));
+}
+
+/**
+ * Add imported profiles, replacing any with the same id
+ */
+export function mergeRuleProfiles(existing: RuleProfile[], imported: RuleProfile[]): RuleProfile[] {
+  const importedIds = new Set(imported.map(profile => profile.id));
+  return [...existing.filter(profile => !importedIds.has(profile.id)), ...imported];
+}
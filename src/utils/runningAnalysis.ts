@@ -1,5 +1,11 @@
 import { calculateAngle } from './poseDetection';
-import { Pose, Keypoint, RunningFormAnalysis, AngleData } from '../types';
+import { KEYPOINT_SCHEMAS, getPoseSchema } from './keypointSchema';
+import { DEFAULT_RUNNING_PROFILE, classifyRange } from './ruleProfiles';
+import { Pose, Keypoint, RunningFormAnalysis, RunningRuleProfile, AngleData, GaitLeg } from '../types';
+
+// Landing point further ahead of the knee than this share of shin length counts as overstriding,
+// so the check holds at any video resolution and camera distance
+export const OVERSTRIDE_SHIN_RATIO = 0.3;
 
 interface SideData {
   kneeAngle?: number;
@@ -20,10 +26,33 @@ function getKeypoint(pose: Pose, name: string): Keypoint | undefined {
   return pose.keypoints.find(kp => kp.name === name);
 }
 
-// Analyze running form from pose
-export function analyzeRunningForm(pose: Pose): RunningAnalysisResult | null {
+/**
+ * How far a leg's landing point lies ahead of its knee, as a share of shin length
+ * The heel is the landing point when the model provides foot keypoints
+ * @param direction - Way the runner faces (+1 = towards increasing x), so landing ahead is positive
+ * @returns undefined when the knee or foot is not tracked
+ */
+export function getFootStrikeOffset(pose: Pose, leg: GaitLeg, direction: 1 | -1 = 1): number | undefined {
+  const knee = getKeypoint(pose, `${leg}_knee`);
+  const ankle = getKeypoint(pose, `${leg}_ankle`);
+  const heel = KEYPOINT_SCHEMAS[getPoseSchema(pose)].hasFeet ? getKeypoint(pose, `${leg}_heel`) : undefined;
+  const landingPoint = heel && heel.score! > 0.3 ? heel : ankle;
+  if (!knee || !landingPoint || knee.score! <= 0.3 || landingPoint.score! <= 0.3) return undefined;
+
+  const shinEnd = ankle && ankle.score! > 0.3 ? ankle : landingPoint;
+  const shinLength = Math.hypot(shinEnd.x - knee.x, shinEnd.y - knee.y);
+  return shinLength > 0 ? (direction * (landingPoint.x - knee.x)) / shinLength : undefined;
+}
+
+// Analyze running form from pose, judging angles against the discipline's optimal ranges
+export function analyzeRunningForm(
+  pose: Pose,
+  profile: RunningRuleProfile = DEFAULT_RUNNING_PROFILE
+): RunningAnalysisResult | null {
   if (!pose || !pose.keypoints) return null;
 
+  const { ranges } = profile;
+
   const leftShoulder = getKeypoint(pose, 'left_shoulder');
   const rightShoulder = getKeypoint(pose, 'right_shoulder');
   const leftHip = getKeypoint(pose, 'left_hip');
@@ -99,29 +128,18 @@ export function analyzeRunningForm(pose: Pose): RunningAnalysisResult | null {
     const bodyLean = calculateAngle(verticalPoint, avgShoulder, avgHip);
     results.angles.bodyLean = Math.round(bodyLean);
 
-    // Good running posture: slight forward lean of 5-10 degrees
-    if (bodyLean < 3) {
-      results.recommendations.push({
-        type: 'warning',
-        area: 'Posture',
-        message: 'Too upright - lean slightly forward from ankles for better momentum',
-        angle: results.angles.bodyLean,
-      });
-    } else if (bodyLean >= 5 && bodyLean <= 12) {
-      results.recommendations.push({
-        type: 'success',
-        area: 'Posture',
-        message: 'Good forward lean for efficient running',
-        angle: results.angles.bodyLean,
-      });
-    } else if (bodyLean > 15) {
-      results.recommendations.push({
-        type: 'warning',
-        area: 'Posture',
-        message: 'Leaning too far forward - may cause lower back strain',
-        angle: results.angles.bodyLean,
-      });
-    }
+    // Good running posture: slight forward lean, more when sprinting
+    const leanStatus = classifyRange(bodyLean, ranges.bodyLean);
+    results.recommendations.push({
+      type: leanStatus === 'optimal' ? 'success' : 'warning',
+      area: 'Body Lean',
+      message: leanStatus === 'low'
+        ? 'Too upright - lean slightly forward from ankles for better momentum'
+        : leanStatus === 'high'
+          ? 'Leaning too far forward - may cause lower back strain'
+          : 'Good forward lean for efficient running',
+      angle: results.angles.bodyLean,
+    });
   }
 
   // Analyze Knee Lift (average both legs)
@@ -133,15 +151,23 @@ export function analyzeRunningForm(pose: Pose): RunningAnalysisResult | null {
     const avgKneeAngle = Math.round(kneeAngles.reduce((a, b) => a + b) / kneeAngles.length);
     results.angles.kneeLift = avgKneeAngle;
 
-    // During running, knee should flex between 90-140 degrees during stride
-    if (avgKneeAngle > 160) {
+    // Average knee angle over the stride - a smaller angle means more knee drive
+    const kneeLiftStatus = classifyRange(avgKneeAngle, ranges.kneeLift);
+    if (kneeLiftStatus === 'high') {
       results.recommendations.push({
         type: 'warning',
         area: 'Knee Lift',
         message: 'Insufficient knee lift - increase leg drive for better efficiency',
         angle: results.angles.kneeLift,
       });
-    } else if (avgKneeAngle >= 100 && avgKneeAngle <= 140) {
+    } else if (kneeLiftStatus === 'low') {
+      results.recommendations.push({
+        type: 'info',
+        area: 'Knee Lift',
+        message: 'High knee drive - costs energy unless running fast',
+        angle: results.angles.kneeLift,
+      });
+    } else {
       results.recommendations.push({
         type: 'success',
         area: 'Knee Lift',
@@ -160,15 +186,15 @@ export function analyzeRunningForm(pose: Pose): RunningAnalysisResult | null {
     const avgHipAngle = Math.round(hipAngles.reduce((a, b) => a + b) / hipAngles.length);
     results.angles.hipExtension = avgHipAngle;
 
-    // Good hip extension during running: 160-180 degrees at pushoff
-    if (avgHipAngle < 140) {
+    // Good hip extension at push-off
+    if (classifyRange(avgHipAngle, ranges.hipExtension) === 'low') {
       results.recommendations.push({
         type: 'warning',
         area: 'Hip Extension',
         message: 'Limited hip extension - focus on pushing through stride',
         angle: results.angles.hipExtension,
       });
-    } else if (avgHipAngle >= 160) {
+    } else {
       results.recommendations.push({
         type: 'success',
         area: 'Hip Extension',
@@ -206,43 +232,31 @@ export function analyzeRunningForm(pose: Pose): RunningAnalysisResult | null {
       const avgArmAngle = Math.round(armAngles.reduce((a, b) => a + b) / armAngles.length);
       results.angles.armSwing = avgArmAngle;
 
-      // Good arm swing: 80-110 degrees at elbow
-      if (avgArmAngle > 120) {
-        results.recommendations.push({
-          type: 'info',
-          area: 'Arm Swing',
-          message: 'Arms too straight - bend elbows to ~90 degrees for better rhythm',
-          angle: results.angles.armSwing,
-        });
-      } else if (avgArmAngle >= 80 && avgArmAngle <= 110) {
-        results.recommendations.push({
-          type: 'success',
-          area: 'Arm Swing',
-          message: 'Good arm angle for efficient running',
-          angle: results.angles.armSwing,
-        });
-      } else if (avgArmAngle < 70) {
-        results.recommendations.push({
-          type: 'info',
-          area: 'Arm Swing',
-          message: 'Elbows too bent - relax arms slightly',
-          angle: results.angles.armSwing,
-        });
-      }
+      // Good arm swing: elbows bent to about 90 degrees
+      const armStatus = classifyRange(avgArmAngle, ranges.armSwing);
+      results.recommendations.push({
+        type: armStatus === 'optimal' ? 'success' : 'info',
+        area: 'Arm Swing',
+        message: armStatus === 'high'
+          ? 'Arms too straight - bend elbows to ~90 degrees for better rhythm'
+          : armStatus === 'low'
+            ? 'Elbows too bent - relax arms slightly'
+            : 'Good arm angle for efficient running',
+        angle: results.angles.armSwing,
+      });
     }
   }
 
-  // Analyze Foot Strike (based on ankle position relative to knee)
-  if (leftKnee && leftAnkle && leftKnee.score! > 0.3 && leftAnkle.score! > 0.3) {
-    const footStrikeOffset = leftAnkle.x - leftKnee.x;
-
-    if (Math.abs(footStrikeOffset) < 30) {
+  // Analyze Foot Strike (based on landing point relative to knee, scaled by shin length)
+  const footStrikeOffset = getFootStrikeOffset(pose, 'left');
+  if (footStrikeOffset !== undefined) {
+    if (Math.abs(footStrikeOffset) < OVERSTRIDE_SHIN_RATIO) {
       results.recommendations.push({
         type: 'success',
         area: 'Foot Strike',
         message: 'Good foot landing position under center of mass',
       });
-    } else if (footStrikeOffset > 30) {
+    } else if (footStrikeOffset > OVERSTRIDE_SHIN_RATIO) {
       results.recommendations.push({
         type: 'warning',
         area: 'Foot Strike',
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { measureStrideEconomy, calculateRunningEconomy } from './runningEconomy';
+import { segmentGaitCycles } from './gaitCycle';
+import type { FrameAnalysis, Keypoint } from '../types';
+
+describe('runningEconomy', () => {
+  const FPS = 30;
+  const STRIDE_DURATION = 2 / 3; // seconds, 20 frames
+  const FRAME_MS = 1000 / FPS;
+
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  /**
+   * Side-on runner facing +x. Each foot is planted for `dutyFactor` of the stride,
+   * sliding back under the hips, then lifts `footLift` px through the swing.
+   * The hips dip `bounce` px at each foot strike.
+   */
+  const createRunner = (
+    seconds: number,
+    {
+      dutyFactor = 0.35,
+      footLift = 100,
+      bounce = 10,
+      rightDutyFactor = dutyFactor,
+      fps = FPS,
+      strideDuration = STRIDE_DURATION,
+    }: {
+      dutyFactor?: number;
+      footLift?: number;
+      bounce?: number;
+      rightDutyFactor?: number;
+      fps?: number;
+      strideDuration?: number;
+    } = {}
+  ): FrameAnalysis[] =>
+    Array.from({ length: Math.round(seconds * fps) }, (_, i) => {
+      const t = i / fps;
+      const leg = (offset: number, duty: number) => {
+        const p = (t / strideDuration + offset) % 1;
+        if (p < duty) {
+          return { x: 300 + 80 - (160 * p) / duty, y: 400 };
+        }
+        const swing = (p - duty) / (1 - duty);
+        return { x: 300 - 80 * Math.cos(Math.PI * swing), y: 400 - footLift * Math.sin(Math.PI * swing) };
+      };
+      const left = leg(0, dutyFactor);
+      const right = leg(0.5, rightDutyFactor);
+      const hipY = 200 + (bounce / 2) * Math.cos((4 * Math.PI * t) / strideDuration);
+
+      return {
+        analysis: { angles: {}, recommendations: [], overall: 'good' },
+        timestamp: t,
+        pose: {
+          score: 0.9,
+          keypoints: [
+            createKeypoint('nose', 320, 40),
+            createKeypoint('left_shoulder', 300, 80),
+            createKeypoint('right_shoulder', 300, 80),
+            createKeypoint('left_hip', 300, hipY),
+            createKeypoint('right_hip', 300, hipY),
+            createKeypoint('left_knee', (300 + left.x) / 2 + 10, 300),
+            createKeypoint('right_knee', (300 + right.x) / 2 + 10, 300),
+            createKeypoint('left_ankle', left.x, left.y),
+            createKeypoint('right_ankle', right.x, right.y),
+          ],
+        },
+      };
+    });
+
+  describe('measureStrideEconomy', () => {
+    it('should measure ground contact, flight time and duty factor per stride', () => {
+      const frames = createRunner(4);
+      const strides = measureStrideEconomy(frames, segmentGaitCycles(frames));
+
+      expect(strides.length).toBeGreaterThanOrEqual(8);
+      strides.forEach(stride => {
+        // 233 ms planted and 100 ms airborne per step, within one frame
+        expect(stride.groundContactTime).toBeGreaterThanOrEqual(233 - FRAME_MS);
+        expect(stride.groundContactTime).toBeLessThanOrEqual(233 + FRAME_MS);
+        expect(stride.flightTime).toBeGreaterThanOrEqual(100 - FRAME_MS);
+        expect(stride.flightTime).toBeLessThanOrEqual(100 + FRAME_MS);
+        expect(stride.dutyFactor).toBeGreaterThanOrEqual(30);
+        expect(stride.dutyFactor).toBeLessThanOrEqual(40);
+      });
+    });
+
+    it('should resolve sprint contacts shorter than the frame interval allows', () => {
+      // 260 spm with 100 ms contacts, sampled at 15 fps (67 ms per frame)
+      const frames = createRunner(6, { fps: 15, strideDuration: 120 / 260, dutyFactor: 100 / (1000 * 120 / 260) });
+      const { metrics } = calculateRunningEconomy(frames, segmentGaitCycles(frames));
+
+      expect(metrics.groundContactTime.avg).toBeGreaterThanOrEqual(80);
+      expect(metrics.groundContactTime.avg).toBeLessThanOrEqual(120);
+    });
+
+    it('should read the ground level of each trimmed segment', () => {
+      // The second segment, a minute later, was filmed with the runner lower in the frame
+      const first = createRunner(2).map(frame => ({ ...frame, segment: 0 }));
+      const second = createRunner(2).map(frame => ({
+        ...frame,
+        timestamp: frame.timestamp + 60,
+        segment: 1,
+        pose: { ...frame.pose, keypoints: frame.pose.keypoints.map(kp => ({ ...kp, y: kp.y + 40 })) },
+      }));
+      const frames = [...first, ...second];
+      const strides = measureStrideEconomy(frames, segmentGaitCycles(frames));
+
+      expect(strides.some(stride => stride.start < 2)).toBe(true);
+      expect(strides.some(stride => stride.start > 60)).toBe(true);
+      strides.forEach(stride => {
+        expect(stride.groundContactTime).toBeGreaterThanOrEqual(233 - FRAME_MS);
+        expect(stride.groundContactTime).toBeLessThanOrEqual(233 + FRAME_MS);
+      });
+    });
+
+    it('should express vertical oscillation as a share of leg length', () => {
+      const frames = createRunner(4, { bounce: 20 });
+      const strides = measureStrideEconomy(frames, segmentGaitCycles(frames));
+
+      // 20 px of bounce on a leg of roughly 210 px
+      strides.forEach(stride => {
+        expect(stride.verticalOscillation).toBeGreaterThan(8);
+        expect(stride.verticalOscillation).toBeLessThan(11);
+      });
+    });
+
+    it('should report vertical oscillation in centimetres once calibrated', () => {
+      const frames = createRunner(4, { bounce: 20 });
+      const strides = measureStrideEconomy(frames, segmentGaitCycles(frames), { method: 'height', cmPerPixel: 0.5 });
+
+      strides.forEach(stride => expect(stride.verticalOscillation).toBeCloseTo(10, 0));
+    });
+
+    it('should find no flight time when one foot lands as the other leaves', () => {
+      const frames = createRunner(4, { dutyFactor: 0.55 });
+      const strides = measureStrideEconomy(frames, segmentGaitCycles(frames));
+
+      expect(strides.every(stride => !stride.flightTime)).toBe(true);
+    });
+
+    it('should return no strides without gait cycles', () => {
+      expect(measureStrideEconomy([], segmentGaitCycles([]))).toEqual([]);
+    });
+  });
+
+  describe('calculateRunningEconomy', () => {
+    it('should summarize each metric with its unit', () => {
+      const frames = createRunner(4);
+      const { metrics } = calculateRunningEconomy(frames, segmentGaitCycles(frames));
+
+      expect(Object.keys(metrics).sort()).toEqual(['dutyFactor', 'flightTime', 'groundContactTime', 'verticalOscillation']);
+      expect(metrics.groundContactTime.unit).toBe('ms');
+      expect(metrics.dutyFactor.unit).toBe('%');
+      expect(metrics.verticalOscillation.unit).toBe('% of leg');
+      expect(calculateRunningEconomy(frames, segmentGaitCycles(frames), { method: 'height', cmPerPixel: 0.5 })
+        .metrics.verticalOscillation.unit).toBe('cm');
+      expect(metrics.groundContactTime.avg).toBeGreaterThanOrEqual(200);
+      expect(metrics.groundContactTime.avg).toBeLessThanOrEqual(267);
+    });
+
+    it('should compare ground contact between legs', () => {
+      const frames = createRunner(4, { dutyFactor: 0.3, rightDutyFactor: 0.45 });
+      const { asymmetry } = calculateRunningEconomy(frames, segmentGaitCycles(frames));
+
+      expect(asymmetry.groundContactTime.right).toBeGreaterThan(asymmetry.groundContactTime.left);
+      expect(asymmetry.groundContactTime.status).toBe('significant');
+      expect(asymmetry.groundContactTime.unit).toBe('ms');
+      expect(asymmetry.verticalOscillation).toBeUndefined();
+    });
+
+    it('should return empty metrics when no strides were found', () => {
+      expect(calculateRunningEconomy([], segmentGaitCycles([]))).toEqual({ metrics: {}, asymmetry: {} });
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { summarizeValues, compareSides } from './detailedMetrics';
+import { hipCenter, isVisible, percentile } from './calibration';
+import { splitBySegment } from './videoSegments';
+import type {
+  Asymmetry,
+  Calibration,
+  DetailedMetrics,
+  FrameAnalysis,
+  GaitAnalysis,
+  GaitCycle,
+  GaitLeg,
+  Keypoint,
+  Pose,
+  StrideEconomy,
+} from '../types';
+
+/**
+ * Running Economy
+ * - Ground contact from when each ankle is planted: at its lowest and barely moving vertically,
+ *   with touch-down and lift-off interpolated between frames so short sprint contacts resolve
+ * - Flight time between one foot leaving the ground and the other landing
+ * - Duty factor (share of the stride on the ground) and vertical oscillation of the hip centre per stride,
+ *   in cm once calibrated, otherwise in % of leg length
+ * - Per-stride values summarised as detailed metrics, with left/right asymmetry
+ */
+
+type EconomyKey = Exclude<keyof StrideEconomy, 'leg' | 'start'>;
+
+// Units the economy metrics are reported in without a calibration, which the rule ranges use
+export const RUNNING_ECONOMY_UNITS: Record<EconomyKey, string> = {
+  verticalOscillation: '% of leg',
+  groundContactTime: 'ms',
+  flightTime: 'ms',
+  dutyFactor: '%',
+};
+
+// Vertical oscillation spans both steps of a stride, so it has no left/right split
+const SIDED_KEYS: EconomyKey[] = ['groundContactTime', 'flightTime', 'dutyFactor'];
+
+// A planted ankle is within this fraction of leg length of the ground
+const GROUND_TOLERANCE = 0.06;
+
+// ...and moves vertically slower than this (leg lengths per second)
+const MAX_PLANTED_SPEED = 1;
+
+// The ground is read near the lowest ankle position so one bad frame does not set it
+const GROUND_PERCENTILE = 0.95;
+
+const LEGS: GaitLeg[] = ['left', 'right'];
+
+interface ContactPeriod {
+  start: number; // Timestamp of the first planted frame
+  end: number; // Timestamp of the last planted frame
+  landing: number; // Estimated touch-down, between the frame before `start` and `start`
+  liftOff: number; // Estimated lift-off, between `end` and the frame after it
+}
+
+// Get keypoint by name
+function getKeypoint(pose: Pose, name: string): Keypoint | undefined {
+  return pose.keypoints.find(kp => kp.name === name);
+}
+
+// Hip-knee-ankle length of one leg, median across the clip
+function getLegLength(frames: FrameAnalysis[], leg: GaitLeg): number | undefined {
+  const lengths = frames
+    .map(({ pose }) => [`${leg}_hip`, `${leg}_knee`, `${leg}_ankle`].map(name => getKeypoint(pose, name)))
+    .filter((points): points is Keypoint[] => points.every(isVisible))
+    .map(([hip, knee, ankle]) => Math.hypot(hip.x - knee.x, hip.y - knee.y) + Math.hypot(knee.x - ankle.x, knee.y - ankle.y));
+  return lengths.length > 0 ? percentile(lengths, 0.5) : undefined;
+}
+
+// Rise and fall of the hip centre within one stride (pixels)
+function measureHipOscillation(frames: FrameAnalysis[], cycle: GaitCycle): number | undefined {
+  const hipHeights = frames
+    .filter(frame => frame.timestamp >= cycle.start && frame.timestamp < cycle.end)
+    .map(frame => hipCenter(frame.pose)?.y)
+    .filter((y): y is number => y !== undefined);
+  return hipHeights.length >= 3 ? Math.max(...hipHeights) - Math.min(...hipHeights) : undefined;
+}
+
+/**
+ * When the ankle reached (or left) the ground next to a planted frame
+ * Extrapolates the ankle's vertical speed over the two frames on the airborne side;
+ * falls back to half a frame when they were not tracked or the ankle was not moving towards the ground
+ * @param step - -1 for touch-down (airborne frames before), 1 for lift-off (airborne frames after)
+ */
+function estimateGroundTime(
+  frames: FrameAnalysis[],
+  heights: Array<number | undefined>,
+  ground: number,
+  planted: number,
+  step: -1 | 1,
+  frameInterval: number
+): number {
+  const plantedTime = frames[planted].timestamp;
+  const fallback = plantedTime + (step * frameInterval) / 2;
+  const airborne = planted + step;
+  const outer = airborne + step;
+  if (outer < 0 || outer >= frames.length) return fallback;
+
+  const near = heights[airborne];
+  const far = heights[outer];
+  const elapsed = Math.abs(frames[airborne].timestamp - frames[outer].timestamp);
+  if (near === undefined || far === undefined || elapsed <= 0 || near <= far) return fallback;
+
+  const speed = (near - far) / elapsed;
+  const offset = Math.max(0, ground - near) / speed;
+  const time = frames[airborne].timestamp - step * offset;
+  return step === -1 ? Math.min(plantedTime, time) : Math.max(plantedTime, time);
+}
+
+/**
+ * Periods one foot is on the ground: ankle near the ground (image y grows downwards)
+ * with a vertical velocity close to zero
+ */
+function findContactPeriods(
+  frames: FrameAnalysis[],
+  leg: GaitLeg,
+  legLength: number,
+  frameInterval: number
+): ContactPeriod[] {
+  const heights = frames.map(({ pose }) => {
+    const ankle = getKeypoint(pose, `${leg}_ankle`);
+    return isVisible(ankle) ? ankle.y : undefined;
+  });
+  const visible = heights.filter((y): y is number => y !== undefined);
+  if (visible.length === 0) return [];
+  const ground = percentile(visible, GROUND_PERCENTILE);
+
+  const isPlanted = (index: number): boolean => {
+    const y = heights[index];
+    if (y === undefined || y < ground - GROUND_TOLERANCE * legLength) return false;
+
+    const before = index > 0 && heights[index - 1] !== undefined ? index - 1 : index;
+    const after = index < frames.length - 1 && heights[index + 1] !== undefined ? index + 1 : index;
+    const elapsed = frames[after].timestamp - frames[before].timestamp;
+    if (elapsed <= 0) return false;
+    return Math.abs(heights[after]! - heights[before]!) / elapsed <= MAX_PLANTED_SPEED * legLength;
+  };
+
+  // Runs of planted frames as [first, last] indexes
+  const runs: Array<[number, number]> = [];
+  for (let i = 0; i < frames.length; i++) {
+    if (!isPlanted(i)) continue;
+    const last = runs[runs.length - 1];
+    if (last && last[1] === i - 1) {
+      last[1] = i;
+    } else {
+      runs.push([i, i]);
+    }
+  }
+
+  return runs.map(([first, last]) => ({
+    start: frames[first].timestamp,
+    end: frames[last].timestamp,
+    landing: estimateGroundTime(frames, heights, ground, first, -1, frameInterval),
+    liftOff: estimateGroundTime(frames, heights, ground, last, 1, frameInterval),
+  }));
+}
+
+// Typical time between sampled frames (seconds)
+function getFrameInterval(frames: FrameAnalysis[]): number {
+  const intervals = frames.slice(1).map((frame, i) => frame.timestamp - frames[i].timestamp).filter(dt => dt > 0);
+  return intervals.length > 0 ? percentile(intervals, 0.5) : 0;
+}
+
+/**
+ * Running economy of every detected stride
+ * @param frames - Timestamped poses in chronological order
+ * @param gaitAnalysis - Stride cycles from segmentGaitCycles
+ * @param calibration - Reports vertical oscillation in cm rather than % of leg length
+ */
+export function measureStrideEconomy(
+  frames: FrameAnalysis[],
+  gaitAnalysis: GaitAnalysis,
+  calibration: Calibration | null = null
+): StrideEconomy[] {
+  const frameInterval = getFrameInterval(frames);
+  const legLengths = Object.fromEntries(LEGS.map(leg => [leg, getLegLength(frames, leg)])) as Record<GaitLeg, number | undefined>;
+
+  // Contacts are found per trimmed segment: none spans a cut, and each reads its own ground level
+  const runs = splitBySegment(frames);
+  const contacts = Object.fromEntries(
+    LEGS.map(leg => [
+      leg,
+      legLengths[leg] ? runs.flatMap(run => findContactPeriods(run, leg, legLengths[leg]!, frameInterval)) : [],
+    ])
+  ) as Record<GaitLeg, ContactPeriod[]>;
+
+  return gaitAnalysis.cycles.map((cycle: GaitCycle): StrideEconomy => {
+    const stride: StrideEconomy = { leg: cycle.leg, start: cycle.start };
+    const legLength = legLengths[cycle.leg];
+    const otherLeg: GaitLeg = cycle.leg === 'left' ? 'right' : 'left';
+
+    // The contact that begins this stride is the one starting closest to the foot strike
+    const contact = contacts[cycle.leg]
+      .filter(period => period.start < cycle.start + cycle.duration / 2)
+      .reduce<ContactPeriod | null>(
+        (best, period) => (!best || Math.abs(period.start - cycle.start) < Math.abs(best.start - cycle.start) ? period : best),
+        null
+      );
+
+    if (contact && contact.end >= cycle.start - frameInterval) {
+      const contactTime = contact.liftOff - contact.landing;
+      stride.groundContactTime = Math.round(contactTime * 1000);
+      stride.dutyFactor = Math.round((contactTime / cycle.duration) * 1000) / 10;
+
+      // Airborne until the other foot lands, if it lands within this stride
+      const landing = contacts[otherLeg].find(period => period.start > contact.end);
+      if (landing && landing.start < cycle.end) {
+        stride.flightTime = Math.round(Math.max(0, landing.landing - contact.liftOff) * 1000);
+      }
+    }
+
+    const oscillation = measureHipOscillation(frames, cycle);
+    if (oscillation !== undefined && calibration) {
+      stride.verticalOscillation = Math.round(oscillation * calibration.cmPerPixel * 10) / 10;
+    } else if (oscillation !== undefined && legLength) {
+      stride.verticalOscillation = Math.round((oscillation / legLength) * 1000) / 10;
+    }
+
+    return stride;
+  });
+}
+
+/**
+ * Running economy metrics across all strides
+ * @param calibration - Reports vertical oscillation in cm rather than % of leg length
+ * @returns Detailed metrics and left/right asymmetry, keyed like the angle metrics they join
+ */
+export function calculateRunningEconomy(
+  frames: FrameAnalysis[],
+  gaitAnalysis: GaitAnalysis,
+  calibration: Calibration | null = null
+): { metrics: DetailedMetrics; asymmetry: Asymmetry } {
+  const strides = measureStrideEconomy(frames, gaitAnalysis, calibration);
+  const units = calibration ? { ...RUNNING_ECONOMY_UNITS, verticalOscillation: 'cm' } : RUNNING_ECONOMY_UNITS;
+  const valuesFor = (key: EconomyKey, leg?: GaitLeg): number[] =>
+    strides
+      .filter(stride => !leg || stride.leg === leg)
+      .map(stride => stride[key])
+      .filter((value): value is number => value !== undefined);
+
+  const metrics: DetailedMetrics = {};
+  (Object.keys(RUNNING_ECONOMY_UNITS) as EconomyKey[]).forEach(key => {
+    const values = valuesFor(key);
+    if (values.length > 0) metrics[key] = summarizeValues(values, units[key]);
+  });
+
+  const asymmetry: Asymmetry = {};
+  SIDED_KEYS.forEach(key => {
+    const left = valuesFor(key, 'left');
+    const right = valuesFor(key, 'right');
+    if (left.length > 0 && right.length > 0) {
+      asymmetry[key] = compareSides(left, right, units[key]);
+    }
+  });
+
+  return { metrics, asymmetry };
+}
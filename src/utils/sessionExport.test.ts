@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSession,
+  serializeSession,
+  parseSession,
+  createSessionCsv,
+  getSessionFileName,
+  SESSION_FORMAT_VERSION,
+} from './sessionExport';
+import type { AnalysisSession, FrameAnalysis } from '../types';
+
+describe('sessionExport', () => {
+  const createFrame = (timestamp: number, angles: Record<string, number>): FrameAnalysis => ({
+    timestamp,
+    pose: { keypoints: [{ x: 100, y: 200, score: 0.9, name: 'left_knee' }], score: 0.9 },
+    analysis: { angles, recommendations: [], overall: 'good' },
+  });
+
+  const createTestSession = (): AnalysisSession => createSession({
+    analysisType: 'bike',
+    view: 'side',
+    poseModel: 'movenet-lightning',
+    video: { name: 'My Ride.mp4', size: 1024, type: 'video/mp4', duration: 12, width: 640, height: 480 },
+    frames: [createFrame(0, { knee: 145, hip: 55 }), createFrame(0.1, { knee: 150 })],
+    analysis: { angles: { knee: 148, hip: 55 }, recommendations: [], overall: 'good' },
+    detailedMetrics: null,
+    asymmetry: null,
+    recommendations: [],
+    smoothingReport: null,
+  });
+
+  describe('parseSession', () => {
+    it('should round-trip a serialized session', () => {
+      const session = createTestSession();
+      const parsed = parseSession(serializeSession(session));
+
+      expect(parsed).toEqual(session);
+      expect(parsed.version).toBe(SESSION_FORMAT_VERSION);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseSession('not json')).toThrow('Session file is not valid JSON');
+    });
+
+    it('should reject files that are not sessions', () => {
+      expect(() => parseSession(JSON.stringify({ frames: [] }))).toThrow('File is not an analysis session');
+    });
+
+    it('should reject sessions saved by a newer version', () => {
+      const session = { ...createTestSession(), version: SESSION_FORMAT_VERSION + 1 };
+      expect(() => parseSession(JSON.stringify(session))).toThrow('newer version');
+    });
+
+    it('should reject unknown analysis types', () => {
+      const session = { ...createTestSession(), analysisType: 'swimming' };
+      expect(() => parseSession(JSON.stringify(session))).toThrow('unknown analysis type');
+    });
+
+    it('should reject sessions without valid frames', () => {
+      const empty = { ...createTestSession(), frames: [] };
+      const malformed = { ...createTestSession(), frames: [{ timestamp: 0 }] };
+
+      expect(() => parseSession(JSON.stringify(empty))).toThrow('no valid frames');
+      expect(() => parseSession(JSON.stringify(malformed))).toThrow('no valid frames');
+    });
+
+    it('should reject sessions without a creation time or video details', () => {
+      const { createdAt: _createdAt, ...undated } = createTestSession();
+      const session = createTestSession();
+      const unnamed = { ...session, video: { ...session.video, name: undefined } };
+
+      expect(() => parseSession(JSON.stringify(undated))).toThrow('missing video details');
+      expect(() => parseSession(JSON.stringify(unnamed))).toThrow('missing video details');
+    });
+
+    it('should default optional results when missing', () => {
+      const { detailedMetrics: _metrics, asymmetry: _asymmetry, recommendations: _recs, ...rest } = createTestSession();
+      const parsed = parseSession(JSON.stringify({ ...rest, view: undefined }));
+
+      expect(parsed.view).toBe('side');
+      expect(parsed.detailedMetrics).toBeNull();
+      expect(parsed.asymmetry).toBeNull();
+      expect(parsed.recommendations).toEqual([]);
+    });
+
+    it('should keep valid calibration settings and drop malformed ones', () => {
+      const calibration = { method: 'reference', lengthCm: 70, points: [{ x: 0, y: 0 }, { x: 0, y: 140 }] };
+
+      expect(parseSession(JSON.stringify({ ...createTestSession(), calibration })).calibration).toEqual(calibration);
+      expect(
+        parseSession(JSON.stringify({ ...createTestSession(), calibration: { method: 'reference', lengthCm: 70 } })).calibration
+      ).toBeUndefined();
+    });
+
+    it('should keep valid segments and drop malformed ones', () => {
+      const segments = [{ start: 12, end: 20 }, { start: 65, end: 75 }];
+
+      expect(parseSession(JSON.stringify({ ...createTestSession(), segments })).segments).toEqual(segments);
+      expect(parseSession(JSON.stringify({ ...createTestSession(), segments: [{ start: 5 }] })).segments).toBeUndefined();
+    });
+  });
+
+  describe('createSessionCsv', () => {
+    it('should write one row per frame with timestamps', () => {
+      const lines = createSessionCsv(createTestSession().frames).trim().split('\n');
+
+      expect(lines[0]).toBe('frame,timestamp,knee,hip');
+      expect(lines[1]).toBe('1,0.000,145,55');
+    });
+
+    it('should number the segment of each frame from a trimmed video', () => {
+      const frames = createTestSession().frames.map((frame, i) => ({ ...frame, segment: i }));
+      const lines = createSessionCsv(frames).trim().split('\n');
+
+      expect(lines[0]).toBe('frame,timestamp,segment,knee,hip');
+      expect(lines[2]).toBe('2,0.100,2,150,');
+    });
+
+    it('should leave missing angles blank', () => {
+      const lines = createSessionCsv(createTestSession().frames).trim().split('\n');
+      expect(lines[2]).toBe('2,0.100,150,');
+    });
+  });
+
+  describe('getSessionFileName', () => {
+    it('should combine the video name and session date', () => {
+      const session = { ...createTestSession(), createdAt: '2026-03-14T10:00:00.000Z' };
+      expect(getSessionFileName(session)).toBe('analysis-session-My-Ride-2026-03-14');
+    });
+  });
+});
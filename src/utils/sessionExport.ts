@@ -0,0 +1,208 @@
+import { createFrameData } from './detailedMetrics';
+import type {
+  AnalysisSession,
+  CalibrationSettings,
+  FrameAnalysis,
+  PoseModelId,
+  RuleProfileId,
+  SessionVideoMetadata,
+  VideoSegment,
+} from '../types';
+
+/**
+ * Analysis Session Files
+ * - Versioned JSON format with raw poses, timestamps and all analysis results
+ * - Per-frame angle CSV for spreadsheets
+ * - Import validation so a saved session can be restored without pose detection
+ */
+
+export const SESSION_FORMAT = 'sports-analysis-session';
+export const SESSION_FORMAT_VERSION = 1;
+
+type SessionContent = Omit<AnalysisSession, 'format' | 'version' | 'createdAt'>;
+
+/**
+ * Wrap analysis results in a versioned session
+ */
+export function createSession(content: SessionContent): AnalysisSession {
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    ...content,
+  };
+}
+
+/**
+ * Describe the analyzed video from its file and loaded element
+ */
+export function getVideoMetadata(file: File, video: HTMLVideoElement | null): SessionVideoMetadata {
+  return {
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    duration: video?.duration || 0,
+    width: video?.videoWidth || 0,
+    height: video?.videoHeight || 0,
+  };
+}
+
+export function serializeSession(session: AnalysisSession): string {
+  return JSON.stringify(session, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isFrame(value: unknown): value is FrameAnalysis {
+  return (
+    isObject(value) &&
+    typeof value.timestamp === 'number' &&
+    isObject(value.pose) &&
+    Array.isArray(value.pose.keypoints) &&
+    isObject(value.analysis) &&
+    isObject(value.analysis.angles)
+  );
+}
+
+const isPoint = (value: unknown): boolean =>
+  isObject(value) && typeof value.x === 'number' && typeof value.y === 'number';
+
+function isCalibrationSettings(value: unknown): value is CalibrationSettings {
+  if (!isObject(value)) return false;
+  if (value.method === 'height') return typeof value.heightCm === 'number';
+  return (
+    value.method === 'reference' &&
+    typeof value.lengthCm === 'number' &&
+    Array.isArray(value.points) &&
+    value.points.length === 2 &&
+    value.points.every(isPoint)
+  );
+}
+
+function isAnalysisResult(value: unknown): value is AnalysisSession['analysis'] {
+  return (
+    isObject(value) &&
+    isObject(value.angles) &&
+    Array.isArray(value.recommendations) &&
+    typeof value.overall === 'string'
+  );
+}
+
+function isVideoMetadata(value: unknown): value is SessionVideoMetadata {
+  return (
+    isObject(value) &&
+    typeof value.name === 'string' &&
+    typeof value.size === 'number' &&
+    typeof value.duration === 'number'
+  );
+}
+
+const isSegment = (value: unknown): value is VideoSegment =>
+  isObject(value) && typeof value.start === 'number' && typeof value.end === 'number' && value.end > value.start;
+
+/**
+ * Parse and validate a session file
+ * @throws Error with a user-facing message when the file is not a usable session
+ */
+export function parseSession(text: string): AnalysisSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Session file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== SESSION_FORMAT || typeof data.version !== 'number') {
+    throw new Error('File is not an analysis session');
+  }
+  if (data.version > SESSION_FORMAT_VERSION) {
+    throw new Error('Session was saved by a newer version of the app');
+  }
+  if (data.analysisType !== 'bike' && data.analysisType !== 'running') {
+    throw new Error('Session has an unknown analysis type');
+  }
+  if (!Array.isArray(data.frames) || data.frames.length === 0 || !data.frames.every(isFrame)) {
+    throw new Error('Session has no valid frames');
+  }
+  if (!isAnalysisResult(data.analysis)) {
+    throw new Error('Session is missing analysis results');
+  }
+  if (typeof data.createdAt !== 'string' || !isVideoMetadata(data.video)) {
+    throw new Error('Session is missing video details');
+  }
+
+  const { video } = data;
+  return {
+    format: SESSION_FORMAT,
+    version: data.version,
+    createdAt: data.createdAt,
+    analysisType: data.analysisType,
+    poseModel: typeof data.poseModel === 'string' ? (data.poseModel as PoseModelId) : undefined,
+    ruleProfile: typeof data.ruleProfile === 'string' ? (data.ruleProfile as RuleProfileId) : undefined,
+    video: {
+      name: video.name,
+      size: video.size,
+      type: typeof video.type === 'string' ? video.type : '',
+      duration: video.duration,
+      width: typeof video.width === 'number' ? video.width : 0,
+      height: typeof video.height === 'number' ? video.height : 0,
+    },
+    frames: data.frames,
+    analysis: data.analysis,
+    view: data.view === 'front' ? 'front' : 'side',
+    detailedMetrics: (data.detailedMetrics as AnalysisSession['detailedMetrics']) ?? null,
+    asymmetry: (data.asymmetry as AnalysisSession['asymmetry']) ?? null,
+    recommendations: Array.isArray(data.recommendations) ? data.recommendations : [],
+    smoothingReport: (data.smoothingReport as AnalysisSession['smoothingReport']) ?? null,
+    calibration: isCalibrationSettings(data.calibration) ? data.calibration : undefined,
+    segments: Array.isArray(data.segments) && data.segments.every(isSegment) ? data.segments : undefined,
+  };
+}
+
+/**
+ * Per-frame angle table with media timestamps (and segment numbers for trimmed videos)
+ */
+export function createSessionCsv(frames: FrameAnalysis[]): string {
+  const rows = createFrameData(frames.map(frame => frame.analysis));
+
+  const angleKeys: string[] = [];
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (key !== 'frame' && !angleKeys.includes(key)) angleKeys.push(key);
+    });
+  });
+
+  const trimmed = frames.some(frame => frame.segment !== undefined);
+  const header = ['frame', 'timestamp', ...(trimmed ? ['segment'] : []), ...angleKeys].join(',');
+  const lines = rows.map((row, i) =>
+    [
+      row.frame,
+      frames[i].timestamp.toFixed(3),
+      ...(trimmed ? [frames[i].segment !== undefined ? frames[i].segment! + 1 : ''] : []),
+      ...angleKeys.map(key => row[key] ?? ''),
+    ].join(',')
+  );
+
+  return [header, ...lines].join('\n') + '\n';
+}
+
+/**
+ * Base file name for a session export
+ */
+export function getSessionFileName(session: AnalysisSession): string {
+  const video = session.video.name.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9_-]+/g, '-');
+  return `analysis-session-${video}-${session.createdAt.slice(0, 10)}`;
+}
+
+/**
+ * Trigger a browser download of text content
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -83,6 +83,50 @@ describe('skeletonDrawing', () => {
       expect(mockCtx.stroke).toHaveBeenCalled();
     });
 
+    it('should draw foot connections for BlazePose poses', () => {
+      const pose: Pose = {
+        ...createFullPose(),
+        schema: 'blazepose33',
+      };
+      pose.keypoints.push(
+        createKeypoint('left_heel', 95, 360),
+        createKeypoint('left_foot_index', 120, 360)
+      );
+
+      drawSkeleton(mockCtx, pose, 640, 480);
+
+      expect(mockCtx.moveTo).toHaveBeenCalledWith(100, 350);
+      expect(mockCtx.lineTo).toHaveBeenCalledWith(95, 360);
+      expect(mockCtx.lineTo).toHaveBeenCalledWith(120, 360);
+    });
+
+    it('should draw a ghost behind the skeleton and highlight deviating limbs', () => {
+      mockCtx.save = vi.fn();
+      mockCtx.restore = vi.fn();
+      const strokeColors: string[] = [];
+      mockCtx.stroke = vi.fn(() => strokeColors.push(mockCtx.strokeStyle));
+
+      // Reference with the left shin swung well forward
+      const ghost = createFullPose();
+      ghost.keypoints = ghost.keypoints.map(kp => (kp.name === 'left_ankle' ? { ...kp, x: 180 } : kp));
+
+      drawSkeleton(mockCtx, createFullPose(), 640, 480, ghost);
+
+      expect(mockCtx.save).toHaveBeenCalled();
+      expect(mockCtx.restore).toHaveBeenCalled();
+      expect(strokeColors[0]).toBe('#ffffff');
+      expect(strokeColors.filter(color => color === '#ff3b30')).toHaveLength(1);
+    });
+
+    it('should not draw foot connections for COCO poses', () => {
+      const pose = createFullPose();
+      pose.keypoints.push(createKeypoint('left_heel', 95, 360));
+
+      drawSkeleton(mockCtx, pose, 640, 480);
+
+      expect(mockCtx.lineTo).not.toHaveBeenCalledWith(95, 360);
+    });
+
     it('should set stroke style for connections', () => {
       const pose = createFullPose();
       drawSkeleton(mockCtx, pose, 640, 480);
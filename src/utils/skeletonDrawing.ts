@@ -1,4 +1,9 @@
-import { Pose, Keypoint, BikeFitAnalysis, RunningFormAnalysis, AngleGauge } from '../types';
+import { Pose, Keypoint, BikeFitAnalysis, RunningFormAnalysis, FrontalAnalysis, AngleGauge } from '../types';
+import { KEYPOINT_SCHEMAS, getPoseSchema } from './keypointSchema';
+import { alignGhostPose, findDeviatingSegments } from './ghostOverlay';
+
+// Colour of limb segments that differ from the ghost reference
+const GHOST_DEVIATION_COLOR = '#ff3b30';
 
 // Linear interpolation between two numbers
 function lerp(a: number, b: number, t: number): number {
@@ -29,52 +34,66 @@ export function interpolatePose(pose1: Pose, pose2: Pose, t: number): Pose {
   };
 }
 
+// Draw a reference pose as a semi-transparent ghost
+function drawGhost(ctx: CanvasRenderingContext2D, ghost: Pose): void {
+  const getKeypoint = (name: string): Keypoint | undefined =>
+    ghost.keypoints.find(kp => kp.name === name);
+
+  ctx.save();
+  ctx.globalAlpha = 0.45;
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 8;
+  ctx.lineCap = 'round';
+
+  KEYPOINT_SCHEMAS[getPoseSchema(ghost)].connections.forEach(([startName, endName]) => {
+    const start = getKeypoint(startName);
+    const end = getKeypoint(endName);
+
+    if (start && end && start.score! > 0.3 && end.score! > 0.3) {
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+    }
+  });
+
+  ctx.restore();
+}
+
 // Draw skeleton overlay on canvas with pose keypoints and connections
+// An optional ghost pose is drawn behind it, aligned at the hip, with deviating limbs highlighted
 export function drawSkeleton(
   ctx: CanvasRenderingContext2D,
   pose: Pose,
   videoWidth: number,
-  videoHeight: number
+  videoHeight: number,
+  ghostPose?: Pose | null
 ): void {
   if (!pose || !pose.keypoints) return;
 
-  // Define skeleton connections (pairs of keypoints to connect)
-  const connections: Array<[string, string]> = [
-    // Torso
-    ['left_shoulder', 'right_shoulder'],
-    ['left_shoulder', 'left_hip'],
-    ['right_shoulder', 'right_hip'],
-    ['left_hip', 'right_hip'],
-
-    // Left arm
-    ['left_shoulder', 'left_elbow'],
-    ['left_elbow', 'left_wrist'],
-
-    // Right arm
-    ['right_shoulder', 'right_elbow'],
-    ['right_elbow', 'right_wrist'],
-
-    // Left leg
-    ['left_hip', 'left_knee'],
-    ['left_knee', 'left_ankle'],
-
-    // Right leg
-    ['right_hip', 'right_knee'],
-    ['right_knee', 'right_ankle'],
-  ];
+  // Skeleton connections (pairs of keypoints to connect) for the pose's keypoint schema
+  const connections = KEYPOINT_SCHEMAS[getPoseSchema(pose)].connections;
 
   const getKeypoint = (name: string): Keypoint | undefined =>
     pose.keypoints.find(kp => kp.name === name);
 
-  // Draw connections (lines between keypoints)
-  ctx.strokeStyle = '#00ff00';
-  ctx.lineWidth = 3;
+  // Reference ghost and the limb segments that differ from it
+  const ghost = ghostPose ? alignGhostPose(ghostPose, pose) : null;
+  const deviating = new Set<string>();
+  if (ghost) {
+    drawGhost(ctx, ghost);
+    findDeviatingSegments(pose, ghost, connections).forEach(([start, end]) => deviating.add(`${start}:${end}`));
+  }
 
+  // Draw connections (lines between keypoints)
   connections.forEach(([startName, endName]) => {
     const start = getKeypoint(startName);
     const end = getKeypoint(endName);
 
     if (start && end && start.score! > 0.3 && end.score! > 0.3) {
+      const isDeviating = deviating.has(`${startName}:${endName}`);
+      ctx.strokeStyle = isDeviating ? GHOST_DEVIATION_COLOR : '#00ff00';
+      ctx.lineWidth = isDeviating ? 5 : 3;
       ctx.beginPath();
       ctx.moveTo(start.x, start.y);
       ctx.lineTo(end.x, end.y);
@@ -228,6 +247,103 @@ export function drawRunningAngles(
   }
 }
 
+// Draw a line between a left/right keypoint pair with its tilt label
+function drawLevelLine(
+  ctx: CanvasRenderingContext2D,
+  left: Keypoint | undefined,
+  right: Keypoint | undefined,
+  angle: number,
+  label: string
+): void {
+  if (!left || !right || left.score! < 0.3 || right.score! < 0.3) return;
+
+  ctx.beginPath();
+  ctx.moveTo(left.x, left.y);
+  ctx.lineTo(right.x, right.y);
+  ctx.strokeStyle = '#00ffff';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.font = 'bold 16px Arial';
+  ctx.fillStyle = '#00ffff';
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = 3;
+
+  const text = `${label}: ${Math.abs(angle)}°`;
+  const textX = Math.max(left.x, right.x) + 10;
+  const textY = (left.y + right.y) / 2;
+  ctx.strokeText(text, textX, textY);
+  ctx.fillText(text, textX, textY);
+}
+
+// Draw knee tracking, pelvic and shoulder lines for front-facing videos
+export function drawFrontalAngles(
+  ctx: CanvasRenderingContext2D,
+  pose: Pose,
+  analysis: FrontalAnalysis
+): void {
+  if (!pose || !analysis) return;
+
+  const getKeypoint = (name: string): Keypoint | undefined =>
+    pose.keypoints.find(kp => kp.name === name);
+
+  // Knee deviation from the hip-ankle line for each leg
+  (['left', 'right'] as const).forEach(side => {
+    const angle = side === 'left' ? analysis.angles.kneeValgusLeft : analysis.angles.kneeValgusRight;
+    const hip = getKeypoint(`${side}_hip`);
+    const knee = getKeypoint(`${side}_knee`);
+    const ankle = getKeypoint(`${side}_ankle`);
+    if (angle !== undefined && hip && knee && ankle) {
+      drawAngle(ctx, hip, knee, ankle, angle, side === 'left' ? 'L-Knee' : 'R-Knee');
+    }
+  });
+
+  if (analysis.angles.pelvicDrop !== undefined) {
+    drawLevelLine(ctx, getKeypoint('left_hip'), getKeypoint('right_hip'), analysis.angles.pelvicDrop, 'Pelvis');
+  }
+
+  if (analysis.angles.shoulderTilt !== undefined) {
+    drawLevelLine(ctx, getKeypoint('left_shoulder'), getKeypoint('right_shoulder'), analysis.angles.shoulderTilt, 'Shoulders');
+  }
+}
+
+// Draw a single-colour skeleton, used to superimpose poses from two videos
+export function drawSkeletonOutline(
+  ctx: CanvasRenderingContext2D,
+  pose: Pose,
+  color: string
+): void {
+  if (!pose || !pose.keypoints) return;
+
+  const connections = KEYPOINT_SCHEMAS[getPoseSchema(pose)].connections;
+  const getKeypoint = (name: string): Keypoint | undefined =>
+    pose.keypoints.find(kp => kp.name === name);
+
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 4;
+
+  connections.forEach(([startName, endName]) => {
+    const start = getKeypoint(startName);
+    const end = getKeypoint(endName);
+
+    if (start && end && start.score! > 0.3 && end.score! > 0.3) {
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+    }
+  });
+
+  pose.keypoints.forEach(keypoint => {
+    if (keypoint.score! > 0.3) {
+      ctx.beginPath();
+      ctx.arc(keypoint.x, keypoint.y, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  });
+}
+
 // Create visual gauge showing angle within optimal range
 export function createAngleGauge(
   angle: number,
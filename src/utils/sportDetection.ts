@@ -1,8 +1,15 @@
 import { initializePoseDetector, detectPose } from './poseDetection';
-import { Pose, Keypoint, SportType } from '../types';
+import { detectCameraView } from './frontalAnalysis';
+import { Pose, Keypoint, SportType, VideoProfile } from '../types';
 
 // Detect sport type from video
 export async function detectSportType(videoFile: File): Promise<SportType | 'unknown'> {
+  const { sport } = await detectVideoProfile(videoFile);
+  return sport;
+}
+
+// Detect sport type and camera view (side or front) from video
+export async function detectVideoProfile(videoFile: File): Promise<VideoProfile> {
   try {
     // Initialize pose detector
     await initializePoseDetector();
@@ -27,6 +34,7 @@ export async function detectSportType(videoFile: File): Promise<SportType | 'unk
     const framesToCheck = 5;
     const interval = video.duration / (framesToCheck + 1);
     const detections: Array<SportType | null> = [];
+    const poses: Pose[] = [];
 
     for (let i = 1; i <= framesToCheck; i++) {
       const targetTime = i * interval;
@@ -43,6 +51,7 @@ export async function detectSportType(videoFile: File): Promise<SportType | 'unk
       try {
         const pose = await detectPose(video);
         if (pose && pose.score > 0.3) {
+          poses.push(pose);
           const sportType = classifySport(pose);
           if (sportType) {
             detections.push(sportType);
@@ -55,9 +64,11 @@ export async function detectSportType(videoFile: File): Promise<SportType | 'unk
 
     URL.revokeObjectURL(videoUrl);
 
+    const view = detectCameraView(poses);
+
     // Return most common detection
     if (detections.length === 0) {
-      return 'unknown';
+      return { sport: 'unknown', view };
     }
 
     const sportCounts = detections.reduce<Record<string, number>>((acc, sport) => {
@@ -71,10 +82,10 @@ export async function detectSportType(videoFile: File): Promise<SportType | 'unk
       sportCounts[a] > sportCounts[b] ? a : b
     ) as SportType;
 
-    return detectedSport;
+    return { sport: detectedSport, view };
   } catch (error) {
     console.error('Sport detection error:', error);
-    return 'unknown';
+    return { sport: 'unknown', view: 'side' };
   }
 }
 
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMetricTrends,
+  getTrendGroups,
+  getOptimalRange,
+  getTrendDirection,
+  distanceFromRange,
+  CONSISTENCY_RANGE,
+  ASYMMETRY_RANGE,
+} from './trends';
+import { DEFAULT_BIKE_PROFILE, DEFAULT_RUNNING_PROFILE } from './ruleProfiles';
+import type { AngleData, AnalysisSession, AthleteSessionRecord, Asymmetry, DetailedMetrics } from '../types';
+
+describe('trends', () => {
+  const createRecord = (
+    date: string,
+    angles: AngleData,
+    options: {
+      analysisType?: 'bike' | 'running';
+      view?: 'side' | 'front';
+      detailedMetrics?: DetailedMetrics | null;
+      asymmetry?: Asymmetry | null;
+    } = {}
+  ): AthleteSessionRecord => {
+    const session: AnalysisSession = {
+      format: 'sports-analysis-session',
+      version: 1,
+      createdAt: `${date}T10:00:00.000Z`,
+      analysisType: options.analysisType ?? 'bike',
+      view: options.view ?? 'side',
+      video: { name: 'ride.mp4', size: 1024, type: 'video/mp4', duration: 12, width: 640, height: 480 },
+      frames: [],
+      analysis: { angles, recommendations: [], overall: 'good' },
+      detailedMetrics: options.detailedMetrics ?? null,
+      asymmetry: options.asymmetry ?? null,
+      recommendations: [],
+      smoothingReport: null,
+    };
+    return { id: date, athleteId: 'athlete-1', date: session.createdAt, session };
+  };
+
+  const createMetric = (consistency: number) => ({ min: 0, max: 0, avg: 0, range: 0, stdDev: 0, consistency, values: [] });
+
+  describe('getOptimalRange', () => {
+    it('should use the recommendation ranges for each sport', () => {
+      expect(getOptimalRange('knee', 'bike')).toEqual(DEFAULT_BIKE_PROFILE.ranges.knee);
+      expect(getOptimalRange('bodyLean', 'running')).toEqual(DEFAULT_RUNNING_PROFILE.ranges.bodyLean);
+      expect(getOptimalRange('bodyLean', 'bike')).toBeNull();
+    });
+
+    it('should judge the pelvis by hip rocking on the bike and pelvic drop when running', () => {
+      expect(getOptimalRange('pelvicDrop', 'bike')).toEqual(DEFAULT_BIKE_PROFILE.ranges.hipRocking);
+      expect(getOptimalRange('pelvicDrop', 'running')).toEqual(DEFAULT_RUNNING_PROFILE.ranges.pelvicDrop);
+    });
+
+    it('should use the ranges of the session discipline', () => {
+      expect(getOptimalRange('back', 'bike', 'time-trial')).toEqual({ min: 10, max: 25 });
+      expect(getOptimalRange('kneeLift', 'running', 'sprint')).toEqual({ min: 70, max: 110 });
+    });
+
+    it('should return null for angles without a range', () => {
+      expect(getOptimalRange('ankle', 'bike')).toBeNull();
+    });
+  });
+
+  describe('getTrendDirection', () => {
+    const range = { min: 140, max: 160 };
+    const points = (...values: number[]) => values.map((value, i) => ({ date: `2026-01-0${i + 1}`, value }));
+
+    it('should measure distance outside the range', () => {
+      expect(distanceFromRange(130, range)).toBe(10);
+      expect(distanceFromRange(150, range)).toBe(0);
+      expect(distanceFromRange(165, range)).toBe(5);
+    });
+
+    it('should detect movement toward the range', () => {
+      expect(getTrendDirection(points(130, 138), range)).toBe('toward');
+      expect(getTrendDirection(points(170, 150), range)).toBe('toward');
+    });
+
+    it('should detect movement away from the range', () => {
+      expect(getTrendDirection(points(150, 135), range)).toBe('away');
+    });
+
+    it('should treat changes within the range as unchanged', () => {
+      expect(getTrendDirection(points(145, 155), range)).toBe('unchanged');
+    });
+
+    it('should need two sessions and a range', () => {
+      expect(getTrendDirection(points(130), range)).toBeNull();
+      expect(getTrendDirection(points(130, 140), null)).toBeNull();
+    });
+  });
+
+  describe('buildMetricTrends', () => {
+    it('should plot each angle across sessions in date order', () => {
+      const records = [
+        createRecord('2026-03-01', { knee: 150, hip: 55 }),
+        createRecord('2026-01-01', { knee: 132, hip: 55 }),
+      ];
+
+      const knee = buildMetricTrends(records, 'bike-side').find(trend => trend.key === 'knee')!;
+      expect(knee.points.map(point => point.value)).toEqual([132, 150]);
+      expect(knee.range).toEqual(DEFAULT_BIKE_PROFILE.ranges.knee);
+      expect(knee.direction).toBe('toward');
+      expect(knee.latestInRange).toBe(true);
+    });
+
+    it('should only compare sessions of the same sport and view', () => {
+      const records = [
+        createRecord('2026-01-01', { knee: 150 }),
+        createRecord('2026-02-01', { bodyLean: 8 }, { analysisType: 'running' }),
+        createRecord('2026-03-01', { kneeValgusLeft: 4 }, { view: 'front' }),
+      ];
+
+      expect(buildMetricTrends(records, 'bike-side').map(trend => trend.key)).toEqual(['knee']);
+      expect(buildMetricTrends(records, 'running-side').map(trend => trend.key)).toEqual(['bodyLean']);
+    });
+
+    it('should add consistency score and asymmetry trends', () => {
+      const records = [
+        createRecord('2026-01-01', { knee: 150 }, {
+          detailedMetrics: { knee: createMetric(60), hip: createMetric(70) },
+          asymmetry: { knee: { left: 150, right: 138, difference: 12, percentDiff: 8.3, status: 'minor' } },
+        }),
+        createRecord('2026-02-01', { knee: 150 }, {
+          detailedMetrics: { knee: createMetric(80), hip: createMetric(90) },
+          asymmetry: { knee: { left: 150, right: 147, difference: 3, percentDiff: 2, status: 'balanced' } },
+        }),
+      ];
+
+      const trends = buildMetricTrends(records, 'bike-side');
+      const consistency = trends.find(trend => trend.category === 'consistency')!;
+      const asymmetry = trends.find(trend => trend.category === 'asymmetry')!;
+
+      expect(consistency.points.map(point => point.value)).toEqual([65, 85]);
+      expect(consistency.range).toEqual(CONSISTENCY_RANGE);
+      expect(consistency.direction).toBe('toward');
+      expect(asymmetry.label).toBe('Knee Asymmetry');
+      expect(asymmetry.range).toEqual(ASYMMETRY_RANGE);
+      expect(asymmetry.direction).toBe('toward');
+    });
+
+    it('should label pelvic motion as hip rocking for cycling', () => {
+      const records = [createRecord('2026-01-01', { pelvicDrop: 3 }, { view: 'front' })];
+      expect(buildMetricTrends(records, 'bike-front')[0].label).toBe('Hip Rocking');
+    });
+  });
+
+  describe('getTrendGroups', () => {
+    it('should list groups with the most sessions first', () => {
+      const records = [
+        createRecord('2026-01-01', {}, { analysisType: 'running' }),
+        createRecord('2026-02-01', {}),
+        createRecord('2026-03-01', {}),
+      ];
+      expect(getTrendGroups(records)).toEqual(['bike-side', 'running-side']);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { getAngleRange, getRuleProfile } from './ruleProfiles';
+import { formatMetricName } from './detailedMetrics';
+import type {
+  AnalysisSession,
+  AthleteSessionRecord,
+  CameraView,
+  MetricTrend,
+  OptimalRange,
+  RuleProfile,
+  RuleProfileId,
+  TrendDirection,
+  TrendPoint,
+} from '../types';
+
+/**
+ * Progress Trends
+ * - Each angle, consistency score and left/right asymmetry plotted across an athlete's sessions
+ * - Optimal bands taken from the ranges that score recommendations
+ * - Whether each metric moved toward or away from its optimal range
+ */
+
+// Consistency scores rated "Good" or better
+export const CONSISTENCY_RANGE: OptimalRange = { min: 75, max: 100 };
+
+// Left/right differences rated "Balanced" (percent)
+export const ASYMMETRY_RANGE: OptimalRange = { min: 0, max: 5 };
+
+// Smaller changes in distance from the range count as unchanged
+const UNCHANGED_TOLERANCE = 0.5;
+
+// Sessions are only compared with sessions of the same sport and camera view
+export type TrendGroup = `${AnalysisSession['analysisType']}-${CameraView}`;
+
+export const TREND_GROUP_LABELS: Record<TrendGroup, string> = {
+  'bike-side': 'Bike fit',
+  'bike-front': 'Bike fit (front view)',
+  'running-side': 'Running form',
+  'running-front': 'Running form (front view)',
+};
+
+export function getTrendGroup(session: AnalysisSession): TrendGroup {
+  return `${session.analysisType}-${session.view}`;
+}
+
+/**
+ * Optimal range for an angle, as used by the recommendation engine
+ * @param profileId - Discipline profile, the sport's default when omitted
+ * @param customProfiles - User-defined profiles the id may refer to
+ * @returns null when no range applies (e.g. ankle angle)
+ */
+export function getOptimalRange(
+  key: string,
+  analysisType: AnalysisSession['analysisType'],
+  profileId?: RuleProfileId,
+  customProfiles: RuleProfile[] = []
+): OptimalRange | null {
+  return getAngleRange(key, getRuleProfile(profileId, analysisType, customProfiles));
+}
+
+/**
+ * How far a value lies outside a range (0 when inside)
+ */
+export function distanceFromRange(value: number, range: OptimalRange): number {
+  if (value < range.min) return range.min - value;
+  if (value > range.max) return value - range.max;
+  return 0;
+}
+
+/**
+ * Compare the first and latest sessions against the optimal range
+ */
+export function getTrendDirection(points: TrendPoint[], range: OptimalRange | null): TrendDirection | null {
+  if (!range || points.length < 2) return null;
+
+  const first = distanceFromRange(points[0].value, range);
+  const latest = distanceFromRange(points[points.length - 1].value, range);
+  if (Math.abs(latest - first) < UNCHANGED_TOLERANCE) return 'unchanged';
+  return latest < first ? 'toward' : 'away';
+}
+
+function createTrend(
+  key: string,
+  label: string,
+  category: MetricTrend['category'],
+  unit: string,
+  points: TrendPoint[],
+  range: OptimalRange | null
+): MetricTrend {
+  const latest = points[points.length - 1];
+  return {
+    key,
+    label,
+    category,
+    unit,
+    points,
+    range,
+    direction: getTrendDirection(points, range),
+    latestInRange: range && latest ? distanceFromRange(latest.value, range) === 0 : null,
+  };
+}
+
+/**
+ * Build per-metric trends from an athlete's stored sessions of one group
+ * @param customProfiles - User-defined profiles sessions may have been scored with
+ * @returns Angle trends, then the consistency score, then asymmetry trends
+ */
+export function buildMetricTrends(
+  records: AthleteSessionRecord[],
+  group: TrendGroup,
+  customProfiles: RuleProfile[] = []
+): MetricTrend[] {
+  const sessions = records
+    .filter(record => getTrendGroup(record.session) === group)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (sessions.length === 0) return [];
+
+  const analysisType = sessions[0].session.analysisType;
+  // Bands follow the discipline of the latest session
+  const ruleProfile = sessions[sessions.length - 1].session.ruleProfile;
+  const anglePoints = new Map<string, TrendPoint[]>();
+  const asymmetryPoints = new Map<string, TrendPoint[]>();
+  const consistencyPoints: TrendPoint[] = [];
+
+  const addPoint = (series: Map<string, TrendPoint[]>, key: string, point: TrendPoint) => {
+    if (!series.has(key)) series.set(key, []);
+    series.get(key)!.push(point);
+  };
+
+  sessions.forEach(({ date, session }) => {
+    Object.entries(session.analysis.angles).forEach(([key, value]) => {
+      if (typeof value === 'number' && !isNaN(value)) {
+        addPoint(anglePoints, key, { date, value });
+      }
+    });
+
+    // Average consistency across all measured angles
+    const consistencies = Object.values(session.detailedMetrics ?? {}).map(metric => metric.consistency);
+    if (consistencies.length > 0) {
+      const average = consistencies.reduce((sum, value) => sum + value, 0) / consistencies.length;
+      consistencyPoints.push({ date, value: Math.round(average) });
+    }
+
+    Object.entries(session.asymmetry ?? {}).forEach(([key, data]) => {
+      addPoint(asymmetryPoints, key, { date, value: data.percentDiff });
+    });
+  });
+
+  const angleLabel = (key: string) =>
+    key === 'pelvicDrop' && analysisType === 'bike' ? 'Hip Rocking' : formatMetricName(key);
+
+  return [
+    ...[...anglePoints].map(([key, points]) =>
+      createTrend(key, angleLabel(key), 'angle', '°', points, getOptimalRange(key, analysisType, ruleProfile, customProfiles))
+    ),
+    ...(consistencyPoints.length > 0
+      ? [createTrend('consistency', 'Consistency Score', 'consistency', '%', consistencyPoints, CONSISTENCY_RANGE)]
+      : []),
+    ...[...asymmetryPoints].map(([key, points]) =>
+      createTrend(`asymmetry-${key}`, `${formatMetricName(key)} Asymmetry`, 'asymmetry', '%', points, ASYMMETRY_RANGE)
+    ),
+  ];
+}
+
+/**
+ * Session groups present in an athlete's history, most sessions first
+ */
+export function getTrendGroups(records: AthleteSessionRecord[]): TrendGroup[] {
+  const counts = new Map<TrendGroup, number>();
+  records.forEach(record => {
+    const group = getTrendGroup(record.session);
+    counts.set(group, (counts.get(group) ?? 0) + 1);
+  });
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([group]) => group);
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findCycleStartTimes,
+  createPhaseAlignment,
+  mapComparisonTime,
+  getComparisonPlaybackRate,
+  normalizePoseForOverlay,
+  compareDetailedMetrics,
+} from './videoComparison';
+import type { FrameAnalysis, Keypoint, Pose } from '../types';
+
+describe('videoComparison', () => {
+  const createKeypoint = (name: string, x: number, y: number, score: number = 0.9): Keypoint => ({
+    name,
+    x,
+    y,
+    score,
+  });
+
+  const createMetric = (avg: number, consistency: number) => ({
+    min: avg,
+    max: avg,
+    avg,
+    range: 0,
+    stdDev: 0,
+    consistency,
+    values: [avg],
+  });
+
+  // Rider facing +x pedaling at `rpm` with the crank at 3 o'clock at time 0
+  const createPedalingFrames = (rpm: number, fps: number, seconds: number): FrameAnalysis[] =>
+    Array.from({ length: Math.round(fps * seconds) + 1 }, (_, i) => {
+      const t = i / fps;
+      const crank = 2 * Math.PI * (rpm / 60) * t + Math.PI / 2;
+      const pose: Pose = {
+        score: 0.9,
+        keypoints: [
+          createKeypoint('left_shoulder', 420, 150),
+          createKeypoint('left_wrist', 480, 220),
+          createKeypoint('left_hip', 300, 200),
+          createKeypoint('left_knee', 420, 300),
+          createKeypoint('left_ankle', 320 + 60 * Math.sin(crank), 428 - 60 * Math.cos(crank)),
+        ],
+      };
+      return { analysis: { angles: {}, recommendations: [], overall: 'good' }, pose, timestamp: t };
+    });
+
+  describe('findCycleStartTimes', () => {
+    it('should find each pass through top dead centre', () => {
+      const starts = findCycleStartTimes(createPedalingFrames(60, 15, 3.5), 'bike');
+      expect(starts).toHaveLength(3);
+      starts.forEach((start, i) => expect(start).toBeCloseTo(i + 0.75, 1));
+    });
+
+    it('should not find a cycle start in the gap between trimmed segments', () => {
+      const first = createPedalingFrames(60, 15, 1.6).map(frame => ({ ...frame, segment: 0 }));
+      const second = createPedalingFrames(60, 15, 1.6).map(frame => ({
+        ...frame,
+        timestamp: frame.timestamp + 30.1,
+        segment: 1,
+      }));
+      const starts = findCycleStartTimes([...first, ...second], 'bike');
+
+      expect(starts).toHaveLength(2);
+      expect(starts[0]).toBeCloseTo(0.75, 1);
+      expect(starts[1]).toBeCloseTo(30.85, 1);
+    });
+
+    it('should return no cycles without motion', () => {
+      expect(findCycleStartTimes([], 'bike')).toEqual([]);
+      expect(findCycleStartTimes([], 'running')).toEqual([]);
+    });
+  });
+
+  describe('createPhaseAlignment', () => {
+    it('should pair cycle starts in order', () => {
+      expect(createPhaseAlignment([1, 2, 3], [0.5, 1.5])).toEqual({
+        mode: 'phase',
+        anchors: [[1, 0.5], [2, 1.5]],
+      });
+    });
+
+    it('should fall back to wall time without cycles', () => {
+      expect(createPhaseAlignment([1, 2], [])).toEqual({ mode: 'time', anchors: [[0, 0]] });
+    });
+  });
+
+  describe('mapComparisonTime', () => {
+    // Video B pedals twice as fast and starts its first stroke later
+    const alignment = createPhaseAlignment([1, 2, 3], [2, 2.5, 3]);
+
+    it('should map times at the same phase of each cycle', () => {
+      expect(mapComparisonTime(alignment, 1)).toBe(2);
+      expect(mapComparisonTime(alignment, 1.5)).toBe(2.25);
+      expect(mapComparisonTime(alignment, 2.5)).toBe(2.75);
+    });
+
+    it('should extend the first and last cycle beyond the anchors', () => {
+      expect(mapComparisonTime(alignment, 0.5)).toBe(1.75);
+      expect(mapComparisonTime(alignment, 4)).toBe(3.5);
+    });
+
+    it('should never map before the start of video B', () => {
+      expect(mapComparisonTime(createPhaseAlignment([3], [0.5]), 0)).toBe(0);
+    });
+
+    it('should use wall time when not phase aligned', () => {
+      const wallTime = createPhaseAlignment([], []);
+      expect(mapComparisonTime(wallTime, 4.2)).toBe(4.2);
+      expect(getComparisonPlaybackRate(wallTime, 4.2)).toBe(1);
+    });
+  });
+
+  describe('getComparisonPlaybackRate', () => {
+    it('should match the cycle length ratio', () => {
+      expect(getComparisonPlaybackRate(createPhaseAlignment([1, 2], [2, 2.5]), 1.5)).toBe(0.5);
+    });
+
+    it('should clamp extreme rates', () => {
+      expect(getComparisonPlaybackRate(createPhaseAlignment([1, 2], [0, 10]), 1.5)).toBe(4);
+      expect(getComparisonPlaybackRate(createPhaseAlignment([1, 11], [0, 1]), 1.5)).toBe(0.25);
+    });
+  });
+
+  describe('normalizePoseForOverlay', () => {
+    it('should centre the hips and scale the torso', () => {
+      const pose: Pose = {
+        score: 0.9,
+        keypoints: [
+          createKeypoint('left_shoulder', 100, 100),
+          createKeypoint('left_hip', 100, 300),
+          createKeypoint('left_knee', 150, 400),
+        ],
+      };
+
+      const normalized = normalizePoseForOverlay(pose, 400, 400)!;
+      const [shoulder, hip, knee] = normalized.keypoints.map(({ x, y }) => [x, y].map(Math.round));
+      expect(hip).toEqual([200, 220]);
+      expect(shoulder).toEqual([200, 120]);
+      expect(knee).toEqual([225, 270]);
+    });
+
+    it('should return null without visible hips or shoulders', () => {
+      const pose: Pose = {
+        score: 0.9,
+        keypoints: [
+          createKeypoint('left_shoulder', 100, 100),
+          createKeypoint('left_hip', 100, 300, 0.1),
+        ],
+      };
+      expect(normalizePoseForOverlay(pose, 400, 400)).toBeNull();
+    });
+  });
+
+  describe('compareDetailedMetrics', () => {
+    it('should compare angles measured in both videos', () => {
+      const comparisons = compareDetailedMetrics(
+        { knee: createMetric(138.4, 70), hip: createMetric(50, 80) },
+        { knee: createMetric(146.1, 85), elbow: createMetric(150, 90) }
+      );
+
+      expect(comparisons).toEqual([
+        {
+          key: 'knee',
+          label: 'Knee',
+          a: 138.4,
+          b: 146.1,
+          delta: 7.7,
+          consistencyA: 70,
+          consistencyB: 85,
+        },
+      ]);
+    });
+
+    it('should return nothing until both videos are analyzed', () => {
+      expect(compareDetailedMetrics({ knee: createMetric(140, 80) }, null)).toEqual([]);
+    });
+  });
+});
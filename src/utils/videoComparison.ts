@@ -0,0 +1,204 @@
+import { analyzePedalStroke } from './pedalStroke';
+import { segmentGaitCycles } from './gaitCycle';
+import { formatMetricName } from './detailedMetrics';
+import type {
+  DetailedMetrics,
+  FrameAnalysis,
+  GaitLeg,
+  Keypoint,
+  MetricComparison,
+  PhaseAlignment,
+  Pose,
+  TorsoMeasurement,
+} from '../types';
+
+/**
+ * Video Comparison
+ * - Aligns two videos on pedal-stroke or gait-cycle phase instead of wall time
+ * - Maps playback time and rate from the leading video to the following one
+ * - Normalizes poses for a superimposed skeleton overlay
+ * - Per-angle deltas between two detailed metric results
+ */
+
+// Keypoints below this confidence are ignored
+const MIN_KEYPOINT_SCORE = 0.3;
+
+// Playback rate limits for the following video
+const MIN_PLAYBACK_RATE = 0.25;
+const MAX_PLAYBACK_RATE = 4;
+
+// Torso length in the overlay as a fraction of canvas height
+const OVERLAY_TORSO_SCALE = 0.25;
+
+/**
+ * Times at which the crank passes top dead centre
+ */
+function findCrankCycleStarts(frames: FrameAnalysis[]): number[] {
+  const stroke = analyzePedalStroke(frames);
+  if (!stroke) return [];
+
+  const starts: number[] = [];
+  let previous: { angle: number; time: number } | null = null;
+  stroke.crankAngles.forEach((angle, index) => {
+    // No crossing is interpolated across the gap between trimmed segments
+    if (index > 0 && frames[index].segment !== frames[index - 1].segment) previous = null;
+    if (angle === null) return;
+    const time = frames[index].timestamp;
+
+    if (previous) {
+      // Forward crank rotation that wraps past 0°
+      const step = ((angle - previous.angle + 540) % 360) - 180;
+      if (step > 0 && previous.angle + step >= 360) {
+        const fraction = (360 - previous.angle) / step;
+        starts.push(previous.time + fraction * (time - previous.time));
+      }
+    }
+    previous = { angle, time };
+  });
+
+  return starts;
+}
+
+/**
+ * Foot-strike times of the leg with the most detected strikes
+ */
+function findGaitCycleStarts(frames: FrameAnalysis[]): number[] {
+  const strikes = segmentGaitCycles(frames).events.filter(event => event.phase === 'foot-strike');
+  const byLeg = (leg: GaitLeg) => strikes.filter(event => event.leg === leg).map(event => event.time);
+
+  const left = byLeg('left');
+  const right = byLeg('right');
+  return left.length >= right.length ? left : right;
+}
+
+/**
+ * Times at which each pedal stroke (TDC) or stride (foot strike) begins
+ */
+export function findCycleStartTimes(frames: FrameAnalysis[], analysisType: 'bike' | 'running'): number[] {
+  return analysisType === 'bike' ? findCrankCycleStarts(frames) : findGaitCycleStarts(frames);
+}
+
+/**
+ * Pair up cycle starts of the two videos in order
+ * Falls back to wall-time alignment when either video has no detected cycles
+ */
+export function createPhaseAlignment(startsA: number[], startsB: number[]): PhaseAlignment {
+  const count = Math.min(startsA.length, startsB.length);
+  if (count === 0) {
+    return { mode: 'time', anchors: [[0, 0]] };
+  }
+
+  const anchors: Array<[number, number]> = [];
+  for (let i = 0; i < count; i++) {
+    anchors.push([startsA[i], startsB[i]]);
+  }
+  return { mode: 'phase', anchors };
+}
+
+// Slope of the mapping between two anchors (1 with a single anchor)
+function segmentRate(from: [number, number], to: [number, number] | undefined): number {
+  if (!to || to[0] === from[0]) return 1;
+  return (to[1] - from[1]) / (to[0] - from[0]);
+}
+
+/**
+ * Anchor segment covering a time in video A
+ * Times before the first or after the last anchor extend the nearest segment
+ */
+function findSegment(alignment: PhaseAlignment, timeA: number): { from: [number, number]; rate: number } {
+  const { anchors } = alignment;
+  let index = 0;
+  while (index < anchors.length - 2 && timeA >= anchors[index + 1][0]) {
+    index++;
+  }
+  return { from: anchors[index], rate: segmentRate(anchors[index], anchors[index + 1]) };
+}
+
+/**
+ * Time in video B at the same cycle phase as a time in video A
+ */
+export function mapComparisonTime(alignment: PhaseAlignment, timeA: number): number {
+  const { from, rate } = findSegment(alignment, timeA);
+  return Math.max(0, from[1] + (timeA - from[0]) * rate);
+}
+
+/**
+ * Playback rate for video B that keeps it in phase with video A
+ */
+export function getComparisonPlaybackRate(alignment: PhaseAlignment, timeA: number): number {
+  const { rate } = findSegment(alignment, timeA);
+  return Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+}
+
+// Midpoint of two keypoints if both are visible
+function midpoint(pose: Pose, a: string, b: string): { x: number; y: number } | null {
+  const first = pose.keypoints.find(kp => kp.name === a);
+  const second = pose.keypoints.find(kp => kp.name === b);
+  const visible = [first, second].filter((kp): kp is Keypoint => !!kp && (kp.score || 0) > MIN_KEYPOINT_SCORE);
+  if (visible.length === 0) return null;
+  return {
+    x: visible.reduce((sum, kp) => sum + kp.x, 0) / visible.length,
+    y: visible.reduce((sum, kp) => sum + kp.y, 0) / visible.length,
+  };
+}
+
+/**
+ * Hip and shoulder centres and the torso length between them
+ * @returns null if the hips or shoulders are not visible
+ */
+export function measureTorso(pose: Pose): TorsoMeasurement | null {
+  const hips = midpoint(pose, 'left_hip', 'right_hip');
+  const shoulders = midpoint(pose, 'left_shoulder', 'right_shoulder');
+  if (!hips || !shoulders) return null;
+
+  const length = Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y);
+  return length === 0 ? null : { hips, shoulders, length };
+}
+
+/**
+ * Move and scale a pose so the hips sit at the canvas centre and the torso has a fixed length,
+ * letting athletes filmed at different distances be superimposed
+ * @returns null if the hips or shoulders are not visible
+ */
+export function normalizePoseForOverlay(pose: Pose, width: number, height: number): Pose | null {
+  const torso = measureTorso(pose);
+  if (!torso) return null;
+
+  const { hips } = torso;
+  const scale = (height * OVERLAY_TORSO_SCALE) / torso.length;
+  return {
+    ...pose,
+    keypoints: pose.keypoints.map(kp => ({
+      ...kp,
+      x: width / 2 + (kp.x - hips.x) * scale,
+      y: height * 0.55 + (kp.y - hips.y) * scale,
+    })),
+  };
+}
+
+/**
+ * Per-angle averages and consistency of two analyses with the change from A to B
+ * Only angles measured in both videos are compared
+ */
+export function compareDetailedMetrics(
+  metricsA: DetailedMetrics | null,
+  metricsB: DetailedMetrics | null
+): MetricComparison[] {
+  if (!metricsA || !metricsB) return [];
+
+  return Object.keys(metricsA)
+    .filter(key => metricsB[key])
+    .map(key => {
+      const a = metricsA[key];
+      const b = metricsB[key];
+      return {
+        key,
+        label: formatMetricName(key),
+        a: a.avg,
+        b: b.avg,
+        delta: Math.round((b.avg - a.avg) * 10) / 10,
+        consistencyA: a.consistency,
+        consistencyB: b.consistency,
+      };
+    });
+}
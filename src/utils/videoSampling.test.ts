@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getSampleTimes, seekToTime, estimateFrameRate, findFramesAtTime, DEFAULT_VIDEO_FPS } from './videoSampling';
+import type { FrameAnalysis } from '../types';
+
+describe('videoSampling', () => {
+  describe('getSampleTimes', () => {
+    it('should return evenly spaced times excluding the ends', () => {
+      const times = getSampleTimes(10, { mode: 'even', frames: 4 });
+
+      expect(times).toEqual([2, 4, 6, 8]);
+    });
+
+    it('should sample at a fixed frame rate', () => {
+      const times = getSampleTimes(2, { mode: 'fps', fps: 10 });
+
+      expect(times).toHaveLength(20);
+      expect(times[0]).toBeCloseTo(0.05);
+      expect(times[1] - times[0]).toBeCloseTo(0.1);
+      expect(times[times.length - 1]).toBeLessThan(2);
+    });
+
+    it('should sample every frame at the native frame rate', () => {
+      const times = getSampleTimes(1, { mode: 'every-frame' }, 24);
+
+      expect(times).toHaveLength(24);
+    });
+
+    it('should fall back to the default frame rate for every-frame mode', () => {
+      const times = getSampleTimes(1, { mode: 'every-frame' });
+
+      expect(times).toHaveLength(DEFAULT_VIDEO_FPS);
+    });
+
+    it('should return no times for invalid durations', () => {
+      expect(getSampleTimes(0, { mode: 'fps', fps: 10 })).toEqual([]);
+      expect(getSampleTimes(NaN, { mode: 'even', frames: 5 })).toEqual([]);
+      expect(getSampleTimes(Infinity, { mode: 'fps', fps: 10 })).toEqual([]);
+    });
+
+    it('should return no times for a non-positive frame rate', () => {
+      expect(getSampleTimes(5, { mode: 'fps', fps: 0 })).toEqual([]);
+    });
+  });
+
+  describe('seekToTime', () => {
+    const createMockVideo = (withFrameCallback: boolean) => {
+      const target = new EventTarget();
+      const video: any = {
+        currentTime: 0,
+        addEventListener: target.addEventListener.bind(target),
+        dispatch: (type: string) => target.dispatchEvent(new Event(type)),
+      };
+      if (withFrameCallback) {
+        video.requestVideoFrameCallback = vi.fn();
+      }
+      return video;
+    };
+
+    it('should resolve with the presented frame media time when frame callbacks are supported', async () => {
+      const video = createMockVideo(true);
+
+      const promise = seekToTime(video, 1.5);
+      expect(video.currentTime).toBe(1.5);
+
+      const callback = video.requestVideoFrameCallback.mock.calls[0][0];
+      callback(0, { mediaTime: 1.467 });
+
+      await expect(promise).resolves.toBe(1.467);
+    });
+
+    it('should fall back to currentTime when no frame callback arrives', async () => {
+      vi.useFakeTimers();
+      const video = createMockVideo(true);
+
+      const promise = seekToTime(video, 2);
+      video.dispatch('seeked');
+      vi.runAllTimers();
+
+      await expect(promise).resolves.toBe(2);
+      vi.useRealTimers();
+    });
+
+    it('should reject when aborted before the frame is ready', async () => {
+      const video = createMockVideo(true);
+      const controller = new AbortController();
+
+      const promise = seekToTime(video, 1, controller.signal);
+      controller.abort(new Error('cancelled'));
+
+      await expect(promise).rejects.toThrow('cancelled');
+    });
+
+    it('should wait for seeked when frame callbacks are unsupported', async () => {
+      vi.useFakeTimers();
+      const video = createMockVideo(false);
+
+      const promise = seekToTime(video, 3);
+      video.dispatch('seeked');
+      vi.runAllTimers();
+
+      await expect(promise).resolves.toBe(3);
+      vi.useRealTimers();
+    });
+  });
+
+  describe('estimateFrameRate', () => {
+    const createMockVideo = () => {
+      const target = new EventTarget();
+      const video: any = {
+        muted: false,
+        ended: false,
+        addEventListener: target.addEventListener.bind(target),
+        removeEventListener: target.removeEventListener.bind(target),
+        dispatch: (type: string) => target.dispatchEvent(new Event(type)),
+        requestVideoFrameCallback: vi.fn(),
+        play: vi.fn(() => Promise.resolve()),
+        pause: vi.fn(),
+      };
+      return video;
+    };
+
+    it('should measure the frame rate from presented frames', async () => {
+      const video = createMockVideo();
+
+      const promise = estimateFrameRate(video);
+      for (let i = 0; i < 10; i++) {
+        const callback = video.requestVideoFrameCallback.mock.calls[i][0];
+        callback(0, { mediaTime: i / 25 });
+      }
+
+      await expect(promise).resolves.toBe(25);
+      expect(video.pause).toHaveBeenCalled();
+      expect(video.muted).toBe(false);
+    });
+
+    it('should resolve when the clip ends between frame callbacks', async () => {
+      const video = createMockVideo();
+
+      const promise = estimateFrameRate(video);
+      const callback = video.requestVideoFrameCallback.mock.calls[0][0];
+      callback(0, { mediaTime: 0 });
+      video.requestVideoFrameCallback.mock.calls[1][0](0, { mediaTime: 1 / 24 });
+      video.dispatch('ended');
+
+      await expect(promise).resolves.toBe(24);
+    });
+
+    it('should fall back to the default frame rate when no frames arrive', async () => {
+      vi.useFakeTimers();
+      const video = createMockVideo();
+
+      const promise = estimateFrameRate(video);
+      vi.runAllTimers();
+
+      await expect(promise).resolves.toBe(DEFAULT_VIDEO_FPS);
+      vi.useRealTimers();
+    });
+
+    it('should reject and pause the video when aborted', async () => {
+      const video = createMockVideo();
+      const controller = new AbortController();
+
+      const promise = estimateFrameRate(video, controller.signal);
+      controller.abort(new Error('cancelled'));
+
+      await expect(promise).rejects.toThrow('cancelled');
+      expect(video.pause).toHaveBeenCalled();
+    });
+  });
+
+  describe('findFramesAtTime', () => {
+    const createFrames = (timestamps: number[]): FrameAnalysis[] =>
+      timestamps.map(timestamp => ({
+        analysis: { angles: {}, recommendations: [], overall: 'good' },
+        pose: { keypoints: [], score: 0.9 },
+        timestamp,
+      }));
+
+    it('should return null without frames', () => {
+      expect(findFramesAtTime([], 1)).toBeNull();
+    });
+
+    it('should interpolate between the surrounding frames', () => {
+      const frames = createFrames([0, 1, 2, 4]);
+      const result = findFramesAtTime(frames, 3);
+
+      expect(result).toEqual({ index: 2, nextIndex: 3, factor: 0.5 });
+    });
+
+    it('should clamp to the first and last frames', () => {
+      const frames = createFrames([1, 2, 3]);
+
+      expect(findFramesAtTime(frames, 0)).toEqual({ index: 0, nextIndex: 0, factor: 0 });
+      expect(findFramesAtTime(frames, 10)).toEqual({ index: 2, nextIndex: 2, factor: 0 });
+    });
+
+    it('should use timestamps for irregular spacing', () => {
+      const frames = createFrames([0, 0.1, 0.2, 5]);
+      const result = findFramesAtTime(frames, 2.6);
+
+      expect(result!.index).toBe(2);
+      expect(result!.factor).toBeCloseTo(0.5);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import type { FrameAnalysis, SamplingOptions } from '../types';
+
+/**
+ * Video Sampling
+ * - Chooses which media timestamps to analyze (evenly spaced, fixed fps or every frame)
+ * - Seeks frame-accurately using requestVideoFrameCallback where available
+ * - Maps playback time back to the analyzed frames
+ */
+
+// Assumed frame rate when the browser cannot report one
+export const DEFAULT_VIDEO_FPS = 30;
+
+// Dense sampling used by the analysis views - enough for cadence and consistency metrics
+export const DENSE_SAMPLING: SamplingOptions = { mode: 'fps', fps: 15 };
+
+// Wait after 'seeked' before giving up on a frame callback (same-frame seeks never fire one)
+const FRAME_CALLBACK_TIMEOUT_MS = 50;
+
+// Wait after 'seeked' for the frame to render when frame callbacks are unsupported
+const SEEK_SETTLE_MS = 100;
+
+// Frames observed during playback to measure the native frame rate
+const FRAME_RATE_PROBE_FRAMES = 10;
+
+// Give up on the frame rate probe after this long and use whatever frames were seen
+const FRAME_RATE_PROBE_TIMEOUT_MS = 2000;
+
+/**
+ * Whether the browser supports HTMLVideoElement.requestVideoFrameCallback
+ */
+export function supportsVideoFrameCallback(video: HTMLVideoElement): boolean {
+  return typeof video.requestVideoFrameCallback === 'function';
+}
+
+/**
+ * Compute the media timestamps to analyze
+ * @param duration - Video duration in seconds
+ * @param options - Sampling mode
+ * @param frameRate - Native frame rate, used by 'every-frame' mode
+ * @returns Ascending timestamps in seconds
+ */
+export function getSampleTimes(
+  duration: number,
+  options: SamplingOptions,
+  frameRate: number = DEFAULT_VIDEO_FPS
+): number[] {
+  if (!duration || duration <= 0 || !isFinite(duration)) return [];
+
+  if (options.mode === 'even') {
+    // Evenly spaced, skipping the very first and last instants
+    const interval = duration / (options.frames + 1);
+    return Array.from({ length: options.frames }, (_, i) => (i + 1) * interval);
+  }
+
+  const fps = options.mode === 'fps' ? options.fps : frameRate;
+  if (!fps || fps <= 0) return [];
+
+  // Sample the middle of each frame so seeks don't land on a frame boundary
+  const step = 1 / fps;
+  const times: number[] = [];
+  for (let t = step / 2; t < duration; t += step) {
+    times.push(Math.round(t * 1000) / 1000);
+  }
+  return times;
+}
+
+/**
+ * Seek to a time and wait until the frame is ready to be read
+ * @param signal - Aborts the wait, rejecting with the signal's reason
+ * @returns The media timestamp of the presented frame
+ */
+export function seekToTime(video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<number> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    let settled = false;
+    const onAbort = () => {
+      if (!settled) {
+        settled = true;
+        reject(signal?.reason);
+      }
+    };
+    const finish = (mediaTime: number) => {
+      if (!settled) {
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        resolve(mediaTime);
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const useFrameCallback = supportsVideoFrameCallback(video);
+    if (useFrameCallback) {
+      video.requestVideoFrameCallback((_now, metadata) => finish(metadata.mediaTime));
+    }
+
+    video.addEventListener(
+      'seeked',
+      () => {
+        const delay = useFrameCallback ? FRAME_CALLBACK_TIMEOUT_MS : SEEK_SETTLE_MS;
+        setTimeout(() => finish(video.currentTime), delay);
+      },
+      { once: true }
+    );
+
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Measure the native frame rate by briefly playing the (muted) video
+ * @param signal - Aborts the probe, rejecting with the signal's reason
+ * @returns Frames per second, or DEFAULT_VIDEO_FPS when it cannot be measured
+ */
+export async function estimateFrameRate(video: HTMLVideoElement, signal?: AbortSignal): Promise<number> {
+  signal?.throwIfAborted();
+  if (!supportsVideoFrameCallback(video)) return DEFAULT_VIDEO_FPS;
+
+  const mediaTimes: number[] = [];
+  const wasMuted = video.muted;
+  video.muted = true;
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let onEnded: (() => void) | undefined;
+  let onAbort: (() => void) | undefined;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        mediaTimes.push(metadata.mediaTime);
+        if (mediaTimes.length >= FRAME_RATE_PROBE_FRAMES || video.ended) {
+          resolve();
+        } else {
+          video.requestVideoFrameCallback(onFrame);
+        }
+      };
+      // Short clips can end between frame callbacks, and some never play at all
+      onEnded = () => resolve();
+      onAbort = () => reject(signal?.reason);
+      timeoutId = setTimeout(resolve, FRAME_RATE_PROBE_TIMEOUT_MS);
+      video.addEventListener('ended', onEnded, { once: true });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      video.requestVideoFrameCallback(onFrame);
+      video.play().catch(reject);
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Frame rate probe failed:', error);
+  } finally {
+    clearTimeout(timeoutId);
+    if (onEnded) video.removeEventListener('ended', onEnded);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+    video.pause();
+    video.muted = wasMuted;
+  }
+
+  const intervals = mediaTimes
+    .slice(1)
+    .map((t, i) => t - mediaTimes[i])
+    .filter(dt => dt > 0)
+    .sort((a, b) => a - b);
+  if (intervals.length === 0) return DEFAULT_VIDEO_FPS;
+
+  const medianInterval = intervals[Math.floor(intervals.length / 2)];
+  return Math.round(1 / medianInterval);
+}
+
+/**
+ * Let the browser paint and handle input between heavy frame analyses
+ */
+export function yieldToMainThread(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Find the analyzed frames surrounding a playback time
+ * @returns Indices of the frames before and after the time and the interpolation factor between them
+ */
+export function findFramesAtTime(
+  frames: FrameAnalysis[],
+  time: number
+): { index: number; nextIndex: number; factor: number } | null {
+  if (frames.length === 0) return null;
+
+  if (time <= frames[0].timestamp) return { index: 0, nextIndex: 0, factor: 0 };
+
+  const last = frames.length - 1;
+  if (time >= frames[last].timestamp) return { index: last, nextIndex: last, factor: 0 };
+
+  // Binary search for the last frame at or before the time
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (frames[mid].timestamp <= time) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const span = frames[high].timestamp - frames[low].timestamp;
+  return {
+    index: low,
+    nextIndex: high,
+    factor: span > 0 ? (time - frames[low].timestamp) / span : 0,
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeSegments,
+  getSegmentsDuration,
+  validateSegments,
+  getSegmentSampleTimes,
+  findSegmentIndex,
+  getThumbnailTimes,
+  formatSegmentTime,
+  MAX_ANALYZED_SECONDS,
+} from './videoSegments';
+
+describe('videoSegments', () => {
+  describe('normalizeSegments', () => {
+    it('should sort segments and merge overlaps', () => {
+      const segments = normalizeSegments(
+        [{ start: 50, end: 60 }, { start: 10, end: 20 }, { start: 15, end: 25 }],
+        120
+      );
+
+      expect(segments).toEqual([{ start: 10, end: 25 }, { start: 50, end: 60 }]);
+    });
+
+    it('should clamp to the video and swap reversed in/out points', () => {
+      expect(normalizeSegments([{ start: 100, end: 90 }, { start: -5, end: 3 }], 95)).toEqual([
+        { start: 0, end: 3 },
+        { start: 90, end: 95 },
+      ]);
+    });
+
+    it('should drop empty segments', () => {
+      expect(normalizeSegments([{ start: 5, end: 5 }, { start: 130, end: 140 }], 120)).toEqual([]);
+    });
+  });
+
+  describe('validateSegments', () => {
+    it('should allow short videos without segments', () => {
+      expect(validateSegments([], 20)).toBeNull();
+    });
+
+    it('should require segments for long videos', () => {
+      expect(validateSegments([], 90)).toContain('Select the parts');
+      expect(validateSegments([{ start: 10, end: 30 }], 90)).toBeNull();
+    });
+
+    it('should reject too much footage and too short segments', () => {
+      const tooLong = [{ start: 0, end: 20 }, { start: 40, end: 40 + MAX_ANALYZED_SECONDS - 15 }];
+      expect(getSegmentsDuration(tooLong)).toBe(35);
+      expect(validateSegments(tooLong, 90)).toContain('35.0 seconds');
+
+      expect(validateSegments([{ start: 10, end: 10.5 }], 90)).toContain('at least');
+    });
+  });
+
+  describe('getSegmentSampleTimes', () => {
+    it('should offset sampling into each segment', () => {
+      const times = getSegmentSampleTimes([{ start: 10, end: 11 }, { start: 40, end: 41 }], { mode: 'fps', fps: 10 });
+
+      expect(times).toHaveLength(2);
+      expect(times[0]).toHaveLength(10);
+      expect(times[0][0]).toBeCloseTo(10.05);
+      expect(times[1][9]).toBeCloseTo(40.95);
+    });
+
+    it('should share even sampling in proportion to segment length', () => {
+      const times = getSegmentSampleTimes([{ start: 0, end: 30 }, { start: 60, end: 70 }], { mode: 'even', frames: 24 });
+
+      expect(times.map(segment => segment.length)).toEqual([18, 6]);
+      expect(times[1].every(time => time > 60 && time < 70)).toBe(true);
+    });
+  });
+
+  describe('findSegmentIndex', () => {
+    it('should find the segment containing a time', () => {
+      const segments = [{ start: 10, end: 20 }, { start: 40, end: 50 }];
+
+      expect(findSegmentIndex(segments, 45)).toBe(1);
+      expect(findSegmentIndex(segments, 30)).toBe(-1);
+    });
+  });
+
+  describe('getThumbnailTimes', () => {
+    it('should centre thumbnails in equal slots', () => {
+      expect(getThumbnailTimes(100, 4)).toEqual([12.5, 37.5, 62.5, 87.5]);
+      expect(getThumbnailTimes(NaN, 4)).toEqual([]);
+    });
+  });
+
+  describe('formatSegmentTime', () => {
+    it('should format minutes and tenths of a second', () => {
+      expect(formatSegmentTime(65.24)).toBe('1:05.2');
+      expect(formatSegmentTime(59.96)).toBe('1:00.0');
+      expect(formatSegmentTime(3)).toBe('0:03.0');
+    });
+  });
+});
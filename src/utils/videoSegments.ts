@@ -0,0 +1,133 @@
+import { getSampleTimes, DEFAULT_VIDEO_FPS } from './videoSampling';
+import type { SamplingOptions, VideoSegment } from '../types';
+
+/**
+ * Video Segments
+ * - In/out ranges picked from longer recordings, so only those parts are analyzed
+ * - Keeps ranges inside the video, in order and without overlaps
+ * - Spreads the sampled frames across the segments
+ * - Splits analyzed frames back into segments for time-series measurements
+ */
+
+// Longest video analyzed whole, and the most footage analyzed from a trimmed one
+export const MAX_ANALYZED_SECONDS = 30;
+
+// Longest recording accepted for trimming
+export const MAX_TRIMMABLE_SECONDS = 15 * 60;
+
+// Shortest useful segment - a couple of pedal strokes or strides
+export const MIN_SEGMENT_SECONDS = 1;
+
+/**
+ * Clamp segments to the video, drop empty ones, sort them and merge overlaps
+ */
+export function normalizeSegments(segments: VideoSegment[], duration: number): VideoSegment[] {
+  const clamped = segments
+    .map(({ start, end }) => ({
+      start: Math.max(0, Math.min(start, end)),
+      end: Math.min(duration, Math.max(start, end)),
+    }))
+    .filter(({ start, end }) => end > start)
+    .sort((a, b) => a.start - b.start);
+
+  return clamped.reduce<VideoSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && segment.start <= last.end) {
+      last.end = Math.max(last.end, segment.end);
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Total footage covered by the segments, in seconds
+ */
+export function getSegmentsDuration(segments: VideoSegment[]): number {
+  return segments.reduce((sum, { start, end }) => sum + (end - start), 0);
+}
+
+/**
+ * Check the selection before analysis
+ * @returns A user-facing message, or null when the video can be analyzed
+ */
+export function validateSegments(segments: VideoSegment[], duration: number): string | null {
+  if (segments.length === 0) {
+    return duration > MAX_ANALYZED_SECONDS
+      ? `Select the parts of the video to analyze (up to ${MAX_ANALYZED_SECONDS} seconds in total)`
+      : null;
+  }
+  if (segments.some(({ start, end }) => end - start < MIN_SEGMENT_SECONDS)) {
+    return `Segments must be at least ${MIN_SEGMENT_SECONDS} second long`;
+  }
+  const total = getSegmentsDuration(segments);
+  if (total > MAX_ANALYZED_SECONDS) {
+    return `Selected segments total ${total.toFixed(1)} seconds; the limit is ${MAX_ANALYZED_SECONDS} seconds`;
+  }
+  return null;
+}
+
+/**
+ * Compute the media timestamps to analyze in each segment
+ * In 'even' mode the frame budget is shared in proportion to segment length
+ * @returns Ascending timestamps in seconds, one list per segment
+ */
+export function getSegmentSampleTimes(
+  segments: VideoSegment[],
+  options: SamplingOptions,
+  frameRate: number = DEFAULT_VIDEO_FPS
+): number[][] {
+  const total = getSegmentsDuration(segments);
+
+  return segments.map(({ start, end }) => {
+    const length = end - start;
+    const segmentOptions: SamplingOptions = options.mode === 'even'
+      ? { mode: 'even', frames: Math.max(1, Math.round((options.frames * length) / total)) }
+      : options;
+
+    return getSampleTimes(length, segmentOptions, frameRate).map(time => Math.round((start + time) * 1000) / 1000);
+  });
+}
+
+/**
+ * Index of the segment containing a time, or -1 outside every segment
+ */
+export function findSegmentIndex(segments: VideoSegment[], time: number): number {
+  return segments.findIndex(({ start, end }) => time >= start && time <= end);
+}
+
+/**
+ * Split chronological frames into runs from the same segment, so time-series
+ * measurements never bridge the footage cut out between segments
+ * Frames without a segment (untrimmed videos) stay in a single run
+ */
+export function splitBySegment<T extends { segment?: number }>(frames: T[]): T[][] {
+  return frames.reduce<T[][]>((runs, frame) => {
+    const run = runs[runs.length - 1];
+    if (run && run[0].segment === frame.segment) {
+      run.push(frame);
+    } else {
+      runs.push([frame]);
+    }
+    return runs;
+  }, []);
+}
+
+/**
+ * Evenly spaced times for timeline thumbnails, each centred in its slot
+ */
+export function getThumbnailTimes(duration: number, count: number): number[] {
+  if (!duration || duration <= 0 || !isFinite(duration) || count <= 0) return [];
+  return Array.from({ length: count }, (_, i) => ((i + 0.5) * duration) / count);
+}
+
+/**
+ * Format a time as m:ss.s for the trimmer
+ */
+export function formatSegmentTime(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = ((tenths - minutes * 600) / 10).toFixed(1).padStart(4, '0');
+  return `${minutes}:${rest}`;
+}
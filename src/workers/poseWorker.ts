@@ -0,0 +1,62 @@
+import { initializePoseDetector, detectPose, detectPoses } from '../utils/poseDetection';
+import type { PoseWorkerRequest, PoseWorkerResponse } from '../types';
+
+/**
+ * Pose detection worker
+ * Runs TensorFlow.js off the main thread (WebGL via OffscreenCanvas).
+ * Requests are handled one at a time in arrival order; a request cancelled
+ * before it starts is skipped, one cancelled mid-detection has its result dropped.
+ */
+
+const cancelled = new Set<number>();
+let queue: Promise<void> = Promise.resolve();
+
+function respond(response: PoseWorkerResponse): void {
+  self.postMessage(response);
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function handleRequest(request: Exclude<PoseWorkerRequest, { type: 'cancel' }>): Promise<void> {
+  const { id } = request;
+
+  try {
+    if (cancelled.has(id)) {
+      respond({ type: 'cancelled', id });
+      return;
+    }
+
+    if (request.type === 'init') {
+      await initializePoseDetector(request.model);
+      respond({ type: 'ready', id });
+      return;
+    }
+
+    if (request.type === 'detect-all') {
+      const poses = await detectPoses(request.bitmap, request.model);
+      respond(cancelled.has(id) ? { type: 'cancelled', id } : { type: 'results', id, poses });
+      return;
+    }
+
+    const pose = await detectPose(request.bitmap, request.model);
+    respond(cancelled.has(id) ? { type: 'cancelled', id } : { type: 'result', id, pose });
+  } catch (error) {
+    respond({ type: 'error', id, message: getErrorMessage(error) });
+  } finally {
+    if (request.type !== 'init') request.bitmap.close();
+    cancelled.delete(id);
+  }
+}
+
+self.onmessage = (event: MessageEvent<PoseWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    cancelled.add(request.id);
+    return;
+  }
+
+  queue = queue.then(() => handleRequest(request));
+};